@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback } from 'react'
+import React, { useState, useEffect, useCallback, useMemo } from 'react'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
@@ -7,8 +7,14 @@ import { MapPin, Navigation, Clock, DollarSign } from 'lucide-react'
 import { LocationCoords, useGeolocation } from '@/hooks/useGeolocation'
 import { supabase } from '@/integrations/supabase/client'
 import { useSystemSettings } from '@/hooks/useSystemSettings'
+import { useServiceZones } from '@/hooks/useServiceZones'
 import { useAuth } from '@/hooks/useAuth'
 import { toast } from 'sonner'
+import { VEHICLE_TYPES, VehicleType } from '@/lib/vehicleFares'
+import { FareBreakdown, calculateFare, resolveFareSettings } from '@/lib/fare'
+import { getZoneBounds, OUTSIDE_SERVICE_AREA_MESSAGE } from '@/lib/serviceZones'
+import { DEFAULT_MAX_RIDE_STOPS, StopSelection, sumRouteLegs, toWaypoints } from '@/lib/rideStops'
+import { StopsEditor } from '@/components/maps/StopsEditor'
 
 interface LocationSelection {
   coords: LocationCoords
@@ -19,17 +25,10 @@ interface LocationSelection {
 interface RouteInfo {
   origin: LocationSelection
   destination: LocationSelection
+  stops: StopSelection[]
   distance: number
   duration: number
-  price: number
-  driverEarnings: number
-  appFee: number
-  priceBreakdown: {
-    basePrice: number
-    distancePrice: number
-    minimumFare: number
-    pricingModel: string
-  }
+  estimates: Record<VehicleType, FareBreakdown>
 }
 
 interface AddressSelectorProps {
@@ -42,8 +41,10 @@ export const AddressSelector: React.FC<AddressSelectorProps> = ({
   const { user } = useAuth()
   const { coords: currentLocation, loading: locationLoading } = useGeolocation()
   const { settings: systemSettings } = useSystemSettings()
+  const { zones, zoneFor, isServed } = useServiceZones()
   const [origin, setOrigin] = useState<LocationSelection | null>(null)
   const [destination, setDestination] = useState<LocationSelection | null>(null)
+  const [stops, setStops] = useState<StopSelection[]>([])
   const [originQuery, setOriginQuery] = useState('')
   const [destinationQuery, setDestinationQuery] = useState('')
   const [originResults, setOriginResults] = useState<any[]>([])
@@ -53,6 +54,16 @@ export const AddressSelector: React.FC<AddressSelectorProps> = ({
   const [isCalculatingRoute, setIsCalculatingRoute] = useState(false)
   const [isGettingAddress, setIsGettingAddress] = useState(false)
 
+  // Zona do passageiro (ou a primeira ativa) para enviesar a busca de endereços
+  const passengerZone = zoneFor(currentLocation) ?? zones[0] ?? null
+  const searchBias = useMemo(
+    () => passengerZone && {
+      location: getZoneBounds(passengerZone).center,
+      radiusKm: getZoneBounds(passengerZone).radiusKm,
+    },
+    [passengerZone]
+  )
+
   // Function to get address from coordinates using reverse geocoding
   const getAddressFromCoords = async (coords: LocationCoords): Promise<string> => {
     if (!user) return 'Localização atual'
@@ -112,6 +123,10 @@ export const AddressSelector: React.FC<AddressSelectorProps> = ({
         body: {
           action: 'places-autocomplete',
           input: query,
+          ...(passengerZone && {
+            location: getZoneBounds(passengerZone).center,
+            radiusKm: getZoneBounds(passengerZone).radiusKm,
+          }),
         },
       })
 
@@ -136,7 +151,7 @@ export const AddressSelector: React.FC<AddressSelectorProps> = ({
       if (type === 'origin') setIsSearchingOrigin(false)
       else setIsSearchingDestination(false)
     }
-  }, [user])
+  }, [user, passengerZone])
 
   // Debounce search
   useEffect(() => {
@@ -206,6 +221,7 @@ export const AddressSelector: React.FC<AddressSelectorProps> = ({
           action: 'directions',
           origin: `${origin.coords.lat},${origin.coords.lng}`,
           destination: `${destination.coords.lat},${destination.coords.lng}`,
+          waypoints: toWaypoints(stops),
         },
       })
 
@@ -215,62 +231,27 @@ export const AddressSelector: React.FC<AddressSelectorProps> = ({
       }
 
       if (data?.routes && data.routes.length > 0) {
-        const route = data.routes[0]
-        const leg = route.legs[0]
-        
-        const distanceKm = leg.distance.value / 1000
-        
-        // Use dynamic pricing from system settings or defaults
-        const settings = systemSettings || {
-          fixed_rate: 5.0,
-          price_per_km: 2.5,
-          minimum_fare: 8.0,
-          app_fee_percentage: 20.0,
-          pricing_model: 'per_km',
-          fee_type: 'percentage',
-        }
-
-        let totalPrice = 0
-        let basePrice = 0
-        let distancePrice = 0
-
-        if (settings.pricing_model === 'fixed') {
-          totalPrice = settings.fixed_rate
-          basePrice = settings.fixed_rate
-          distancePrice = 0
-        } else {
-          basePrice = settings.fixed_rate
-          distancePrice = distanceKm * settings.price_per_km
-          totalPrice = basePrice + distancePrice
-        }
-
-        const finalPrice = Math.max(totalPrice, settings.minimum_fare)
-
-        let appFee = 0
-        let driverEarnings = 0
-
-        if (settings.fee_type === 'percentage') {
-          appFee = finalPrice * (settings.app_fee_percentage / 100)
-          driverEarnings = finalPrice - appFee
-        } else {
-          appFee = settings.app_fee_percentage
-          driverEarnings = finalPrice - appFee
+        // Um trecho por parada; o preço considera o trajeto inteiro
+        const { distanceKm, durationMinutes } = sumRouteLegs(data.routes[0].legs)
+
+        // Uma estimativa por categoria para o passageiro comparar.
+        // O servidor recalcula o mesmo valor ao criar a corrida.
+        const originZone = zoneFor(origin.coords)
+        const estimates = {} as Record<VehicleType, FareBreakdown>
+        for (const vehicleType of VEHICLE_TYPES) {
+          estimates[vehicleType] = calculateFare(
+            { distanceKm, durationMinutes },
+            resolveFareSettings(systemSettings, vehicleType, originZone?.fare_overrides)
+          )
         }
 
         const routeData = {
           origin,
           destination,
+          stops,
           distance: distanceKm,
-          duration: leg.duration.value / 60,
-          price: finalPrice,
-          driverEarnings,
-          appFee,
-          priceBreakdown: {
-            basePrice,
-            distancePrice,
-            minimumFare: settings.minimum_fare,
-            pricingModel: settings.pricing_model
-          }
+          duration: durationMinutes,
+          estimates
         }
 
         onRouteCalculated?.(routeData)
@@ -310,7 +291,7 @@ export const AddressSelector: React.FC<AddressSelectorProps> = ({
     if (origin && destination && user) {
       calculateRoute()
     }
-  }, [origin, destination, user])
+  }, [origin, destination, stops, user])
 
   if (!user) {
     return (
@@ -383,8 +364,19 @@ export const AddressSelector: React.FC<AddressSelectorProps> = ({
           {isSearchingOrigin && (
             <p className="text-xs text-muted-foreground">Buscando endereços...</p>
           )}
+          {origin && !isServed(origin.coords) && (
+            <p className="text-xs text-destructive">{OUTSIDE_SERVICE_AREA_MESSAGE}</p>
+          )}
         </div>
 
+        {/* Stops */}
+        <StopsEditor
+          stops={stops}
+          onChange={setStops}
+          maxStops={systemSettings?.max_ride_stops ?? DEFAULT_MAX_RIDE_STOPS}
+          bias={searchBias}
+        />
+
         {/* Destination Field */}
         <div className="space-y-2">
           <label className="text-sm font-medium text-foreground">
@@ -0,0 +1,96 @@
+import React, { useState } from 'react'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group'
+import { Textarea } from '@/components/ui/textarea'
+import { useToast } from '@/hooks/use-toast'
+import { CancellationActor, CANCELLATION_REASONS, cancelRide } from '@/lib/rideCancellation'
+import { RideRow, RideTransitionError } from '@/lib/rideStatus'
+
+const MAX_CANCELLATION_NOTE_LENGTH = 500
+
+interface CancelRideDialogProps {
+  rideId: string
+  actor: CancellationActor
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  // Aviso mostrado antes de confirmar, por exemplo a taxa de cancelamento
+  warning?: string | null
+  onCancelled?: (ride: RideRow) => void
+}
+
+export const CancelRideDialog: React.FC<CancelRideDialogProps> = ({
+  rideId,
+  actor,
+  open,
+  onOpenChange,
+  warning,
+  onCancelled
+}) => {
+  const { toast } = useToast()
+  const [reason, setReason] = useState('')
+  const [note, setNote] = useState('')
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const handleConfirm = async () => {
+    setIsSubmitting(true)
+    try {
+      const ride = await cancelRide(rideId, reason, note.trim())
+      onOpenChange(false)
+      setReason('')
+      setNote('')
+      onCancelled?.(ride)
+    } catch (error) {
+      toast({
+        title: 'Erro ao cancelar',
+        description: error instanceof RideTransitionError ? error.message : 'Não foi possível cancelar a corrida',
+        variant: 'destructive',
+      })
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Cancelar corrida</DialogTitle>
+          <DialogDescription>
+            {actor === 'driver'
+              ? 'Informe o motivo. A corrida volta a ser oferecida a outros motoristas.'
+              : 'Informe o motivo do cancelamento.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <RadioGroup value={reason} onValueChange={setReason} className="space-y-1">
+          {CANCELLATION_REASONS[actor].map(({ code, label }) => (
+            <div key={code} className="flex items-center gap-2">
+              <RadioGroupItem value={code} id={`cancel-reason-${code}`} />
+              <Label htmlFor={`cancel-reason-${code}`} className="font-normal">{label}</Label>
+            </div>
+          ))}
+        </RadioGroup>
+
+        <Textarea
+          placeholder="Observação (opcional)"
+          maxLength={MAX_CANCELLATION_NOTE_LENGTH}
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+        />
+
+        {warning && <p className="text-sm text-warning">{warning}</p>}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSubmitting}>
+            Voltar
+          </Button>
+          <Button variant="destructive" onClick={handleConfirm} disabled={!reason || isSubmitting}>
+            {isSubmitting ? 'Cancelando...' : 'Confirmar cancelamento'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
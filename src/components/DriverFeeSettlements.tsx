@@ -0,0 +1,262 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { useAuditLog } from '@/hooks/useAuditLog';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  DriverFeeBalance,
+  DriverFeeSettlement,
+  SETTLEMENT_METHOD_LABELS,
+  SETTLEMENT_METHODS,
+  SettlementMethod,
+} from '@/lib/driverFees';
+import { Wallet } from 'lucide-react';
+
+interface SettlementForm {
+  driver_id: string;
+  amount: string;
+  method: SettlementMethod;
+  reference: string;
+}
+
+export const DriverFeeSettlements = () => {
+  const { toast } = useToast();
+  const { logAction } = useAuditLog();
+  const [balances, setBalances] = useState<DriverFeeBalance[]>([]);
+  const [settlements, setSettlements] = useState<DriverFeeSettlement[]>([]);
+  const [names, setNames] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [form, setForm] = useState<SettlementForm | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const fetchData = useCallback(async () => {
+    try {
+      setLoading(true);
+
+      const [balancesRes, settlementsRes] = await Promise.all([
+        supabase.rpc('get_driver_fee_balances'),
+        supabase
+          .from('driver_fee_settlements')
+          .select('*')
+          .order('received_at', { ascending: false })
+          .limit(20),
+      ]);
+
+      if (balancesRes.error) throw balancesRes.error;
+      if (settlementsRes.error) throw settlementsRes.error;
+
+      const driverIds = (balancesRes.data ?? []).map(balance => balance.driver_id);
+      const { data: profilesData } = driverIds.length > 0
+        ? await supabase.from('profiles').select('user_id, full_name').in('user_id', driverIds)
+        : { data: [] };
+
+      setNames(Object.fromEntries((profilesData ?? []).map(profile => [profile.user_id, profile.full_name])));
+      setBalances((balancesRes.data ?? []).sort((a, b) => b.balance - a.balance));
+      setSettlements(settlementsRes.data ?? []);
+    } catch (error) {
+      console.error('Error loading driver fee balances:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  const handleSave = async () => {
+    if (!form) return;
+
+    const amount = parseFloat(form.amount);
+    if (isNaN(amount) || amount <= 0) {
+      toast({
+        title: "Dados Inválidos",
+        description: "Informe um valor de pagamento maior que zero.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const payload = {
+      driver_id: form.driver_id,
+      amount,
+      method: form.method,
+      reference: form.reference.trim() || null,
+    };
+
+    setIsSaving(true);
+    try {
+      const { data, error } = await supabase
+        .from('driver_fee_settlements')
+        .insert(payload)
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      await logAction('RECORD_FEE_SETTLEMENT', 'driver_fee_settlements', data.id, null, payload);
+
+      toast({
+        title: "Pagamento Registrado",
+        description: `R$ ${amount.toFixed(2)} recebidos de ${names[form.driver_id] || 'motorista'}.`,
+      });
+
+      setForm(null);
+      fetchData();
+    } catch (error) {
+      console.error('Error recording fee settlement:', error);
+      toast({
+        title: "Erro ao Registrar",
+        description: "Não foi possível registrar o pagamento.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Wallet className="w-5 h-5" />
+          Taxas a Receber dos Motoristas
+        </CardTitle>
+        <CardDescription>
+          Taxas do app em aberto por motorista e pagamentos recebidos
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {loading ? (
+          <p className="text-sm text-muted-foreground">Carregando saldos...</p>
+        ) : balances.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Nenhum motorista cadastrado.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Motorista</TableHead>
+                <TableHead>Taxas</TableHead>
+                <TableHead>Pago</TableHead>
+                <TableHead>Saldo</TableHead>
+                <TableHead>Situação</TableHead>
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {balances.map(balance => (
+                <TableRow key={balance.driver_id}>
+                  <TableCell className="font-medium">{names[balance.driver_id] || 'Nome não informado'}</TableCell>
+                  <TableCell>R$ {balance.total_fees.toFixed(2)}</TableCell>
+                  <TableCell>R$ {balance.total_settled.toFixed(2)}</TableCell>
+                  <TableCell className="font-medium">R$ {balance.balance.toFixed(2)}</TableCell>
+                  <TableCell>
+                    {balance.is_blocked ? (
+                      <Badge variant="destructive">Bloqueado</Badge>
+                    ) : (
+                      <Badge variant="secondary">Liberado</Badge>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setForm({
+                        driver_id: balance.driver_id,
+                        amount: balance.balance > 0 ? balance.balance.toFixed(2) : '',
+                        method: 'pix',
+                        reference: '',
+                      })}
+                    >
+                      Registrar Pagamento
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        {form && (
+          <div className="space-y-4 p-4 border rounded-lg">
+            <h4 className="text-sm font-medium">
+              Pagamento de {names[form.driver_id] || 'motorista'}
+            </h4>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <Label htmlFor="settlement_amount">Valor (R$)</Label>
+                <Input
+                  id="settlement_amount"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={form.amount}
+                  onChange={(e) => setForm({ ...form, amount: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="settlement_method">Forma de Pagamento</Label>
+                <Select
+                  value={form.method}
+                  onValueChange={(value) => setForm({ ...form, method: value as SettlementMethod })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {SETTLEMENT_METHODS.map(method => (
+                      <SelectItem key={method} value={method}>{SETTLEMENT_METHOD_LABELS[method]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="settlement_reference">Referência</Label>
+                <Input
+                  id="settlement_reference"
+                  placeholder="Comprovante, ID do Pix..."
+                  value={form.reference}
+                  onChange={(e) => setForm({ ...form, reference: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="flex gap-2">
+              <Button onClick={handleSave} disabled={isSaving}>
+                {isSaving ? 'Salvando...' : 'Confirmar Recebimento'}
+              </Button>
+              <Button variant="outline" onClick={() => setForm(null)} disabled={isSaving}>
+                Cancelar
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {settlements.length > 0 && (
+          <div className="space-y-2">
+            <h4 className="text-sm font-medium">Pagamentos Recentes</h4>
+            {settlements.map(settlement => (
+              <div key={settlement.id} className="flex items-center justify-between p-3 border rounded-lg text-sm">
+                <div>
+                  <span className="font-medium">{names[settlement.driver_id] || 'Motorista'}</span>
+                  <p className="text-xs text-muted-foreground">
+                    {new Date(settlement.received_at).toLocaleString('pt-BR')}
+                    {' · '}
+                    {SETTLEMENT_METHOD_LABELS[settlement.method as SettlementMethod] ?? settlement.method}
+                    {settlement.reference && ` · ${settlement.reference}`}
+                  </p>
+                </div>
+                <span className="font-medium">R$ {settlement.amount.toFixed(2)}</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -2,18 +2,19 @@ import React from 'react'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
-import { CheckCircle, User, Phone, Car, MapPin } from 'lucide-react'
+import { CheckCircle, User, Car, MapPin } from 'lucide-react'
+import { RideContactButton } from '@/components/RideContactButton'
 
 interface DriverFoundProps {
   driver: {
     full_name: string
-    phone: string
     vehicle_brand: string
     vehicle_model: string
     vehicle_color: string
     vehicle_plate: string
   }
   ride: {
+    id: string
     origin_address: string
     destination_address: string
     estimated_price?: number
@@ -51,13 +52,10 @@ export const DriverFound: React.FC<DriverFoundProps> = ({
             
             <div className="flex items-center gap-3 p-3 bg-muted rounded-lg">
               <User className="w-8 h-8 text-primary" />
-              <div>
+              <div className="flex-1">
                 <p className="font-medium">{driver.full_name}</p>
-                <p className="text-sm text-muted-foreground flex items-center gap-1">
-                  <Phone className="w-3 h-3" />
-                  {driver.phone}
-                </p>
               </div>
+              <RideContactButton rideId={ride.id} />
             </div>
 
             <div className="flex items-center gap-3 p-3 bg-muted rounded-lg">
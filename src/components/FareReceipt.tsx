@@ -0,0 +1,98 @@
+import React from 'react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Receipt } from 'lucide-react'
+import { Json } from '@/integrations/supabase/types'
+import { FareBreakdown } from '@/lib/fare'
+import { formatSurgeMultiplier } from '@/lib/surge'
+
+interface FareReceiptProps {
+  // final_fare_breakdown gravado pela função complete-ride
+  breakdown?: Json | null
+  finalPrice?: number | null
+  // Motorista vê também a taxa do app e o valor líquido
+  showDriverSplit?: boolean
+}
+
+const formatPrice = (value: number) => `R$ ${value.toFixed(2)}`
+
+export const FareReceipt: React.FC<FareReceiptProps> = ({
+  breakdown,
+  finalPrice,
+  showDriverSplit = false
+}) => {
+  const fare = breakdown as unknown as FareBreakdown | null | undefined
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center gap-2 text-base">
+          <Receipt className="h-4 w-4" />
+          Recibo da Corrida
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {fare ? (
+          <div className="space-y-1 text-sm">
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Tarifa base</span>
+              <span>{formatPrice(fare.base)}</span>
+            </div>
+            {fare.distance > 0 && (
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Distância</span>
+                <span>{formatPrice(fare.distance)}</span>
+              </div>
+            )}
+            {fare.time > 0 && (
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Tempo de viagem</span>
+                <span>{formatPrice(fare.time)}</span>
+              </div>
+            )}
+            {fare.surge > 0 && (
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Tarifa dinâmica ({formatSurgeMultiplier(fare.surgeMultiplier)})</span>
+                <span>{formatPrice(fare.surge)}</span>
+              </div>
+            )}
+            {fare.waiting > 0 && (
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Espera ({fare.waitingMinutes} min)</span>
+                <span>{formatPrice(fare.waiting)}</span>
+              </div>
+            )}
+            {fare.minimumFareAdjustment > 0 && (
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Ajuste tarifa mínima</span>
+                <span>{formatPrice(fare.minimumFareAdjustment)}</span>
+              </div>
+            )}
+            <div className="flex justify-between font-semibold border-t pt-2 mt-2">
+              <span>Total</span>
+              <span className="text-primary">{formatPrice(fare.total)}</span>
+            </div>
+            {showDriverSplit && (
+              <>
+                <div className="flex justify-between text-xs text-muted-foreground">
+                  <span>Taxa do app</span>
+                  <span>{formatPrice(fare.appFee)}</span>
+                </div>
+                <div className="flex justify-between text-xs font-medium">
+                  <span>Seu ganho</span>
+                  <span>{formatPrice(fare.driverNet)}</span>
+                </div>
+              </>
+            )}
+          </div>
+        ) : (
+          <div className="flex justify-between text-sm font-semibold">
+            <span>Total</span>
+            <span className="text-primary">
+              {finalPrice != null ? formatPrice(finalPrice) : 'Calculando...'}
+            </span>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
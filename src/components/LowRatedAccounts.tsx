@@ -0,0 +1,119 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { supabase } from '@/integrations/supabase/client';
+import { LowRatedAccount } from '@/lib/ratings';
+import { Star } from 'lucide-react';
+
+const DEFAULT_THRESHOLD = 4;
+const DEFAULT_MIN_RATINGS = 5;
+
+export const LowRatedAccounts = () => {
+  const [accounts, setAccounts] = useState<LowRatedAccount[]>([]);
+  const [threshold, setThreshold] = useState(String(DEFAULT_THRESHOLD));
+  const [minRatings, setMinRatings] = useState(String(DEFAULT_MIN_RATINGS));
+  const [loading, setLoading] = useState(true);
+
+  const fetchAccounts = useCallback(async () => {
+    try {
+      setLoading(true);
+
+      const { data, error } = await supabase.rpc('get_low_rated_accounts', {
+        p_threshold: parseFloat(threshold) || DEFAULT_THRESHOLD,
+        p_min_ratings: parseInt(minRatings, 10) || 0,
+      });
+
+      if (error) throw error;
+
+      setAccounts(data ?? []);
+    } catch (error) {
+      console.error('Error fetching low rated accounts:', error);
+      setAccounts([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [threshold, minRatings]);
+
+  useEffect(() => {
+    fetchAccounts();
+  }, [fetchAccounts]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Star className="w-5 h-5" />
+          Contas com Avaliação Baixa
+        </CardTitle>
+        <CardDescription>
+          Média das últimas 100 avaliações recebidas por motoristas e passageiros
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 gap-4 max-w-md">
+          <div>
+            <Label htmlFor="low_rating_threshold">Nota abaixo de</Label>
+            <Input
+              id="low_rating_threshold"
+              type="number"
+              step="0.1"
+              min="1"
+              max="5"
+              value={threshold}
+              onChange={(e) => setThreshold(e.target.value)}
+            />
+          </div>
+          <div>
+            <Label htmlFor="low_rating_min_count">Mínimo de avaliações</Label>
+            <Input
+              id="low_rating_min_count"
+              type="number"
+              min="0"
+              value={minRatings}
+              onChange={(e) => setMinRatings(e.target.value)}
+            />
+          </div>
+        </div>
+
+        {loading ? (
+          <p className="text-sm text-muted-foreground">Carregando avaliações...</p>
+        ) : accounts.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Nenhuma conta abaixo da nota informada.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Nome</TableHead>
+                <TableHead>Tipo</TableHead>
+                <TableHead>Nota</TableHead>
+                <TableHead>Avaliações</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {accounts.map(account => (
+                <TableRow key={`${account.account_type}-${account.user_id}`}>
+                  <TableCell className="font-medium">{account.full_name}</TableCell>
+                  <TableCell>
+                    <Badge variant="outline">
+                      {account.account_type === 'driver' ? 'Motorista' : 'Passageiro'}
+                    </Badge>
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex items-center gap-1">
+                      <Star className="w-4 h-4 text-warning fill-current" />
+                      {Number(account.rating).toFixed(2)}
+                    </div>
+                  </TableCell>
+                  <TableCell>{account.rating_count}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -2,11 +2,13 @@ import React from 'react'
 import { Card, CardContent } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { SimpleRideAlert } from '@/components/SimpleRideAlert'
+import { PaymentMethod } from '@/lib/payments'
 
 interface MinimalRidesListProps {
   notifications: Array<{
     id: string
     ride_id: string
+    payment_method?: PaymentMethod | null
   }>
   onAccept: (notificationId: string, rideId: string) => Promise<{ success: boolean; error?: any }>
   onDecline: (notificationId: string) => void
@@ -63,6 +65,7 @@ export const MinimalRidesList = ({
           key={notification.id}
           notificationId={notification.id}
           rideId={notification.ride_id}
+          paymentMethod={notification.payment_method}
           onAccept={onAccept}
           onDecline={onDecline}
         />
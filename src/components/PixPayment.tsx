@@ -0,0 +1,162 @@
+import React, { useCallback, useEffect, useState } from 'react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Copy, QrCode } from 'lucide-react'
+import { supabase } from '@/integrations/supabase/client'
+import { useToast } from '@/hooks/use-toast'
+import { createPixCharge, Payment, PaymentError, simulatePixPayment } from '@/lib/payments'
+
+interface PixPaymentProps {
+  rideId: string
+}
+
+const statusLabels: Record<string, { label: string; variant: 'default' | 'secondary' | 'destructive' | 'outline' }> = {
+  pending: { label: 'Aguardando pagamento', variant: 'outline' },
+  paid: { label: 'Pago', variant: 'default' },
+  expired: { label: 'Expirado', variant: 'destructive' },
+  partially_refunded: { label: 'Estornado em parte', variant: 'secondary' },
+  refunded: { label: 'Estornado', variant: 'secondary' },
+  cancelled: { label: 'Cancelado', variant: 'secondary' },
+}
+
+export const PixPayment: React.FC<PixPaymentProps> = ({ rideId }) => {
+  const { toast } = useToast()
+  const [payment, setPayment] = useState<Payment | null>(null)
+  const [isGenerating, setIsGenerating] = useState(false)
+
+  const loadPayment = useCallback(async () => {
+    const { data, error } = await supabase
+      .from('payments')
+      .select('*')
+      .eq('ride_id', rideId)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
+    if (error) {
+      console.error('Error loading payment:', error)
+      return
+    }
+
+    setPayment(data)
+  }, [rideId])
+
+  useEffect(() => {
+    loadPayment()
+
+    // O webhook do PSP atualiza a cobrança; a tela acompanha em tempo real
+    const channel = supabase
+      .channel(`payments-${rideId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'payments',
+          filter: `ride_id=eq.${rideId}`,
+        },
+        () => loadPayment()
+      )
+      .subscribe()
+
+    return () => {
+      supabase.removeChannel(channel)
+    }
+  }, [rideId, loadPayment])
+
+  const handleGenerate = async () => {
+    setIsGenerating(true)
+    try {
+      setPayment(await createPixCharge(rideId))
+    } catch (error) {
+      toast({
+        title: 'Erro no Pix',
+        description: error instanceof PaymentError ? error.message : 'Não foi possível gerar a cobrança',
+        variant: 'destructive',
+      })
+    } finally {
+      setIsGenerating(false)
+    }
+  }
+
+  const handleCopy = async () => {
+    if (!payment?.br_code) return
+    await navigator.clipboard.writeText(payment.br_code)
+    toast({ title: 'Código copiado', description: 'Cole no app do seu banco para pagar.' })
+  }
+
+  const handleSimulate = async () => {
+    if (!payment) return
+    try {
+      setPayment(await simulatePixPayment(payment.id))
+    } catch (error) {
+      toast({
+        title: 'Erro na simulação',
+        description: error instanceof PaymentError ? error.message : 'Não foi possível simular o pagamento',
+        variant: 'destructive',
+      })
+    }
+  }
+
+  const status = payment ? statusLabels[payment.status] ?? statusLabels.pending : null
+  const canGenerate = !payment || payment.status === 'expired' || payment.status === 'cancelled'
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center justify-between text-base">
+          <span className="flex items-center gap-2">
+            <QrCode className="h-4 w-4" />
+            Pagamento via Pix
+          </span>
+          {status && <Badge variant={status.variant}>{status.label}</Badge>}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {payment?.status === 'pending' && payment.br_code && (
+          <>
+            {payment.qr_image_url && (
+              <img src={payment.qr_image_url} alt="QR Code Pix" className="mx-auto h-48 w-48" />
+            )}
+            <p className="text-xs text-muted-foreground">Pix copia e cola</p>
+            <p className="break-all rounded bg-muted p-2 font-mono text-xs">{payment.br_code}</p>
+            <div className="flex items-center justify-between text-xs text-muted-foreground">
+              <span>R$ {payment.amount.toFixed(2)}</span>
+              {payment.expires_at && (
+                <span>Válido até {new Date(payment.expires_at).toLocaleTimeString('pt-BR')}</span>
+              )}
+            </div>
+            <Button variant="outline" className="w-full" onClick={handleCopy}>
+              <Copy className="h-4 w-4 mr-2" />
+              Copiar código
+            </Button>
+            {payment.provider === 'mock' && (
+              <Button variant="ghost" size="sm" className="w-full" onClick={handleSimulate}>
+                Simular pagamento (ambiente de testes)
+              </Button>
+            )}
+          </>
+        )}
+
+        {payment?.status === 'paid' && (
+          <p className="text-sm text-muted-foreground">
+            Pagamento confirmado{payment.paid_at && ` às ${new Date(payment.paid_at).toLocaleTimeString('pt-BR')}`}.
+          </p>
+        )}
+
+        {(payment?.status === 'refunded' || payment?.status === 'partially_refunded') && (
+          <p className="text-sm text-muted-foreground">
+            R$ {(payment.refund_amount ?? payment.amount).toFixed(2)} estornados.
+          </p>
+        )}
+
+        {canGenerate && (
+          <Button className="w-full" onClick={handleGenerate} disabled={isGenerating}>
+            {isGenerating ? 'Gerando...' : payment ? 'Gerar novo Pix' : 'Gerar Pix'}
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
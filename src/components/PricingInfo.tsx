@@ -3,6 +3,8 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { DollarSign, Calculator, TrendingUp, Info } from 'lucide-react'
 import { useSystemSettings } from '@/hooks/useSystemSettings'
+import { VEHICLE_TYPE_LABELS, VEHICLE_TYPES } from '@/lib/vehicleFares'
+import { calculateFare, resolveFareSettings } from '@/lib/fare'
 
 export const PricingInfo = () => {
   const { settings, loading, error } = useSystemSettings()
@@ -45,6 +47,9 @@ export const PricingInfo = () => {
     )
   }
 
+  const exampleRates = resolveFareSettings(settings, 'car')
+  const example = calculateFare({ distanceKm: 5, durationMinutes: 0 }, exampleRates)
+
   return (
     <Card>
       <CardHeader>
@@ -63,29 +68,48 @@ export const PricingInfo = () => {
         </div>
 
         {/* Pricing Details */}
-        <div className="space-y-3">
-          {settings.pricing_model === 'per_km' ? (
-            <>
-              <div className="flex items-center justify-between">
-                <span className="text-sm">Taxa base:</span>
-                <span className="font-semibold">R$ {settings.fixed_rate.toFixed(2)}</span>
-              </div>
+        {VEHICLE_TYPES.map(vehicleType => {
+          const fare = settings.vehicle_type_fares[vehicleType]
+
+          return (
+            <div key={vehicleType} className="space-y-3">
+              <span className="text-sm font-medium">{VEHICLE_TYPE_LABELS[vehicleType]}</span>
+              {settings.pricing_model === 'per_km' ? (
+                <>
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm">Taxa base:</span>
+                    <span className="font-semibold">R$ {fare.fixed_rate.toFixed(2)}</span>
+                  </div>
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm">Preço por km:</span>
+                    <span className="font-semibold">R$ {fare.price_per_km.toFixed(2)}</span>
+                  </div>
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm">Preço por minuto:</span>
+                    <span className="font-semibold">R$ {fare.price_per_minute.toFixed(2)}</span>
+                  </div>
+                </>
+              ) : (
+                <div className="flex items-center justify-between">
+                  <span className="text-sm">Preço fixo:</span>
+                  <span className="font-semibold">R$ {fare.fixed_rate.toFixed(2)}</span>
+                </div>
+              )}
+              
               <div className="flex items-center justify-between">
-                <span className="text-sm">Preço por km:</span>
-                <span className="font-semibold">R$ {settings.price_per_km.toFixed(2)}</span>
+                <span className="text-sm">Tarifa mínima:</span>
+                <span className="font-semibold">R$ {fare.minimum_fare.toFixed(2)}</span>
               </div>
-            </>
-          ) : (
-            <div className="flex items-center justify-between">
-              <span className="text-sm">Preço fixo:</span>
-              <span className="font-semibold">R$ {settings.fixed_rate.toFixed(2)}</span>
             </div>
-          )}
-          
-          <div className="flex items-center justify-between">
-            <span className="text-sm">Tarifa mínima:</span>
-            <span className="font-semibold">R$ {settings.minimum_fare.toFixed(2)}</span>
-          </div>
+          )
+        })}
+
+        {/* Waiting */}
+        <div className="flex items-center justify-between">
+          <span className="text-sm">Espera no embarque:</span>
+          <span className="font-semibold">
+            {settings.free_waiting_minutes} min grátis, depois R$ {settings.waiting_price_per_minute.toFixed(2)}/min
+          </span>
         </div>
 
         {/* App Fee */}
@@ -110,6 +134,8 @@ export const PricingInfo = () => {
             <p className="text-xs text-muted-foreground">
               Você recebe o valor total da corrida diretamente do passageiro. 
               A taxa administrativa deve ser paga posteriormente ao administrador.
+              {settings.driver_debt_limit > 0 &&
+                ` Com mais de R$ ${settings.driver_debt_limit.toFixed(2)} em taxas pendentes você não poderá ficar online.`}
             </p>
           </div>
         </div>
@@ -118,55 +144,43 @@ export const PricingInfo = () => {
         <div className="pt-3 border-t">
           <div className="flex items-center gap-2 mb-2">
             <Calculator className="h-4 w-4 text-muted-foreground" />
-            <span className="text-sm font-medium">Exemplo (5 km)</span>
+            <span className="text-sm font-medium">Exemplo (Carro, 5 km)</span>
           </div>
           <div className="space-y-1 text-xs bg-muted/50 p-3 rounded-lg">
             {settings.pricing_model === 'per_km' ? (
               <>
                 <div className="flex justify-between">
                   <span>Taxa base:</span>
-                  <span>R$ {settings.fixed_rate.toFixed(2)}</span>
+                  <span>R$ {example.base.toFixed(2)}</span>
                 </div>
                 <div className="flex justify-between">
-                  <span>5 km × R$ {settings.price_per_km.toFixed(2)}:</span>
-                  <span>R$ {(5 * settings.price_per_km).toFixed(2)}</span>
+                  <span>5 km × R$ {exampleRates.price_per_km.toFixed(2)}:</span>
+                  <span>R$ {example.distance.toFixed(2)}</span>
                 </div>
+                {example.minimumFareAdjustment > 0 && (
+                  <div className="flex justify-between">
+                    <span>Ajuste tarifa mínima:</span>
+                    <span>R$ {example.minimumFareAdjustment.toFixed(2)}</span>
+                  </div>
+                )}
                 <div className="flex justify-between font-medium border-t pt-1">
                   <span>Total:</span>
-                  <span>R$ {Math.max(settings.fixed_rate + (5 * settings.price_per_km), settings.minimum_fare).toFixed(2)}</span>
+                  <span>R$ {example.total.toFixed(2)}</span>
                 </div>
               </>
             ) : (
               <div className="flex justify-between font-medium">
                 <span>Preço fixo:</span>
-                <span>R$ {Math.max(settings.fixed_rate, settings.minimum_fare).toFixed(2)}</span>
+                <span>R$ {example.total.toFixed(2)}</span>
               </div>
             )}
             <div className="flex justify-between text-primary border-t pt-1">
               <span>Valor recebido do passageiro:</span>
-              <span>
-                R$ {Math.max(
-                  settings.pricing_model === 'per_km' 
-                    ? settings.fixed_rate + (5 * settings.price_per_km)
-                    : settings.fixed_rate, 
-                  settings.minimum_fare
-                ).toFixed(2)}
-              </span>
+              <span>R$ {example.total.toFixed(2)}</span>
             </div>
             <div className="flex justify-between text-muted-foreground">
               <span>Taxa a pagar ao admin:</span>
-              <span>
-                R$ {
-                  settings.fee_type === 'percentage' 
-                    ? (Math.max(
-                        settings.pricing_model === 'per_km' 
-                          ? settings.fixed_rate + (5 * settings.price_per_km)
-                          : settings.fixed_rate, 
-                        settings.minimum_fare
-                      ) * (settings.app_fee_percentage / 100)).toFixed(2)
-                    : settings.app_fee_percentage.toFixed(2)
-                }
-              </span>
+              <span>R$ {example.appFee.toFixed(2)}</span>
             </div>
           </div>
         </div>
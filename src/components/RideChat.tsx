@@ -0,0 +1,153 @@
+import React, { useEffect, useRef, useState } from 'react'
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle, SheetTrigger } from '@/components/ui/sheet'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Check, CheckCheck, MessageCircle, Send } from 'lucide-react'
+import { useToast } from '@/hooks/use-toast'
+import { useRideChat } from '@/hooks/useRideChat'
+import { ChatRole, isChatOpen, MAX_MESSAGE_LENGTH, QUICK_REPLIES } from '@/lib/rideChat'
+import { RideStatus, RideTransitionError } from '@/lib/rideStatus'
+import { cn } from '@/lib/utils'
+
+interface RideChatProps {
+  rideId: string
+  rideStatus: RideStatus
+  userId: string
+  // Lado de quem está usando o chat, para as respostas rápidas
+  role: ChatRole
+  otherPartyName?: string
+}
+
+export const RideChat: React.FC<RideChatProps> = ({ rideId, rideStatus, userId, role, otherPartyName }) => {
+  const { toast } = useToast()
+  const { messages, unreadCount, send, markRead } = useRideChat(rideId, userId)
+  const [open, setOpen] = useState(false)
+  const [text, setText] = useState('')
+  const [isSending, setIsSending] = useState(false)
+  const bottomRef = useRef<HTMLDivElement>(null)
+
+  const chatOpen = isChatOpen(rideStatus)
+
+  // Com o chat aberto, o que chega já conta como lido
+  useEffect(() => {
+    if (open && unreadCount > 0) {
+      markRead()
+    }
+  }, [open, unreadCount, markRead])
+
+  useEffect(() => {
+    if (open) {
+      bottomRef.current?.scrollIntoView({ block: 'end' })
+    }
+  }, [open, messages.length])
+
+  const handleSend = async (body: string, templateKey?: string) => {
+    if (!body.trim()) return
+
+    setIsSending(true)
+    try {
+      await send(body, templateKey)
+      if (!templateKey) setText('')
+    } catch (error) {
+      toast({
+        title: 'Mensagem não enviada',
+        description: error instanceof RideTransitionError ? error.message : 'Tente novamente',
+        variant: 'destructive',
+      })
+    } finally {
+      setIsSending(false)
+    }
+  }
+
+  // Sem conversa e com o chat encerrado não há o que mostrar
+  if (!chatOpen && messages.length === 0) {
+    return null
+  }
+
+  return (
+    <Sheet open={open} onOpenChange={setOpen}>
+      <SheetTrigger asChild>
+        <Button variant="outline" className="w-full relative">
+          <MessageCircle className="h-4 w-4 mr-2" />
+          Chat{otherPartyName ? ` com ${otherPartyName}` : ''}
+          {unreadCount > 0 && (
+            <Badge variant="destructive" className="ml-2 px-2">{unreadCount}</Badge>
+          )}
+        </Button>
+      </SheetTrigger>
+      <SheetContent side="bottom" className="h-[80vh] flex flex-col">
+        <SheetHeader>
+          <SheetTitle>Chat da corrida</SheetTitle>
+          <SheetDescription>
+            {chatOpen
+              ? 'As mensagens ficam registradas e podem ser consultadas pelo suporte.'
+              : 'A corrida foi encerrada. O chat está disponível apenas para leitura.'}
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="flex-1 overflow-y-auto space-y-2 py-4">
+          {messages.length === 0 && (
+            <p className="text-sm text-muted-foreground text-center">Nenhuma mensagem ainda.</p>
+          )}
+          {messages.map(message => {
+            const isOwn = message.sender_id === userId
+            return (
+              <div key={message.id} className={cn('flex', isOwn ? 'justify-end' : 'justify-start')}>
+                <div
+                  className={cn(
+                    'max-w-[75%] rounded-lg px-3 py-2 text-sm',
+                    isOwn ? 'bg-primary text-primary-foreground' : 'bg-muted'
+                  )}
+                >
+                  <p className="whitespace-pre-wrap break-words">{message.body}</p>
+                  <div className="flex items-center justify-end gap-1 mt-1 text-[10px] opacity-70">
+                    {new Date(message.created_at).toLocaleTimeString('pt-BR', { hour: '2-digit', minute: '2-digit' })}
+                    {isOwn && (message.read_at
+                      ? <CheckCheck className="h-3 w-3" aria-label="Lida" />
+                      : <Check className="h-3 w-3" aria-label="Enviada" />)}
+                  </div>
+                </div>
+              </div>
+            )
+          })}
+          <div ref={bottomRef} />
+        </div>
+
+        {chatOpen && (
+          <div className="space-y-2 border-t pt-3">
+            <div className="flex flex-wrap gap-2">
+              {QUICK_REPLIES[role].map(reply => (
+                <Badge
+                  key={reply.key}
+                  variant="outline"
+                  className="cursor-pointer"
+                  onClick={() => !isSending && handleSend(reply.text, reply.key)}
+                >
+                  {reply.text}
+                </Badge>
+              ))}
+            </div>
+            <form
+              className="flex gap-2"
+              onSubmit={(e) => {
+                e.preventDefault()
+                handleSend(text)
+              }}
+            >
+              <Input
+                placeholder="Escreva uma mensagem"
+                maxLength={MAX_MESSAGE_LENGTH}
+                value={text}
+                onChange={(e) => setText(e.target.value)}
+              />
+              <Button type="submit" size="icon" disabled={isSending || !text.trim()} aria-label="Enviar">
+                <Send className="h-4 w-4" />
+              </Button>
+            </form>
+          </div>
+        )}
+      </SheetContent>
+    </Sheet>
+  )
+}
@@ -0,0 +1,74 @@
+import { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { fetchRideMessages, RideMessage } from '@/lib/rideChat';
+import { MessageCircle } from 'lucide-react';
+
+interface RideChatTranscriptProps {
+  rideId: string;
+  passengerId: string;
+}
+
+// Conversa completa da corrida, somente leitura, para análise de disputas pelo admin
+export const RideChatTranscript = ({ rideId, passengerId }: RideChatTranscriptProps) => {
+  const [open, setOpen] = useState(false);
+  const [messages, setMessages] = useState<RideMessage[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+
+    const loadMessages = async () => {
+      try {
+        setLoading(true);
+        setMessages(await fetchRideMessages(rideId));
+      } catch (error) {
+        console.error('Error fetching ride chat transcript:', error);
+        setMessages([]);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadMessages();
+  }, [open, rideId]);
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button size="sm" variant="outline" title="Ver chat da corrida">
+          <MessageCircle className="w-4 h-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-h-[80vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Chat da corrida</DialogTitle>
+          <DialogDescription>Mensagens trocadas entre passageiro e motorista</DialogDescription>
+        </DialogHeader>
+
+        <div className="flex-1 overflow-y-auto space-y-3">
+          {loading ? (
+            <p className="text-sm text-muted-foreground text-center py-6">Carregando...</p>
+          ) : messages.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">Nenhuma mensagem nesta corrida</p>
+          ) : (
+            messages.map((message) => (
+              <div key={message.id} className="border-b border-border pb-2 last:border-b-0">
+                <div className="flex items-center justify-between text-xs text-muted-foreground">
+                  <span className="font-medium">
+                    {message.sender_id === passengerId ? 'Passageiro' : 'Motorista'}
+                  </span>
+                  <span>
+                    {new Date(message.created_at).toLocaleString('pt-BR')}
+                    {message.read_at ? ' • lida' : ''}
+                  </span>
+                </div>
+                <p className="text-sm whitespace-pre-wrap break-words">{message.body}</p>
+              </div>
+            ))
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,40 @@
+import React, { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Phone } from 'lucide-react'
+import { useToast } from '@/hooks/use-toast'
+import { openRideContact, RideContactError } from '@/lib/rideContact'
+
+interface RideContactButtonProps {
+  rideId: string
+  label?: string
+  className?: string
+}
+
+// Liga para a outra parte pelo número intermediário da corrida
+export const RideContactButton: React.FC<RideContactButtonProps> = ({ rideId, label = 'Ligar', className }) => {
+  const { toast } = useToast()
+  const [isOpening, setIsOpening] = useState(false)
+
+  const handleCall = async () => {
+    setIsOpening(true)
+    try {
+      const contact = await openRideContact(rideId)
+      window.location.href = `tel:${contact.proxy_number}`
+    } catch (error) {
+      toast({
+        title: 'Não foi possível ligar',
+        description: error instanceof RideContactError ? error.message : 'Tente novamente',
+        variant: 'destructive',
+      })
+    } finally {
+      setIsOpening(false)
+    }
+  }
+
+  return (
+    <Button variant="outline" size="sm" className={className} onClick={handleCall} disabled={isOpening}>
+      <Phone className="h-4 w-4 mr-1" />
+      {isOpening ? 'Conectando...' : label}
+    </Button>
+  )
+}
@@ -0,0 +1,159 @@
+import React, { useState } from 'react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Textarea } from '@/components/ui/textarea'
+import { Star } from 'lucide-react'
+import { useToast } from '@/hooks/use-toast'
+import { RideRow } from '@/lib/rideStatus'
+import {
+  getOwnRating,
+  MAX_RATING_COMMENT_LENGTH,
+  MAX_RATING_TAGS,
+  RATING_TAGS,
+  RatedRide,
+  RatingError,
+  RatingRole,
+  submitRideRating
+} from '@/lib/ratings'
+import { cn } from '@/lib/utils'
+
+interface RideRatingProps {
+  rideId: string
+  ride: RatedRide
+  // Quem está avaliando: o passageiro avalia o motorista e vice-versa
+  role: RatingRole
+  onSubmitted?: (ride: RideRow) => void
+}
+
+export const RideRating: React.FC<RideRatingProps> = ({ rideId, ride, role, onSubmitted }) => {
+  const { toast } = useToast()
+  const [stars, setStars] = useState(0)
+  const [tags, setTags] = useState<string[]>([])
+  const [comment, setComment] = useState('')
+  const [submitted, setSubmitted] = useState<RatedRide | null>(null)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const own = getOwnRating(submitted ?? ride, role)
+  const ratedName = role === 'passenger' ? 'motorista' : 'passageiro'
+  // Até 3 estrelas sugere as tags de problema
+  const suggestedTags = stars > 0 && stars <= 3 ? RATING_TAGS[role].negative : RATING_TAGS[role].positive
+
+  const toggleTag = (tag: string) => {
+    setTags(prev =>
+      prev.includes(tag)
+        ? prev.filter(t => t !== tag)
+        : prev.length < MAX_RATING_TAGS ? [...prev, tag] : prev
+    )
+  }
+
+  const handleStars = (value: number) => {
+    setStars(value)
+    setTags([])
+  }
+
+  const handleSubmit = async () => {
+    setIsSubmitting(true)
+    try {
+      const updated = await submitRideRating(rideId, { stars, tags, comment })
+      setSubmitted(updated)
+      onSubmitted?.(updated)
+      toast({ title: 'Avaliação enviada', description: 'Obrigado pelo retorno!' })
+    } catch (error) {
+      toast({
+        title: 'Erro na avaliação',
+        description: error instanceof RatingError ? error.message : 'Não foi possível enviar a avaliação',
+        variant: 'destructive',
+      })
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  if (own.ratedAt) {
+    const ownStars = own.rating ?? 0
+
+    return (
+      <Card>
+        <CardContent className="pt-4 space-y-2">
+          <div className="flex items-center justify-between">
+            <span className="text-sm text-muted-foreground">Sua avaliação do {ratedName}</span>
+            <div className="flex">
+              {[1, 2, 3, 4, 5].map(value => (
+                <Star
+                  key={value}
+                  className={cn('h-4 w-4', value <= ownStars ? 'text-warning fill-current' : 'text-muted-foreground')}
+                />
+              ))}
+            </div>
+          </div>
+          {own.tags && own.tags.length > 0 && (
+            <div className="flex flex-wrap gap-1">
+              {own.tags.map(tag => <Badge key={tag} variant="secondary">{tag}</Badge>)}
+            </div>
+          )}
+          {own.comment && <p className="text-sm text-muted-foreground">"{own.comment}"</p>}
+        </CardContent>
+      </Card>
+    )
+  }
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center gap-2 text-base">
+          <Star className="h-4 w-4" />
+          Avalie o {ratedName}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex justify-center gap-2">
+          {[1, 2, 3, 4, 5].map(value => (
+            <button
+              key={value}
+              type="button"
+              aria-label={`${value} estrela${value > 1 ? 's' : ''}`}
+              onClick={() => handleStars(value)}
+            >
+              <Star
+                className={cn('h-8 w-8', value <= stars ? 'text-warning fill-current' : 'text-muted-foreground')}
+              />
+            </button>
+          ))}
+        </div>
+
+        {stars > 0 && (
+          <>
+            <div className="flex flex-wrap gap-2">
+              {suggestedTags.map(tag => (
+                <Badge
+                  key={tag}
+                  variant={tags.includes(tag) ? 'default' : 'outline'}
+                  className="cursor-pointer"
+                  onClick={() => toggleTag(tag)}
+                >
+                  {tag}
+                </Badge>
+              ))}
+            </div>
+
+            <Textarea
+              placeholder="Comentário (opcional)"
+              maxLength={MAX_RATING_COMMENT_LENGTH}
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+            />
+
+            <p className="text-xs text-muted-foreground">
+              A avaliação não pode ser alterada depois de enviada.
+            </p>
+
+            <Button className="w-full" onClick={handleSubmit} disabled={isSubmitting}>
+              {isSubmitting ? 'Enviando...' : 'Enviar avaliação'}
+            </Button>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,87 @@
+import React, { useEffect, useState } from 'react'
+import {
+  AlertDialog,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog'
+import { Button } from '@/components/ui/button'
+import { ShieldAlert } from 'lucide-react'
+import { useToast } from '@/hooks/use-toast'
+import { useRideSafetyAlerts } from '@/hooks/useRideSafetyAlerts'
+import { getSafetyAlertMessage } from '@/lib/rideSafety'
+import { RideTransitionError } from '@/lib/rideStatus'
+
+interface SafetyCheckPromptProps {
+  rideId: string
+}
+
+// Pergunta ao passageiro se está tudo bem quando a viagem sai do esperado.
+// Sem resposta até response_due_at o alerta vai para a central.
+export const SafetyCheckPrompt: React.FC<SafetyCheckPromptProps> = ({ rideId }) => {
+  const { toast } = useToast()
+  const { alert, respond } = useRideSafetyAlerts(rideId)
+  const [isResponding, setIsResponding] = useState(false)
+  const [now, setNow] = useState(Date.now())
+
+  useEffect(() => {
+    if (!alert) return
+
+    const interval = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(interval)
+  }, [alert])
+
+  if (!alert) {
+    return null
+  }
+
+  const secondsLeft = Math.max(0, Math.ceil((new Date(alert.response_due_at).getTime() - now) / 1000))
+
+  const handleRespond = async (safe: boolean) => {
+    setIsResponding(true)
+    try {
+      await respond(alert.id, safe)
+      toast(safe
+        ? { title: 'Obrigado', description: 'Que bom que está tudo bem. Boa viagem!' }
+        : { title: 'Central avisada', description: 'Nossa equipe de segurança vai entrar em contato.' })
+    } catch (error) {
+      toast({
+        title: 'Resposta não enviada',
+        description: error instanceof RideTransitionError ? error.message : 'Tente novamente',
+        variant: 'destructive',
+      })
+    } finally {
+      setIsResponding(false)
+    }
+  }
+
+  return (
+    <AlertDialog open>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle className="flex items-center gap-2">
+            <ShieldAlert className="h-5 w-5 text-destructive" />
+            Está tudo bem?
+          </AlertDialogTitle>
+          <AlertDialogDescription>
+            {getSafetyAlertMessage(alert)}
+            {' '}
+            {secondsLeft > 0
+              ? `Se não responder em ${secondsLeft}s, avisaremos a central de segurança.`
+              : 'A central de segurança foi avisada.'}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <Button variant="destructive" disabled={isResponding} onClick={() => handleRespond(false)}>
+            Preciso de ajuda
+          </Button>
+          <Button disabled={isResponding} onClick={() => handleRespond(true)}>
+            Estou bem
+          </Button>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  )
+}
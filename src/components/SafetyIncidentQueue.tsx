@@ -0,0 +1,236 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { useAuditLog } from '@/hooks/useAuditLog';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  getSafetyAlertMessage,
+  resolveSafetyAlert,
+  RideSafetyAlert,
+  SAFETY_ALERT_LABELS,
+  SAFETY_ALERT_STATUS_LABELS,
+  SAFETY_ESCALATION_REASON_LABELS,
+  SafetyAlertStatus,
+  SafetyAlertType,
+} from '@/lib/rideSafety';
+import { RideTransitionError } from '@/lib/rideStatus';
+import { ShieldAlert } from 'lucide-react';
+
+interface IncidentRide {
+  id: string;
+  passenger_id: string;
+  driver_id: string | null;
+  status: string;
+}
+
+// Fila de incidentes: alertas escalados primeiro, depois os que ainda
+// aguardam o passageiro. Atualiza sozinha pelo realtime.
+export const SafetyIncidentQueue = () => {
+  const { toast } = useToast();
+  const { logAction } = useAuditLog();
+  const [alerts, setAlerts] = useState<RideSafetyAlert[]>([]);
+  const [rides, setRides] = useState<Record<string, IncidentRide>>({});
+  const [names, setNames] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [resolving, setResolving] = useState<{ id: string; note: string } | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const fetchData = useCallback(async () => {
+    try {
+      const { data: alertsData, error } = await supabase
+        .from('ride_safety_alerts')
+        .select('*')
+        .in('status', ['pending', 'escalated'])
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+
+      const rideIds = [...new Set((alertsData ?? []).map(alert => alert.ride_id))];
+      const { data: ridesData } = rideIds.length > 0
+        ? await supabase.from('rides').select('id, passenger_id, driver_id, status').in('id', rideIds)
+        : { data: [] };
+
+      const userIds = [...new Set((ridesData ?? []).flatMap(ride => [ride.passenger_id, ride.driver_id]).filter(Boolean))] as string[];
+      const { data: profilesData } = userIds.length > 0
+        ? await supabase.from('profiles').select('user_id, full_name').in('user_id', userIds)
+        : { data: [] };
+
+      setNames(Object.fromEntries((profilesData ?? []).map(profile => [profile.user_id, profile.full_name])));
+      setRides(Object.fromEntries((ridesData ?? []).map(ride => [ride.id, ride as IncidentRide])));
+      setAlerts((alertsData ?? []).sort((a, b) =>
+        Number(b.status === 'escalated') - Number(a.status === 'escalated')
+      ));
+    } catch (error) {
+      console.error('Error loading safety incidents:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  useEffect(() => {
+    const channel = supabase
+      .channel('safety-incidents')
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'ride_safety_alerts',
+        },
+        () => {
+          fetchData();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [fetchData]);
+
+  const handleResolve = async () => {
+    if (!resolving) return;
+
+    setIsSaving(true);
+    try {
+      const alert = await resolveSafetyAlert(resolving.id, resolving.note.trim() || undefined);
+
+      await logAction('RESOLVE_SAFETY_ALERT', 'ride_safety_alerts', alert.id, null, {
+        resolution_note: alert.resolution_note,
+      });
+
+      toast({
+        title: "Incidente Encerrado",
+        description: `${SAFETY_ALERT_LABELS[alert.alert_type as SafetyAlertType] ?? alert.alert_type} marcado como resolvido.`,
+      });
+
+      setResolving(null);
+      fetchData();
+    } catch (error) {
+      console.error('Error resolving safety alert:', error);
+      toast({
+        title: "Erro ao Encerrar",
+        description: error instanceof RideTransitionError ? error.message : "Não foi possível encerrar o incidente.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const escalatedCount = alerts.filter(alert => alert.status === 'escalated').length;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldAlert className="w-5 h-5" />
+          Incidentes de Segurança
+          {escalatedCount > 0 && <Badge variant="destructive">{escalatedCount}</Badge>}
+        </CardTitle>
+        <CardDescription>
+          Desvios de rota, paradas longas e viagens demoradas que o passageiro não confirmou ou em que pediu ajuda
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {loading ? (
+          <p className="text-sm text-muted-foreground">Carregando incidentes...</p>
+        ) : alerts.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Nenhum incidente em aberto.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Alerta</TableHead>
+                <TableHead>Passageiro</TableHead>
+                <TableHead>Motorista</TableHead>
+                <TableHead>Detalhes</TableHead>
+                <TableHead>Situação</TableHead>
+                <TableHead>Aberto em</TableHead>
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {alerts.map(alert => {
+                const ride = rides[alert.ride_id];
+                return (
+                  <TableRow key={alert.id}>
+                    <TableCell className="font-medium">
+                      {SAFETY_ALERT_LABELS[alert.alert_type as SafetyAlertType] ?? alert.alert_type}
+                    </TableCell>
+                    <TableCell>{ride ? names[ride.passenger_id] || 'Nome não informado' : '-'}</TableCell>
+                    <TableCell>{ride?.driver_id ? names[ride.driver_id] || 'Nome não informado' : '-'}</TableCell>
+                    <TableCell className="max-w-64">
+                      <p className="text-sm">{getSafetyAlertMessage(alert)}</p>
+                      {alert.lat != null && alert.lng != null && (
+                        <a
+                          href={`https://www.google.com/maps?q=${alert.lat},${alert.lng}`}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="text-xs text-primary underline"
+                        >
+                          Ver no mapa
+                        </a>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={alert.status === 'escalated' ? 'destructive' : 'outline'}>
+                        {SAFETY_ALERT_STATUS_LABELS[alert.status as SafetyAlertStatus] ?? alert.status}
+                      </Badge>
+                      {alert.escalation_reason && (
+                        <p className="text-xs text-muted-foreground mt-1">
+                          {SAFETY_ESCALATION_REASON_LABELS[alert.escalation_reason] ?? alert.escalation_reason}
+                        </p>
+                      )}
+                    </TableCell>
+                    <TableCell>{new Date(alert.created_at).toLocaleString('pt-BR')}</TableCell>
+                    <TableCell>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setResolving({ id: alert.id, note: '' })}
+                      >
+                        Encerrar
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+
+        {resolving && (
+          <div className="space-y-4 p-4 border rounded-lg">
+            <div>
+              <Label htmlFor="safety_resolution_note">Como o incidente foi resolvido</Label>
+              <Textarea
+                id="safety_resolution_note"
+                placeholder="Contato com o passageiro, acionamento das autoridades..."
+                value={resolving.note}
+                onChange={(e) => setResolving({ ...resolving, note: e.target.value })}
+              />
+            </div>
+            <div className="flex gap-2">
+              <Button onClick={handleResolve} disabled={isSaving}>
+                {isSaving ? 'Salvando...' : 'Encerrar Incidente'}
+              </Button>
+              <Button variant="outline" onClick={() => setResolving(null)} disabled={isSaving}>
+                Cancelar
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
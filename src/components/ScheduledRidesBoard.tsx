@@ -0,0 +1,187 @@
+import React, { useCallback, useEffect, useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { CalendarClock } from 'lucide-react'
+import { supabase } from '@/integrations/supabase/client'
+import { useToast } from '@/hooks/use-toast'
+import { RideRow, RideTransitionError } from '@/lib/rideStatus'
+import {
+  formatScheduledFor,
+  getOpenScheduledRides,
+  OpenScheduledRide,
+  preacceptScheduledRide,
+  releaseScheduledRide
+} from '@/lib/scheduledRides'
+import { PAYMENT_METHOD_LABELS } from '@/lib/payments'
+
+interface ScheduledRidesBoardProps {
+  driverId: string
+}
+
+// Corridas agendadas abertas e as que o motorista já pré-aceitou.
+// Perto do horário o ride-jobs-worker envia o lembrete e entrega a corrida aceita.
+export const ScheduledRidesBoard: React.FC<ScheduledRidesBoardProps> = ({ driverId }) => {
+  const navigate = useNavigate()
+  const { toast } = useToast()
+  const [openRides, setOpenRides] = useState<OpenScheduledRide[]>([])
+  const [myRides, setMyRides] = useState<RideRow[]>([])
+  const [busyRideId, setBusyRideId] = useState<string | null>(null)
+
+  const fetchScheduledRides = useCallback(async () => {
+    try {
+      const [open, mine] = await Promise.all([
+        getOpenScheduledRides(),
+        supabase
+          .from('rides')
+          .select('*')
+          .eq('driver_id', driverId)
+          .eq('status', 'scheduled')
+          .order('scheduled_for', { ascending: true })
+      ])
+
+      if (mine.error) throw mine.error
+
+      setOpenRides(open)
+      setMyRides(mine.data ?? [])
+    } catch (error) {
+      console.error('Error fetching scheduled rides:', error)
+    }
+  }, [driverId])
+
+  useEffect(() => {
+    fetchScheduledRides()
+
+    const channel = supabase
+      .channel('scheduled-rides-board')
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'rides',
+          filter: `driver_id=eq.${driverId}`
+        },
+        (payload) => {
+          const updatedRide = payload.new as RideRow
+
+          if (updatedRide.status === 'scheduled' && updatedRide.driver_reminded_at) {
+            toast({
+              title: '🔔 Corrida agendada em breve',
+              description: `${formatScheduledFor(updatedRide.scheduled_for!)} - ${updatedRide.origin_address}`,
+              duration: 10000
+            })
+          }
+
+          // Despacho de uma corrida pré-aceita: ela chega já aceita
+          if (updatedRide.status === 'accepted' && updatedRide.preaccepted_at) {
+            toast({
+              title: '📅 Corrida agendada iniciada',
+              description: 'Siga para o local de embarque'
+            })
+            navigate(`/active-ride/${updatedRide.id}`)
+            return
+          }
+
+          fetchScheduledRides()
+        }
+      )
+      .subscribe()
+
+    return () => {
+      supabase.removeChannel(channel)
+    }
+  }, [driverId, fetchScheduledRides, navigate, toast])
+
+  const runAction = async (rideId: string, action: () => Promise<RideRow>, successTitle: string) => {
+    setBusyRideId(rideId)
+    try {
+      await action()
+      toast({ title: successTitle })
+      await fetchScheduledRides()
+    } catch (error) {
+      toast({
+        title: 'Erro',
+        description: error instanceof RideTransitionError ? error.message : 'Não foi possível atualizar a corrida',
+        variant: 'destructive',
+      })
+      fetchScheduledRides()
+    } finally {
+      setBusyRideId(null)
+    }
+  }
+
+  if (openRides.length === 0 && myRides.length === 0) {
+    return null
+  }
+
+  return (
+    <Card className="mb-8">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarClock className="h-5 w-5" />
+          Corridas Agendadas
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {myRides.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium">Pré-aceitas por você</p>
+            {myRides.map(ride => (
+              <div key={ride.id} className="p-3 rounded-lg border border-primary space-y-1">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="font-medium">{ride.scheduled_for && formatScheduledFor(ride.scheduled_for)}</span>
+                  <span className="font-semibold">R$ {ride.estimated_price?.toFixed(2)}</span>
+                </div>
+                <p className="text-sm text-muted-foreground">
+                  {ride.origin_address} → {ride.destination_address}
+                </p>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={busyRideId === ride.id}
+                  onClick={() => runAction(ride.id, () => releaseScheduledRide(ride.id), 'Corrida liberada')}
+                >
+                  Liberar
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {openRides.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium">Disponíveis</p>
+            {openRides.map(ride => (
+              <div key={ride.id} className="p-3 rounded-lg border space-y-1">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="font-medium">{formatScheduledFor(ride.scheduled_for)}</span>
+                  <span className="font-semibold">R$ {Number(ride.estimated_price).toFixed(2)}</span>
+                </div>
+                <p className="text-sm text-muted-foreground">
+                  {ride.origin_address} → {ride.destination_address}
+                </p>
+                <div className="flex items-center justify-between gap-2">
+                  <div className="flex gap-1">
+                    <Badge variant="outline">{Number(ride.distance_km).toFixed(1)} km</Badge>
+                    {ride.payment_method && (
+                      <Badge variant="outline">{PAYMENT_METHOD_LABELS[ride.payment_method]}</Badge>
+                    )}
+                  </div>
+                  <Button
+                    size="sm"
+                    disabled={busyRideId === ride.id}
+                    onClick={() => runAction(ride.id, () => preacceptScheduledRide(ride.id), 'Corrida pré-aceita')}
+                  >
+                    Pré-aceitar
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,297 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { useAuditLog } from '@/hooks/useAuditLog';
+import { useServiceZones } from '@/hooks/useServiceZones';
+import { supabase } from '@/integrations/supabase/client';
+import { Json } from '@/integrations/supabase/types';
+import { FareRates } from '@/lib/fare';
+import { formatPolygonText, parsePolygonText, ServiceZone } from '@/lib/serviceZones';
+import { VEHICLE_TYPE_LABELS, VEHICLE_TYPES, VehicleType } from '@/lib/vehicleFares';
+import { MapPin, Plus, Trash2 } from 'lucide-react';
+
+const FARE_FIELDS: { key: keyof FareRates; label: string }[] = [
+  { key: 'fixed_rate', label: 'Taxa Fixa (R$)' },
+  { key: 'price_per_km', label: 'Preço por KM (R$)' },
+  { key: 'price_per_minute', label: 'Preço por Minuto (R$)' },
+  { key: 'minimum_fare', label: 'Tarifa Mínima (R$)' },
+];
+
+// Campos vazios herdam a tarifa da categoria
+type OverrideForm = Record<VehicleType, Record<keyof FareRates, string>>;
+
+interface ZoneForm {
+  id: string | null;
+  name: string;
+  is_active: boolean;
+  polygonText: string;
+  radiusStepsText: string;
+  overrides: OverrideForm;
+}
+
+const emptyOverrides = (): OverrideForm =>
+  Object.fromEntries(
+    VEHICLE_TYPES.map(type => [type, { fixed_rate: '', price_per_km: '', price_per_minute: '', minimum_fare: '' }])
+  ) as OverrideForm;
+
+const toForm = (zone: ServiceZone | null): ZoneForm => {
+  const overrides = emptyOverrides();
+  for (const type of VEHICLE_TYPES) {
+    for (const field of FARE_FIELDS) {
+      const value = zone?.fare_overrides[type]?.[field.key];
+      overrides[type][field.key] = value != null ? String(value) : '';
+    }
+  }
+
+  return {
+    id: zone?.id ?? null,
+    name: zone?.name ?? '',
+    is_active: zone?.is_active ?? true,
+    polygonText: zone ? formatPolygonText(zone.polygon) : '',
+    radiusStepsText: zone?.dispatch_radius_steps_km?.join(', ') ?? '',
+    overrides,
+  };
+};
+
+const toOverrides = (form: OverrideForm) => {
+  const result: Partial<Record<VehicleType, Partial<FareRates>>> = {};
+  for (const type of VEHICLE_TYPES) {
+    const fares: Partial<FareRates> = {};
+    for (const field of FARE_FIELDS) {
+      const value = parseFloat(form[type][field.key]);
+      if (!isNaN(value)) fares[field.key] = value;
+    }
+    if (Object.keys(fares).length > 0) result[type] = fares;
+  }
+  return result;
+};
+
+export const ServiceZonesManager = () => {
+  const { zones, loading, refetch } = useServiceZones(true);
+  const { toast } = useToast();
+  const { logAction } = useAuditLog();
+  const [form, setForm] = useState<ZoneForm | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleOverrideChange = (type: VehicleType, field: keyof FareRates, value: string) => {
+    setForm(prev => prev && ({
+      ...prev,
+      overrides: { ...prev.overrides, [type]: { ...prev.overrides[type], [field]: value } },
+    }));
+  };
+
+  const handleSave = async () => {
+    if (!form) return;
+
+    const polygon = parsePolygonText(form.polygonText);
+    const radiusSteps = form.radiusStepsText
+      .split(',')
+      .map(step => parseFloat(step.trim()))
+      .filter(step => !isNaN(step));
+
+    if (!form.name.trim() || polygon.length < 3) {
+      toast({
+        title: "Dados Inválidos",
+        description: "Informe um nome e pelo menos 3 pontos do polígono.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const payload = {
+      name: form.name.trim(),
+      is_active: form.is_active,
+      polygon: polygon as unknown as Json,
+      fare_overrides: toOverrides(form.overrides) as Json,
+      dispatch_radius_steps_km: radiusSteps.length > 0 ? radiusSteps : null,
+    };
+
+    setIsSaving(true);
+    try {
+      const { data, error } = form.id
+        ? await supabase.from('service_zones').update(payload).eq('id', form.id).select().single()
+        : await supabase.from('service_zones').insert(payload).select().single();
+
+      if (error) throw error;
+
+      await logAction(
+        form.id ? 'UPDATE_SERVICE_ZONE' : 'CREATE_SERVICE_ZONE',
+        'service_zones',
+        data.id,
+        zones.find(zone => zone.id === form.id) ?? null,
+        payload
+      );
+
+      toast({
+        title: "Zona Salva",
+        description: `A zona ${payload.name} foi salva com sucesso.`,
+      });
+
+      setForm(null);
+      refetch();
+    } catch (error) {
+      console.error('Error saving service zone:', error);
+      toast({
+        title: "Erro ao Salvar",
+        description: "Não foi possível salvar a zona. Verifique os pontos e os raios informados.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (zone: ServiceZone) => {
+    const { error } = await supabase.from('service_zones').delete().eq('id', zone.id);
+
+    if (error) {
+      console.error('Error deleting service zone:', error);
+      toast({
+        title: "Erro ao Remover",
+        description: "Não foi possível remover a zona.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    await logAction('DELETE_SERVICE_ZONE', 'service_zones', zone.id, zone, null);
+    refetch();
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <MapPin className="h-5 w-5" />
+          Zonas de Atendimento
+        </CardTitle>
+        <CardDescription>
+          Áreas onde aceitamos corridas. Sem zonas ativas, corridas são aceitas em qualquer lugar.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading ? (
+          <p className="text-sm text-muted-foreground">Carregando zonas...</p>
+        ) : zones.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Nenhuma zona cadastrada.</p>
+        ) : (
+          <div className="space-y-2">
+            {zones.map(zone => (
+              <div key={zone.id} className="flex items-center justify-between p-3 border rounded-lg">
+                <div>
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{zone.name}</span>
+                    <Badge variant={zone.is_active ? 'default' : 'secondary'}>
+                      {zone.is_active ? 'Ativa' : 'Inativa'}
+                    </Badge>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {zone.polygon.length} pontos
+                    {zone.dispatch_radius_steps_km && ` · raios ${zone.dispatch_radius_steps_km.join(', ')} km`}
+                  </p>
+                </div>
+                <div className="flex gap-2">
+                  <Button variant="outline" size="sm" onClick={() => setForm(toForm(zone))}>
+                    Editar
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => handleDelete(zone)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {form ? (
+          <div className="space-y-4 p-4 border rounded-lg">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="zone_name">Nome</Label>
+                <Input
+                  id="zone_name"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="zone_active">Situação</Label>
+                <Select
+                  value={form.is_active ? 'yes' : 'no'}
+                  onValueChange={(value) => setForm({ ...form, is_active: value === 'yes' })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="yes">Ativa</SelectItem>
+                    <SelectItem value="no">Inativa</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div>
+              <Label htmlFor="zone_polygon">Polígono (um ponto "lat, lng" por linha)</Label>
+              <Textarea
+                id="zone_polygon"
+                rows={5}
+                placeholder={'-18.90, -48.30\n-18.90, -48.22\n-18.96, -48.22\n-18.96, -48.30'}
+                value={form.polygonText}
+                onChange={(e) => setForm({ ...form, polygonText: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label htmlFor="zone_radius_steps">Raios de Busca (km)</Label>
+              <Input
+                id="zone_radius_steps"
+                placeholder="Vazio usa os raios globais"
+                value={form.radiusStepsText}
+                onChange={(e) => setForm({ ...form, radiusStepsText: e.target.value })}
+              />
+            </div>
+            {VEHICLE_TYPES.map(type => (
+              <div key={type} className="space-y-2">
+                <h4 className="text-sm font-medium">Tarifas de {VEHICLE_TYPE_LABELS[type]} na zona</h4>
+                <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                  {FARE_FIELDS.map(field => (
+                    <div key={field.key}>
+                      <Label htmlFor={`zone_${type}_${field.key}`}>{field.label}</Label>
+                      <Input
+                        id={`zone_${type}_${field.key}`}
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        placeholder="Padrão"
+                        value={form.overrides[type][field.key]}
+                        onChange={(e) => handleOverrideChange(type, field.key, e.target.value)}
+                      />
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))}
+            <div className="flex gap-2">
+              <Button onClick={handleSave} disabled={isSaving}>
+                {isSaving ? 'Salvando...' : 'Salvar Zona'}
+              </Button>
+              <Button variant="outline" onClick={() => setForm(null)} disabled={isSaving}>
+                Cancelar
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <Button variant="outline" onClick={() => setForm(toForm(null))}>
+            <Plus className="h-4 w-4 mr-2" />
+            Nova Zona
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
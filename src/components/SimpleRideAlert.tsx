@@ -3,10 +3,12 @@ import { Card, CardContent } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
 import { Bell } from 'lucide-react'
+import { PAYMENT_METHOD_LABELS, PaymentMethod } from '@/lib/payments'
 
 interface SimpleRideAlertProps {
   notificationId: string
   rideId: string
+  paymentMethod?: PaymentMethod | null
   onAccept: (notificationId: string, rideId: string) => Promise<{ success: boolean; error?: any }>
   onDecline: (notificationId: string) => void
   loading?: boolean
@@ -15,6 +17,7 @@ interface SimpleRideAlertProps {
 export const SimpleRideAlert: React.FC<SimpleRideAlertProps> = ({
   notificationId,
   rideId,
+  paymentMethod,
   onAccept,
   onDecline,
   loading = false
@@ -41,6 +44,12 @@ export const SimpleRideAlert: React.FC<SimpleRideAlertProps> = ({
           </Badge>
         </div>
 
+        {paymentMethod && (
+          <p className="text-sm text-muted-foreground mb-2">
+            Pagamento: <span className="font-medium text-foreground">{PAYMENT_METHOD_LABELS[paymentMethod]}</span>
+          </p>
+        )}
+
         <div className="flex gap-3 pt-2">
           <Button
             variant="outline"
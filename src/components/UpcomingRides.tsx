@@ -0,0 +1,168 @@
+import React, { useCallback, useEffect, useState } from 'react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { CalendarClock } from 'lucide-react'
+import { supabase } from '@/integrations/supabase/client'
+import { useToast } from '@/hooks/use-toast'
+import { CancelRideDialog } from '@/components/CancelRideDialog'
+import { RideRow, RideTransitionError } from '@/lib/rideStatus'
+import { formatScheduledFor, rescheduleRide, toDateTimeLocalValue } from '@/lib/scheduledRides'
+
+interface UpcomingRidesProps {
+  passengerId: string
+}
+
+// Corridas agendadas do passageiro, com troca de horário e cancelamento
+export const UpcomingRides: React.FC<UpcomingRidesProps> = ({ passengerId }) => {
+  const { toast } = useToast()
+  const [rides, setRides] = useState<RideRow[]>([])
+  const [editingRideId, setEditingRideId] = useState<string | null>(null)
+  const [newScheduledFor, setNewScheduledFor] = useState('')
+  const [cancellingRideId, setCancellingRideId] = useState<string | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+
+  const fetchUpcomingRides = useCallback(async () => {
+    const { data, error } = await supabase
+      .from('rides')
+      .select('*')
+      .eq('passenger_id', passengerId)
+      .eq('status', 'scheduled')
+      .order('scheduled_for', { ascending: true })
+
+    if (error) {
+      console.error('Error fetching scheduled rides:', error)
+      return
+    }
+
+    setRides(data ?? [])
+  }, [passengerId])
+
+  useEffect(() => {
+    fetchUpcomingRides()
+
+    // Pré-aceite, despacho e cancelamento mudam a lista
+    const channel = supabase
+      .channel('upcoming-rides')
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'rides',
+          filter: `passenger_id=eq.${passengerId}`
+        },
+        () => fetchUpcomingRides()
+      )
+      .subscribe()
+
+    return () => {
+      supabase.removeChannel(channel)
+    }
+  }, [passengerId, fetchUpcomingRides])
+
+  const startEditing = (ride: RideRow) => {
+    setEditingRideId(ride.id)
+    setNewScheduledFor(ride.scheduled_for ? toDateTimeLocalValue(new Date(ride.scheduled_for)) : '')
+  }
+
+  const handleReschedule = async () => {
+    if (!editingRideId || !newScheduledFor) return
+
+    setIsSaving(true)
+    try {
+      const updated = await rescheduleRide(editingRideId, new Date(newScheduledFor))
+      setRides(prev => prev.map(r => r.id === updated.id ? updated : r))
+      setEditingRideId(null)
+      toast({ title: 'Horário alterado', description: `Corrida agendada para ${formatScheduledFor(updated.scheduled_for!)}` })
+    } catch (error) {
+      toast({
+        title: 'Erro ao reagendar',
+        description: error instanceof RideTransitionError ? error.details ?? error.message : 'Não foi possível alterar o horário',
+        variant: 'destructive',
+      })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  if (rides.length === 0) {
+    return null
+  }
+
+  return (
+    <Card className="mb-8">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarClock className="h-5 w-5" />
+          Corridas Agendadas
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {rides.map(ride => (
+          <div key={ride.id} className="p-3 rounded-lg border space-y-2">
+            <div className="flex items-center justify-between gap-2">
+              <span className="font-medium">{ride.scheduled_for && formatScheduledFor(ride.scheduled_for)}</span>
+              {ride.driver_id
+                ? <Badge className="bg-success text-success-foreground">Motorista confirmado</Badge>
+                : <Badge variant="secondary">Aguardando motorista</Badge>}
+            </div>
+            <p className="text-sm text-muted-foreground">
+              {ride.origin_address} → {ride.destination_address}
+            </p>
+            {ride.estimated_price !== null && (
+              <p className="text-sm">R$ {ride.estimated_price.toFixed(2)}</p>
+            )}
+
+            {editingRideId === ride.id ? (
+              <div className="space-y-2">
+                <Input
+                  type="datetime-local"
+                  value={newScheduledFor}
+                  min={toDateTimeLocalValue(new Date())}
+                  onChange={(e) => setNewScheduledFor(e.target.value)}
+                />
+                {ride.driver_id && (
+                  <p className="text-xs text-warning">
+                    Ao mudar o horário o motorista confirmado é liberado.
+                  </p>
+                )}
+                <div className="flex gap-2">
+                  <Button size="sm" onClick={handleReschedule} disabled={isSaving || !newScheduledFor}>
+                    {isSaving ? 'Salvando...' : 'Salvar'}
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={() => setEditingRideId(null)} disabled={isSaving}>
+                    Voltar
+                  </Button>
+                </div>
+              </div>
+            ) : (
+              <div className="flex gap-2">
+                <Button size="sm" variant="outline" onClick={() => startEditing(ride)}>
+                  Alterar horário
+                </Button>
+                <Button size="sm" variant="destructive" onClick={() => setCancellingRideId(ride.id)}>
+                  Cancelar
+                </Button>
+              </div>
+            )}
+          </div>
+        ))}
+      </CardContent>
+
+      {cancellingRideId && (
+        <CancelRideDialog
+          rideId={cancellingRideId}
+          actor="passenger"
+          open={!!cancellingRideId}
+          onOpenChange={(open) => !open && setCancellingRideId(null)}
+          onCancelled={(cancelled) => {
+            setRides(prev => prev.filter(r => r.id !== cancelled.id))
+            toast({ title: 'Agendamento cancelado' })
+          }}
+        />
+      )}
+    </Card>
+  )
+}
@@ -3,6 +3,11 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
 import { supabase } from '@/integrations/supabase/client'
+import { CancelRideDialog } from '@/components/CancelRideDialog'
+import { cancelRide } from '@/lib/rideCancellation'
+import { continueRideSearch, RideTransitionError } from '@/lib/rideStatus'
+import { useToast } from '@/hooks/use-toast'
+import { useSystemSettings } from '@/hooks/useSystemSettings'
 import { Car, Clock, MapPin, User, Phone } from 'lucide-react'
 
 interface WaitingForDriverProps {
@@ -18,6 +23,21 @@ export const WaitingForDriver: React.FC<WaitingForDriverProps> = ({
 }) => {
   const [searchTime, setSearchTime] = useState(0)
   const [driversNotified, setDriversNotified] = useState(0)
+  const [dispatchRound, setDispatchRound] = useState(0)
+  const [dispatchRadiusKm, setDispatchRadiusKm] = useState<number | null>(null)
+  const [cancelDialogOpen, setCancelDialogOpen] = useState(false)
+  const [retryRound, setRetryRound] = useState(0)
+  const [searchPromptExpiresAt, setSearchPromptExpiresAt] = useState<string | null>(null)
+  const [searchExpired, setSearchExpired] = useState(false)
+  const [isDeciding, setIsDeciding] = useState(false)
+  const { settings } = useSystemSettings()
+  const { toast } = useToast()
+
+  const isSequential = settings?.dispatch_strategy === 'sequential'
+  const totalRounds = settings?.dispatch_expand_radius === false
+    ? 1
+    : settings?.dispatch_radius_steps_km.length ?? 1
+  const maxDrivers = (settings?.dispatch_max_drivers ?? 5) * (isSequential ? totalRounds : 1)
 
   useEffect(() => {
     // Timer para tempo de busca
@@ -38,12 +58,18 @@ export const WaitingForDriver: React.FC<WaitingForDriverProps> = ({
         },
         async (payload) => {
           const updatedRide = payload.new
+
+          setDispatchRound(updatedRide.dispatch_round ?? 0)
+          setDispatchRadiusKm(updatedRide.dispatch_radius_km ?? null)
+          setRetryRound(updatedRide.dispatch_retry_round ?? 0)
+          setSearchPromptExpiresAt(updatedRide.search_prompt_expires_at ?? null)
+          setSearchExpired(updatedRide.status === 'expired')
           
           if (updatedRide.status === 'accepted' && updatedRide.driver_id) {
             // Buscar dados do motorista
             const { data: driverProfile } = await supabase
               .from('profiles')
-              .select('full_name, phone')
+              .select('full_name')
               .eq('user_id', updatedRide.driver_id)
               .single()
 
@@ -92,7 +118,24 @@ export const WaitingForDriver: React.FC<WaitingForDriverProps> = ({
       setDriversNotified(count || 0)
     }
 
+    const loadDispatchProgress = async () => {
+      const { data } = await supabase
+        .from('rides')
+        .select('status, dispatch_round, dispatch_radius_km, dispatch_retry_round, search_prompt_expires_at')
+        .eq('id', rideId)
+        .single()
+
+      if (data) {
+        setDispatchRound(data.dispatch_round)
+        setDispatchRadiusKm(data.dispatch_radius_km)
+        setRetryRound(data.dispatch_retry_round)
+        setSearchPromptExpiresAt(data.search_prompt_expires_at)
+        setSearchExpired(data.status === 'expired')
+      }
+    }
+
     loadNotificationCount()
+    loadDispatchProgress()
 
     return () => {
       clearInterval(timer)
@@ -107,19 +150,65 @@ export const WaitingForDriver: React.FC<WaitingForDriverProps> = ({
     return `${mins}:${secs.toString().padStart(2, '0')}`
   }
 
-  const handleCancel = async () => {
+  const handleKeepSearching = async () => {
+    setIsDeciding(true)
     try {
-      await supabase
-        .from('rides')
-        .update({ status: 'cancelled', cancelled_at: new Date().toISOString() })
-        .eq('id', rideId)
-      
+      await continueRideSearch(rideId)
+      setSearchPromptExpiresAt(null)
+      setRetryRound(0)
+      setSearchTime(0)
+    } catch (error) {
+      toast({
+        title: 'Erro',
+        description: error instanceof RideTransitionError ? error.message : 'Não foi possível continuar a busca',
+        variant: 'destructive',
+      })
+    } finally {
+      setIsDeciding(false)
+    }
+  }
+
+  const handleGiveUp = async () => {
+    setIsDeciding(true)
+    try {
+      await cancelRide(rideId, 'no_driver_found')
       onCancel()
     } catch (error) {
-      console.error('Error cancelling ride:', error)
+      toast({
+        title: 'Erro ao cancelar',
+        description: error instanceof RideTransitionError ? error.message : 'Não foi possível cancelar a corrida',
+        variant: 'destructive',
+      })
+    } finally {
+      setIsDeciding(false)
     }
   }
 
+  const promptSecondsLeft = searchPromptExpiresAt
+    ? Math.max(0, Math.ceil((new Date(searchPromptExpiresAt).getTime() - Date.now()) / 1000))
+    : 0
+  const totalRetryRounds = settings?.dispatch_retry_rounds ?? 0
+
+  if (searchExpired) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-4">
+        <Card className="w-full max-w-md">
+          <CardHeader className="text-center">
+            <CardTitle className="text-xl">Nenhum motorista encontrado</CardTitle>
+            <p className="text-muted-foreground">
+              A busca foi encerrada. Tente solicitar a corrida novamente em alguns minutos.
+            </p>
+          </CardHeader>
+          <CardContent>
+            <Button className="w-full" onClick={onCancel}>
+              Voltar
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    )
+  }
+
   return (
     <div className="min-h-screen bg-background flex items-center justify-center p-4">
       <Card className="w-full max-w-md">
@@ -155,39 +244,84 @@ export const WaitingForDriver: React.FC<WaitingForDriverProps> = ({
             <div className="w-full bg-muted rounded-full h-2">
               <div 
                 className="bg-primary h-2 rounded-full transition-all duration-500"
-                style={{ width: `${Math.min((driversNotified / 5) * 100, 100)}%` }}
+                style={{ width: `${Math.min((driversNotified / maxDrivers) * 100, 100)}%` }}
               />
             </div>
-          </div>
 
-          {/* Mensagens de status */}
-          <div className="text-center space-y-2">
-            {searchTime < 30 && (
-              <p className="text-sm text-muted-foreground">
-                🔍 Procurando motoristas próximos...
-              </p>
-            )}
-            {searchTime >= 30 && searchTime < 60 && (
-              <p className="text-sm text-muted-foreground">
-                ⏳ Expandindo área de busca...
+            {dispatchRound > 0 && (
+              <p className="text-xs text-muted-foreground text-center">
+                {isSequential
+                  ? `Rodada ${dispatchRound} de ${totalRounds}`
+                  : 'Oferta enviada a todos os motoristas próximos'}
+                {dispatchRadiusKm !== null && ` · raio de ${dispatchRadiusKm} km`}
               </p>
             )}
-            {searchTime >= 60 && (
-              <p className="text-sm text-muted-foreground">
-                🚗 Tentando encontrar motoristas disponíveis...
+
+            {retryRound > 0 && !searchPromptExpiresAt && (
+              <p className="text-xs text-muted-foreground text-center">
+                Nova busca {retryRound} de {Math.max(totalRetryRounds, retryRound)} com área ampliada
               </p>
             )}
           </div>
 
+          {/* Rodadas esgotadas: o passageiro decide se continua */}
+          {searchPromptExpiresAt && (
+            <div className="p-4 rounded-lg border space-y-3 text-center">
+              <p className="text-sm font-medium">
+                Ainda não encontramos um motorista. Deseja continuar procurando?
+              </p>
+              <p className="text-xs text-muted-foreground">
+                Sem resposta em {promptSecondsLeft}s a busca será encerrada.
+              </p>
+              <div className="flex gap-2">
+                <Button variant="outline" className="flex-1" onClick={handleGiveUp} disabled={isDeciding}>
+                  Desistir
+                </Button>
+                <Button className="flex-1" onClick={handleKeepSearching} disabled={isDeciding}>
+                  Continuar procurando
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {/* Mensagens de status */}
+          {!searchPromptExpiresAt && (
+            <div className="text-center space-y-2">
+              {searchTime < 30 && (
+                <p className="text-sm text-muted-foreground">
+                  🔍 Procurando motoristas próximos...
+                </p>
+              )}
+              {searchTime >= 30 && searchTime < 60 && (
+                <p className="text-sm text-muted-foreground">
+                  ⏳ Expandindo área de busca...
+                </p>
+              )}
+              {searchTime >= 60 && (
+                <p className="text-sm text-muted-foreground">
+                  🚗 Tentando encontrar motoristas disponíveis...
+                </p>
+              )}
+            </div>
+          )}
+
           {/* Botão cancelar */}
           <Button 
             variant="outline" 
-            onClick={handleCancel}
+            onClick={() => setCancelDialogOpen(true)}
             className="w-full"
           >
             Cancelar Corrida
           </Button>
 
+          <CancelRideDialog
+            rideId={rideId}
+            actor="passenger"
+            open={cancelDialogOpen}
+            onOpenChange={setCancelDialogOpen}
+            onCancelled={() => onCancel()}
+          />
+
           {/* Dicas */}
           <div className="text-xs text-muted-foreground text-center space-y-1">
             <p>💡 Dica: Horários de pico podem demorar mais</p>
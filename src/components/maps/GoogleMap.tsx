@@ -21,11 +21,28 @@ interface GoogleMapProps {
   showRoute?: {
     origin: LocationCoords
     destination: LocationCoords
+    // Paradas intermediárias, na ordem do trajeto
+    waypoints?: LocationCoords[]
     color?: string
   }
+  // Veículo acompanhado ao vivo: o marcador desliza até cada nova posição
+  // e aponta para a direção de deslocamento (graus, 0 = norte)
+  liveMarker?: {
+    position: LocationCoords
+    heading?: number | null
+    title?: string
+  } | null
+  // Trajeto percorrido (pontos gravados em ordem), desenhado como linha
+  path?: {
+    points: LocationCoords[]
+    color?: string
+  } | null
   className?: string
 }
 
+// Duração da animação entre duas posições do marcador ao vivo
+const LIVE_MARKER_ANIMATION_MS = 1000
+
 export const GoogleMap: React.FC<GoogleMapProps> = ({
   center = { lat: -18.9146, lng: -48.2754 }, // Centro de Uberlândia
   zoom = 15,
@@ -35,6 +52,8 @@ export const GoogleMap: React.FC<GoogleMapProps> = ({
   onLocationSelect,
   markers = [],
   showRoute,
+  liveMarker,
+  path,
   className = '',
 }) => {
   const { user } = useAuth()
@@ -45,6 +64,9 @@ export const GoogleMap: React.FC<GoogleMapProps> = ({
   const [isLoading, setIsLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const markersRef = useRef<google.maps.Marker[]>([])
+  const liveMarkerRef = useRef<google.maps.Marker | null>(null)
+  const liveAnimationRef = useRef<number | null>(null)
+  const pathRef = useRef<google.maps.Polyline | null>(null)
   const isInitializingRef = useRef(false)
 
   const initializeMap = useCallback(() => {
@@ -263,6 +285,107 @@ export const GoogleMap: React.FC<GoogleMapProps> = ({
     }
   }, [map, markers])
 
+  // Update live marker
+  const liveLat = liveMarker?.position.lat
+  const liveLng = liveMarker?.position.lng
+  const liveHeading = liveMarker?.heading
+  const liveTitle = liveMarker?.title
+
+  useEffect(() => {
+    if (!map) return
+
+    if (liveLat === undefined || liveLng === undefined) {
+      liveMarkerRef.current?.setMap(null)
+      liveMarkerRef.current = null
+      return
+    }
+
+    const icon: google.maps.Symbol = {
+      path: google.maps.SymbolPath.FORWARD_CLOSED_ARROW,
+      scale: 6,
+      rotation: liveHeading ?? 0,
+      fillColor: '#4285F4',
+      fillOpacity: 1,
+      strokeColor: '#FFFFFF',
+      strokeWeight: 2,
+    }
+
+    if (!liveMarkerRef.current) {
+      liveMarkerRef.current = new google.maps.Marker({
+        position: { lat: liveLat, lng: liveLng },
+        map,
+        title: liveTitle,
+        icon,
+        zIndex: 1000,
+      })
+      return
+    }
+
+    const marker = liveMarkerRef.current
+    marker.setIcon(icon)
+    marker.setTitle(liveTitle ?? null)
+
+    const start = marker.getPosition()
+    const to = { lat: liveLat, lng: liveLng }
+    if (!start) {
+      marker.setPosition(to)
+      return
+    }
+
+    const from = { lat: start.lat(), lng: start.lng() }
+    const startedAt = performance.now()
+
+    if (liveAnimationRef.current !== null) {
+      cancelAnimationFrame(liveAnimationRef.current)
+    }
+
+    const step = (now: number) => {
+      const progress = Math.min(1, (now - startedAt) / LIVE_MARKER_ANIMATION_MS)
+      marker.setPosition({
+        lat: from.lat + (to.lat - from.lat) * progress,
+        lng: from.lng + (to.lng - from.lng) * progress,
+      })
+      liveAnimationRef.current = progress < 1 ? requestAnimationFrame(step) : null
+    }
+
+    liveAnimationRef.current = requestAnimationFrame(step)
+  }, [map, liveLat, liveLng, liveHeading, liveTitle])
+
+  useEffect(() => {
+    return () => {
+      if (liveAnimationRef.current !== null) {
+        cancelAnimationFrame(liveAnimationRef.current)
+      }
+      liveMarkerRef.current?.setMap(null)
+    }
+  }, [])
+
+  // Update recorded path
+  useEffect(() => {
+    if (!map) return
+
+    pathRef.current?.setMap(null)
+    pathRef.current = null
+
+    if (!path || path.points.length < 2) return
+
+    pathRef.current = new google.maps.Polyline({
+      path: path.points,
+      map,
+      strokeColor: path.color || '#16A34A',
+      strokeOpacity: 0.9,
+      strokeWeight: 4,
+    })
+
+    const bounds = new google.maps.LatLngBounds()
+    path.points.forEach(point => bounds.extend(point))
+    map.fitBounds(bounds)
+
+    return () => {
+      pathRef.current?.setMap(null)
+    }
+  }, [map, path])
+
   // Update route
   useEffect(() => {
     if (!map || !directionsService || !directionsRenderer || !showRoute) return
@@ -271,6 +394,7 @@ export const GoogleMap: React.FC<GoogleMapProps> = ({
       {
         origin: showRoute.origin,
         destination: showRoute.destination,
+        waypoints: showRoute.waypoints?.map(location => ({ location, stopover: true })),
         travelMode: google.maps.TravelMode.DRIVING,
       },
       (result, status) => {
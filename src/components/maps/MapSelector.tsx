@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback } from 'react'
+import React, { useState, useEffect, useCallback, useMemo } from 'react'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
@@ -8,8 +8,13 @@ import { GoogleMap } from './GoogleMap'
 import { LocationCoords, useGeolocation } from '@/hooks/useGeolocation'
 import { supabase } from '@/integrations/supabase/client'
 import { useSystemSettings } from '@/hooks/useSystemSettings'
+import { useServiceZones } from '@/hooks/useServiceZones'
+import { getZoneBounds } from '@/lib/serviceZones'
+import { calculateFare, resolveFareSettings } from '@/lib/fare'
 import { useAuth } from '@/hooks/useAuth'
 import { toast } from 'sonner'
+import { DEFAULT_MAX_RIDE_STOPS, StopSelection, sumRouteLegs, toWaypoints } from '@/lib/rideStops'
+import { StopsEditor } from './StopsEditor'
 
 interface LocationSelection {
   coords: LocationCoords
@@ -21,6 +26,7 @@ interface MapSelectorProps {
   onRouteCalculated?: (route: {
     origin: LocationSelection
     destination: LocationSelection
+    stops: StopSelection[]
     distance: number
     duration: number
     price: number
@@ -45,17 +51,36 @@ export const MapSelector: React.FC<MapSelectorProps> = ({
   const { settings: systemSettings, loading: settingsLoading } = useSystemSettings()
   const [origin, setOrigin] = useState<LocationSelection | null>(null)
   const [destination, setDestination] = useState<LocationSelection | null>(null)
+  const [stops, setStops] = useState<StopSelection[]>([])
   const [originQuery, setOriginQuery] = useState('')
   const [destinationQuery, setDestinationQuery] = useState('')
   const [originResults, setOriginResults] = useState<any[]>([])
   const [destinationResults, setDestinationResults] = useState<any[]>([])
   const [isSearchingOrigin, setIsSearchingOrigin] = useState(false)
   const [isSearchingDestination, setIsSearchingDestination] = useState(false)
+  const { zones, zoneFor } = useServiceZones()
+  // Uberlândia só é usada enquanto não houver zona de atendimento cadastrada
   const [mapCenter, setMapCenter] = useState<LocationCoords>({ lat: -18.9146, lng: -48.2754 })
   const [routeInfo, setRouteInfo] = useState<any>(null)
   const [isCalculatingRoute, setIsCalculatingRoute] = useState(false)
   const [isGettingAddress, setIsGettingAddress] = useState(false)
 
+  // Zona do passageiro (ou a primeira ativa) centraliza o mapa e enviesa a busca
+  const passengerZone = zoneFor(currentLocation) ?? zones[0] ?? null
+  const searchBias = useMemo(
+    () => passengerZone && {
+      location: getZoneBounds(passengerZone).center,
+      radiusKm: getZoneBounds(passengerZone).radiusKm,
+    },
+    [passengerZone]
+  )
+
+  useEffect(() => {
+    if (passengerZone && !origin) {
+      setMapCenter(getZoneBounds(passengerZone).center)
+    }
+  }, [passengerZone, origin])
+
   // Function to get address from coordinates using reverse geocoding
   const getAddressFromCoords = async (coords: LocationCoords, retryCount = 0): Promise<string> => {
     if (!user) return 'Localização atual'
@@ -158,6 +183,10 @@ export const MapSelector: React.FC<MapSelectorProps> = ({
         body: {
           action: 'places-autocomplete',
           input: query,
+          ...(passengerZone && {
+            location: getZoneBounds(passengerZone).center,
+            radiusKm: getZoneBounds(passengerZone).radiusKm,
+          }),
         },
       })
 
@@ -201,7 +230,7 @@ export const MapSelector: React.FC<MapSelectorProps> = ({
       if (type === 'origin') setIsSearchingOrigin(false)
       else setIsSearchingDestination(false)
     }
-  }, [user])
+  }, [user, passengerZone])
 
   // Debounce search
   useEffect(() => {
@@ -308,6 +337,7 @@ export const MapSelector: React.FC<MapSelectorProps> = ({
           action: 'directions',
           origin: `${origin.coords.lat},${origin.coords.lng}`,
           destination: `${destination.coords.lat},${destination.coords.lng}`,
+          waypoints: toWaypoints(stops),
         },
       })
 
@@ -318,66 +348,24 @@ export const MapSelector: React.FC<MapSelectorProps> = ({
       }
 
       if (data?.routes && data.routes.length > 0) {
-        const route = data.routes[0]
-        const leg = route.legs[0]
-        
-        const distanceKm = leg.distance.value / 1000
-        
-        // Use dynamic pricing from system settings or defaults
-        const settings = systemSettings || {
-          fixed_rate: 5.0,
-          price_per_km: 2.5,
-          minimum_fare: 8.0,
-          app_fee_percentage: 20.0,
-          pricing_model: 'per_km',
-          fee_type: 'percentage',
-        }
-
-        let totalPrice = 0
-        let basePrice = 0
-        let distancePrice = 0
-
-        if (settings.pricing_model === 'fixed') {
-          // Fixed pricing model
-          totalPrice = settings.fixed_rate
-          basePrice = settings.fixed_rate
-          distancePrice = 0
-        } else {
-          // Per kilometer pricing model
-          basePrice = settings.fixed_rate
-          distancePrice = distanceKm * settings.price_per_km
-          totalPrice = basePrice + distancePrice
-        }
-
-        // Apply minimum fare
-        const finalPrice = Math.max(totalPrice, settings.minimum_fare)
-
-        // Calculate app fee and driver earnings
-        let appFee = 0
-        let driverEarnings = 0
-
-        if (settings.fee_type === 'percentage') {
-          appFee = finalPrice * (settings.app_fee_percentage / 100)
-          driverEarnings = finalPrice - appFee
-        } else {
-          // Fixed amount fee (not implemented in schema yet, but keeping logic)
-          appFee = settings.app_fee_percentage
-          driverEarnings = finalPrice - appFee
-        }
+        // Um trecho por parada; o preço considera o trajeto inteiro
+        const { distanceKm, durationMinutes } = sumRouteLegs(data.routes[0].legs)
+        const fare = calculateFare({ distanceKm, durationMinutes }, resolveFareSettings(systemSettings))
 
         const routeData = {
           origin,
           destination,
+          stops,
           distance: distanceKm,
-          duration: leg.duration.value / 60,
-          price: finalPrice,
-          driverEarnings,
-          appFee,
+          duration: durationMinutes,
+          price: fare.total,
+          driverEarnings: fare.driverNet,
+          appFee: fare.appFee,
           priceBreakdown: {
-            basePrice,
-            distancePrice,
-            minimumFare: settings.minimum_fare,
-            pricingModel: settings.pricing_model
+            basePrice: fare.base,
+            distancePrice: fare.distance,
+            minimumFare: fare.minimumFare,
+            pricingModel: fare.pricingModel
           }
         }
 
@@ -425,7 +413,7 @@ export const MapSelector: React.FC<MapSelectorProps> = ({
     if (origin && destination && user) {
       calculateRoute()
     }
-  }, [origin, destination, user])
+  }, [origin, destination, stops, user])
 
   const markers = []
   if (origin) {
@@ -435,6 +423,13 @@ export const MapSelector: React.FC<MapSelectorProps> = ({
       icon: '/placeholder.svg', // Verde para origem
     })
   }
+  stops.forEach((stop, index) => {
+    markers.push({
+      position: stop.coords,
+      title: `Parada ${index + 1}`,
+      icon: '/placeholder.svg',
+    })
+  })
   if (destination) {
     markers.push({
       position: destination.coords,
@@ -527,6 +522,14 @@ export const MapSelector: React.FC<MapSelectorProps> = ({
             )}
           </div>
 
+          {/* Stops */}
+          <StopsEditor
+            stops={stops}
+            onChange={setStops}
+            maxStops={systemSettings?.max_ride_stops ?? DEFAULT_MAX_RIDE_STOPS}
+            bias={searchBias}
+          />
+
           {/* Destination Field */}
           <div className="space-y-2">
             <label className="text-sm font-medium text-foreground">
@@ -645,6 +648,14 @@ export const MapSelector: React.FC<MapSelectorProps> = ({
                       <span className="font-medium">De:</span> {origin.address}
                     </div>
                   </div>
+                  {stops.map((stop, index) => (
+                    <div key={index} className="flex items-start gap-2">
+                      <div className="w-2 h-2 bg-yellow-500 rounded-full mt-1.5 flex-shrink-0"></div>
+                      <div>
+                        <span className="font-medium">Parada {index + 1}:</span> {stop.address}
+                      </div>
+                    </div>
+                  ))}
                   <div className="flex items-start gap-2">
                     <div className="w-2 h-2 bg-red-500 rounded-full mt-1.5 flex-shrink-0"></div>
                     <div>
@@ -702,6 +713,7 @@ export const MapSelector: React.FC<MapSelectorProps> = ({
               ? {
                   origin: origin.coords,
                   destination: destination.coords,
+                  waypoints: stops.map(stop => stop.coords),
                   color: '#3B82F6'
                 }
               : undefined
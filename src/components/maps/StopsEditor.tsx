@@ -0,0 +1,155 @@
+import React, { useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Plus, X } from 'lucide-react'
+import { supabase } from '@/integrations/supabase/client'
+import { toast } from 'sonner'
+import { StopSelection } from '@/lib/rideStops'
+import { LocationCoords } from '@/hooks/useGeolocation'
+
+interface StopsEditorProps {
+  stops: StopSelection[]
+  onChange: (stops: StopSelection[]) => void
+  maxStops: number
+  // Centro e raio para enviesar a busca, como na origem e no destino
+  bias?: { location: LocationCoords; radiusKm: number } | null
+}
+
+interface StopFieldProps {
+  index: number
+  stop: StopSelection | null
+  bias?: StopsEditorProps['bias']
+  onSelect: (stop: StopSelection) => void
+  onRemove: () => void
+}
+
+const StopField: React.FC<StopFieldProps> = ({ index, stop, bias, onSelect, onRemove }) => {
+  const [query, setQuery] = useState(stop?.address ?? '')
+  const [results, setResults] = useState<google.maps.places.AutocompletePrediction[]>([])
+
+  useEffect(() => {
+    if (!query.trim() || query === stop?.address) {
+      setResults([])
+      return
+    }
+
+    const timeoutId = setTimeout(async () => {
+      const { data, error } = await supabase.functions.invoke('google-maps-proxy', {
+        body: {
+          action: 'places-autocomplete',
+          input: query,
+          ...(bias ?? {}),
+        },
+      })
+
+      if (error) {
+        toast.error(`Erro na busca: ${error.message}`)
+        return
+      }
+
+      setResults(data?.predictions ?? [])
+    }, 300)
+    return () => clearTimeout(timeoutId)
+  }, [query, stop?.address, bias])
+
+  const selectPlace = async (place: google.maps.places.AutocompletePrediction) => {
+    const { data, error } = await supabase.functions.invoke('google-maps-proxy', {
+      body: {
+        action: 'place-details',
+        place_id: place.place_id,
+      },
+    })
+
+    if (error || !data?.result?.geometry?.location) {
+      toast.error('Erro ao selecionar local')
+      return
+    }
+
+    setQuery(data.result.formatted_address)
+    setResults([])
+    onSelect({
+      coords: {
+        lat: data.result.geometry.location.lat,
+        lng: data.result.geometry.location.lng,
+      },
+      address: data.result.formatted_address,
+    })
+  }
+
+  return (
+    <div className="flex gap-2">
+      <div className="relative flex-1">
+        <Input
+          placeholder={`Parada ${index + 1}`}
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+        />
+        {results.length > 0 && (
+          <div className="absolute top-full left-0 right-0 z-50 bg-background border border-border rounded-md shadow-lg max-h-48 overflow-y-auto">
+            {results.map((result, i) => (
+              <button
+                key={i}
+                className="w-full text-left px-3 py-2 hover:bg-accent text-sm border-b border-border last:border-b-0"
+                onClick={() => selectPlace(result)}
+              >
+                <div className="font-medium">{result.structured_formatting?.main_text}</div>
+                <div className="text-muted-foreground text-xs">
+                  {result.structured_formatting?.secondary_text}
+                </div>
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+      <Button variant="outline" size="icon" onClick={onRemove} title="Remover parada">
+        <X className="h-4 w-4" />
+      </Button>
+    </div>
+  )
+}
+
+// Paradas entre a origem e o destino, na ordem em que serão feitas.
+// Só as paradas com endereço escolhido chegam ao onChange.
+export const StopsEditor: React.FC<StopsEditorProps> = ({ stops, onChange, maxStops, bias }) => {
+  // Campos ainda sem endereço escolhido ficam como null
+  const [fields, setFields] = useState<(StopSelection | null)[]>(stops)
+  const [fieldKeys, setFieldKeys] = useState<number[]>(() => stops.map((_, i) => i))
+  const [nextKey, setNextKey] = useState(stops.length)
+
+  const update = (next: (StopSelection | null)[], keys: number[]) => {
+    setFields(next)
+    setFieldKeys(keys)
+    onChange(next.filter((stop): stop is StopSelection => stop !== null))
+  }
+
+  const addField = () => {
+    setFields(prev => [...prev, null])
+    setFieldKeys(prev => [...prev, nextKey])
+    setNextKey(prev => prev + 1)
+  }
+
+  if (maxStops <= 0) {
+    return null
+  }
+
+  return (
+    <div className="space-y-2">
+      {fields.map((stop, index) => (
+        <StopField
+          key={fieldKeys[index]}
+          index={index}
+          stop={stop}
+          bias={bias}
+          onSelect={(selected) => update(fields.map((s, i) => i === index ? selected : s), fieldKeys)}
+          onRemove={() => update(fields.filter((_, i) => i !== index), fieldKeys.filter((_, i) => i !== index))}
+        />
+      ))}
+      {fields.length < maxStops && (
+        <Button variant="ghost" size="sm" onClick={addField}>
+          <Plus className="h-4 w-4 mr-1" />
+          Adicionar parada
+        </Button>
+      )}
+    </div>
+  )
+}
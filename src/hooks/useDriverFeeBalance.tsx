@@ -0,0 +1,46 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { DriverFeeBalance } from '@/lib/driverFees';
+
+// Saldo de taxas do motorista logado; admins usam get_driver_fee_balances sem filtro
+export const useDriverFeeBalance = (driverId?: string) => {
+  const [balance, setBalance] = useState<DriverFeeBalance | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const fetchBalance = useCallback(async () => {
+    if (!driverId) {
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setLoading(true);
+
+      const { data, error } = await supabase.rpc('get_driver_fee_balances', {
+        p_driver_id: driverId,
+      });
+
+      if (error) {
+        throw error;
+      }
+
+      setBalance(data?.[0] ?? null);
+    } catch (err) {
+      console.error('Error fetching driver fee balance:', err);
+      setBalance(null);
+    } finally {
+      setLoading(false);
+    }
+  }, [driverId]);
+
+  useEffect(() => {
+    fetchBalance();
+  }, [fetchBalance]);
+
+  return {
+    balance,
+    loading,
+    isBlocked: balance?.is_blocked ?? false,
+    refetch: fetchBalance,
+  };
+};
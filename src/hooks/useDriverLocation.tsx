@@ -1,6 +1,13 @@
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useRef } from 'react'
 import { supabase } from '@/integrations/supabase/client'
 import { useLocationTracking, LocationCoords } from './useGeolocation'
+import { DRIVER_DEBT_LIMIT_CODE } from '@/lib/driverFees'
+import {
+  bearingBetween,
+  distanceMeters,
+  LIVE_LOCATION_MIN_DISTANCE_M,
+  LIVE_LOCATION_MIN_INTERVAL_MS,
+} from '@/lib/liveLocation'
 
 interface DriverLocation {
   id: string
@@ -18,6 +25,8 @@ export const useDriverLocation = (enabled = false) => {
   const locationData = useLocationTracking(enabled, 3000) // Update every 3 seconds
   const [isOnline, setIsOnline] = useState(false)
   const [isUpdating, setIsUpdating] = useState(false)
+  // O banco recusa ficar online com taxas acima do limite
+  const [debtBlocked, setDebtBlocked] = useState(false)
 
   // Update driver location in database
   const updateLocation = async (coords: LocationCoords, additionalData?: {
@@ -42,7 +51,10 @@ export const useDriverLocation = (enabled = false) => {
           last_update: new Date().toISOString(),
         })
 
-      if (error) {
+      if (error?.message === DRIVER_DEBT_LIMIT_CODE) {
+        setIsOnline(false)
+        setDebtBlocked(true)
+      } else if (error) {
         console.error('Erro ao atualizar localização:', error)
       }
     } catch (error) {
@@ -52,14 +64,20 @@ export const useDriverLocation = (enabled = false) => {
     }
   }
 
+  // updateLocation muda a cada render; o efeito usa sempre a versão mais recente
+  const updateLocationRef = useRef(updateLocation)
+  updateLocationRef.current = updateLocation
+
   // Auto-update location when tracking is enabled and location changes
   useEffect(() => {
     if (enabled && locationData.coords && isOnline) {
-      updateLocation(locationData.coords, {
+      updateLocationRef.current(locationData.coords, {
+        heading: locationData.heading ?? undefined,
+        speed: locationData.speed ?? undefined,
         accuracy: locationData.accuracy || undefined,
       })
     }
-  }, [locationData.coords, enabled, isOnline])
+  }, [locationData.coords, locationData.heading, locationData.speed, locationData.accuracy, enabled, isOnline])
 
   const setOnlineStatus = async (online: boolean) => {
     setIsOnline(online)
@@ -91,6 +109,7 @@ export const useDriverLocation = (enabled = false) => {
     location: locationData,
     isOnline,
     isUpdating,
+    debtBlocked,
     setOnlineStatus,
     updateLocation,
   }
@@ -161,6 +180,145 @@ export const useNearbyDrivers = (passengerLocation?: LocationCoords, radius = 10
   return { drivers, loading, refreshDrivers: loadNearbyDrivers }
 }
 
+// Motorista em corrida: transmite a posição para o passageiro acompanhar.
+// Atualiza a linha mais recente do motorista; is_online continua como estava.
+export const useRideLocationBroadcast = (driverId?: string, enabled = false) => {
+  const locationData = useLocationTracking(enabled && !!driverId, LIVE_LOCATION_MIN_INTERVAL_MS)
+  const lastSentRef = useRef<{ coords: LocationCoords, at: number } | null>(null)
+  const rowIdRef = useRef<string | null>(null)
+
+  useEffect(() => {
+    const coords = locationData.coords
+    if (!enabled || !driverId || !coords) return
+
+    const now = Date.now()
+    const last = lastSentRef.current
+    if (last && (
+      now - last.at < LIVE_LOCATION_MIN_INTERVAL_MS ||
+      distanceMeters(last.coords, coords) < LIVE_LOCATION_MIN_DISTANCE_M
+    )) {
+      return
+    }
+
+    lastSentRef.current = { coords, at: now }
+
+    const position = {
+      lat: coords.lat,
+      lng: coords.lng,
+      heading: locationData.heading ?? (last ? bearingBetween(last.coords, coords) : null),
+      speed: locationData.speed ?? null,
+      accuracy: locationData.accuracy,
+      last_update: new Date().toISOString(),
+    }
+
+    const send = async () => {
+      if (!rowIdRef.current) {
+        const { data: latest } = await supabase
+          .from('driver_locations')
+          .select('id')
+          .eq('driver_id', driverId)
+          .order('last_update', { ascending: false })
+          .limit(1)
+          .maybeSingle()
+
+        rowIdRef.current = latest?.id ?? null
+      }
+
+      const { data, error } = rowIdRef.current
+        ? await supabase.from('driver_locations').update(position).eq('id', rowIdRef.current).select('id').single()
+        : await supabase.from('driver_locations').insert({ ...position, driver_id: driverId, is_online: false }).select('id').single()
+
+      if (error) {
+        rowIdRef.current = null
+        console.error('Erro ao transmitir localização:', error)
+      } else {
+        rowIdRef.current = data.id
+      }
+    }
+
+    send()
+  }, [locationData.coords, locationData.heading, locationData.speed, locationData.accuracy, enabled, driverId])
+
+  useEffect(() => {
+    if (!enabled) {
+      lastSentRef.current = null
+      rowIdRef.current = null
+    }
+  }, [enabled, driverId])
+
+  return locationData
+}
+
+export interface LiveDriverPosition {
+  coords: LocationCoords
+  heading: number | null
+  lastUpdate: string
+}
+
+// Passageiro: posição do motorista da corrida em tempo real. Com enabled
+// falso (corrida encerrada) a assinatura é desfeita e a posição some.
+export const useAssignedDriverLocation = (driverId?: string | null, enabled = false) => {
+  const [position, setPosition] = useState<LiveDriverPosition | null>(null)
+
+  useEffect(() => {
+    if (!driverId || !enabled) {
+      setPosition(null)
+      return
+    }
+
+    // Há várias linhas por motorista: vale sempre a atualização mais recente
+    const apply = (row: DriverLocation) => {
+      const coords = { lat: row.lat, lng: row.lng }
+      setPosition(prev => prev && prev.lastUpdate >= row.last_update ? prev : {
+        coords,
+        // Sem heading do GPS, usa a direção entre as duas últimas posições
+        heading: row.heading ?? (prev && distanceMeters(prev.coords, coords) > 0
+          ? bearingBetween(prev.coords, coords)
+          : prev?.heading ?? null),
+        lastUpdate: row.last_update,
+      })
+    }
+
+    supabase
+      .from('driver_locations')
+      .select('*')
+      .eq('driver_id', driverId)
+      .order('last_update', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+      .then(({ data, error }) => {
+        if (error) {
+          console.error('Erro ao carregar localização do motorista:', error)
+        } else if (data) {
+          apply(data as DriverLocation)
+        }
+      })
+
+    const channel = supabase
+      .channel(`driver-location-${driverId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'driver_locations',
+          filter: `driver_id=eq.${driverId}`,
+        },
+        (payload) => {
+          const row = payload.new as DriverLocation
+          if (row?.lat !== undefined) apply(row)
+        }
+      )
+      .subscribe()
+
+    return () => {
+      supabase.removeChannel(channel)
+    }
+  }, [driverId, enabled])
+
+  return position
+}
+
 // Helper function to calculate distance between two points
 const calculateDistance = (point1: LocationCoords, point2: LocationCoords): number => {
   const R = 6371 // Earth's radius in kilometers
@@ -10,6 +10,9 @@ export interface LocationState {
   error: string | null
   loading: boolean
   accuracy: number | null
+  // Só o rastreamento contínuo preenche; o GPS pode não informar
+  heading?: number | null
+  speed?: number | null
 }
 
 export const useGeolocation = (enableHighAccuracy = true, timeout = 10000) => {
@@ -144,6 +147,8 @@ export const useLocationTracking = (enabled = false, interval = 5000) => {
         error: null,
         loading: false,
         accuracy: position.coords.accuracy,
+        heading: position.coords.heading,
+        speed: position.coords.speed,
       })
     }
 
@@ -0,0 +1,72 @@
+import { useEffect, useRef, useState } from 'react'
+import { LocationCoords } from './useGeolocation'
+import { StopSelection } from '@/lib/rideStops'
+import {
+  distanceMeters,
+  ETA_REFRESH_DISTANCE_M,
+  ETA_REFRESH_INTERVAL_MS,
+  fetchEtaMinutes,
+} from '@/lib/liveLocation'
+
+// Previsão de chegada a partir da posição ao vivo do motorista. A rota só é
+// consultada de novo depois de ETA_REFRESH_INTERVAL_MS, quando o motorista se
+// afasta ETA_REFRESH_DISTANCE_M do último cálculo ou quando o alvo muda.
+export const useLiveEta = (
+  from: LocationCoords | null,
+  to: LocationCoords | null,
+  waypoints: StopSelection[] = []
+) => {
+  const [minutes, setMinutes] = useState<number | null>(null)
+  const lastRef = useRef<{ from: LocationCoords, targetKey: string, at: number } | null>(null)
+  // Só a resposta da consulta mais recente vale
+  const requestRef = useRef(0)
+
+  const targetKey = to
+    ? [to, ...waypoints.map(stop => stop.coords)].map(point => `${point.lat},${point.lng}`).join('|')
+    : ''
+
+  // from, to e waypoints chegam como objetos novos a cada render; o efeito
+  // dispara pelas coordenadas e lê os valores atuais daqui
+  const routeRef = useRef({ from, to, waypoints })
+  routeRef.current = { from, to, waypoints }
+
+  useEffect(() => {
+    const { from, to, waypoints } = routeRef.current
+    if (!from || !to) {
+      lastRef.current = null
+      requestRef.current++
+      setMinutes(null)
+      return
+    }
+
+    const last = lastRef.current
+    if (
+      last &&
+      last.targetKey === targetKey &&
+      Date.now() - last.at < ETA_REFRESH_INTERVAL_MS &&
+      distanceMeters(last.from, from) < ETA_REFRESH_DISTANCE_M
+    ) {
+      return
+    }
+
+    // Novo alvo: a previsão anterior não vale mais
+    if (last && last.targetKey !== targetKey) {
+      setMinutes(null)
+    }
+
+    lastRef.current = { from, targetKey, at: Date.now() }
+    const request = ++requestRef.current
+
+    fetchEtaMinutes(from, to, waypoints)
+      .then(eta => {
+        if (request === requestRef.current && eta !== null) setMinutes(eta)
+      })
+      .catch(error => console.error('Erro ao calcular previsão de chegada:', error))
+  }, [from?.lat, from?.lng, targetKey])
+
+  useEffect(() => () => {
+    requestRef.current++
+  }, [])
+
+  return minutes
+}
@@ -0,0 +1,90 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { fetchRideMessages, markRideMessagesRead, RideMessage, sendRideMessage } from '@/lib/rideChat';
+
+// Mensagens da corrida em tempo real; unreadCount conta o que o usuário recebeu e não leu
+export const useRideChat = (rideId?: string, userId?: string) => {
+  const [messages, setMessages] = useState<RideMessage[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchMessages = useCallback(async () => {
+    if (!rideId) {
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setMessages(await fetchRideMessages(rideId));
+    } catch (err) {
+      console.error('Error fetching ride messages:', err);
+      setMessages([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [rideId]);
+
+  useEffect(() => {
+    fetchMessages();
+  }, [fetchMessages]);
+
+  useEffect(() => {
+    if (!rideId) return;
+
+    // INSERT traz mensagens novas; UPDATE traz as confirmações de leitura
+    const channel = supabase
+      .channel(`ride-chat-${rideId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'ride_messages',
+          filter: `ride_id=eq.${rideId}`,
+        },
+        (payload) => {
+          const message = payload.new as RideMessage;
+          if (!message?.id) return;
+
+          setMessages(prev =>
+            prev.some(m => m.id === message.id)
+              ? prev.map(m => (m.id === message.id ? message : m))
+              : [...prev, message]
+          );
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [rideId]);
+
+  const send = useCallback(async (body: string, templateKey?: string) => {
+    if (!rideId) return;
+
+    const message = await sendRideMessage(rideId, body, templateKey);
+    setMessages(prev => (prev.some(m => m.id === message.id) ? prev : [...prev, message]));
+  }, [rideId]);
+
+  const unreadCount = messages.filter(m => m.recipient_id === userId && !m.read_at).length;
+
+  const markRead = useCallback(async () => {
+    if (!rideId || unreadCount === 0) return;
+
+    try {
+      await markRideMessagesRead(rideId);
+    } catch (err) {
+      console.error('Error marking ride messages as read:', err);
+    }
+  }, [rideId, unreadCount]);
+
+  return {
+    messages,
+    loading,
+    unreadCount,
+    send,
+    markRead,
+    refetch: fetchMessages,
+  };
+};
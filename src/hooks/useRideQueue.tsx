@@ -2,6 +2,7 @@ import { useState, useEffect, useCallback } from 'react'
 import { supabase } from '@/integrations/supabase/client'
 import { useToast } from '@/hooks/use-toast'
 import { useConnectionMonitor } from '@/hooks/useConnectionMonitor'
+import { PaymentMethod } from '@/lib/payments'
 
 export interface RideNotification {
   id: string
@@ -10,6 +11,28 @@ export interface RideNotification {
   notified_at: string
   expires_at: string
   status: 'pending' | 'accepted' | 'expired' | 'cancelled'
+  // Copiado da corrida no banco, já que o motorista ainda não lê a corrida
+  payment_method: PaymentMethod | null
+}
+
+export type AcceptRideLossReason =
+  | 'ALREADY_TAKEN'
+  | 'RIDE_UNAVAILABLE'
+  | 'NOTIFICATION_CLOSED'
+  | 'NOTIFICATION_EXPIRED'
+
+export interface AcceptRideResult {
+  success: boolean
+  rideId: string
+  reason?: AcceptRideLossReason
+  error?: unknown
+}
+
+export const acceptRideLossMessages: Record<AcceptRideLossReason, string> = {
+  ALREADY_TAKEN: 'Outro motorista aceitou esta corrida primeiro',
+  RIDE_UNAVAILABLE: 'A corrida foi cancelada ou não está mais disponível',
+  NOTIFICATION_CLOSED: 'Esta oferta já foi encerrada',
+  NOTIFICATION_EXPIRED: 'O tempo para aceitar esta corrida acabou',
 }
 
 export const useRideQueue = () => {
@@ -205,58 +228,48 @@ export const useRideQueue = () => {
     console.log('🔕 Stopped ride notification listener')
   }, [])
 
-  const acceptNotification = useCallback(async (notificationId: string, rideId: string) => {
+  const acceptNotification = useCallback(async (notificationId: string, rideId: string): Promise<AcceptRideResult> => {
     try {
       console.log(`✅ Accepting ride notification: ${notificationId}`)
 
-      // Accept the ride
-      const { error: rideError } = await supabase
-        .from('rides')
-        .update({
-          driver_id: (await supabase.auth.getUser()).data.user?.id,
-          status: 'accepted',
-          accepted_at: new Date().toISOString()
-        })
-        .eq('id', rideId)
-        .eq('status', 'requested') // Only if still available
+      // Single transaction: locks the ride, assigns the driver and settles sibling notifications
+      const { data, error } = await supabase
+        .rpc('accept_ride', { p_notification_id: notificationId })
+        .single()
 
-      if (rideError) throw rideError
-
-      // Mark notification as accepted
-      const { error: notificationError } = await supabase
-        .from('ride_notifications')
-        .update({ status: 'accepted' })
-        .eq('id', notificationId)
-
-      if (notificationError) throw notificationError
-
-      // Mark all other notifications for this ride as expired
-      await supabase
-        .from('ride_notifications')
-        .update({ status: 'expired' })
-        .eq('ride_id', rideId)
-        .neq('id', notificationId)
+      if (error) throw error
 
       // Remove ALL notifications for this ride from local state (broadcast effect)
       setActiveNotifications(prev => prev.filter(n => n.ride_id !== rideId))
 
+      if (!data.accepted) {
+        const reason = data.reason as AcceptRideLossReason
+        console.log(`❌ Ride ${rideId} lost: ${reason}`)
+        toast({
+          title: "Corrida indisponível",
+          description: acceptRideLossMessages[reason] ?? acceptRideLossMessages.RIDE_UNAVAILABLE,
+          variant: "destructive"
+        })
+        return { success: false, rideId, reason }
+      }
+
       toast({
         title: "Corrida aceita!",
         description: "Você aceitou a corrida. Dirija-se ao local de embarque."
       })
 
-      return { success: true }
+      return { success: true, rideId }
     } catch (error) {
       console.error('Error accepting notification:', error)
       toast({
         title: "Erro",
-        description: "Esta corrida já foi aceita por outro motorista",
+        description: "Não foi possível aceitar a corrida. Tente novamente.",
         variant: "destructive"
       })
       
       // Remove from local state anyway
       setActiveNotifications(prev => prev.filter(n => n.id !== notificationId))
-      return { success: false, error }
+      return { success: false, rideId, error }
     }
   }, [toast])
 
@@ -270,6 +283,14 @@ export const useRideQueue = () => {
         .update({ status: 'expired' })
         .eq('id', notificationId)
 
+      // No despacho sequencial a recusa libera a oferta para o próximo motorista
+      const declined = activeNotifications.find(n => n.id === notificationId)
+      if (declined) {
+        supabase.functions
+          .invoke('ride-queue-manager', { body: { rideId: declined.ride_id, advance: true } })
+          .catch(error => console.error('Error advancing ride dispatch:', error))
+      }
+
       // Remove from local state
       setActiveNotifications(prev => prev.filter(n => n.id !== notificationId))
 
@@ -280,7 +301,7 @@ export const useRideQueue = () => {
     } catch (error) {
       console.error('Error declining notification:', error)
     }
-  }, [toast])
+  }, [activeNotifications, toast])
 
   // Cleanup expired notifications
   useEffect(() => {
@@ -329,7 +350,7 @@ const fetchPendingNotificationsSimple = async (driverId: string, setActiveNotifi
     
     const { data: notifications, error } = await supabase
       .from('ride_notifications')
-      .select('id, ride_id, driver_id, notified_at, expires_at, status')
+      .select('id, ride_id, driver_id, notified_at, expires_at, status, payment_method')
       .eq('driver_id', driverId)
       .eq('status', 'pending')
       .gt('expires_at', new Date().toISOString())
@@ -0,0 +1,72 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { respondToSafetyAlert, RideSafetyAlert } from '@/lib/rideSafety';
+
+// Alertas de segurança da corrida que ainda esperam a resposta do passageiro
+export const useRideSafetyAlerts = (rideId?: string) => {
+  const [alerts, setAlerts] = useState<RideSafetyAlert[]>([]);
+
+  const fetchAlerts = useCallback(async () => {
+    if (!rideId) return;
+
+    const { data, error } = await supabase
+      .from('ride_safety_alerts')
+      .select('*')
+      .eq('ride_id', rideId)
+      .eq('status', 'pending')
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching safety alerts:', error);
+      return;
+    }
+
+    setAlerts(data ?? []);
+  }, [rideId]);
+
+  useEffect(() => {
+    fetchAlerts();
+  }, [fetchAlerts]);
+
+  useEffect(() => {
+    if (!rideId) return;
+
+    // INSERT traz alertas novos; UPDATE tira da lista os respondidos ou escalados
+    const channel = supabase
+      .channel(`ride-safety-${rideId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'ride_safety_alerts',
+          filter: `ride_id=eq.${rideId}`,
+        },
+        (payload) => {
+          const alert = payload.new as RideSafetyAlert;
+          if (!alert?.id) return;
+
+          setAlerts(prev => {
+            const others = prev.filter(a => a.id !== alert.id);
+            return alert.status === 'pending' ? [...others, alert] : others;
+          });
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [rideId]);
+
+  const respond = useCallback(async (alertId: string, safe: boolean) => {
+    const alert = await respondToSafetyAlert(alertId, safe);
+    setAlerts(prev => prev.filter(a => a.id !== alert.id));
+    return alert;
+  }, []);
+
+  return {
+    alert: alerts[0] ?? null,
+    respond,
+  };
+};
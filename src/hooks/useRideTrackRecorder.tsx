@@ -0,0 +1,42 @@
+import { useEffect, useRef } from 'react'
+import { LocationCoords, LocationState } from './useGeolocation'
+import { distanceMeters } from '@/lib/liveLocation'
+import {
+  recordTrackPoint,
+  TRACK_SAMPLE_INTERVAL_MS,
+  TRACK_SAMPLE_MIN_DISTANCE_M,
+} from '@/lib/rideTracks'
+
+// Motorista em viagem: grava amostras da posição em ride_tracks. Reaproveita
+// a posição já rastreada pela transmissão ao vivo, sem abrir outro watchPosition.
+export const useRideTrackRecorder = (rideId: string | undefined, location: LocationState, enabled = false) => {
+  const lastRecordedRef = useRef<{ coords: LocationCoords, at: number } | null>(null)
+  // Precisão e velocidade vêm da mesma leitura; só uma posição nova dispara o efeito
+  const locationRef = useRef(location)
+  locationRef.current = location
+
+  useEffect(() => {
+    const coords = location.coords
+    if (!enabled || !rideId || !coords) return
+
+    const now = Date.now()
+    const last = lastRecordedRef.current
+    if (last && (
+      now - last.at < TRACK_SAMPLE_INTERVAL_MS ||
+      distanceMeters(last.coords, coords) < TRACK_SAMPLE_MIN_DISTANCE_M
+    )) {
+      return
+    }
+
+    lastRecordedRef.current = { coords, at: now }
+
+    recordTrackPoint(rideId, locationRef.current)
+      .catch(error => console.error('Erro ao gravar trajeto:', error))
+  }, [location.coords, enabled, rideId])
+
+  useEffect(() => {
+    if (!enabled) {
+      lastRecordedRef.current = null
+    }
+  }, [enabled, rideId])
+}
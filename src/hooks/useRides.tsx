@@ -2,6 +2,13 @@ import { useState, useEffect, useCallback } from 'react'
 import { supabase } from '@/integrations/supabase/client'
 import { useToast } from '@/hooks/use-toast'
 import { LocationCoords } from './useGeolocation'
+import { completeRide, RideRow, RideStatus, RideTransitionError, toRideTransitionError, transitionRideStatus } from '@/lib/rideStatus'
+import { VehicleType } from '@/lib/vehicleFares'
+import { Json } from '@/integrations/supabase/types'
+import { SurgeChangedError } from '@/lib/surge'
+import { OutsideServiceAreaError } from '@/lib/serviceZones'
+import { CancellationFeePendingError } from '@/lib/rideCancellation'
+import { PaymentMethod } from '@/lib/payments'
 
 export interface Ride {
   id: string
@@ -13,28 +20,40 @@ export interface Ride {
   destination_address: string
   destination_lat: number
   destination_lng: number
-  status: 'requested' | 'accepted' | 'driver_arriving' | 'driver_arrived' | 'in_progress' | 'completed' | 'cancelled'
+  status: RideStatus
   estimated_price?: number
   final_price?: number
+  final_fare_breakdown?: Json | null
   estimated_duration_minutes?: number
   distance_km?: number
+  tracked_distance_km?: number | null
+  fare_distance_source?: string | null
+  requested_vehicle_type?: VehicleType
   requested_at: string
   accepted_at?: string
+  driver_arriving_at?: string
+  pickup_arrived_at?: string
   started_at?: string
+  trip_ended_at?: string | null
   completed_at?: string
   cancelled_at?: string
+  expired_at?: string
   passenger_comment?: string
   driver_comment?: string
-  passenger_rating?: number
-  driver_rating?: number
-  payment_method?: 'cash' | 'card' | 'pix'
-  payment_status?: string
+  passenger_rating?: number | null
+  passenger_rating_tags?: string[] | null
+  passenger_rated_at?: string | null
+  driver_rating?: number | null
+  driver_rating_tags?: string[] | null
+  driver_rated_at?: string | null
+  payment_method: PaymentMethod
+  payment_status: string
 }
 
+// O telefone não vem junto: o contato é feito pelo número intermediário da corrida
 export interface PassengerProfile {
   id: string
   full_name: string
-  phone: string
 }
 
 export interface RideWithPassenger extends Ride {
@@ -71,13 +90,13 @@ export const useRides = () => {
         (data || []).map(async (ride) => {
           const { data: passengerData } = await supabase
             .from('profiles')
-            .select('id, full_name, phone')
+            .select('id, full_name')
             .eq('user_id', ride.passenger_id)
             .single()
 
           return {
             ...ride,
-            passenger: passengerData || { id: '', full_name: 'Desconhecido', phone: '' }
+            passenger: passengerData || { id: '', full_name: 'Desconhecido' }
           } as RideWithPassenger
         })
       )
@@ -90,76 +109,25 @@ export const useRides = () => {
     }
   }, [toast])
 
-  // Accept a ride (driver)
-  const acceptRide = useCallback(async (rideId: string) => {
+  // Update ride status (validated server-side by transition_ride_status)
+  const updateRideStatus = useCallback(async (
+    rideId: string,
+    status: RideStatus,
+    options: { cashReceived?: boolean } = {}
+  ) => {
     try {
-      const { error } = await supabase
-        .from('rides')
-        .update({
-          driver_id: (await supabase.auth.getUser()).data.user?.id,
-          status: 'accepted',
-          accepted_at: new Date().toISOString()
-        })
-        .eq('id', rideId)
-
-      if (error) throw error
-
-      toast({
-        title: "Corrida aceita!",
-        description: "Você aceitou a corrida. Dirija-se ao local de embarque."
-      })
-
-      fetchRides()
-    } catch (error) {
-      console.error('Error accepting ride:', error)
-      toast({
-        title: "Erro",
-        description: "Erro ao aceitar corrida",
-        variant: "destructive"
-      })
-    }
-  }, [toast, fetchRides])
-
-  // Update ride status
-  const updateRideStatus = useCallback(async (rideId: string, status: Ride['status']) => {
-    try {
-      const updateData: any = { status }
-      
-      // Add timestamp for specific statuses
-      const now = new Date().toISOString()
-      switch (status) {
-        case 'driver_arriving':
-          updateData.accepted_at = now
-          break
-        case 'driver_arrived':
-          updateData.pickup_arrived_at = now
-          break
-        case 'in_progress':
-          updateData.started_at = now
-          break
-        case 'completed':
-          updateData.completed_at = now
-          break
-        case 'cancelled':
-          updateData.cancelled_at = now
-          break
-      }
-
-      const { error } = await supabase
-        .from('rides')
-        .update(updateData)
-        .eq('id', rideId)
-
-      if (error) throw error
+      const updatedRide = status === 'completed'
+        ? await completeRide(rideId, options)
+        : await transitionRideStatus(rideId, status)
 
       fetchRides()
       
       // Update current ride if it's the same
       if (currentRide?.id === rideId) {
-        setCurrentRide(prev => prev ? { ...prev, status, ...updateData } : null)
+        setCurrentRide(prev => prev ? { ...prev, ...updatedRide } as RideWithPassenger : null)
       }
 
-      const statusMessages = {
+      const statusMessages: Partial<Record<RideStatus, string>> = {
         'driver_arriving': 'Status atualizado: A caminho do passageiro',
         'driver_arrived': 'Status atualizado: Chegou ao local de embarque',
         'in_progress': 'Corrida iniciada!',
@@ -173,10 +141,16 @@ export const useRides = () => {
       })
 
     } catch (error) {
+      // Viagem encerrada com o pagamento em aberto: o preço final já foi gravado
+      if (error instanceof RideTransitionError && error.ride) {
+        fetchRides()
+        if (error.code === 'CASH_CONFIRMATION_REQUIRED') return
+      }
+
       console.error('Error updating ride status:', error)
       toast({
         title: "Erro",
-        description: "Erro ao atualizar status da corrida",
+        description: error instanceof RideTransitionError ? error.message : "Erro ao atualizar status da corrida",
         variant: "destructive"
       })
     }
@@ -188,9 +162,12 @@ export const useRides = () => {
     destination: LocationCoords
     origin_address: string
     destination_address: string
-    estimated_price?: number
-    estimated_duration_minutes?: number
-    distance_km?: number
+    requested_vehicle_type?: VehicleType
+    accepted_surge_multiplier?: number
+    payment_method?: PaymentMethod
+    // ISO; sem horário a corrida é para agora
+    scheduled_for?: string
+    stops?: { lat: number; lng: number; address: string }[]
   }) => {
     try {
       // Verificar autenticação primeiro
@@ -207,30 +184,55 @@ export const useRides = () => {
 
       console.log('🔐 Usuário autenticado:', { id: user.id, email: user.email })
 
-      const { data, error } = await supabase
-        .from('rides')
-        .insert({
-          passenger_id: user.id,
-          origin_lat: rideData.origin.lat,
-          origin_lng: rideData.origin.lng,
-          destination_lat: rideData.destination.lat,
-          destination_lng: rideData.destination.lng,
+      // Distância, duração e preço são calculados e travados pelo servidor
+      const { data: created, error } = await supabase.functions.invoke<{ ride: RideRow }>('create-ride', {
+        body: {
+          origin: rideData.origin,
+          destination: rideData.destination,
           origin_address: rideData.origin_address,
           destination_address: rideData.destination_address,
-          estimated_price: rideData.estimated_price,
-          estimated_duration_minutes: rideData.estimated_duration_minutes,
-          distance_km: rideData.distance_km,
-          status: 'requested'
-        })
-        .select()
-        .single()
+          requested_vehicle_type: rideData.requested_vehicle_type,
+          accepted_surge_multiplier: rideData.accepted_surge_multiplier ?? 1,
+          payment_method: rideData.payment_method ?? 'cash',
+          scheduled_for: rideData.scheduled_for ?? null,
+          stops: rideData.stops ?? [],
+        }
+      })
 
       if (error) {
+        const body = await error.context?.json?.().catch(() => null)
+        if (body?.code === 'SURGE_CHANGED') {
+          throw new SurgeChangedError({ fare: body.fare, surgeMultiplier: body.surgeMultiplier })
+        }
+        if (body?.code === 'OUTSIDE_SERVICE_AREA') {
+          throw new OutsideServiceAreaError()
+        }
+        if (body?.code === 'CANCELLATION_FEE_PENDING') {
+          throw new CancellationFeePendingError(body.rideId, Number(body.fee))
+        }
+        if (['INVALID_SCHEDULE', 'SCHEDULE_TOO_SOON', 'SCHEDULE_TOO_FAR', 'TOO_MANY_STOPS', 'INVALID_STOPS'].includes(body?.code)) {
+          throw toRideTransitionError({ message: body.code, details: body.error })
+        }
+      }
+
+      if (error || !created?.ride) {
         console.error('❌ Erro ao criar corrida no banco:', error)
-        throw error
+        throw error ?? new Error('Ride creation failed')
       }
 
+      const data = created.ride
+
       console.log('🚗 Corrida criada com sucesso:', { id: data.id, status: data.status })
+
+      // Agendada: o ride-jobs-worker dispara o despacho perto do horário
+      if (data.status === 'scheduled') {
+        toast({
+          title: "📅 Corrida agendada!",
+          description: "Você pode alterar ou cancelar o agendamento pelo painel.",
+          duration: 5000
+        })
+        return data
+      }
       
       // Trigger ride queue manager com retry
       let retryCount = 0
@@ -277,7 +279,9 @@ export const useRides = () => {
       console.error('❌ Erro geral ao criar corrida:', error)
       toast({
         title: "Erro",
-        description: error instanceof Error ? error.message : "Erro ao solicitar corrida",
+        description: error instanceof RideTransitionError
+          ? error.details ?? error.message
+          : error instanceof Error ? error.message : "Erro ao solicitar corrida",
         variant: "destructive"
       })
       throw error
@@ -298,7 +302,6 @@ export const useRides = () => {
     currentRide,
     loading,
     fetchRides,
-    acceptRide,
     updateRideStatus,
     createRide,
     setActiveRide
@@ -333,7 +336,7 @@ export const useDriverRideNotifications = () => {
           // Fetch passenger details
           const { data: passengerData } = await supabase
             .from('profiles')
-            .select('id, full_name, phone')
+            .select('id, full_name')
             .eq('user_id', newRide.passenger_id)
             .single()
 
@@ -0,0 +1,59 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { findZoneForPoint, ServiceZone, toServiceZone, ZonePoint } from '@/lib/serviceZones';
+
+export const useServiceZones = (includeInactive = false) => {
+  const [zones, setZones] = useState<ServiceZone[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchZones = useCallback(async () => {
+    try {
+      setLoading(true);
+
+      let query = supabase
+        .from('service_zones')
+        .select('*')
+        .order('name');
+
+      if (!includeInactive) {
+        query = query.eq('is_active', true);
+      }
+
+      const { data, error } = await query;
+
+      if (error) {
+        throw error;
+      }
+
+      setZones((data ?? []).map(toServiceZone));
+    } catch (err) {
+      console.error('Error fetching service zones:', err);
+      setZones([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [includeInactive]);
+
+  useEffect(() => {
+    fetchZones();
+  }, [fetchZones]);
+
+  // Sem zonas cadastradas o app atende em qualquer lugar
+  const isServed = useCallback(
+    (point: ZonePoint) => zones.length === 0 || !!findZoneForPoint(zones, point),
+    [zones]
+  );
+
+  const zoneFor = useCallback(
+    (point: ZonePoint | null | undefined) => (point ? findZoneForPoint(zones, point) : null),
+    [zones]
+  );
+
+  return {
+    zones,
+    loading,
+    isServed,
+    zoneFor,
+    refetch: fetchZones,
+  };
+};
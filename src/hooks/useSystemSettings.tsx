@@ -1,14 +1,51 @@
 import { useState, useEffect } from 'react';
 import { supabase } from '@/integrations/supabase/client';
+import { DEFAULT_DISPATCH_SCORE_WEIGHTS, DispatchScoreWeights } from '@/lib/dispatchScoring';
+import { DEFAULT_VEHICLE_TYPE_FARES, VehicleTypeFares } from '@/lib/vehicleFares';
 
 export interface SystemSettings {
   id: string;
   fixed_rate: number;
   price_per_km: number;
+  price_per_minute: number;
   minimum_fare: number;
+  free_waiting_minutes: number;
+  waiting_price_per_minute: number;
   app_fee_percentage: number;
   pricing_model: string;
   fee_type: string;
+  driver_debt_limit: number;
+  cancellation_fee: number;
+  cancellation_grace_minutes: number;
+  dispatch_strategy: string;
+  dispatch_offer_seconds: number;
+  dispatch_max_drivers: number;
+  dispatch_radius_steps_km: number[];
+  dispatch_expand_radius: boolean;
+  dispatch_retry_rounds: number;
+  dispatch_retry_delay_seconds: number;
+  dispatch_retry_radius_step_km: number;
+  dispatch_search_prompt_seconds: number;
+  scheduled_dispatch_lead_minutes: number;
+  scheduled_min_advance_minutes: number;
+  scheduled_max_advance_days: number;
+  scheduled_reminder_minutes: number;
+  max_ride_stops: number;
+  contact_window_minutes: number;
+  track_max_accuracy_m: number;
+  track_distance_threshold_percentage: number;
+  safety_route_deviation_m: number;
+  safety_stop_minutes: number;
+  safety_overtime_percentage: number;
+  safety_response_seconds: number;
+  safety_alert_cooldown_minutes: number;
+  surge_enabled: boolean;
+  surge_radius_km: number;
+  surge_demand_threshold: number;
+  surge_sensitivity: number;
+  surge_max_multiplier: number;
+  dispatch_score_weights: DispatchScoreWeights;
+  vehicle_type_fares: VehicleTypeFares;
   created_at: string;
   updated_at: string;
 }
@@ -34,17 +71,62 @@ export const useSystemSettings = () => {
       }
 
       if (data) {
-        setSettings(data);
+        setSettings({
+          ...data,
+          dispatch_score_weights: {
+            ...DEFAULT_DISPATCH_SCORE_WEIGHTS,
+            ...(data.dispatch_score_weights as Partial<DispatchScoreWeights>),
+          },
+          vehicle_type_fares: {
+            ...DEFAULT_VEHICLE_TYPE_FARES,
+            ...(data.vehicle_type_fares as Partial<VehicleTypeFares>),
+          },
+        });
       } else {
         // Usar configurações padrão como fallback se não houver no banco
         const defaultSettings: SystemSettings = {
           id: 'default',
           fixed_rate: 5.0,
           price_per_km: 2.5,
+          price_per_minute: 0.3,
           minimum_fare: 8.0,
+          free_waiting_minutes: 5,
+          waiting_price_per_minute: 0.5,
           app_fee_percentage: 20.0,
           pricing_model: 'per_km',
           fee_type: 'percentage',
+          driver_debt_limit: 100,
+          cancellation_fee: 5.0,
+          cancellation_grace_minutes: 2,
+          dispatch_strategy: 'broadcast',
+          dispatch_offer_seconds: 20,
+          dispatch_max_drivers: 5,
+          dispatch_radius_steps_km: [3, 6, 10],
+          dispatch_expand_radius: true,
+          dispatch_retry_rounds: 2,
+          dispatch_retry_delay_seconds: 30,
+          dispatch_retry_radius_step_km: 3,
+          dispatch_search_prompt_seconds: 60,
+          scheduled_dispatch_lead_minutes: 15,
+          scheduled_min_advance_minutes: 30,
+          scheduled_max_advance_days: 7,
+          scheduled_reminder_minutes: 30,
+          max_ride_stops: 3,
+          contact_window_minutes: 30,
+          track_max_accuracy_m: 50,
+          track_distance_threshold_percentage: 15,
+          safety_route_deviation_m: 500,
+          safety_stop_minutes: 5,
+          safety_overtime_percentage: 50,
+          safety_response_seconds: 120,
+          safety_alert_cooldown_minutes: 10,
+          surge_enabled: false,
+          surge_radius_km: 3,
+          surge_demand_threshold: 1.0,
+          surge_sensitivity: 0.5,
+          surge_max_multiplier: 2.0,
+          dispatch_score_weights: DEFAULT_DISPATCH_SCORE_WEIGHTS,
+          vehicle_type_fares: DEFAULT_VEHICLE_TYPE_FARES,
           created_at: new Date().toISOString(),
           updated_at: new Date().toISOString(),
         };
@@ -60,10 +142,45 @@ export const useSystemSettings = () => {
         id: 'default',
         fixed_rate: 5.0,
         price_per_km: 2.5,
+        price_per_minute: 0.3,
         minimum_fare: 8.0,
+        free_waiting_minutes: 5,
+        waiting_price_per_minute: 0.5,
         app_fee_percentage: 20.0,
         pricing_model: 'per_km',
         fee_type: 'percentage',
+        driver_debt_limit: 100,
+        cancellation_fee: 5.0,
+        cancellation_grace_minutes: 2,
+        dispatch_strategy: 'broadcast',
+        dispatch_offer_seconds: 20,
+        dispatch_max_drivers: 5,
+        dispatch_radius_steps_km: [3, 6, 10],
+        dispatch_expand_radius: true,
+        dispatch_retry_rounds: 2,
+        dispatch_retry_delay_seconds: 30,
+        dispatch_retry_radius_step_km: 3,
+        dispatch_search_prompt_seconds: 60,
+        scheduled_dispatch_lead_minutes: 15,
+        scheduled_min_advance_minutes: 30,
+        scheduled_max_advance_days: 7,
+        scheduled_reminder_minutes: 30,
+        max_ride_stops: 3,
+        contact_window_minutes: 30,
+        track_max_accuracy_m: 50,
+        track_distance_threshold_percentage: 15,
+        safety_route_deviation_m: 500,
+        safety_stop_minutes: 5,
+        safety_overtime_percentage: 50,
+        safety_response_seconds: 120,
+        safety_alert_cooldown_minutes: 10,
+        surge_enabled: false,
+        surge_radius_km: 3,
+        surge_demand_threshold: 1.0,
+        surge_sensitivity: 0.5,
+        surge_max_multiplier: 2.0,
+        dispatch_score_weights: DEFAULT_DISPATCH_SCORE_WEIGHTS,
+        vehicle_type_fares: DEFAULT_VEHICLE_TYPE_FARES,
         created_at: new Date().toISOString(),
         updated_at: new Date().toISOString(),
       };
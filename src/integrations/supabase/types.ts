@@ -14,6 +14,39 @@ export type Database = {
   }
   public: {
     Tables: {
+      driver_fee_settlements: {
+        Row: {
+          amount: number
+          created_at: string
+          driver_id: string
+          id: string
+          method: string
+          received_at: string
+          received_by: string | null
+          reference: string | null
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          driver_id: string
+          id?: string
+          method: string
+          received_at?: string
+          received_by?: string | null
+          reference?: string | null
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          driver_id?: string
+          id?: string
+          method?: string
+          received_at?: string
+          received_by?: string | null
+          reference?: string | null
+        }
+        Relationships: []
+      }
       driver_locations: {
         Row: {
           accuracy: number | null
@@ -62,6 +95,7 @@ export type Database = {
           created_at: string
           id: string
           rating: number | null
+          rating_count: number
           status: Database["public"]["Enums"]["driver_status"]
           total_rides: number | null
           updated_at: string
@@ -77,6 +111,7 @@ export type Database = {
           created_at?: string
           id?: string
           rating?: number | null
+          rating_count?: number
           status?: Database["public"]["Enums"]["driver_status"]
           total_rides?: number | null
           updated_at?: string
@@ -92,6 +127,7 @@ export type Database = {
           created_at?: string
           id?: string
           rating?: number | null
+          rating_count?: number
           status?: Database["public"]["Enums"]["driver_status"]
           total_rides?: number | null
           updated_at?: string
@@ -107,41 +143,118 @@ export type Database = {
       financial_transfers: {
         Row: {
           app_fee: number
+          app_fee_percentage: number | null
           created_at: string
           driver_amount: number
           driver_id: string
+          fee_type: string | null
           id: string
           ride_id: string
           ride_value: number
-          transfer_status: string | null
+          transfer_status: string
           updated_at: string
         }
         Insert: {
           app_fee: number
+          app_fee_percentage?: number | null
           created_at?: string
           driver_amount: number
           driver_id: string
+          fee_type?: string | null
           id?: string
           ride_id: string
           ride_value: number
-          transfer_status?: string | null
+          transfer_status?: string
           updated_at?: string
         }
         Update: {
           app_fee?: number
+          app_fee_percentage?: number | null
           created_at?: string
           driver_amount?: number
           driver_id?: string
+          fee_type?: string | null
           id?: string
           ride_id?: string
           ride_value?: number
-          transfer_status?: string | null
+          transfer_status?: string
           updated_at?: string
         }
         Relationships: [
           {
             foreignKeyName: "financial_transfers_ride_id_fkey"
             columns: ["ride_id"]
+            isOneToOne: true
+            referencedRelation: "rides"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      payments: {
+        Row: {
+          amount: number
+          br_code: string | null
+          created_at: string
+          expires_at: string | null
+          id: string
+          method: Database["public"]["Enums"]["payment_method"]
+          paid_at: string | null
+          provider: string
+          provider_charge_id: string
+          provider_payload: Json | null
+          qr_image_url: string | null
+          qr_type: string | null
+          refund_amount: number | null
+          refunded_at: string | null
+          ride_id: string
+          status: string
+          txid: string | null
+          updated_at: string
+        }
+        Insert: {
+          amount: number
+          br_code?: string | null
+          created_at?: string
+          expires_at?: string | null
+          id?: string
+          method?: Database["public"]["Enums"]["payment_method"]
+          paid_at?: string | null
+          provider: string
+          provider_charge_id: string
+          provider_payload?: Json | null
+          qr_image_url?: string | null
+          qr_type?: string | null
+          refund_amount?: number | null
+          refunded_at?: string | null
+          ride_id: string
+          status?: string
+          txid?: string | null
+          updated_at?: string
+        }
+        Update: {
+          amount?: number
+          br_code?: string | null
+          created_at?: string
+          expires_at?: string | null
+          id?: string
+          method?: Database["public"]["Enums"]["payment_method"]
+          paid_at?: string | null
+          provider?: string
+          provider_charge_id?: string
+          provider_payload?: Json | null
+          qr_image_url?: string | null
+          qr_type?: string | null
+          refund_amount?: number | null
+          refunded_at?: string | null
+          ride_id?: string
+          status?: string
+          txid?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payments_ride_id_fkey"
+            columns: ["ride_id"]
             isOneToOne: false
             referencedRelation: "rides"
             referencedColumns: ["id"]
@@ -154,6 +267,8 @@ export type Database = {
           full_name: string
           id: string
           phone: string
+          rating: number | null
+          rating_count: number
           updated_at: string
           user_id: string
           user_type: Database["public"]["Enums"]["user_type"]
@@ -163,6 +278,8 @@ export type Database = {
           full_name: string
           id?: string
           phone: string
+          rating?: number | null
+          rating_count?: number
           updated_at?: string
           user_id: string
           user_type?: Database["public"]["Enums"]["user_type"]
@@ -172,43 +289,316 @@ export type Database = {
           full_name?: string
           id?: string
           phone?: string
+          rating?: number | null
+          rating_count?: number
           updated_at?: string
           user_id?: string
           user_type?: Database["public"]["Enums"]["user_type"]
         }
         Relationships: []
       }
+      ride_cancellation_reasons: {
+        Row: {
+          actor: string
+          code: string
+        }
+        Insert: {
+          actor: string
+          code: string
+        }
+        Update: {
+          actor?: string
+          code?: string
+        }
+        Relationships: []
+      }
+      ride_cancellations: {
+        Row: {
+          actor_id: string | null
+          cancelled_by: string
+          created_at: string
+          fee: number
+          id: string
+          note: string | null
+          reason: string
+          redispatched: boolean
+          ride_id: string
+          ride_status: Database["public"]["Enums"]["ride_status"]
+        }
+        Insert: {
+          actor_id?: string | null
+          cancelled_by: string
+          created_at?: string
+          fee?: number
+          id?: string
+          note?: string | null
+          reason: string
+          redispatched?: boolean
+          ride_id: string
+          ride_status: Database["public"]["Enums"]["ride_status"]
+        }
+        Update: {
+          actor_id?: string | null
+          cancelled_by?: string
+          created_at?: string
+          fee?: number
+          id?: string
+          note?: string | null
+          reason?: string
+          redispatched?: boolean
+          ride_id?: string
+          ride_status?: Database["public"]["Enums"]["ride_status"]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ride_cancellations_ride_id_fkey"
+            columns: ["ride_id"]
+            isOneToOne: false
+            referencedRelation: "rides"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      ride_contact_sessions: {
+        Row: {
+          closed_at: string | null
+          created_at: string
+          expires_at: string | null
+          id: string
+          provider: string
+          provider_session_id: string | null
+          proxy_number: string
+          requester_id: string
+          ride_id: string
+          target_id: string
+          token: string
+        }
+        Insert: {
+          closed_at?: string | null
+          created_at?: string
+          expires_at?: string | null
+          id?: string
+          provider: string
+          provider_session_id?: string | null
+          proxy_number: string
+          requester_id: string
+          ride_id: string
+          target_id: string
+          token?: string
+        }
+        Update: {
+          closed_at?: string | null
+          created_at?: string
+          expires_at?: string | null
+          id?: string
+          provider?: string
+          provider_session_id?: string | null
+          proxy_number?: string
+          requester_id?: string
+          ride_id?: string
+          target_id?: string
+          token?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ride_contact_sessions_ride_id_fkey"
+            columns: ["ride_id"]
+            isOneToOne: false
+            referencedRelation: "rides"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      ride_job_attempts: {
+        Row: {
+          attempt: number
+          error: string | null
+          finished_at: string
+          id: string
+          job_id: string
+          outcome: string
+          result: Json | null
+          started_at: string | null
+          worker: string | null
+        }
+        Insert: {
+          attempt: number
+          error?: string | null
+          finished_at?: string
+          id?: string
+          job_id: string
+          outcome: string
+          result?: Json | null
+          started_at?: string | null
+          worker?: string | null
+        }
+        Update: {
+          attempt?: number
+          error?: string | null
+          finished_at?: string
+          id?: string
+          job_id?: string
+          outcome?: string
+          result?: Json | null
+          started_at?: string | null
+          worker?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ride_job_attempts_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "ride_jobs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      ride_jobs: {
+        Row: {
+          attempts: number
+          completed_at: string | null
+          created_at: string
+          id: string
+          job_type: string
+          last_error: string | null
+          locked_at: string | null
+          locked_by: string | null
+          max_attempts: number
+          result: Json | null
+          ride_id: string
+          run_at: string
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          attempts?: number
+          completed_at?: string | null
+          created_at?: string
+          id?: string
+          job_type: string
+          last_error?: string | null
+          locked_at?: string | null
+          locked_by?: string | null
+          max_attempts?: number
+          result?: Json | null
+          ride_id: string
+          run_at?: string
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          attempts?: number
+          completed_at?: string | null
+          created_at?: string
+          id?: string
+          job_type?: string
+          last_error?: string | null
+          locked_at?: string | null
+          locked_by?: string | null
+          max_attempts?: number
+          result?: Json | null
+          ride_id?: string
+          run_at?: string
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ride_jobs_ride_id_fkey"
+            columns: ["ride_id"]
+            isOneToOne: false
+            referencedRelation: "rides"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      ride_messages: {
+        Row: {
+          body: string
+          created_at: string
+          id: string
+          read_at: string | null
+          recipient_id: string
+          ride_id: string
+          sender_id: string
+          template_key: string | null
+        }
+        Insert: {
+          body: string
+          created_at?: string
+          id?: string
+          read_at?: string | null
+          recipient_id: string
+          ride_id: string
+          sender_id: string
+          template_key?: string | null
+        }
+        Update: {
+          body?: string
+          created_at?: string
+          id?: string
+          read_at?: string | null
+          recipient_id?: string
+          ride_id?: string
+          sender_id?: string
+          template_key?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ride_messages_ride_id_fkey"
+            columns: ["ride_id"]
+            isOneToOne: false
+            referencedRelation: "rides"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       ride_notifications: {
         Row: {
           created_at: string
+          dispatch_attempt: number
+          dispatch_round: number
           distance_km: number | null
           driver_id: string
           expires_at: string
           id: string
           notified_at: string
+          payment_method: Database["public"]["Enums"]["payment_method"] | null
           ride_id: string
+          score: number | null
+          score_breakdown: Json | null
           status: string
           updated_at: string
         }
         Insert: {
           created_at?: string
+          dispatch_attempt?: number
+          dispatch_round?: number
           distance_km?: number | null
           driver_id: string
           expires_at?: string
           id?: string
           notified_at?: string
+          payment_method?: Database["public"]["Enums"]["payment_method"] | null
           ride_id: string
+          score?: number | null
+          score_breakdown?: Json | null
           status?: string
           updated_at?: string
         }
         Update: {
           created_at?: string
+          dispatch_attempt?: number
+          dispatch_round?: number
           distance_km?: number | null
           driver_id?: string
           expires_at?: string
           id?: string
           notified_at?: string
+          payment_method?: Database["public"]["Enums"]["payment_method"] | null
           ride_id?: string
+          score?: number | null
+          score_breakdown?: Json | null
           status?: string
           updated_at?: string
         }
@@ -222,22 +612,187 @@ export type Database = {
           },
         ]
       }
+      ride_safety_alerts: {
+        Row: {
+          alert_type: string
+          created_at: string
+          details: Json
+          escalated_at: string | null
+          escalation_reason: string | null
+          id: string
+          lat: number | null
+          lng: number | null
+          resolution_note: string | null
+          resolved_at: string | null
+          resolved_by: string | null
+          responded_at: string | null
+          response_due_at: string
+          ride_id: string
+          status: string
+        }
+        Insert: {
+          alert_type: string
+          created_at?: string
+          details?: Json
+          escalated_at?: string | null
+          escalation_reason?: string | null
+          id?: string
+          lat?: number | null
+          lng?: number | null
+          resolution_note?: string | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+          responded_at?: string | null
+          response_due_at: string
+          ride_id: string
+          status?: string
+        }
+        Update: {
+          alert_type?: string
+          created_at?: string
+          details?: Json
+          escalated_at?: string | null
+          escalation_reason?: string | null
+          id?: string
+          lat?: number | null
+          lng?: number | null
+          resolution_note?: string | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+          responded_at?: string | null
+          response_due_at?: string
+          ride_id?: string
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ride_safety_alerts_ride_id_fkey"
+            columns: ["ride_id"]
+            isOneToOne: false
+            referencedRelation: "rides"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      ride_stops: {
+        Row: {
+          address: string
+          created_at: string
+          id: string
+          lat: number
+          lng: number
+          position: number
+          reached_at: string | null
+          ride_id: string
+        }
+        Insert: {
+          address: string
+          created_at?: string
+          id?: string
+          lat: number
+          lng: number
+          position: number
+          reached_at?: string | null
+          ride_id: string
+        }
+        Update: {
+          address?: string
+          created_at?: string
+          id?: string
+          lat?: number
+          lng?: number
+          position?: number
+          reached_at?: string | null
+          ride_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ride_stops_ride_id_fkey"
+            columns: ["ride_id"]
+            isOneToOne: false
+            referencedRelation: "rides"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      ride_tracks: {
+        Row: {
+          accuracy: number | null
+          created_at: string
+          heading: number | null
+          id: string
+          lat: number
+          lng: number
+          recorded_at: string
+          ride_id: string
+          speed: number | null
+        }
+        Insert: {
+          accuracy?: number | null
+          created_at?: string
+          heading?: number | null
+          id?: string
+          lat: number
+          lng: number
+          recorded_at?: string
+          ride_id: string
+          speed?: number | null
+        }
+        Update: {
+          accuracy?: number | null
+          created_at?: string
+          heading?: number | null
+          id?: string
+          lat?: number
+          lng?: number
+          recorded_at?: string
+          ride_id?: string
+          speed?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ride_tracks_ride_id_fkey"
+            columns: ["ride_id"]
+            isOneToOne: false
+            referencedRelation: "rides"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       rides: {
         Row: {
           accepted_at: string | null
           broadcast_expires_at: string | null
+          cancellation_fee: number | null
+          cancellation_note: string | null
+          cancellation_reason: string | null
           cancelled_at: string | null
+          cancelled_by: string | null
           completed_at: string | null
           created_at: string
           destination_address: string
           destination_lat: number
           destination_lng: number
+          dispatch_attempt: number
+          dispatch_locked_until: string | null
+          dispatch_radius_km: number | null
+          dispatch_retry_round: number
+          dispatch_retry_started: number
+          dispatch_round: number
           distance_km: number | null
+          driver_arriving_at: string | null
           driver_comment: string | null
           driver_id: string | null
+          driver_rated_at: string | null
           driver_rating: number | null
+          driver_rating_tags: string[] | null
+          driver_reminded_at: string | null
           estimated_duration_minutes: number | null
+          estimated_fare_breakdown: Json | null
           estimated_price: number | null
+          expired_at: string | null
+          fare_distance_source: string | null
+          final_fare_breakdown: Json | null
           final_price: number | null
           id: string
           origin_address: string
@@ -245,29 +800,60 @@ export type Database = {
           origin_lng: number
           passenger_comment: string | null
           passenger_id: string
+          passenger_rated_at: string | null
           passenger_rating: number | null
-          payment_method: Database["public"]["Enums"]["payment_method"] | null
-          payment_status: string | null
+          passenger_rating_tags: string[] | null
+          payment_method: Database["public"]["Enums"]["payment_method"]
+          payment_status: string
+          pickup_arrived_at: string | null
+          planned_route_polyline: string | null
+          preaccepted_at: string | null
+          redispatch_count: number
           requested_at: string
+          requested_vehicle_type: Database["public"]["Enums"]["vehicle_type"] | null
+          scheduled_for: string | null
+          search_prompt_expires_at: string | null
+          service_zone_id: string | null
           started_at: string | null
           status: Database["public"]["Enums"]["ride_status"]
+          surge_multiplier: number
+          tracked_distance_km: number | null
+          trip_ended_at: string | null
           updated_at: string
         }
         Insert: {
           accepted_at?: string | null
           broadcast_expires_at?: string | null
+          cancellation_fee?: number | null
+          cancellation_note?: string | null
+          cancellation_reason?: string | null
           cancelled_at?: string | null
+          cancelled_by?: string | null
           completed_at?: string | null
           created_at?: string
           destination_address: string
           destination_lat: number
           destination_lng: number
+          dispatch_attempt?: number
+          dispatch_locked_until?: string | null
+          dispatch_radius_km?: number | null
+          dispatch_retry_round?: number
+          dispatch_retry_started?: number
+          dispatch_round?: number
           distance_km?: number | null
+          driver_arriving_at?: string | null
           driver_comment?: string | null
           driver_id?: string | null
+          driver_rated_at?: string | null
           driver_rating?: number | null
+          driver_rating_tags?: string[] | null
+          driver_reminded_at?: string | null
           estimated_duration_minutes?: number | null
+          estimated_fare_breakdown?: Json | null
           estimated_price?: number | null
+          expired_at?: string | null
+          fare_distance_source?: string | null
+          final_fare_breakdown?: Json | null
           final_price?: number | null
           id?: string
           origin_address: string
@@ -275,29 +861,60 @@ export type Database = {
           origin_lng: number
           passenger_comment?: string | null
           passenger_id: string
+          passenger_rated_at?: string | null
           passenger_rating?: number | null
-          payment_method?: Database["public"]["Enums"]["payment_method"] | null
-          payment_status?: string | null
+          passenger_rating_tags?: string[] | null
+          payment_method?: Database["public"]["Enums"]["payment_method"]
+          payment_status?: string
+          pickup_arrived_at?: string | null
+          planned_route_polyline?: string | null
+          preaccepted_at?: string | null
+          redispatch_count?: number
           requested_at?: string
+          requested_vehicle_type?: Database["public"]["Enums"]["vehicle_type"] | null
+          scheduled_for?: string | null
+          search_prompt_expires_at?: string | null
+          service_zone_id?: string | null
           started_at?: string | null
           status?: Database["public"]["Enums"]["ride_status"]
+          surge_multiplier?: number
+          tracked_distance_km?: number | null
+          trip_ended_at?: string | null
           updated_at?: string
         }
         Update: {
           accepted_at?: string | null
           broadcast_expires_at?: string | null
+          cancellation_fee?: number | null
+          cancellation_note?: string | null
+          cancellation_reason?: string | null
           cancelled_at?: string | null
+          cancelled_by?: string | null
           completed_at?: string | null
           created_at?: string
           destination_address?: string
           destination_lat?: number
           destination_lng?: number
+          dispatch_attempt?: number
+          dispatch_locked_until?: string | null
+          dispatch_radius_km?: number | null
+          dispatch_retry_round?: number
+          dispatch_retry_started?: number
+          dispatch_round?: number
           distance_km?: number | null
+          driver_arriving_at?: string | null
           driver_comment?: string | null
           driver_id?: string | null
+          driver_rated_at?: string | null
           driver_rating?: number | null
+          driver_rating_tags?: string[] | null
+          driver_reminded_at?: string | null
           estimated_duration_minutes?: number | null
+          estimated_fare_breakdown?: Json | null
           estimated_price?: number | null
+          expired_at?: string | null
+          fare_distance_source?: string | null
+          final_fare_breakdown?: Json | null
           final_price?: number | null
           id?: string
           origin_address?: string
@@ -305,12 +922,76 @@ export type Database = {
           origin_lng?: number
           passenger_comment?: string | null
           passenger_id?: string
+          passenger_rated_at?: string | null
           passenger_rating?: number | null
-          payment_method?: Database["public"]["Enums"]["payment_method"] | null
-          payment_status?: string | null
+          passenger_rating_tags?: string[] | null
+          payment_method?: Database["public"]["Enums"]["payment_method"]
+          payment_status?: string
+          pickup_arrived_at?: string | null
+          planned_route_polyline?: string | null
+          preaccepted_at?: string | null
+          redispatch_count?: number
           requested_at?: string
+          requested_vehicle_type?: Database["public"]["Enums"]["vehicle_type"] | null
+          scheduled_for?: string | null
+          search_prompt_expires_at?: string | null
+          service_zone_id?: string | null
           started_at?: string | null
           status?: Database["public"]["Enums"]["ride_status"]
+          surge_multiplier?: number
+          tracked_distance_km?: number | null
+          trip_ended_at?: string | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      ride_status_transitions: {
+        Row: {
+          actor: string
+          from_status: Database["public"]["Enums"]["ride_status"]
+          to_status: Database["public"]["Enums"]["ride_status"]
+        }
+        Insert: {
+          actor: string
+          from_status: Database["public"]["Enums"]["ride_status"]
+          to_status: Database["public"]["Enums"]["ride_status"]
+        }
+        Update: {
+          actor?: string
+          from_status?: Database["public"]["Enums"]["ride_status"]
+          to_status?: Database["public"]["Enums"]["ride_status"]
+        }
+        Relationships: []
+      }
+      service_zones: {
+        Row: {
+          created_at: string
+          dispatch_radius_steps_km: number[] | null
+          fare_overrides: Json
+          id: string
+          is_active: boolean
+          name: string
+          polygon: Json
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          dispatch_radius_steps_km?: number[] | null
+          fare_overrides?: Json
+          id?: string
+          is_active?: boolean
+          name: string
+          polygon: Json
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          dispatch_radius_steps_km?: number[] | null
+          fare_overrides?: Json
+          id?: string
+          is_active?: boolean
+          name?: string
+          polygon?: Json
           updated_at?: string
         }
         Relationships: []
@@ -318,52 +999,351 @@ export type Database = {
       system_settings: {
         Row: {
           app_fee_percentage: number
+          cancellation_fee: number
+          cancellation_grace_minutes: number
+          contact_window_minutes: number
           created_at: string
+          dispatch_expand_radius: boolean
+          dispatch_max_drivers: number
+          dispatch_offer_seconds: number
+          dispatch_radius_steps_km: number[]
+          dispatch_retry_delay_seconds: number
+          dispatch_retry_radius_step_km: number
+          dispatch_retry_rounds: number
+          dispatch_score_weights: Json
+          dispatch_search_prompt_seconds: number
+          dispatch_strategy: string
+          driver_debt_limit: number
           fee_type: string
           fixed_rate: number
+          free_waiting_minutes: number
           id: string
+          max_ride_stops: number
           minimum_fare: number
           price_per_km: number
+          price_per_minute: number
           pricing_model: string
+          safety_alert_cooldown_minutes: number
+          safety_overtime_percentage: number
+          safety_response_seconds: number
+          safety_route_deviation_m: number
+          safety_stop_minutes: number
+          scheduled_dispatch_lead_minutes: number
+          scheduled_max_advance_days: number
+          scheduled_min_advance_minutes: number
+          scheduled_reminder_minutes: number
+          surge_demand_threshold: number
+          surge_enabled: boolean
+          surge_max_multiplier: number
+          surge_radius_km: number
+          surge_sensitivity: number
+          track_distance_threshold_percentage: number
+          track_max_accuracy_m: number
           updated_at: string
+          vehicle_type_fares: Json
+          waiting_price_per_minute: number
         }
         Insert: {
           app_fee_percentage?: number
+          cancellation_fee?: number
+          cancellation_grace_minutes?: number
+          contact_window_minutes?: number
           created_at?: string
+          dispatch_expand_radius?: boolean
+          dispatch_max_drivers?: number
+          dispatch_offer_seconds?: number
+          dispatch_radius_steps_km?: number[]
+          dispatch_retry_delay_seconds?: number
+          dispatch_retry_radius_step_km?: number
+          dispatch_retry_rounds?: number
+          dispatch_score_weights?: Json
+          dispatch_search_prompt_seconds?: number
+          dispatch_strategy?: string
+          driver_debt_limit?: number
           fee_type?: string
           fixed_rate?: number
+          free_waiting_minutes?: number
           id?: string
+          max_ride_stops?: number
           minimum_fare?: number
           price_per_km?: number
+          price_per_minute?: number
           pricing_model?: string
+          safety_alert_cooldown_minutes?: number
+          safety_overtime_percentage?: number
+          safety_response_seconds?: number
+          safety_route_deviation_m?: number
+          safety_stop_minutes?: number
+          scheduled_dispatch_lead_minutes?: number
+          scheduled_max_advance_days?: number
+          scheduled_min_advance_minutes?: number
+          scheduled_reminder_minutes?: number
+          surge_demand_threshold?: number
+          surge_enabled?: boolean
+          surge_max_multiplier?: number
+          surge_radius_km?: number
+          surge_sensitivity?: number
+          track_distance_threshold_percentage?: number
+          track_max_accuracy_m?: number
           updated_at?: string
+          vehicle_type_fares?: Json
+          waiting_price_per_minute?: number
         }
         Update: {
           app_fee_percentage?: number
+          cancellation_fee?: number
+          cancellation_grace_minutes?: number
+          contact_window_minutes?: number
           created_at?: string
+          dispatch_expand_radius?: boolean
+          dispatch_max_drivers?: number
+          dispatch_offer_seconds?: number
+          dispatch_radius_steps_km?: number[]
+          dispatch_retry_delay_seconds?: number
+          dispatch_retry_radius_step_km?: number
+          dispatch_retry_rounds?: number
+          dispatch_score_weights?: Json
+          dispatch_search_prompt_seconds?: number
+          dispatch_strategy?: string
+          driver_debt_limit?: number
           fee_type?: string
           fixed_rate?: number
+          free_waiting_minutes?: number
           id?: string
+          max_ride_stops?: number
           minimum_fare?: number
           price_per_km?: number
+          price_per_minute?: number
           pricing_model?: string
+          safety_alert_cooldown_minutes?: number
+          safety_overtime_percentage?: number
+          safety_response_seconds?: number
+          safety_route_deviation_m?: number
+          safety_stop_minutes?: number
+          scheduled_dispatch_lead_minutes?: number
+          scheduled_max_advance_days?: number
+          scheduled_min_advance_minutes?: number
+          scheduled_reminder_minutes?: number
+          surge_demand_threshold?: number
+          surge_enabled?: boolean
+          surge_max_multiplier?: number
+          surge_radius_km?: number
+          surge_sensitivity?: number
+          track_distance_threshold_percentage?: number
+          track_max_accuracy_m?: number
           updated_at?: string
+          vehicle_type_fares?: Json
+          waiting_price_per_minute?: number
         }
         Relationships: []
       }
     }
     Views: {
-      [_ in never]: never
+      ride_jobs_needing_attention: {
+        Row: {
+          attempts: number | null
+          completed_at: string | null
+          created_at: string | null
+          id: string | null
+          job_type: string | null
+          last_error: string | null
+          locked_at: string | null
+          locked_by: string | null
+          max_attempts: number | null
+          problem: string | null
+          result: Json | null
+          ride_id: string | null
+          run_at: string | null
+          status: string | null
+          updated_at: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ride_jobs_ride_id_fkey"
+            columns: ["ride_id"]
+            isOneToOne: false
+            referencedRelation: "rides"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Functions: {
+      accept_ride: {
+        Args: { p_notification_id: string }
+        Returns: {
+          accepted: boolean
+          reason: string
+          ride_id: string
+        }[]
+      }
+      begin_ride_dispatch: {
+        Args: { p_ride_id: string; p_mode: string }
+        Returns: Database["public"]["Tables"]["rides"]["Row"]
+      }
+      cancel_ride: {
+        Args: { p_ride_id: string; p_reason: string; p_note?: string }
+        Returns: Database["public"]["Tables"]["rides"]["Row"]
+      }
+      check_ride_contact: {
+        Args: { p_ride_id: string; p_user_id: string }
+        Returns: {
+          expires_at: string
+          target_id: string
+        }[]
+      }
+      check_schedule_window: {
+        Args: { p_scheduled_for: string }
+        Returns: undefined
+      }
+      claim_ride_jobs: {
+        Args: { p_worker: string; p_limit?: number }
+        Returns: Database["public"]["Tables"]["ride_jobs"]["Row"][]
+      }
       cleanup_expired_rides_and_notifications: {
         Args: Record<PropertyKey, never>
         Returns: undefined
       }
+      continue_ride_search: {
+        Args: { p_ride_id: string }
+        Returns: Database["public"]["Tables"]["rides"]["Row"]
+      }
+      dispatch_scheduled_ride: {
+        Args: { p_ride_id: string }
+        Returns: Database["public"]["Tables"]["rides"]["Row"]
+      }
+      end_ride_dispatch: {
+        Args: { p_ride_id: string }
+        Returns: undefined
+      }
+      escalate_ride_safety_alerts: {
+        Args: { p_ride_id: string }
+        Returns: number
+      }
+      expire_pending_payments: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      finish_ride_job: {
+        Args: {
+          p_job_id: string
+          p_success: boolean
+          p_result?: Json
+          p_error?: string
+        }
+        Returns: Database["public"]["Tables"]["ride_jobs"]["Row"]
+      }
       get_current_user_role: {
         Args: Record<PropertyKey, never>
         Returns: string
       }
+      get_driver_fee_balances: {
+        Args: { p_driver_id?: string }
+        Returns: {
+          balance: number
+          debt_limit: number
+          driver_id: string
+          is_blocked: boolean
+          total_fees: number
+          total_settled: number
+        }[]
+      }
+      get_low_rated_accounts: {
+        Args: { p_threshold?: number; p_min_ratings?: number }
+        Returns: {
+          account_type: string
+          full_name: string
+          rating: number
+          rating_count: number
+          user_id: string
+        }[]
+      }
+      get_open_scheduled_rides: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          destination_address: string
+          distance_km: number
+          estimated_duration_minutes: number
+          estimated_price: number
+          id: string
+          origin_address: string
+          origin_lat: number
+          origin_lng: number
+          payment_method: Database["public"]["Enums"]["payment_method"]
+          requested_vehicle_type: Database["public"]["Enums"]["vehicle_type"]
+          scheduled_for: string
+        }[]
+      }
+      mark_ride_messages_read: {
+        Args: { p_ride_id: string }
+        Returns: number
+      }
+      mark_ride_stop_reached: {
+        Args: { p_position: number; p_ride_id: string }
+        Returns: Database["public"]["Tables"]["ride_stops"]["Row"]
+      }
+      preaccept_scheduled_ride: {
+        Args: { p_ride_id: string }
+        Returns: Database["public"]["Tables"]["rides"]["Row"]
+      }
+      raise_ride_safety_alert: {
+        Args: {
+          p_ride_id: string
+          p_alert_type: string
+          p_details?: Json
+          p_lat?: number
+          p_lng?: number
+        }
+        Returns: Database["public"]["Tables"]["ride_safety_alerts"]["Row"]
+      }
+      refresh_user_ratings: {
+        Args: { p_user_id: string }
+        Returns: undefined
+      }
+      release_scheduled_ride: {
+        Args: { p_ride_id: string }
+        Returns: Database["public"]["Tables"]["rides"]["Row"]
+      }
+      reschedule_ride: {
+        Args: { p_ride_id: string; p_scheduled_for: string }
+        Returns: Database["public"]["Tables"]["rides"]["Row"]
+      }
+      resolve_ride_safety_alert: {
+        Args: { p_alert_id: string; p_note?: string }
+        Returns: Database["public"]["Tables"]["ride_safety_alerts"]["Row"]
+      }
+      respond_ride_safety_alert: {
+        Args: { p_alert_id: string; p_safe: boolean }
+        Returns: Database["public"]["Tables"]["ride_safety_alerts"]["Row"]
+      }
+      schedule_dispatch_retry: {
+        Args: { p_ride_id: string }
+        Returns: Database["public"]["Tables"]["rides"]["Row"]
+      }
+      schedule_ride_job: {
+        Args: { p_ride_id: string; p_job_type: string; p_run_at: string }
+        Returns: Database["public"]["Tables"]["ride_jobs"]["Row"]
+      }
+      send_ride_message: {
+        Args: { p_body: string; p_ride_id: string; p_template_key?: string }
+        Returns: Database["public"]["Tables"]["ride_messages"]["Row"]
+      }
+      submit_ride_rating: {
+        Args: {
+          p_ride_id: string
+          p_rating: number
+          p_tags?: string[]
+          p_comment?: string
+        }
+        Returns: Database["public"]["Tables"]["rides"]["Row"]
+      }
+      transition_ride_status: {
+        Args: {
+          p_ride_id: string
+          p_status: Database["public"]["Enums"]["ride_status"]
+        }
+        Returns: Database["public"]["Tables"]["rides"]["Row"]
+      }
       validate_coordinates: {
         Args: { lat: number; lng: number }
         Returns: boolean
@@ -382,11 +1362,15 @@ export type Database = {
       driver_status: "pending" | "approved" | "rejected" | "suspended"
       payment_method: "cash" | "card" | "pix"
       ride_status:
+        | "scheduled"
         | "requested"
         | "accepted"
+        | "driver_arriving"
+        | "driver_arrived"
         | "in_progress"
         | "completed"
         | "cancelled"
+        | "expired"
       user_type: "passenger" | "driver" | "admin"
       vehicle_type: "motorcycle" | "car"
     }
@@ -519,11 +1503,15 @@ export const Constants = {
       driver_status: ["pending", "approved", "rejected", "suspended"],
       payment_method: ["cash", "card", "pix"],
       ride_status: [
+        "scheduled",
         "requested",
         "accepted",
+        "driver_arriving",
+        "driver_arrived",
         "in_progress",
         "completed",
         "cancelled",
+        "expired",
       ],
       user_type: ["passenger", "driver", "admin"],
       vehicle_type: ["motorcycle", "car"],
@@ -0,0 +1,22 @@
+// Fatores do modelo de pontuação do despacho (ride-queue-manager/scoring.ts).
+// Aqui ficam apenas as chaves, rótulos e pesos padrão usados pela UI.
+export const DISPATCH_SCORE_FACTORS = [
+  { key: 'distance', label: 'Distância até o passageiro' },
+  { key: 'freshness', label: 'GPS atualizado recentemente' },
+  { key: 'rating', label: 'Avaliação do motorista' },
+  { key: 'acceptance', label: 'Taxa de aceite recente' },
+  { key: 'vehicle_match', label: 'Tipo de veículo compatível' },
+  { key: 'idle_time', label: 'Tempo ocioso desde a última corrida' },
+] as const
+
+export type DispatchScoreFactor = typeof DISPATCH_SCORE_FACTORS[number]['key']
+export type DispatchScoreWeights = Record<DispatchScoreFactor, number>
+
+export const DEFAULT_DISPATCH_SCORE_WEIGHTS: DispatchScoreWeights = {
+  distance: 0.4,
+  freshness: 0.15,
+  rating: 0.15,
+  acceptance: 0.15,
+  vehicle_match: 0.1,
+  idle_time: 0.05,
+}
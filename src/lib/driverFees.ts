@@ -0,0 +1,18 @@
+import { Database } from '@/integrations/supabase/types'
+
+// Saldo de taxas do app devidas pelo motorista (RPC get_driver_fee_balances)
+export type DriverFeeBalance = Database['public']['Functions']['get_driver_fee_balances']['Returns'][number]
+export type DriverFeeSettlement = Database['public']['Tables']['driver_fee_settlements']['Row']
+
+export const SETTLEMENT_METHODS = ['pix', 'cash', 'bank_transfer', 'other'] as const
+export type SettlementMethod = typeof SETTLEMENT_METHODS[number]
+
+export const SETTLEMENT_METHOD_LABELS: Record<SettlementMethod, string> = {
+  pix: 'Pix',
+  cash: 'Dinheiro',
+  bank_transfer: 'Transferência',
+  other: 'Outro',
+}
+
+// Código levantado pelo trigger de driver_locations ao tentar ficar online
+export const DRIVER_DEBT_LIMIT_CODE = 'DRIVER_DEBT_LIMIT'
@@ -0,0 +1,3 @@
+// O motor de tarifas vive junto das edge functions para que o servidor
+// recalcule exatamente o mesmo valor exibido ao passageiro.
+export * from '../../supabase/functions/_shared/fare'
@@ -0,0 +1,93 @@
+import { supabase } from '@/integrations/supabase/client'
+import { LocationCoords } from '@/hooks/useGeolocation'
+import { RideStatus } from '@/lib/rideStatus'
+import { sumRouteLegs, toWaypoints, StopSelection } from '@/lib/rideStops'
+
+// Enquanto a corrida está nestes status o motorista transmite a posição e o
+// passageiro acompanha; fora deles a transmissão para
+export const LIVE_TRACKING_STATUSES: RideStatus[] = ['accepted', 'driver_arriving', 'driver_arrived', 'in_progress']
+
+export const isLiveTrackingStatus = (status: RideStatus) => LIVE_TRACKING_STATUSES.includes(status)
+
+// Limites da transmissão: no máximo uma gravação a cada intervalo, e só se
+// o motorista andou pelo menos a distância mínima
+export const LIVE_LOCATION_MIN_INTERVAL_MS = 3000
+export const LIVE_LOCATION_MIN_DISTANCE_M = 10
+
+// A previsão de chegada consulta a rota de novo depois deste intervalo ou
+// quando o motorista se afasta bastante do ponto da última consulta
+export const ETA_REFRESH_INTERVAL_MS = 30000
+export const ETA_REFRESH_DISTANCE_M = 300
+
+const toRadians = (degrees: number) => degrees * Math.PI / 180
+
+// Distância em linha reta (haversine), em metros
+export const distanceMeters = (from: LocationCoords, to: LocationCoords) => {
+  const R = 6371000
+  const dLat = toRadians(to.lat - from.lat)
+  const dLng = toRadians(to.lng - from.lng)
+  const a =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(toRadians(from.lat)) * Math.cos(toRadians(to.lat)) *
+    Math.sin(dLng / 2) * Math.sin(dLng / 2)
+  return R * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a))
+}
+
+// Direção de deslocamento em graus (0 = norte, sentido horário).
+// Usada quando o GPS não informa heading, o que é comum parado ou no navegador.
+export const bearingBetween = (from: LocationCoords, to: LocationCoords) => {
+  const lat1 = toRadians(from.lat)
+  const lat2 = toRadians(to.lat)
+  const dLng = toRadians(to.lng - from.lng)
+  const y = Math.sin(dLng) * Math.cos(lat2)
+  const x = Math.cos(lat1) * Math.sin(lat2) - Math.sin(lat1) * Math.cos(lat2) * Math.cos(dLng)
+  return (Math.atan2(y, x) * 180 / Math.PI + 360) % 360
+}
+
+// Até onde o motorista está indo agora: o embarque antes da viagem, as
+// paradas restantes e o destino durante a viagem. null quando não há previsão.
+export const getEtaTarget = (
+  status: RideStatus,
+  ride: { origin_lat: number, origin_lng: number, destination_lat: number, destination_lng: number },
+  remainingStops: StopSelection[] = []
+): { destination: LocationCoords, waypoints: StopSelection[], label: string } | null => {
+  if (status === 'accepted' || status === 'driver_arriving') {
+    return {
+      destination: { lat: ride.origin_lat, lng: ride.origin_lng },
+      waypoints: [],
+      label: 'Motorista chega em',
+    }
+  }
+
+  if (status === 'in_progress') {
+    return {
+      destination: { lat: ride.destination_lat, lng: ride.destination_lng },
+      waypoints: remainingStops,
+      label: 'Chegada ao destino em',
+    }
+  }
+
+  return null
+}
+
+// Tempo de carro da posição atual até o alvo, em minutos
+export const fetchEtaMinutes = async (
+  from: LocationCoords,
+  to: LocationCoords,
+  waypoints: StopSelection[] = []
+): Promise<number | null> => {
+  const { data, error } = await supabase.functions.invoke('google-maps-proxy', {
+    body: {
+      action: 'directions',
+      origin: `${from.lat},${from.lng}`,
+      destination: `${to.lat},${to.lng}`,
+      waypoints: toWaypoints(waypoints),
+    },
+  })
+
+  if (error || !data?.routes?.length) {
+    return null
+  }
+
+  return Math.max(1, Math.round(sumRouteLegs(data.routes[0].legs).durationMinutes))
+}
@@ -0,0 +1,74 @@
+import { supabase } from '@/integrations/supabase/client'
+import { Database } from '@/integrations/supabase/types'
+
+export type Payment = Database['public']['Tables']['payments']['Row']
+export type PaymentMethod = Database['public']['Enums']['payment_method']
+export type RidePaymentStatus = 'pending' | 'authorized' | 'paid' | 'failed' | 'partially_refunded' | 'refunded'
+
+export const PAYMENT_METHODS: PaymentMethod[] = ['cash', 'card', 'pix']
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  cash: 'Dinheiro',
+  card: 'Cartão',
+  pix: 'Pix',
+}
+
+export const PAYMENT_STATUS_LABELS: Record<RidePaymentStatus, string> = {
+  pending: 'Pagamento pendente',
+  authorized: 'Pagamento autorizado',
+  paid: 'Pago',
+  failed: 'Pagamento recusado',
+  partially_refunded: 'Estornado em parte',
+  refunded: 'Estornado',
+}
+
+export type PaymentErrorCode =
+  | 'RIDE_NOT_FOUND'
+  | 'ALREADY_PAID'
+  | 'RIDE_NOT_PAYABLE'
+  | 'WRONG_PAYMENT_METHOD'
+  | 'PAYMENT_NOT_FOUND'
+  | 'MOCK_ONLY'
+  | 'UNKNOWN'
+
+const paymentErrorMessages: Record<PaymentErrorCode, string> = {
+  RIDE_NOT_FOUND: 'Corrida não encontrada',
+  ALREADY_PAID: 'Esta corrida já foi paga',
+  RIDE_NOT_PAYABLE: 'O pagamento fica disponível quando o motorista encerrar a viagem',
+  WRONG_PAYMENT_METHOD: 'Esta corrida não foi solicitada com pagamento via Pix',
+  PAYMENT_NOT_FOUND: 'Cobrança não encontrada',
+  MOCK_ONLY: 'Simulação disponível apenas com o provedor de testes',
+  UNKNOWN: 'Erro ao processar o pagamento',
+}
+
+export class PaymentError extends Error {
+  code: PaymentErrorCode
+
+  constructor(code: PaymentErrorCode) {
+    super(paymentErrorMessages[code])
+    this.name = 'PaymentError'
+    this.code = code
+  }
+}
+
+const knownCodes = Object.keys(paymentErrorMessages) as PaymentErrorCode[]
+
+// Todas as ações passam pela função payments, que fala com o PSP
+const invokePayments = async (body: Record<string, unknown>): Promise<Payment> => {
+  const { data, error } = await supabase.functions.invoke<{ payment: Payment }>('payments', { body })
+
+  if (error || !data?.payment) {
+    const responseBody = await error?.context?.json?.().catch(() => null)
+    throw new PaymentError(knownCodes.find(c => c === responseBody?.code) ?? 'UNKNOWN')
+  }
+
+  return data.payment
+}
+
+// Gera a cobrança Pix da corrida, ou devolve a que ainda está válida
+export const createPixCharge = (rideId: string) =>
+  invokePayments({ action: 'create_pix', rideId })
+
+// Só funciona com PAYMENT_PROVIDER=mock e ALLOW_MOCK_PAY=true: confirma a cobrança sem PSP real
+export const simulatePixPayment = (paymentId: string) =>
+  invokePayments({ action: 'mock_pay', paymentId })
@@ -0,0 +1,84 @@
+import { supabase } from '@/integrations/supabase/client'
+import { Database } from '@/integrations/supabase/types'
+import { RideRow } from '@/lib/rideStatus'
+
+export type RatingRole = 'passenger' | 'driver'
+export type LowRatedAccount = Database['public']['Functions']['get_low_rated_accounts']['Returns'][number]
+
+// Tags sugeridas para quem avalia: o passageiro fala do motorista e vice-versa.
+// O servidor aceita até 5 tags por avaliação.
+export const RATING_TAGS: Record<RatingRole, { positive: string[]; negative: string[] }> = {
+  passenger: {
+    positive: ['Direção segura', 'Carro limpo', 'Pontual', 'Simpático', 'Conhece o caminho'],
+    negative: ['Direção perigosa', 'Carro sujo', 'Atrasou', 'Rota ruim', 'Mal-educado'],
+  },
+  driver: {
+    positive: ['Pontual', 'Educado', 'Embarque fácil', 'Respeitoso'],
+    negative: ['Atrasou', 'Mal-educado', 'Endereço errado', 'Sujou o carro'],
+  },
+}
+
+export const MAX_RATING_TAGS = 5
+export const MAX_RATING_COMMENT_LENGTH = 500
+
+export type RatedRide = Partial<Pick<
+  RideRow,
+  | 'passenger_rating' | 'passenger_rating_tags' | 'passenger_comment' | 'passenger_rated_at'
+  | 'driver_rating' | 'driver_rating_tags' | 'driver_comment' | 'driver_rated_at'
+>>
+
+// Avaliação que o usuário já deu nesta corrida, conforme o lado dele
+export const getOwnRating = (ride: RatedRide, role: RatingRole) =>
+  role === 'passenger'
+    ? { rating: ride.passenger_rating, tags: ride.passenger_rating_tags, comment: ride.passenger_comment, ratedAt: ride.passenger_rated_at }
+    : { rating: ride.driver_rating, tags: ride.driver_rating_tags, comment: ride.driver_comment, ratedAt: ride.driver_rated_at }
+
+export type RatingErrorCode =
+  | 'NOT_AUTHENTICATED'
+  | 'RIDE_NOT_FOUND'
+  | 'NOT_PARTICIPANT'
+  | 'RIDE_NOT_COMPLETED'
+  | 'INVALID_RATING'
+  | 'RATING_ALREADY_SUBMITTED'
+  | 'UNKNOWN'
+
+const ratingErrorMessages: Record<RatingErrorCode, string> = {
+  NOT_AUTHENTICATED: 'Sessão expirada. Faça login novamente.',
+  RIDE_NOT_FOUND: 'Corrida não encontrada',
+  NOT_PARTICIPANT: 'Você não participa desta corrida',
+  RIDE_NOT_COMPLETED: 'A avaliação fica disponível quando a corrida for concluída',
+  INVALID_RATING: 'Escolha de 1 a 5 estrelas, até 5 tags e um comentário de até 500 caracteres',
+  RATING_ALREADY_SUBMITTED: 'Você já avaliou esta corrida',
+  UNKNOWN: 'Erro ao enviar avaliação',
+}
+
+export class RatingError extends Error {
+  code: RatingErrorCode
+
+  constructor(code: RatingErrorCode) {
+    super(ratingErrorMessages[code])
+    this.name = 'RatingError'
+    this.code = code
+  }
+}
+
+const knownCodes = Object.keys(ratingErrorMessages) as RatingErrorCode[]
+
+// Avaliação é gravada uma única vez pela RPC, que também atualiza a nota de quem foi avaliado
+export const submitRideRating = async (
+  rideId: string,
+  rating: { stars: number; tags: string[]; comment: string }
+): Promise<RideRow> => {
+  const { data, error } = await supabase.rpc('submit_ride_rating', {
+    p_ride_id: rideId,
+    p_rating: rating.stars,
+    p_tags: rating.tags,
+    p_comment: rating.comment,
+  })
+
+  if (error) {
+    throw new RatingError(knownCodes.find(c => c === error.message) ?? 'UNKNOWN')
+  }
+
+  return data
+}
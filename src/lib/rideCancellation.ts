@@ -0,0 +1,80 @@
+import { supabase } from '@/integrations/supabase/client'
+import { RideRow, toRideTransitionError } from '@/lib/rideStatus'
+
+export type CancellationActor = 'passenger' | 'driver' | 'admin'
+
+// Espelho da tabela ride_cancellation_reasons com os textos da UI.
+// Quem valida o motivo é a RPC cancel_ride.
+export const CANCELLATION_REASONS: Record<CancellationActor, { code: string; label: string }[]> = {
+  passenger: [
+    { code: 'changed_plans', label: 'Mudei de planos' },
+    { code: 'driver_too_far', label: 'Motorista muito longe' },
+    { code: 'driver_asked_to_cancel', label: 'Motorista pediu para cancelar' },
+    { code: 'wrong_address', label: 'Endereço errado' },
+    { code: 'other_transport', label: 'Consegui outro transporte' },
+    { code: 'no_driver_found', label: 'Nenhum motorista encontrado' },
+    { code: 'other', label: 'Outro motivo' },
+  ],
+  driver: [
+    { code: 'passenger_no_show', label: 'Passageiro não apareceu' },
+    { code: 'passenger_asked_to_cancel', label: 'Passageiro pediu para cancelar' },
+    { code: 'unsafe_pickup', label: 'Local de embarque inseguro' },
+    { code: 'vehicle_problem', label: 'Problema no veículo' },
+    { code: 'pickup_too_far', label: 'Embarque muito longe' },
+    { code: 'other', label: 'Outro motivo' },
+  ],
+  admin: [
+    { code: 'support_request', label: 'Solicitação ao suporte' },
+    { code: 'fraud_suspected', label: 'Suspeita de fraude' },
+    { code: 'other', label: 'Outro motivo' },
+  ],
+}
+
+export const getCancellationReasonLabel = (code: string | null | undefined) => {
+  if (!code) return null
+  for (const reasons of Object.values(CANCELLATION_REASONS)) {
+    const reason = reasons.find(r => r.code === code)
+    if (reason) return reason.label
+  }
+  return code
+}
+
+// Com base na configuração atual; o valor cobrado de fato é calculado pela RPC
+export const isCancellationFeeDue = (
+  ride: { accepted_at?: string | null },
+  settings: { cancellation_fee: number; cancellation_grace_minutes: number },
+  now = new Date()
+) =>
+  settings.cancellation_fee > 0 &&
+  !!ride.accepted_at &&
+  now.getTime() > new Date(ride.accepted_at).getTime() + settings.cancellation_grace_minutes * 60000
+
+// Resposta CANCELLATION_FEE_PENDING da create-ride: a taxa de uma corrida
+// cancelada ainda não foi paga e é quitada pelo Pix dessa corrida
+export class CancellationFeePendingError extends Error {
+  rideId: string
+  fee: number
+
+  constructor(rideId: string, fee: number) {
+    super(`Pague a taxa de cancelamento de R$ ${fee.toFixed(2)} para pedir uma nova corrida`)
+    this.name = 'CancellationFeePendingError'
+    this.rideId = rideId
+    this.fee = fee
+  }
+}
+
+// Única forma de o cliente cancelar uma corrida. Se quem cancela é o motorista,
+// a corrida volta para requested e é despachada de novo.
+export const cancelRide = async (rideId: string, reason: string, note?: string): Promise<RideRow> => {
+  const { data, error } = await supabase.rpc('cancel_ride', {
+    p_ride_id: rideId,
+    p_reason: reason,
+    p_note: note ?? '',
+  })
+
+  if (error) {
+    throw toRideTransitionError(error)
+  }
+
+  return data
+}
@@ -0,0 +1,74 @@
+import { supabase } from '@/integrations/supabase/client'
+import { Database } from '@/integrations/supabase/types'
+import { RideStatus, toRideTransitionError } from '@/lib/rideStatus'
+
+export type RideMessage = Database['public']['Tables']['ride_messages']['Row']
+export type ChatRole = 'passenger' | 'driver'
+
+export const MAX_MESSAGE_LENGTH = 1000
+
+// Fora destes status o chat fica só para leitura; quem bloqueia é a RPC send_ride_message
+export const CHAT_OPEN_STATUSES: RideStatus[] = ['accepted', 'driver_arriving', 'driver_arrived', 'in_progress']
+
+export const isChatOpen = (status: RideStatus) => CHAT_OPEN_STATUSES.includes(status)
+
+// Respostas rápidas de cada lado da corrida
+export const QUICK_REPLIES: Record<ChatRole, { key: string; text: string }[]> = {
+  passenger: [
+    { key: 'at_gate', text: 'Estou no portão' },
+    { key: 'coming_down', text: 'Já estou descendo' },
+    { key: 'wait_please', text: 'Pode me esperar um minuto?' },
+    { key: 'where_are_you', text: 'Onde você está?' },
+  ],
+  driver: [
+    { key: 'on_my_way', text: 'Estou chegando' },
+    { key: 'arrived', text: 'Cheguei ao local de embarque' },
+    { key: 'traffic', text: 'Estou preso no trânsito, já chego' },
+    { key: 'where_are_you', text: 'Onde você está?' },
+  ],
+}
+
+export const fetchRideMessages = async (rideId: string): Promise<RideMessage[]> => {
+  const { data, error } = await supabase
+    .from('ride_messages')
+    .select('*')
+    .eq('ride_id', rideId)
+    .order('created_at', { ascending: true })
+
+  if (error) {
+    throw error
+  }
+
+  return data ?? []
+}
+
+export const sendRideMessage = async (
+  rideId: string,
+  body: string,
+  templateKey?: string
+): Promise<RideMessage> => {
+  const { data, error } = await supabase.rpc('send_ride_message', {
+    p_ride_id: rideId,
+    p_body: body,
+    p_template_key: templateKey,
+  })
+
+  if (error) {
+    throw toRideTransitionError(error)
+  }
+
+  return data
+}
+
+// Confirma a leitura de tudo o que o usuário recebeu na corrida
+export const markRideMessagesRead = async (rideId: string): Promise<number> => {
+  const { data, error } = await supabase.rpc('mark_ride_messages_read', {
+    p_ride_id: rideId,
+  })
+
+  if (error) {
+    throw toRideTransitionError(error)
+  }
+
+  return data ?? 0
+}
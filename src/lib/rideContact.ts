@@ -0,0 +1,51 @@
+import { supabase } from '@/integrations/supabase/client'
+
+// Contato mascarado: o número devolvido é do provedor de telefonia, que
+// encaminha a ligação para a outra parte enquanto a sessão estiver aberta
+export interface RideContact {
+  token: string
+  proxy_number: string
+  // null enquanto a corrida está em andamento
+  expires_at: string | null
+}
+
+export type RideContactErrorCode =
+  | 'RIDE_NOT_FOUND'
+  | 'NOT_PARTICIPANT'
+  | 'CONTACT_CLOSED'
+  | 'PHONE_UNAVAILABLE'
+  | 'UNKNOWN'
+
+const rideContactErrorMessages: Record<RideContactErrorCode, string> = {
+  RIDE_NOT_FOUND: 'Corrida não encontrada',
+  NOT_PARTICIPANT: 'Apenas o passageiro e o motorista da corrida podem se ligar',
+  CONTACT_CLOSED: 'O contato por telefone não está mais disponível para esta corrida',
+  PHONE_UNAVAILABLE: 'Telefone não cadastrado',
+  UNKNOWN: 'Erro ao iniciar a ligação',
+}
+
+export class RideContactError extends Error {
+  code: RideContactErrorCode
+
+  constructor(code: RideContactErrorCode) {
+    super(rideContactErrorMessages[code])
+    this.name = 'RideContactError'
+    this.code = code
+  }
+}
+
+const knownCodes = Object.keys(rideContactErrorMessages) as RideContactErrorCode[]
+
+// Abre (ou reaproveita) a sessão de contato do usuário na corrida
+export const openRideContact = async (rideId: string): Promise<RideContact> => {
+  const { data, error } = await supabase.functions.invoke<{ contact: RideContact }>('ride-contact', {
+    body: { action: 'open', rideId },
+  })
+
+  if (error || !data?.contact) {
+    const responseBody = await error?.context?.json?.().catch(() => null)
+    throw new RideContactError(knownCodes.find(c => c === responseBody?.code) ?? 'UNKNOWN')
+  }
+
+  return data.contact
+}
@@ -0,0 +1,76 @@
+import { supabase } from '@/integrations/supabase/client'
+import { Database } from '@/integrations/supabase/types'
+import { toRideTransitionError } from '@/lib/rideStatus'
+import { SafetyAlertType } from '../../supabase/functions/_shared/safety'
+
+export * from '../../supabase/functions/_shared/safety'
+
+export type RideSafetyAlert = Database['public']['Tables']['ride_safety_alerts']['Row']
+export type SafetyAlertStatus = 'pending' | 'confirmed_safe' | 'escalated' | 'resolved'
+
+export const SAFETY_ALERT_LABELS: Record<SafetyAlertType, string> = {
+  route_deviation: 'Desvio de rota',
+  long_stop: 'Parada longa',
+  overtime: 'Viagem demorada',
+}
+
+export const SAFETY_ALERT_STATUS_LABELS: Record<SafetyAlertStatus, string> = {
+  pending: 'Aguardando passageiro',
+  confirmed_safe: 'Passageiro confirmou',
+  escalated: 'Encaminhado à central',
+  resolved: 'Resolvido',
+}
+
+export const SAFETY_ESCALATION_REASON_LABELS: Record<string, string> = {
+  no_response: 'Sem resposta',
+  passenger_request: 'Passageiro pediu ajuda',
+}
+
+// Texto mostrado ao passageiro, com a medida que disparou o alerta
+export const getSafetyAlertMessage = (alert: Pick<RideSafetyAlert, 'alert_type' | 'details'>) => {
+  const details = (alert.details ?? {}) as Record<string, number>
+
+  switch (alert.alert_type as SafetyAlertType) {
+    case 'route_deviation':
+      return details.distance_m
+        ? `O veículo está a ${(details.distance_m / 1000).toFixed(1)} km da rota prevista.`
+        : 'O veículo saiu da rota prevista.'
+    case 'long_stop':
+      return details.stopped_minutes
+        ? `O veículo está parado há ${details.stopped_minutes} minutos.`
+        : 'O veículo está parado há algum tempo.'
+    case 'overtime':
+      return details.estimated_minutes
+        ? `A viagem já dura ${details.trip_minutes} minutos; a previsão era de ${details.estimated_minutes}.`
+        : 'A viagem está demorando mais que o previsto.'
+    default:
+      return 'Notamos algo diferente na sua viagem.'
+  }
+}
+
+// Passageiro confirma que está bem ou pede ajuda à central
+export const respondToSafetyAlert = async (alertId: string, safe: boolean): Promise<RideSafetyAlert> => {
+  const { data, error } = await supabase.rpc('respond_ride_safety_alert', {
+    p_alert_id: alertId,
+    p_safe: safe,
+  })
+
+  if (error) {
+    throw toRideTransitionError(error)
+  }
+
+  return data
+}
+
+export const resolveSafetyAlert = async (alertId: string, note?: string): Promise<RideSafetyAlert> => {
+  const { data, error } = await supabase.rpc('resolve_ride_safety_alert', {
+    p_alert_id: alertId,
+    p_note: note,
+  })
+
+  if (error) {
+    throw toRideTransitionError(error)
+  }
+
+  return data
+}
@@ -0,0 +1,152 @@
+import { supabase } from '@/integrations/supabase/client'
+import { Database } from '@/integrations/supabase/types'
+
+export type RideStatus = Database['public']['Enums']['ride_status']
+export type RideRow = Database['public']['Tables']['rides']['Row']
+
+// Espelho da tabela ride_status_transitions, usado apenas para a UI.
+// Quem valida de verdade é a RPC transition_ride_status no banco; o aceite
+// (requested -> accepted) só acontece por accept_ride.
+export const RIDE_STATUS_TRANSITIONS: Record<RideStatus, RideStatus[]> = {
+  scheduled: ['requested', 'accepted', 'cancelled'],
+  requested: ['accepted', 'cancelled', 'expired'],
+  accepted: ['driver_arriving', 'driver_arrived', 'cancelled'],
+  driver_arriving: ['driver_arrived', 'cancelled'],
+  driver_arrived: ['in_progress', 'cancelled'],
+  in_progress: ['completed', 'cancelled'],
+  completed: [],
+  cancelled: [],
+  expired: [],
+}
+
+export const ACTIVE_RIDE_STATUSES: RideStatus[] = ['accepted', 'driver_arriving', 'driver_arrived', 'in_progress']
+
+export const canTransition = (from: RideStatus, to: RideStatus) =>
+  RIDE_STATUS_TRANSITIONS[from]?.includes(to) ?? false
+
+export type RideTransitionErrorCode =
+  | 'NOT_AUTHENTICATED'
+  | 'RIDE_NOT_FOUND'
+  | 'NOT_PARTICIPANT'
+  | 'INVALID_TRANSITION'
+  | 'FORBIDDEN_TRANSITION'
+  | 'PAYMENT_NOT_SETTLED'
+  | 'CASH_CONFIRMATION_REQUIRED'
+  | 'PAYMENT_PENDING'
+  | 'PAYMENT_FAILED'
+  | 'PAYMENT_LOCKED'
+  | 'INVALID_CANCELLATION_REASON'
+  | 'NO_SHOW_TOO_EARLY'
+  | 'USE_CANCEL_RIDE'
+  | 'SEARCH_NOT_PAUSED'
+  | 'INVALID_SCHEDULE'
+  | 'SCHEDULE_TOO_SOON'
+  | 'SCHEDULE_TOO_FAR'
+  | 'ALREADY_PREACCEPTED'
+  | 'SCHEDULE_CONFLICT'
+  | 'STOP_NOT_FOUND'
+  | 'STOP_ALREADY_REACHED'
+  | 'STOP_OUT_OF_ORDER'
+  | 'TOO_MANY_STOPS'
+  | 'INVALID_STOPS'
+  | 'CHAT_LOCKED'
+  | 'INVALID_MESSAGE'
+  | 'ALERT_NOT_FOUND'
+  | 'ALERT_CLOSED'
+  | 'UNKNOWN'
+
+const transitionErrorMessages: Record<RideTransitionErrorCode, string> = {
+  NOT_AUTHENTICATED: 'Sessão expirada. Faça login novamente.',
+  RIDE_NOT_FOUND: 'Corrida não encontrada',
+  NOT_PARTICIPANT: 'Você não participa desta corrida',
+  INVALID_TRANSITION: 'Esta ação não é mais possível para o status atual da corrida',
+  FORBIDDEN_TRANSITION: 'Você não tem permissão para esta ação',
+  PAYMENT_NOT_SETTLED: 'A corrida só pode ser concluída com o pagamento quitado',
+  CASH_CONFIRMATION_REQUIRED: 'Confirme o recebimento do pagamento em dinheiro',
+  PAYMENT_PENDING: 'Aguardando o passageiro pagar via Pix',
+  PAYMENT_FAILED: 'O pagamento com cartão foi recusado',
+  PAYMENT_LOCKED: 'O pagamento da corrida é atualizado pelo servidor',
+  INVALID_CANCELLATION_REASON: 'Escolha um motivo válido para o cancelamento',
+  NO_SHOW_TOO_EARLY: 'Aguarde o tempo de espera no local de embarque antes de informar que o passageiro não apareceu',
+  USE_CANCEL_RIDE: 'Informe o motivo para cancelar a corrida',
+  SEARCH_NOT_PAUSED: 'A busca por motorista ainda está em andamento',
+  INVALID_SCHEDULE: 'Informe um horário válido para a corrida',
+  SCHEDULE_TOO_SOON: 'O horário escolhido está muito próximo',
+  SCHEDULE_TOO_FAR: 'O horário escolhido está muito distante',
+  ALREADY_PREACCEPTED: 'Outro motorista já pré-aceitou esta corrida',
+  SCHEDULE_CONFLICT: 'Você já tem uma corrida agendada próxima deste horário',
+  STOP_NOT_FOUND: 'Parada não encontrada',
+  STOP_ALREADY_REACHED: 'Esta parada já foi marcada',
+  STOP_OUT_OF_ORDER: 'Marque as paradas anteriores primeiro',
+  TOO_MANY_STOPS: 'A corrida tem mais paradas do que o permitido',
+  INVALID_STOPS: 'Escolha um endereço válido para cada parada',
+  CHAT_LOCKED: 'O chat fica disponível apenas durante a corrida',
+  INVALID_MESSAGE: 'A mensagem deve ter de 1 a 1000 caracteres',
+  ALERT_NOT_FOUND: 'Alerta de segurança não encontrado',
+  ALERT_CLOSED: 'Este alerta já foi respondido',
+  UNKNOWN: 'Erro ao atualizar status da corrida',
+}
+
+export class RideTransitionError extends Error {
+  code: RideTransitionErrorCode
+  details?: string
+  // Corrida devolvida pela complete-ride quando a viagem terminou mas o pagamento não
+  ride?: RideRow
+
+  constructor(code: RideTransitionErrorCode, details?: string, ride?: RideRow) {
+    super(transitionErrorMessages[code])
+    this.name = 'RideTransitionError'
+    this.code = code
+    this.details = details
+    this.ride = ride
+  }
+}
+
+const knownCodes = Object.keys(transitionErrorMessages) as RideTransitionErrorCode[]
+
+export const toRideTransitionError = (error: { message?: string; details?: string }, ride?: RideRow) => {
+  const code = knownCodes.find(c => c === error.message) ?? 'UNKNOWN'
+  return new RideTransitionError(code, error.details ?? error.message, ride)
+}
+
+// Única forma de o cliente mudar o status de uma corrida
+export const transitionRideStatus = async (rideId: string, status: RideStatus): Promise<RideRow> => {
+  const { data, error } = await supabase.rpc('transition_ride_status', {
+    p_ride_id: rideId,
+    p_status: status,
+  })
+
+  if (error) {
+    throw toRideTransitionError(error)
+  }
+
+  return data
+}
+
+// Depois das rodadas extras sem motorista, o passageiro pode recomeçar a busca
+export const continueRideSearch = async (rideId: string): Promise<RideRow> => {
+  const { data, error } = await supabase.rpc('continue_ride_search', {
+    p_ride_id: rideId,
+  })
+
+  if (error) {
+    throw toRideTransitionError(error)
+  }
+
+  return data
+}
+
+// Conclusão passa pela função complete-ride, que grava o preço final e liquida
+// o pagamento. Em dinheiro, o motorista confirma o recebimento com cashReceived.
+export const completeRide = async (rideId: string, options: { cashReceived?: boolean } = {}): Promise<RideRow> => {
+  const { data, error } = await supabase.functions.invoke<{ ride: RideRow }>('complete-ride', {
+    body: { rideId, cashReceived: options.cashReceived ?? false },
+  })
+
+  if (error || !data?.ride) {
+    const body = await error?.context?.json?.().catch(() => null)
+    throw toRideTransitionError({ message: body?.code, details: body?.details ?? body?.error }, body?.ride)
+  }
+
+  return data.ride
+}
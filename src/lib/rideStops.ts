@@ -0,0 +1,62 @@
+import { supabase } from '@/integrations/supabase/client'
+import { Database } from '@/integrations/supabase/types'
+import { LocationCoords } from '@/hooks/useGeolocation'
+import { toRideTransitionError } from '@/lib/rideStatus'
+
+export type RideStop = Database['public']['Tables']['ride_stops']['Row']
+
+// Paradas escolhidas pelo passageiro antes de a corrida existir
+export interface StopSelection {
+  coords: LocationCoords
+  address: string
+}
+
+// Usado enquanto as configurações não carregam; o limite real é validado pela create-ride
+export const DEFAULT_MAX_RIDE_STOPS = 3
+
+interface DirectionsLeg {
+  distance: { value: number }
+  duration: { value: number }
+}
+
+// Soma os trechos devolvidos pela action directions do google-maps-proxy
+export const sumRouteLegs = (legs: DirectionsLeg[]) => ({
+  distanceKm: legs.reduce((sum, leg) => sum + leg.distance.value, 0) / 1000,
+  durationMinutes: legs.reduce((sum, leg) => sum + leg.duration.value, 0) / 60,
+})
+
+export const toWaypoints = (stops: StopSelection[]) =>
+  stops.map(stop => `${stop.coords.lat},${stop.coords.lng}`)
+
+export const toStopPayload = (stops: StopSelection[]) =>
+  stops.map(stop => ({ lat: stop.coords.lat, lng: stop.coords.lng, address: stop.address }))
+
+export const fetchRideStops = async (rideId: string): Promise<RideStop[]> => {
+  const { data, error } = await supabase
+    .from('ride_stops')
+    .select('*')
+    .eq('ride_id', rideId)
+    .order('position', { ascending: true })
+
+  if (error) {
+    throw error
+  }
+
+  return data ?? []
+}
+
+// Próxima parada ainda não alcançada; as paradas são marcadas na ordem
+export const getNextStop = (stops: RideStop[]) => stops.find(stop => !stop.reached_at) ?? null
+
+export const markRideStopReached = async (rideId: string, position: number): Promise<RideStop> => {
+  const { data, error } = await supabase.rpc('mark_ride_stop_reached', {
+    p_ride_id: rideId,
+    p_position: position,
+  })
+
+  if (error) {
+    throw toRideTransitionError(error)
+  }
+
+  return data
+}
@@ -0,0 +1,47 @@
+import { supabase } from '@/integrations/supabase/client'
+import { Database } from '@/integrations/supabase/types'
+import { LocationState } from '@/hooks/useGeolocation'
+
+export * from '../../supabase/functions/_shared/tracks'
+
+export type RideTrackPoint = Database['public']['Tables']['ride_tracks']['Row']
+
+// Amostragem do trajeto durante a viagem: no máximo um ponto a cada
+// intervalo, e só se o motorista andou pelo menos a distância mínima.
+// O filtro de ruído de verdade fica para a complete-ride.
+export const TRACK_SAMPLE_INTERVAL_MS = 5000
+export const TRACK_SAMPLE_MIN_DISTANCE_M = 15
+
+export const fetchRideTrack = async (rideId: string): Promise<RideTrackPoint[]> => {
+  const { data, error } = await supabase
+    .from('ride_tracks')
+    .select('*')
+    .eq('ride_id', rideId)
+    .order('recorded_at', { ascending: true })
+
+  if (error) {
+    throw error
+  }
+
+  return data ?? []
+}
+
+export const recordTrackPoint = async (rideId: string, location: LocationState) => {
+  if (!location.coords) return
+
+  const { error } = await supabase
+    .from('ride_tracks')
+    .insert({
+      ride_id: rideId,
+      lat: location.coords.lat,
+      lng: location.coords.lng,
+      accuracy: location.accuracy,
+      speed: location.speed ?? null,
+      heading: location.heading ?? null,
+      recorded_at: new Date().toISOString(),
+    })
+
+  if (error) {
+    throw error
+  }
+}
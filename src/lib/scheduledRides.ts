@@ -0,0 +1,70 @@
+import { supabase } from '@/integrations/supabase/client'
+import { Database } from '@/integrations/supabase/types'
+import { RideRow, toRideTransitionError } from '@/lib/rideStatus'
+
+export type OpenScheduledRide = Database['public']['Functions']['get_open_scheduled_rides']['Returns'][number]
+
+// Valor aceito por <input type="datetime-local"> no fuso do navegador
+export const toDateTimeLocalValue = (date: Date) => {
+  const local = new Date(date.getTime() - date.getTimezoneOffset() * 60000)
+  return local.toISOString().slice(0, 16)
+}
+
+export const formatScheduledFor = (value: string) =>
+  new Date(value).toLocaleString('pt-BR', {
+    weekday: 'short',
+    day: '2-digit',
+    month: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+  })
+
+// Novo horário libera o motorista que tinha pré-aceitado
+export const rescheduleRide = async (rideId: string, scheduledFor: Date): Promise<RideRow> => {
+  const { data, error } = await supabase.rpc('reschedule_ride', {
+    p_ride_id: rideId,
+    p_scheduled_for: scheduledFor.toISOString(),
+  })
+
+  if (error) {
+    throw toRideTransitionError(error)
+  }
+
+  return data
+}
+
+// O motorista recebe um lembrete antes do horário e a corrida chega a ele
+// já aceita quando o despacho começa
+export const preacceptScheduledRide = async (rideId: string): Promise<RideRow> => {
+  const { data, error } = await supabase.rpc('preaccept_scheduled_ride', {
+    p_ride_id: rideId,
+  })
+
+  if (error) {
+    throw toRideTransitionError(error)
+  }
+
+  return data
+}
+
+export const releaseScheduledRide = async (rideId: string): Promise<RideRow> => {
+  const { data, error } = await supabase.rpc('release_scheduled_ride', {
+    p_ride_id: rideId,
+  })
+
+  if (error) {
+    throw toRideTransitionError(error)
+  }
+
+  return data
+}
+
+export const getOpenScheduledRides = async (): Promise<OpenScheduledRide[]> => {
+  const { data, error } = await supabase.rpc('get_open_scheduled_rides')
+
+  if (error) {
+    throw error
+  }
+
+  return data ?? []
+}
@@ -0,0 +1,41 @@
+import { Database } from '@/integrations/supabase/types'
+import { FareRates } from '@/lib/fare'
+import { VehicleType } from '@/lib/vehicleFares'
+import { ZonePoint } from '../../supabase/functions/_shared/zones'
+
+export * from '../../supabase/functions/_shared/zones'
+
+export type ServiceZoneRow = Database['public']['Tables']['service_zones']['Row']
+
+// Linha da tabela com os campos JSONB já tipados
+export interface ServiceZone extends Omit<ServiceZoneRow, 'polygon' | 'fare_overrides'> {
+  polygon: ZonePoint[]
+  fare_overrides: Partial<Record<VehicleType, Partial<FareRates>>>
+}
+
+export const toServiceZone = (row: ServiceZoneRow): ServiceZone => ({
+  ...row,
+  polygon: (row.polygon as unknown as ZonePoint[]) ?? [],
+  fare_overrides: (row.fare_overrides as unknown as ServiceZone['fare_overrides']) ?? {},
+})
+
+// Texto "lat, lng" por linha, usado no formulário do admin
+export const parsePolygonText = (text: string): ZonePoint[] =>
+  text
+    .split('\n')
+    .map(line => line.split(',').map(value => parseFloat(value.trim())))
+    .filter(([lat, lng]) => !isNaN(lat) && !isNaN(lng))
+    .map(([lat, lng]) => ({ lat, lng }))
+
+export const formatPolygonText = (polygon: ZonePoint[]) =>
+  polygon.map(point => `${point.lat}, ${point.lng}`).join('\n')
+
+export const OUTSIDE_SERVICE_AREA_MESSAGE = 'Ainda não atendemos este local de embarque. Escolha um ponto dentro da nossa área de atendimento.'
+
+// Resposta OUTSIDE_SERVICE_AREA da função create-ride
+export class OutsideServiceAreaError extends Error {
+  constructor() {
+    super(OUTSIDE_SERVICE_AREA_MESSAGE)
+    this.name = 'OutsideServiceAreaError'
+  }
+}
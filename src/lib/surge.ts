@@ -0,0 +1,55 @@
+import { supabase } from '@/integrations/supabase/client'
+import { LocationCoords } from '@/hooks/useGeolocation'
+import { FareBreakdown } from '@/lib/fare'
+import { VehicleType } from '@/lib/vehicleFares'
+import { OutsideServiceAreaError } from '@/lib/serviceZones'
+import { toRideTransitionError } from '@/lib/rideStatus'
+
+// Cotação feita pela função create-ride, com a tarifa dinâmica do momento
+export interface RideQuote {
+  fare: FareBreakdown
+  surgeMultiplier: number
+}
+
+// A dinâmica subiu entre a confirmação do passageiro e a criação da corrida
+export class SurgeChangedError extends Error {
+  quote: RideQuote
+
+  constructor(quote: RideQuote) {
+    super('A tarifa dinâmica mudou. Confirme o novo preço.')
+    this.name = 'SurgeChangedError'
+    this.quote = quote
+  }
+}
+
+export const formatSurgeMultiplier = (multiplier: number) =>
+  `${multiplier.toFixed(1).replace('.', ',')}x`
+
+export const quoteRide = async (request: {
+  origin: LocationCoords
+  destination: LocationCoords
+  origin_address: string
+  destination_address: string
+  requested_vehicle_type?: VehicleType
+  stops?: { lat: number; lng: number; address: string }[]
+}): Promise<RideQuote> => {
+  const { data, error } = await supabase.functions.invoke<RideQuote>('create-ride', {
+    body: { ...request, action: 'quote' },
+  })
+
+  if (error) {
+    const body = await error.context?.json?.().catch(() => null)
+    if (body?.code === 'OUTSIDE_SERVICE_AREA') {
+      throw new OutsideServiceAreaError()
+    }
+    if (body?.code === 'TOO_MANY_STOPS' || body?.code === 'INVALID_STOPS') {
+      throw toRideTransitionError({ message: body.code, details: body.error })
+    }
+  }
+
+  if (error || !data) {
+    throw error ?? new Error('Ride quote failed')
+  }
+
+  return { fare: data.fare, surgeMultiplier: data.surgeMultiplier }
+}
@@ -29,14 +29,68 @@ export const driverLocationSchema = z.object({
   is_online: z.boolean(),
 });
 
+// Per-vehicle-type fare validation schema
+const vehicleTypeFareSchema = z.object({
+  fixed_rate: z.number().positive().max(1000),
+  price_per_km: z.number().positive().max(100),
+  price_per_minute: z.number().min(0).max(20),
+  minimum_fare: z.number().positive().max(500),
+});
+
 // System settings validation schema
 export const systemSettingsSchema = z.object({
   fixed_rate: z.number().positive().max(1000),
   price_per_km: z.number().positive().max(100),
+  price_per_minute: z.number().min(0).max(20),
   minimum_fare: z.number().positive().max(500),
+  free_waiting_minutes: z.number().int().min(0).max(60),
+  waiting_price_per_minute: z.number().min(0).max(20),
   app_fee_percentage: z.number().min(0).max(50),
   pricing_model: z.enum(['per_km', 'fixed']),
   fee_type: z.enum(['percentage', 'fixed_amount']),
+  driver_debt_limit: z.number().min(0).max(10000),
+  cancellation_fee: z.number().min(0).max(1000),
+  cancellation_grace_minutes: z.number().int().min(0).max(60),
+  dispatch_strategy: z.enum(['broadcast', 'sequential']),
+  dispatch_offer_seconds: z.number().int().min(5).max(300),
+  dispatch_max_drivers: z.number().int().min(1).max(50),
+  dispatch_radius_steps_km: z.array(z.number().positive().max(50)).min(1)
+    .refine(steps => steps.every((step, i) => i === 0 || step > steps[i - 1]), 'Radius steps must be increasing'),
+  dispatch_expand_radius: z.boolean(),
+  dispatch_retry_rounds: z.number().int().min(0).max(10),
+  dispatch_retry_delay_seconds: z.number().int().min(5).max(600),
+  dispatch_retry_radius_step_km: z.number().min(0).max(50),
+  dispatch_search_prompt_seconds: z.number().int().min(15).max(600),
+  scheduled_dispatch_lead_minutes: z.number().int().min(5).max(120),
+  scheduled_min_advance_minutes: z.number().int().min(15).max(1440),
+  scheduled_max_advance_days: z.number().int().min(1).max(30),
+  scheduled_reminder_minutes: z.number().int().min(5).max(240),
+  max_ride_stops: z.number().int().min(0).max(5),
+  contact_window_minutes: z.number().int().min(0).max(1440),
+  track_max_accuracy_m: z.number().int().min(5).max(500),
+  track_distance_threshold_percentage: z.number().min(0).max(100),
+  safety_route_deviation_m: z.number().int().min(100).max(5000),
+  safety_stop_minutes: z.number().int().min(1).max(60),
+  safety_overtime_percentage: z.number().min(10).max(500),
+  safety_response_seconds: z.number().int().min(30).max(900),
+  safety_alert_cooldown_minutes: z.number().int().min(1).max(120),
+  surge_enabled: z.boolean(),
+  surge_radius_km: z.number().positive().max(50),
+  surge_demand_threshold: z.number().min(0).max(20),
+  surge_sensitivity: z.number().min(0).max(5),
+  surge_max_multiplier: z.number().min(1).max(5),
+  dispatch_score_weights: z.object({
+    distance: z.number().min(0).max(1),
+    freshness: z.number().min(0).max(1),
+    rating: z.number().min(0).max(1),
+    acceptance: z.number().min(0).max(1),
+    vehicle_match: z.number().min(0).max(1),
+    idle_time: z.number().min(0).max(1),
+  }).refine(weights => Object.values(weights).some(weight => weight > 0), 'At least one score weight must be positive'),
+  vehicle_type_fares: z.object({
+    motorcycle: vehicleTypeFareSchema,
+    car: vehicleTypeFareSchema,
+  }),
 });
 
 // User profile validation schema
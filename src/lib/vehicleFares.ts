@@ -0,0 +1,30 @@
+import { Database } from '@/integrations/supabase/types'
+
+export type VehicleType = Database['public']['Enums']['vehicle_type']
+
+// type (e não interface) para ser compatível com o tipo Json do Supabase
+export type VehicleTypeFare = {
+  fixed_rate: number
+  price_per_km: number
+  price_per_minute: number
+  minimum_fare: number
+}
+
+export type VehicleTypeFares = Record<VehicleType, VehicleTypeFare>
+
+export const VEHICLE_TYPES: VehicleType[] = ['motorcycle', 'car']
+
+export const VEHICLE_TYPE_LABELS: Record<VehicleType, string> = {
+  motorcycle: 'Moto',
+  car: 'Carro',
+}
+
+export const VEHICLE_TYPE_DESCRIPTIONS: Record<VehicleType, string> = {
+  motorcycle: 'Mais rápido e econômico, 1 passageiro',
+  car: 'Mais conforto, até 4 passageiros',
+}
+
+export const DEFAULT_VEHICLE_TYPE_FARES: VehicleTypeFares = {
+  motorcycle: { fixed_rate: 3.0, price_per_km: 1.5, price_per_minute: 0.2, minimum_fare: 6.0 },
+  car: { fixed_rate: 5.0, price_per_km: 2.5, price_per_minute: 0.3, minimum_fare: 8.0 },
+}
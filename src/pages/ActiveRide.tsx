@@ -7,15 +7,27 @@ import { GoogleMap } from '@/components/maps/GoogleMap'
 import { useGeolocation, LocationCoords } from '@/hooks/useGeolocation'
 import { useRides, RideWithPassenger } from '@/hooks/useRides'
 import { useToast } from '@/hooks/use-toast'
+import { RideStatus, RideTransitionError } from '@/lib/rideStatus'
+import { fetchRideStops, getNextStop, markRideStopReached, RideStop } from '@/lib/rideStops'
+import { FareReceipt } from '@/components/FareReceipt'
+import { RideRating } from '@/components/RideRating'
+import { CancelRideDialog } from '@/components/CancelRideDialog'
+import { RideChat } from '@/components/RideChat'
+import { RideContactButton } from '@/components/RideContactButton'
+import { useRideLocationBroadcast } from '@/hooks/useDriverLocation'
+import { useRideTrackRecorder } from '@/hooks/useRideTrackRecorder'
+import { isLiveTrackingStatus } from '@/lib/liveLocation'
+import { PAYMENT_METHOD_LABELS, PAYMENT_STATUS_LABELS, RidePaymentStatus } from '@/lib/payments'
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog'
 import { 
   ArrowLeft, 
   MapPin, 
   Navigation, 
-  Phone, 
   User, 
   Clock,
   DollarSign,
-  CheckCircle
+  CheckCircle,
+  Wallet
 } from 'lucide-react'
 
 export default function ActiveRide() {
@@ -26,11 +38,19 @@ export default function ActiveRide() {
   const { toast } = useToast()
   
   const [ride, setRide] = useState<RideWithPassenger | null>(null)
+  const [cashDialogDismissed, setCashDialogDismissed] = useState(false)
+  const [cancelDialogOpen, setCancelDialogOpen] = useState(false)
+  const [stops, setStops] = useState<RideStop[]>([])
+  const [isMarkingStop, setIsMarkingStop] = useState(false)
   const [routeInfo, setRouteInfo] = useState<{
     distance?: string
     duration?: string
   }>({})
 
+  // O passageiro acompanha a posição até a corrida terminar
+  const liveLocation = useRideLocationBroadcast(ride?.driver_id, !!ride && isLiveTrackingStatus(ride.status))
+  useRideTrackRecorder(ride?.id, liveLocation, ride?.status === 'in_progress' && !ride.trip_ended_at)
+
   useEffect(() => {
     const currentRide = rides.find(r => r.id === id)
     if (currentRide) {
@@ -41,7 +61,20 @@ export default function ActiveRide() {
     }
   }, [rides, id, loading, navigate])
 
-  const getStatusInfo = (status: string) => {
+  useEffect(() => {
+    if (!id) return
+
+    fetchRideStops(id)
+      .then(setStops)
+      .catch(error => console.error('Error fetching ride stops:', error))
+  }, [id])
+
+  const getStatusInfo = (status: RideStatus): {
+    label: string
+    color: string
+    action: string | null
+    nextStatus: RideStatus | null
+  } => {
     switch (status) {
       case 'accepted':
         return { 
@@ -78,6 +111,13 @@ export default function ActiveRide() {
           action: null,
           nextStatus: null
         }
+      case 'cancelled':
+        return { 
+          label: 'Corrida cancelada', 
+          color: 'bg-red-500',
+          action: null,
+          nextStatus: null
+        }
       default:
         return { 
           label: 'Status desconhecido', 
@@ -93,18 +133,58 @@ export default function ActiveRide() {
     
     const statusInfo = getStatusInfo(ride.status)
     if (statusInfo.nextStatus) {
-      await updateRideStatus(ride.id, statusInfo.nextStatus as any)
+      setCashDialogDismissed(false)
+      await updateRideStatus(ride.id, statusInfo.nextStatus)
+    }
+  }
+
+  const handleConfirmCash = async () => {
+    if (!ride) return
+    await updateRideStatus(ride.id, 'completed', { cashReceived: true })
+  }
+
+  // Cancelar devolve a corrida para o despacho, exceto quando o passageiro não apareceu
+  const handleRideCancelled = (cancelled: { status: RideStatus; cancellation_fee: number | null }) => {
+    toast({
+      title: 'Corrida cancelada',
+      description: cancelled.status === 'requested'
+        ? 'A corrida foi oferecida a outro motorista'
+        : cancelled.cancellation_fee
+          ? `Taxa de cancelamento de R$ ${cancelled.cancellation_fee.toFixed(2)} registrada`
+          : 'Passageiro não compareceu'
+    })
+    navigate('/dashboard')
+  }
+
+  const handleStopReached = async (stop: RideStop) => {
+    if (!ride) return
+
+    setIsMarkingStop(true)
+    try {
+      const reached = await markRideStopReached(ride.id, stop.position)
+      setStops(prev => prev.map(s => s.id === reached.id ? reached : s))
+    } catch (error) {
+      toast({
+        title: 'Erro',
+        description: error instanceof RideTransitionError ? error.message : 'Não foi possível marcar a parada',
+        variant: 'destructive'
+      })
+    } finally {
+      setIsMarkingStop(false)
     }
   }
 
   const getRouteCoords = (): { origin: LocationCoords; destination: LocationCoords } | null => {
     if (!ride || !currentLocation) return null
 
-    // If ride is in progress, show route to destination
+    // If ride is in progress, show route to the next stop or to destination
     if (ride.status === 'in_progress') {
+      const nextStop = getNextStop(stops)
       return {
         origin: currentLocation,
-        destination: { lat: ride.destination_lat, lng: ride.destination_lng }
+        destination: nextStop
+          ? { lat: nextStop.lat, lng: nextStop.lng }
+          : { lat: ride.destination_lat, lng: ride.destination_lng }
       }
     }
     
@@ -127,6 +207,16 @@ export default function ActiveRide() {
       icon: 'https://maps.google.com/mapfiles/ms/icons/green-dot.png'
     })
 
+    stops.forEach(stop => {
+      markers.push({
+        position: { lat: stop.lat, lng: stop.lng },
+        title: `Parada ${stop.position}`,
+        icon: stop.reached_at
+          ? 'https://maps.google.com/mapfiles/ms/icons/ltblue-dot.png'
+          : 'https://maps.google.com/mapfiles/ms/icons/yellow-dot.png'
+      })
+    })
+
     // Always show destination
     markers.push({
       position: { lat: ride.destination_lat, lng: ride.destination_lng },
@@ -172,6 +262,10 @@ export default function ActiveRide() {
 
   const statusInfo = getStatusInfo(ride.status)
   const routeCoords = getRouteCoords()
+  // Viagem encerrada pelo servidor, aguardando o pagamento para concluir
+  const awaitingPayment = ride.status === 'in_progress' && !!ride.trip_ended_at && ride.payment_status !== 'paid'
+  const paymentStatusLabel = PAYMENT_STATUS_LABELS[ride.payment_status as RidePaymentStatus] ?? ride.payment_status
+  const nextStop = ride.status === 'in_progress' && !ride.trip_ended_at ? getNextStop(stops) : null
 
   return (
     <div className="min-h-screen bg-background">
@@ -222,11 +316,17 @@ export default function ActiveRide() {
           <CardContent className="space-y-2">
             <div className="flex justify-between items-center">
               <span className="font-medium">{ride.passenger.full_name}</span>
-              <Button variant="outline" size="sm">
-                <Phone className="h-4 w-4 mr-1" />
-                {ride.passenger.phone}
-              </Button>
+              <RideContactButton rideId={ride.id} />
             </div>
+            {ride.driver_id && (
+              <RideChat
+                rideId={ride.id}
+                rideStatus={ride.status}
+                userId={ride.driver_id}
+                role="driver"
+                otherPartyName={ride.passenger.full_name}
+              />
+            )}
           </CardContent>
         </Card>
 
@@ -240,23 +340,32 @@ export default function ActiveRide() {
           </CardHeader>
           <CardContent className="space-y-3">
             <div className="flex gap-3">
-              <div className="flex flex-col items-center mt-1">
-                <div className="w-3 h-3 bg-green-500 rounded-full"></div>
-                <div className="w-0.5 h-8 bg-gray-300"></div>
-                <div className="w-3 h-3 bg-red-500 rounded-full"></div>
+              <div className="w-3 h-3 bg-green-500 rounded-full mt-1"></div>
+              <div className="flex-1">
+                <p className="text-sm font-medium text-green-700">
+                  {ride.status === 'in_progress' ? 'Origem' : 'Embarque'}
+                </p>
+                <p className="text-sm text-muted-foreground">{ride.origin_address}</p>
               </div>
-              <div className="flex-1 space-y-3">
-                <div>
-                  <p className="text-sm font-medium text-green-700">
-                    {ride.status === 'in_progress' ? 'Origem' : 'Embarque'}
+            </div>
+            {stops.map(stop => (
+              <div key={stop.id} className="flex gap-3">
+                <div className={`w-3 h-3 rounded-full mt-1 ${stop.reached_at ? 'bg-gray-400' : 'bg-yellow-500'}`}></div>
+                <div className="flex-1">
+                  <p className="text-sm font-medium text-yellow-700">
+                    Parada {stop.position}
+                    {stop.reached_at && <CheckCircle className="inline h-3 w-3 ml-1 text-green-600" />}
                   </p>
-                  <p className="text-sm text-muted-foreground">{ride.origin_address}</p>
-                </div>
-                <div>
-                  <p className="text-sm font-medium text-red-700">Destino</p>
-                  <p className="text-sm text-muted-foreground">{ride.destination_address}</p>
+                  <p className="text-sm text-muted-foreground">{stop.address}</p>
                 </div>
               </div>
+            ))}
+            <div className="flex gap-3">
+              <div className="w-3 h-3 bg-red-500 rounded-full mt-1"></div>
+              <div className="flex-1">
+                <p className="text-sm font-medium text-red-700">Destino</p>
+                <p className="text-sm text-muted-foreground">{ride.destination_address}</p>
+              </div>
             </div>
           </CardContent>
         </Card>
@@ -268,7 +377,7 @@ export default function ActiveRide() {
               <div className="flex items-center gap-2">
                 <DollarSign className="h-4 w-4 text-green-600" />
                 <span className="font-medium">
-                  R$ {ride.estimated_price?.toFixed(2) || '0.00'}
+                  R$ {(ride.final_price ?? ride.estimated_price)?.toFixed(2) || '0.00'}
                 </span>
               </div>
               <div className="flex items-center gap-2">
@@ -282,10 +391,72 @@ export default function ActiveRide() {
                   {ride.distance_km.toFixed(1)} km
                 </div>
               )}
+              {ride.status === 'completed' && ride.tracked_distance_km != null && (
+                <div className="text-sm text-muted-foreground">
+                  {ride.tracked_distance_km.toFixed(1)} km percorridos
+                  {ride.fare_distance_source === 'tracked' && ' (usados no preço)'}
+                </div>
+              )}
+            </div>
+            <div className="flex justify-between items-center mt-3 pt-3 border-t">
+              <div className="flex items-center gap-2">
+                <Wallet className="h-4 w-4 text-muted-foreground" />
+                <span className="font-medium">{PAYMENT_METHOD_LABELS[ride.payment_method]}</span>
+              </div>
+              <Badge variant={ride.payment_status === 'paid' ? 'default' : ride.payment_status === 'failed' ? 'destructive' : 'outline'}>
+                {paymentStatusLabel}
+              </Badge>
             </div>
           </CardContent>
         </Card>
 
+        {awaitingPayment && ride.payment_method === 'pix' && (
+          <div className="p-3 bg-yellow-50 rounded-lg text-sm text-yellow-800">
+            Aguardando o passageiro pagar R$ {ride.final_price?.toFixed(2)} via Pix.
+            A corrida pode ser finalizada assim que o pagamento for confirmado.
+          </div>
+        )}
+
+        {awaitingPayment && ride.payment_method === 'card' && ride.payment_status === 'failed' && (
+          <div className="p-3 bg-red-50 rounded-lg text-sm text-red-800">
+            O cartão do passageiro foi recusado. Peça para o passageiro verificar o cartão e tente finalizar novamente.
+          </div>
+        )}
+
+        <AlertDialog
+          open={awaitingPayment && ride.payment_method === 'cash' && !cashDialogDismissed}
+          onOpenChange={(open) => !open && setCashDialogDismissed(true)}
+        >
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Pagamento em dinheiro</AlertDialogTitle>
+              <AlertDialogDescription>
+                Você recebeu R$ {ride.final_price?.toFixed(2)} em dinheiro do passageiro?
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Ainda não</AlertDialogCancel>
+              <AlertDialogAction onClick={handleConfirmCash}>
+                Recebi, finalizar corrida
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+
+        {/* Next Stop */}
+        {nextStop && (
+          <Button
+            onClick={() => handleStopReached(nextStop)}
+            disabled={isMarkingStop}
+            variant="secondary"
+            className="w-full h-12 text-lg"
+            size="lg"
+          >
+            <MapPin className="h-5 w-5 mr-2" />
+            {isMarkingStop ? 'Atualizando...' : `Cheguei na parada ${nextStop.position}`}
+          </Button>
+        )}
+
         {/* Action Button */}
         {statusInfo.action && statusInfo.nextStatus && (
           <Button
@@ -305,6 +476,38 @@ export default function ActiveRide() {
           </Button>
         )}
 
+        {['accepted', 'driver_arriving', 'driver_arrived'].includes(ride.status) && (
+          <>
+            <Button
+              variant="outline"
+              onClick={() => setCancelDialogOpen(true)}
+              disabled={loading}
+              className="w-full"
+            >
+              Cancelar corrida
+            </Button>
+            <CancelRideDialog
+              rideId={ride.id}
+              actor="driver"
+              open={cancelDialogOpen}
+              onOpenChange={setCancelDialogOpen}
+              onCancelled={handleRideCancelled}
+            />
+          </>
+        )}
+
+        {ride.status === 'completed' && (
+          <FareReceipt
+            breakdown={ride.final_fare_breakdown}
+            finalPrice={ride.final_price}
+            showDriverSplit
+          />
+        )}
+
+        {ride.status === 'completed' && (
+          <RideRating rideId={ride.id} ride={ride} role="driver" />
+        )}
+
         {ride.status === 'completed' && (
           <div className="text-center p-4 bg-green-50 rounded-lg">
             <CheckCircle className="h-8 w-8 text-green-600 mx-auto mb-2" />
@@ -12,6 +12,9 @@ import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent,
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
 import { systemSettingsSchema, validateData } from '@/lib/validations';
+import { DEFAULT_DISPATCH_SCORE_WEIGHTS, DISPATCH_SCORE_FACTORS, DispatchScoreFactor } from '@/lib/dispatchScoring';
+import { DEFAULT_VEHICLE_TYPE_FARES, VEHICLE_TYPE_LABELS, VEHICLE_TYPES, VehicleType, VehicleTypeFare } from '@/lib/vehicleFares';
+import { ServiceZonesManager } from '@/components/ServiceZonesManager';
 import { AlertTriangle, Save, Shield, Lock, ArrowLeft } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
 
@@ -27,11 +30,47 @@ export default function AdminSettings() {
   const [formData, setFormData] = useState({
     fixed_rate: 5.0,
     price_per_km: 2.5,
+    price_per_minute: 0.3,
     minimum_fare: 8.0,
+    free_waiting_minutes: 5,
+    waiting_price_per_minute: 0.5,
     app_fee_percentage: 20.0,
     pricing_model: 'per_km' as 'per_km' | 'fixed',
     fee_type: 'percentage' as 'percentage' | 'fixed_amount',
+    driver_debt_limit: 100,
+    cancellation_fee: 5.0,
+    cancellation_grace_minutes: 2,
+    dispatch_strategy: 'broadcast' as 'broadcast' | 'sequential',
+    dispatch_offer_seconds: 20,
+    dispatch_max_drivers: 5,
+    dispatch_radius_steps_km: [3, 6, 10] as number[],
+    dispatch_expand_radius: true,
+    dispatch_retry_rounds: 2,
+    dispatch_retry_delay_seconds: 30,
+    dispatch_retry_radius_step_km: 3,
+    dispatch_search_prompt_seconds: 60,
+    scheduled_dispatch_lead_minutes: 15,
+    scheduled_min_advance_minutes: 30,
+    scheduled_max_advance_days: 7,
+    scheduled_reminder_minutes: 30,
+    max_ride_stops: 3,
+    contact_window_minutes: 30,
+    track_max_accuracy_m: 50,
+    track_distance_threshold_percentage: 15,
+    safety_route_deviation_m: 500,
+    safety_stop_minutes: 5,
+    safety_overtime_percentage: 50,
+    safety_response_seconds: 120,
+    safety_alert_cooldown_minutes: 10,
+    surge_enabled: false,
+    surge_radius_km: 3,
+    surge_demand_threshold: 1.0,
+    surge_sensitivity: 0.5,
+    surge_max_multiplier: 2.0,
+    dispatch_score_weights: DEFAULT_DISPATCH_SCORE_WEIGHTS,
+    vehicle_type_fares: DEFAULT_VEHICLE_TYPE_FARES,
   });
+  const [radiusStepsInput, setRadiusStepsInput] = useState('3, 6, 10');
 
   // Check if user is admin
   useEffect(() => {
@@ -74,23 +113,93 @@ export default function AdminSettings() {
       setFormData({
         fixed_rate: settings.fixed_rate,
         price_per_km: settings.price_per_km,
+        price_per_minute: settings.price_per_minute,
         minimum_fare: settings.minimum_fare,
+        free_waiting_minutes: settings.free_waiting_minutes,
+        waiting_price_per_minute: settings.waiting_price_per_minute,
         app_fee_percentage: settings.app_fee_percentage,
         pricing_model: settings.pricing_model as 'per_km' | 'fixed',
         fee_type: settings.fee_type as 'percentage' | 'fixed_amount',
+        driver_debt_limit: settings.driver_debt_limit,
+        cancellation_fee: settings.cancellation_fee,
+        cancellation_grace_minutes: settings.cancellation_grace_minutes,
+        dispatch_strategy: settings.dispatch_strategy as 'broadcast' | 'sequential',
+        dispatch_offer_seconds: settings.dispatch_offer_seconds,
+        dispatch_max_drivers: settings.dispatch_max_drivers,
+        dispatch_radius_steps_km: settings.dispatch_radius_steps_km,
+        dispatch_expand_radius: settings.dispatch_expand_radius,
+        dispatch_retry_rounds: settings.dispatch_retry_rounds,
+        dispatch_retry_delay_seconds: settings.dispatch_retry_delay_seconds,
+        dispatch_retry_radius_step_km: settings.dispatch_retry_radius_step_km,
+        dispatch_search_prompt_seconds: settings.dispatch_search_prompt_seconds,
+        scheduled_dispatch_lead_minutes: settings.scheduled_dispatch_lead_minutes,
+        scheduled_min_advance_minutes: settings.scheduled_min_advance_minutes,
+        scheduled_max_advance_days: settings.scheduled_max_advance_days,
+        scheduled_reminder_minutes: settings.scheduled_reminder_minutes,
+        max_ride_stops: settings.max_ride_stops,
+        contact_window_minutes: settings.contact_window_minutes,
+        track_max_accuracy_m: settings.track_max_accuracy_m,
+        track_distance_threshold_percentage: settings.track_distance_threshold_percentage,
+        safety_route_deviation_m: settings.safety_route_deviation_m,
+        safety_stop_minutes: settings.safety_stop_minutes,
+        safety_overtime_percentage: settings.safety_overtime_percentage,
+        safety_response_seconds: settings.safety_response_seconds,
+        safety_alert_cooldown_minutes: settings.safety_alert_cooldown_minutes,
+        surge_enabled: settings.surge_enabled,
+        surge_radius_km: settings.surge_radius_km,
+        surge_demand_threshold: settings.surge_demand_threshold,
+        surge_sensitivity: settings.surge_sensitivity,
+        surge_max_multiplier: settings.surge_max_multiplier,
+        dispatch_score_weights: settings.dispatch_score_weights,
+        vehicle_type_fares: settings.vehicle_type_fares,
       });
+      setRadiusStepsInput(settings.dispatch_radius_steps_km.join(', '));
     }
   }, [settings]);
 
   const handleInputChange = (field: string, value: string | number) => {
     setFormData(prev => ({
       ...prev,
-      [field]: field === 'pricing_model' || field === 'fee_type' 
+      [field]: field === 'pricing_model' || field === 'fee_type' || field === 'dispatch_strategy'
         ? value 
         : typeof value === 'string' ? parseFloat(value) || 0 : value,
     }));
   };
 
+  const handleRadiusStepsChange = (value: string) => {
+    setRadiusStepsInput(value);
+    setFormData(prev => ({
+      ...prev,
+      dispatch_radius_steps_km: value
+        .split(',')
+        .map(step => parseFloat(step.trim()))
+        .filter(step => !isNaN(step)),
+    }));
+  };
+
+  const handleVehicleFareChange = (vehicleType: VehicleType, field: keyof VehicleTypeFare, value: string) => {
+    setFormData(prev => ({
+      ...prev,
+      vehicle_type_fares: {
+        ...prev.vehicle_type_fares,
+        [vehicleType]: {
+          ...prev.vehicle_type_fares[vehicleType],
+          [field]: parseFloat(value) || 0,
+        },
+      },
+    }));
+  };
+
+  const handleScoreWeightChange = (factor: DispatchScoreFactor, value: string) => {
+    setFormData(prev => ({
+      ...prev,
+      dispatch_score_weights: {
+        ...prev.dispatch_score_weights,
+        [factor]: parseFloat(value) || 0,
+      },
+    }));
+  };
+
   const handleSave = async () => {
     if (!isAdmin || !user) {
       toast({
@@ -228,7 +337,7 @@ export default function AdminSettings() {
           <CardHeader>
             <CardTitle>Configuração de Preços</CardTitle>
             <CardDescription>
-              Defina os valores base para cálculo das corridas
+              Valores base usados nas corridas sem categoria de veículo e cobrança da espera no embarque
             </CardDescription>
           </CardHeader>
           <CardContent className="space-y-4">
@@ -257,6 +366,18 @@ export default function AdminSettings() {
                   onChange={(e) => handleInputChange('price_per_km', e.target.value)}
                 />
               </div>
+              <div>
+                <Label htmlFor="price_per_minute">Preço por Minuto (R$)</Label>
+                <Input
+                  id="price_per_minute"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  max="20"
+                  value={formData.price_per_minute}
+                  onChange={(e) => handleInputChange('price_per_minute', e.target.value)}
+                />
+              </div>
               <div>
                 <Label htmlFor="minimum_fare">Tarifa Mínima (R$)</Label>
                 <Input
@@ -269,6 +390,30 @@ export default function AdminSettings() {
                   onChange={(e) => handleInputChange('minimum_fare', e.target.value)}
                 />
               </div>
+              <div>
+                <Label htmlFor="free_waiting_minutes">Espera Gratuita (min)</Label>
+                <Input
+                  id="free_waiting_minutes"
+                  type="number"
+                  step="1"
+                  min="0"
+                  max="60"
+                  value={formData.free_waiting_minutes}
+                  onChange={(e) => handleInputChange('free_waiting_minutes', e.target.value)}
+                />
+              </div>
+              <div>
+                <Label htmlFor="waiting_price_per_minute">Espera por Minuto (R$)</Label>
+                <Input
+                  id="waiting_price_per_minute"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  max="20"
+                  value={formData.waiting_price_per_minute}
+                  onChange={(e) => handleInputChange('waiting_price_per_minute', e.target.value)}
+                />
+              </div>
               <div>
                 <Label htmlFor="app_fee_percentage">Taxa do App (%)</Label>
                 <Input
@@ -285,6 +430,73 @@ export default function AdminSettings() {
           </CardContent>
         </Card>
 
+        {/* Vehicle Type Fares */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Tarifas por Categoria</CardTitle>
+            <CardDescription>
+              Valores cobrados conforme o tipo de veículo escolhido pelo passageiro
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            {VEHICLE_TYPES.map(vehicleType => (
+              <div key={vehicleType} className="space-y-2">
+                <h4 className="text-sm font-medium">{VEHICLE_TYPE_LABELS[vehicleType]}</h4>
+                <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                  <div>
+                    <Label htmlFor={`${vehicleType}_fixed_rate`}>Taxa Fixa (R$)</Label>
+                    <Input
+                      id={`${vehicleType}_fixed_rate`}
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      max="1000"
+                      value={formData.vehicle_type_fares[vehicleType].fixed_rate}
+                      onChange={(e) => handleVehicleFareChange(vehicleType, 'fixed_rate', e.target.value)}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor={`${vehicleType}_price_per_km`}>Preço por KM (R$)</Label>
+                    <Input
+                      id={`${vehicleType}_price_per_km`}
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      max="100"
+                      value={formData.vehicle_type_fares[vehicleType].price_per_km}
+                      onChange={(e) => handleVehicleFareChange(vehicleType, 'price_per_km', e.target.value)}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor={`${vehicleType}_price_per_minute`}>Preço por Minuto (R$)</Label>
+                    <Input
+                      id={`${vehicleType}_price_per_minute`}
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      max="20"
+                      value={formData.vehicle_type_fares[vehicleType].price_per_minute}
+                      onChange={(e) => handleVehicleFareChange(vehicleType, 'price_per_minute', e.target.value)}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor={`${vehicleType}_minimum_fare`}>Tarifa Mínima (R$)</Label>
+                    <Input
+                      id={`${vehicleType}_minimum_fare`}
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      max="500"
+                      value={formData.vehicle_type_fares[vehicleType].minimum_fare}
+                      onChange={(e) => handleVehicleFareChange(vehicleType, 'minimum_fare', e.target.value)}
+                    />
+                  </div>
+                </div>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+
         {/* Fee Configuration */}
         <Card>
           <CardHeader>
@@ -293,7 +505,7 @@ export default function AdminSettings() {
               Configure como a taxa da plataforma é aplicada
             </CardDescription>
           </CardHeader>
-          <CardContent>
+          <CardContent className="space-y-4">
             <div>
               <Label htmlFor="fee_type">Tipo de Taxa</Label>
               <Select
@@ -309,6 +521,512 @@ export default function AdminSettings() {
                 </SelectContent>
               </Select>
             </div>
+            <div>
+              <Label htmlFor="driver_debt_limit">Limite de Taxas em Aberto (R$)</Label>
+              <Input
+                id="driver_debt_limit"
+                type="number"
+                step="1"
+                min="0"
+                max="10000"
+                value={formData.driver_debt_limit}
+                onChange={(e) => handleInputChange('driver_debt_limit', e.target.value)}
+              />
+              <p className="text-xs text-muted-foreground mt-1">
+                Motoristas com taxas pendentes acima deste valor não conseguem ficar online. Use 0 para não bloquear.
+              </p>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="cancellation_fee">Taxa de Cancelamento (R$)</Label>
+                <Input
+                  id="cancellation_fee"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  max="1000"
+                  value={formData.cancellation_fee}
+                  onChange={(e) => handleInputChange('cancellation_fee', e.target.value)}
+                />
+              </div>
+              <div>
+                <Label htmlFor="cancellation_grace_minutes">Carência (min)</Label>
+                <Input
+                  id="cancellation_grace_minutes"
+                  type="number"
+                  step="1"
+                  min="0"
+                  max="60"
+                  value={formData.cancellation_grace_minutes}
+                  onChange={(e) => handleInputChange('cancellation_grace_minutes', e.target.value)}
+                />
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Cobrada do passageiro que cancela depois da carência contada do aceite, ou quando o motorista espera a carência no embarque e o passageiro não aparece. Use 0 para não cobrar.
+            </p>
+          </CardContent>
+        </Card>
+
+        {/* Surge Pricing */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Tarifa Dinâmica</CardTitle>
+            <CardDescription>
+              Multiplica o preço quando há mais pedidos em aberto do que motoristas online perto da origem
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div>
+              <Label htmlFor="surge_enabled">Tarifa Dinâmica</Label>
+              <Select
+                value={formData.surge_enabled ? 'yes' : 'no'}
+                onValueChange={(value) => setFormData(prev => ({ ...prev, surge_enabled: value === 'yes' }))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="yes">Ativada</SelectItem>
+                  <SelectItem value="no">Desativada</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="surge_radius_km">Raio da Região (km)</Label>
+                <Input
+                  id="surge_radius_km"
+                  type="number"
+                  step="0.5"
+                  min="0.5"
+                  max="50"
+                  value={formData.surge_radius_km}
+                  onChange={(e) => handleInputChange('surge_radius_km', e.target.value)}
+                />
+              </div>
+              <div>
+                <Label htmlFor="surge_demand_threshold">Limiar (pedidos por motorista)</Label>
+                <Input
+                  id="surge_demand_threshold"
+                  type="number"
+                  step="0.1"
+                  min="0"
+                  max="20"
+                  value={formData.surge_demand_threshold}
+                  onChange={(e) => handleInputChange('surge_demand_threshold', e.target.value)}
+                />
+              </div>
+              <div>
+                <Label htmlFor="surge_sensitivity">Aumento por Pedido Excedente</Label>
+                <Input
+                  id="surge_sensitivity"
+                  type="number"
+                  step="0.05"
+                  min="0"
+                  max="5"
+                  value={formData.surge_sensitivity}
+                  onChange={(e) => handleInputChange('surge_sensitivity', e.target.value)}
+                />
+              </div>
+              <div>
+                <Label htmlFor="surge_max_multiplier">Multiplicador Máximo</Label>
+                <Input
+                  id="surge_max_multiplier"
+                  type="number"
+                  step="0.1"
+                  min="1"
+                  max="5"
+                  value={formData.surge_max_multiplier}
+                  onChange={(e) => handleInputChange('surge_max_multiplier', e.target.value)}
+                />
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Multiplicador = 1 + (pedidos por motorista - limiar) × aumento, limitado ao máximo.
+              O passageiro confirma o multiplicador antes de solicitar a corrida.
+            </p>
+          </CardContent>
+        </Card>
+
+        {/* Dispatch Configuration */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Despacho de Corridas</CardTitle>
+            <CardDescription>
+              Defina como as corridas são oferecidas aos motoristas próximos
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div>
+              <Label htmlFor="dispatch_strategy">Estratégia</Label>
+              <Select
+                value={formData.dispatch_strategy}
+                onValueChange={(value) => handleInputChange('dispatch_strategy', value)}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="broadcast">Simultânea (todos de uma vez)</SelectItem>
+                  <SelectItem value="sequential">Sequencial (um motorista por vez)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="dispatch_offer_seconds">Tempo de Oferta (segundos)</Label>
+                <Input
+                  id="dispatch_offer_seconds"
+                  type="number"
+                  step="1"
+                  min="5"
+                  max="300"
+                  value={formData.dispatch_offer_seconds}
+                  onChange={(e) => handleInputChange('dispatch_offer_seconds', e.target.value)}
+                />
+              </div>
+              <div>
+                <Label htmlFor="dispatch_max_drivers">Máximo de Motoristas por Rodada</Label>
+                <Input
+                  id="dispatch_max_drivers"
+                  type="number"
+                  step="1"
+                  min="1"
+                  max="50"
+                  value={formData.dispatch_max_drivers}
+                  onChange={(e) => handleInputChange('dispatch_max_drivers', e.target.value)}
+                />
+              </div>
+              <div>
+                <Label htmlFor="dispatch_radius_steps_km">Raios de Busca (km)</Label>
+                <Input
+                  id="dispatch_radius_steps_km"
+                  placeholder="3, 6, 10"
+                  value={radiusStepsInput}
+                  onChange={(e) => handleRadiusStepsChange(e.target.value)}
+                />
+              </div>
+              <div>
+                <Label htmlFor="dispatch_expand_radius">Ampliar Raio</Label>
+                <Select
+                  value={formData.dispatch_expand_radius ? 'yes' : 'no'}
+                  onValueChange={(value) => setFormData(prev => ({ ...prev, dispatch_expand_radius: value === 'yes' }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="yes">Sim, a cada rodada sem motoristas</SelectItem>
+                    <SelectItem value="no">Não, usar apenas o primeiro raio</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="dispatch_retry_rounds">Novas Buscas sem Motorista</Label>
+                <Input
+                  id="dispatch_retry_rounds"
+                  type="number"
+                  step="1"
+                  min="0"
+                  max="10"
+                  value={formData.dispatch_retry_rounds}
+                  onChange={(e) => handleInputChange('dispatch_retry_rounds', e.target.value)}
+                />
+              </div>
+              <div>
+                <Label htmlFor="dispatch_retry_delay_seconds">Intervalo entre Buscas (segundos)</Label>
+                <Input
+                  id="dispatch_retry_delay_seconds"
+                  type="number"
+                  step="1"
+                  min="5"
+                  max="600"
+                  value={formData.dispatch_retry_delay_seconds}
+                  onChange={(e) => handleInputChange('dispatch_retry_delay_seconds', e.target.value)}
+                />
+              </div>
+              <div>
+                <Label htmlFor="dispatch_retry_radius_step_km">Ampliação do Raio por Busca (km)</Label>
+                <Input
+                  id="dispatch_retry_radius_step_km"
+                  type="number"
+                  step="0.5"
+                  min="0"
+                  max="50"
+                  value={formData.dispatch_retry_radius_step_km}
+                  onChange={(e) => handleInputChange('dispatch_retry_radius_step_km', e.target.value)}
+                />
+              </div>
+              <div>
+                <Label htmlFor="dispatch_search_prompt_seconds">Prazo de Resposta do Passageiro (segundos)</Label>
+                <Input
+                  id="dispatch_search_prompt_seconds"
+                  type="number"
+                  step="1"
+                  min="15"
+                  max="600"
+                  value={formData.dispatch_search_prompt_seconds}
+                  onChange={(e) => handleInputChange('dispatch_search_prompt_seconds', e.target.value)}
+                />
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Quando ninguém aceita a corrida, a busca é refeita com todos os raios ampliados. Esgotadas as novas buscas, o passageiro escolhe entre continuar procurando ou desistir.
+            </p>
+          </CardContent>
+        </Card>
+
+        {/* Scheduled Rides */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Corridas Agendadas</CardTitle>
+            <CardDescription>
+              Janela de agendamento e antecedência do despacho e do lembrete ao motorista
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="scheduled_min_advance_minutes">Antecedência Mínima (min)</Label>
+                <Input
+                  id="scheduled_min_advance_minutes"
+                  type="number"
+                  step="1"
+                  min="15"
+                  max="1440"
+                  value={formData.scheduled_min_advance_minutes}
+                  onChange={(e) => handleInputChange('scheduled_min_advance_minutes', e.target.value)}
+                />
+              </div>
+              <div>
+                <Label htmlFor="scheduled_max_advance_days">Antecedência Máxima (dias)</Label>
+                <Input
+                  id="scheduled_max_advance_days"
+                  type="number"
+                  step="1"
+                  min="1"
+                  max="30"
+                  value={formData.scheduled_max_advance_days}
+                  onChange={(e) => handleInputChange('scheduled_max_advance_days', e.target.value)}
+                />
+              </div>
+              <div>
+                <Label htmlFor="scheduled_dispatch_lead_minutes">Início do Despacho (min antes)</Label>
+                <Input
+                  id="scheduled_dispatch_lead_minutes"
+                  type="number"
+                  step="1"
+                  min="5"
+                  max="120"
+                  value={formData.scheduled_dispatch_lead_minutes}
+                  onChange={(e) => handleInputChange('scheduled_dispatch_lead_minutes', e.target.value)}
+                />
+              </div>
+              <div>
+                <Label htmlFor="scheduled_reminder_minutes">Lembrete ao Motorista (min antes)</Label>
+                <Input
+                  id="scheduled_reminder_minutes"
+                  type="number"
+                  step="1"
+                  min="5"
+                  max="240"
+                  value={formData.scheduled_reminder_minutes}
+                  onChange={(e) => handleInputChange('scheduled_reminder_minutes', e.target.value)}
+                />
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Corridas pré-aceitas vão direto para o motorista no início do despacho; as demais entram no despacho normal.
+            </p>
+          </CardContent>
+        </Card>
+
+        {/* Ride Stops */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Paradas Intermediárias</CardTitle>
+            <CardDescription>
+              Paradas que o passageiro pode incluir entre a origem e o destino
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="max-w-xs">
+              <Label htmlFor="max_ride_stops">Máximo de Paradas por Corrida</Label>
+              <Input
+                id="max_ride_stops"
+                type="number"
+                step="1"
+                min="0"
+                max="5"
+                value={formData.max_ride_stops}
+                onChange={(e) => handleInputChange('max_ride_stops', e.target.value)}
+              />
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Masked Contact */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Contato Mascarado</CardTitle>
+            <CardDescription>
+              Passageiro e motorista se ligam por um número intermediário; os números reais ficam visíveis apenas para admins
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="max-w-xs">
+              <Label htmlFor="contact_window_minutes">Contato Após o Fim da Corrida (minutos)</Label>
+              <Input
+                id="contact_window_minutes"
+                type="number"
+                step="1"
+                min="0"
+                max="1440"
+                value={formData.contact_window_minutes}
+                onChange={(e) => handleInputChange('contact_window_minutes', e.target.value)}
+              />
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Recorded Track */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Trajeto Gravado</CardTitle>
+            <CardDescription>
+              O app do motorista grava o trajeto da viagem; se a distância percorrida diferir da estimada além do limite, o preço final usa a distância percorrida
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="track_max_accuracy_m">Precisão Máxima do GPS (metros)</Label>
+                <Input
+                  id="track_max_accuracy_m"
+                  type="number"
+                  step="1"
+                  min="5"
+                  max="500"
+                  value={formData.track_max_accuracy_m}
+                  onChange={(e) => handleInputChange('track_max_accuracy_m', e.target.value)}
+                />
+              </div>
+              <div>
+                <Label htmlFor="track_distance_threshold_percentage">Diferença Mínima para Usar o Trajeto (%)</Label>
+                <Input
+                  id="track_distance_threshold_percentage"
+                  type="number"
+                  step="1"
+                  min="0"
+                  max="100"
+                  value={formData.track_distance_threshold_percentage}
+                  onChange={(e) => handleInputChange('track_distance_threshold_percentage', e.target.value)}
+                />
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Safety Alerts */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Alertas de Segurança</CardTitle>
+            <CardDescription>
+              Durante a viagem o passageiro confirma que está bem em caso de desvio de rota, parada longa ou atraso; sem resposta, o alerta vai para a fila de incidentes
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <Label htmlFor="safety_route_deviation_m">Desvio de Rota (metros)</Label>
+                <Input
+                  id="safety_route_deviation_m"
+                  type="number"
+                  step="1"
+                  min="100"
+                  max="5000"
+                  value={formData.safety_route_deviation_m}
+                  onChange={(e) => handleInputChange('safety_route_deviation_m', e.target.value)}
+                />
+              </div>
+              <div>
+                <Label htmlFor="safety_stop_minutes">Parada Longa (minutos)</Label>
+                <Input
+                  id="safety_stop_minutes"
+                  type="number"
+                  step="1"
+                  min="1"
+                  max="60"
+                  value={formData.safety_stop_minutes}
+                  onChange={(e) => handleInputChange('safety_stop_minutes', e.target.value)}
+                />
+              </div>
+              <div>
+                <Label htmlFor="safety_overtime_percentage">Atraso Além da Estimativa (%)</Label>
+                <Input
+                  id="safety_overtime_percentage"
+                  type="number"
+                  step="1"
+                  min="10"
+                  max="500"
+                  value={formData.safety_overtime_percentage}
+                  onChange={(e) => handleInputChange('safety_overtime_percentage', e.target.value)}
+                />
+              </div>
+              <div>
+                <Label htmlFor="safety_response_seconds">Prazo de Resposta (segundos)</Label>
+                <Input
+                  id="safety_response_seconds"
+                  type="number"
+                  step="1"
+                  min="30"
+                  max="900"
+                  value={formData.safety_response_seconds}
+                  onChange={(e) => handleInputChange('safety_response_seconds', e.target.value)}
+                />
+              </div>
+              <div>
+                <Label htmlFor="safety_alert_cooldown_minutes">Intervalo Após Confirmação (minutos)</Label>
+                <Input
+                  id="safety_alert_cooldown_minutes"
+                  type="number"
+                  step="1"
+                  min="1"
+                  max="120"
+                  value={formData.safety_alert_cooldown_minutes}
+                  onChange={(e) => handleInputChange('safety_alert_cooldown_minutes', e.target.value)}
+                />
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Dispatch Scoring */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Pontuação de Motoristas</CardTitle>
+            <CardDescription>
+              Pesos (0 a 1) usados para ordenar os motoristas que recebem cada corrida
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {DISPATCH_SCORE_FACTORS.map(factor => (
+                <div key={factor.key}>
+                  <Label htmlFor={`score_${factor.key}`}>{factor.label}</Label>
+                  <Input
+                    id={`score_${factor.key}`}
+                    type="number"
+                    step="0.05"
+                    min="0"
+                    max="1"
+                    value={formData.dispatch_score_weights[factor.key]}
+                    onChange={(e) => handleScoreWeightChange(factor.key, e.target.value)}
+                  />
+                </div>
+              ))}
+            </div>
           </CardContent>
         </Card>
 
@@ -343,6 +1061,9 @@ export default function AdminSettings() {
             </AlertDialog>
           </CardContent>
         </Card>
+
+        {/* Service Zones (salvas separadamente das configurações acima) */}
+        <ServiceZonesManager />
       </div>
     </div>
   );
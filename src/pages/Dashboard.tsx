@@ -8,9 +8,11 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { ThemeToggle } from "@/components/ui/theme-toggle";
 import { supabase } from "@/integrations/supabase/client";
+import { formatSurgeMultiplier } from "@/lib/surge";
 import { useToast } from "@/hooks/use-toast";
 import { useDriverLocation } from "@/hooks/useDriverLocation";
 import { useDriverRideNotifications } from "@/hooks/useRides";
+import { useDriverFeeBalance } from "@/hooks/useDriverFeeBalance";
 import { SimpleRideAlert } from "@/components/SimpleRideAlert";
 import { 
   Bike, 
@@ -36,6 +38,12 @@ import {
   Circle
 } from "lucide-react";
 import { PricingInfo } from "@/components/PricingInfo";
+import { DriverFeeSettlements } from "@/components/DriverFeeSettlements";
+import { LowRatedAccounts } from "@/components/LowRatedAccounts";
+import { SafetyIncidentQueue } from "@/components/SafetyIncidentQueue";
+import { UpcomingRides } from "@/components/UpcomingRides";
+import { ScheduledRidesBoard } from "@/components/ScheduledRidesBoard";
+import { RideChatTranscript } from "@/components/RideChatTranscript";
 
 interface Profile {
   id: string;
@@ -73,6 +81,11 @@ interface SystemSettings {
   fixed_rate: number;
 }
 
+interface DriverLedgerSummary {
+  totalRides: number;
+  totalEarnings: number;
+}
+
 interface AdminStats {
   totalDrivers: number;
   pendingDrivers: number;
@@ -109,11 +122,13 @@ interface DriverEarnings {
 
 interface RideData {
   id: string;
+  passenger_id: string;
   passenger_name: string;
   driver_name: string;
   origin_address: string;
   destination_address: string;
   final_price: number;
+  surge_multiplier: number;
   status: string;
   created_at: string;
   passenger_rating: number;
@@ -126,11 +141,13 @@ const Dashboard = () => {
   const { toast } = useToast();
   const [profile, setProfile] = useState<Profile | null>(null);
   const [driverData, setDriverData] = useState<DriverData | null>(null);
+  const [driverLedger, setDriverLedger] = useState<DriverLedgerSummary | null>(null);
   const [loadingData, setLoadingData] = useState(true);
   
   // Driver functionality hooks
   const driverLocation = useDriverLocation(false);
   const rideNotifications = useDriverRideNotifications();
+  const feeBalance = useDriverFeeBalance(driverData ? user?.id : undefined);
   
   // Admin states
   const [pendingDrivers, setPendingDrivers] = useState<DriverWithProfile[]>([]);
@@ -184,6 +201,17 @@ const Dashboard = () => {
         }
         
         setDriverData(driverDataResponse);
+
+        // Earnings come from the ledger written at ride completion
+        const { data: transfersData } = await supabase
+          .from('financial_transfers')
+          .select('driver_amount')
+          .eq('driver_id', user?.id);
+
+        setDriverLedger({
+          totalRides: transfersData?.length || 0,
+          totalEarnings: transfersData?.reduce((sum, transfer) => sum + transfer.driver_amount, 0) || 0
+        });
       }
 
       // Load admin data if user is admin
@@ -242,9 +270,10 @@ const Dashboard = () => {
       await loadAllRides();
 
       // Load admin stats
-      const [totalDriversRes, totalRidesRes, totalPassengersRes, settingsRes] = await Promise.all([
+      const [totalDriversRes, totalRidesRes, transfersRes, totalPassengersRes, settingsRes] = await Promise.all([
         supabase.from('drivers').select('id', { count: 'exact' }),
-        supabase.from('rides').select('id, final_price', { count: 'exact' }),
+        supabase.from('rides').select('id', { count: 'exact' }),
+        supabase.from('financial_transfers').select('ride_value'),
         supabase.from('profiles').select('id', { count: 'exact' }).eq('user_type', 'passenger'),
         supabase.from('system_settings').select('*').maybeSingle()
       ]);
@@ -253,7 +282,7 @@ const Dashboard = () => {
         totalDrivers: totalDriversRes.count || 0,
         pendingDrivers: driversData.length,
         totalRides: totalRidesRes.count || 0,
-        totalRevenue: totalRidesRes.data?.reduce((sum, ride) => sum + (ride.final_price || 0), 0) || 0,
+        totalRevenue: transfersRes.data?.reduce((sum, transfer) => sum + transfer.ride_value, 0) || 0,
         totalPassengers: totalPassengersRes.count || 0
       };
 
@@ -353,13 +382,23 @@ const Dashboard = () => {
 
   const loadDriverEarnings = async () => {
     try {
-      const { data: driversData, error } = await supabase
-        .from('drivers')
-        .select('*');
+      const [{ data: driversData, error }, { data: transfersData, error: transfersError }] = await Promise.all([
+        supabase.from('drivers').select('*'),
+        supabase.from('financial_transfers').select('driver_id, driver_amount')
+      ]);
 
       if (error) throw error;
+      if (transfersError) throw transfersError;
+
+      // Ledger entries are written by complete-ride with the fee in force at completion
+      const ledgerByDriver = new Map<string, { rides: number; earnings: number }>();
+      transfersData?.forEach((transfer) => {
+        const entry = ledgerByDriver.get(transfer.driver_id) || { rides: 0, earnings: 0 };
+        entry.rides += 1;
+        entry.earnings += transfer.driver_amount;
+        ledgerByDriver.set(transfer.driver_id, entry);
+      });
 
-      // Calculate earnings for each driver
       const earningsData = await Promise.all(
         driversData.map(async (driver) => {
           // Get driver profile
@@ -369,22 +408,13 @@ const Dashboard = () => {
             .eq('user_id', driver.user_id)
             .maybeSingle();
 
-          // Get driver rides
-          const { data: ridesData } = await supabase
-            .from('rides')
-            .select('final_price')
-            .eq('driver_id', driver.user_id)
-            .eq('status', 'completed');
-
-          const totalEarnings = ridesData?.reduce((sum, ride) => sum + (ride.final_price || 0), 0) || 0;
-          // Calculate driver earnings (assuming 80% goes to driver based on app_fee_percentage)
-          const driverEarnings = totalEarnings * 0.8;
+          const ledger = ledgerByDriver.get(driver.user_id);
 
           return {
             driver_id: driver.id,
             full_name: profileData?.full_name || 'Nome não informado',
-            total_rides: driver.total_rides || 0,
-            total_earnings: driverEarnings,
+            total_rides: ledger?.rides || 0,
+            total_earnings: ledger?.earnings || 0,
             average_rating: driver.rating || 5.0,
             status: driver.status
           };
@@ -408,6 +438,7 @@ const Dashboard = () => {
           origin_address,
           destination_address,
           final_price,
+          surge_multiplier,
           status,
           created_at,
           passenger_rating,
@@ -695,12 +726,13 @@ const Dashboard = () => {
 
             {/* Admin Tabs */}
             <Tabs defaultValue="drivers" className="w-full">
-              <TabsList className="grid w-full grid-cols-6">
+              <TabsList className="grid w-full grid-cols-7">
                 <TabsTrigger value="drivers">Aprovar Motoristas</TabsTrigger>
                 <TabsTrigger value="passengers">Passageiros</TabsTrigger>
                 <TabsTrigger value="all-drivers">Todos os Motoristas</TabsTrigger>
                 <TabsTrigger value="earnings">Ganhos dos Motoristas</TabsTrigger>
                 <TabsTrigger value="rides">Corridas Realizadas</TabsTrigger>
+                <TabsTrigger value="safety">Segurança</TabsTrigger>
                 <TabsTrigger value="settings">Configurações</TabsTrigger>
               </TabsList>
 
@@ -939,6 +971,8 @@ const Dashboard = () => {
                     )}
                   </CardContent>
                 </Card>
+
+                <DriverFeeSettlements />
               </TabsContent>
 
               {/* All Rides Tab */}
@@ -963,10 +997,12 @@ const Dashboard = () => {
                             <TableHead>Origem</TableHead>
                             <TableHead>Destino</TableHead>
                             <TableHead>Valor</TableHead>
+                            <TableHead>Dinâmica</TableHead>
                             <TableHead>Status</TableHead>
                             <TableHead>Avaliação Passageiro</TableHead>
                             <TableHead>Avaliação Motorista</TableHead>
                             <TableHead>Data</TableHead>
+                            <TableHead>Chat</TableHead>
                           </TableRow>
                         </TableHeader>
                         <TableBody>
@@ -977,6 +1013,7 @@ const Dashboard = () => {
                               <TableCell className="max-w-32 truncate">{ride.origin_address}</TableCell>
                               <TableCell className="max-w-32 truncate">{ride.destination_address}</TableCell>
                               <TableCell>R$ {ride.final_price?.toFixed(2) || '0.00'}</TableCell>
+                              <TableCell>{ride.surge_multiplier > 1 ? formatSurgeMultiplier(ride.surge_multiplier) : '-'}</TableCell>
                               <TableCell>
                                 <Badge variant={ride.status === 'completed' ? 'default' : 'secondary'}>
                                   {ride.status === 'completed' ? 'Concluída' : 
@@ -1001,6 +1038,9 @@ const Dashboard = () => {
                                 ) : '-'}
                               </TableCell>
                               <TableCell>{new Date(ride.created_at).toLocaleDateString('pt-BR')}</TableCell>
+                              <TableCell>
+                                <RideChatTranscript rideId={ride.id} passengerId={ride.passenger_id} />
+                              </TableCell>
                             </TableRow>
                           ))}
                         </TableBody>
@@ -1015,6 +1055,13 @@ const Dashboard = () => {
                     )}
                   </CardContent>
                 </Card>
+
+                <LowRatedAccounts />
+              </TabsContent>
+
+              {/* Safety Incidents Tab */}
+              <TabsContent value="safety" className="space-y-4">
+                <SafetyIncidentQueue />
               </TabsContent>
 
               {/* System Settings Tab */}
@@ -1227,13 +1274,35 @@ const Dashboard = () => {
                     <CardContent className="p-6 text-center">
                       <Star className="w-12 h-12 text-primary mx-auto mb-4" />
                       <h3 className="text-lg font-semibold mb-2">Ganhos</h3>
-                      <p className="text-muted-foreground">Ver relatório financeiro</p>
+                      {driverLedger && driverLedger.totalRides > 0 ? (
+                        <>
+                          <p className="text-2xl font-bold">R$ {driverLedger.totalEarnings.toFixed(2)}</p>
+                          <p className="text-sm text-muted-foreground">
+                            {driverLedger.totalRides} corridas
+                          </p>
+                          {feeBalance.balance && feeBalance.balance.balance > 0 && (
+                            <p className={`text-sm ${feeBalance.isBlocked ? 'text-destructive' : 'text-muted-foreground'}`}>
+                              R$ {feeBalance.balance.balance.toFixed(2)} em taxas a pagar
+                            </p>
+                          )}
+                        </>
+                      ) : (
+                        <p className="text-muted-foreground">Nenhum ganho registrado ainda</p>
+                      )}
                     </CardContent>
                   </Card>
                 </>
               )}
             </div>
 
+            {/* Scheduled Rides */}
+            {profile.user_type === 'passenger' && user && (
+              <UpcomingRides passengerId={user.id} />
+            )}
+            {profile.user_type === 'driver' && driverData?.status === 'approved' && user && (
+              <ScheduledRidesBoard driverId={user.id} />
+            )}
+
             {/* Driver Pricing Information */}
             {profile.user_type === 'driver' && driverData?.status === 'approved' && (
               <div className="mb-8">
@@ -1,13 +1,15 @@
 
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useAuth } from '@/hooks/useAuth';
 import { useDriverLocation } from '@/hooks/useDriverLocation';
-import { useRideQueue } from '@/hooks/useRideQueue';
+import { useRideQueue, AcceptRideResult, acceptRideLossMessages } from '@/hooks/useRideQueue';
 import { useGeolocation } from '@/hooks/useGeolocation';
+import { useDriverFeeBalance } from '@/hooks/useDriverFeeBalance';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { GoogleMap } from '@/components/maps/GoogleMap';
 
 import { RideQueueStatus } from '@/components/RideQueueStatus';
@@ -22,7 +24,9 @@ import {
   ArrowLeft,
   Bell,
   BellOff,
-  RefreshCw
+  RefreshCw,
+  XCircle,
+  Wallet
 } from 'lucide-react';
 
 const DriverOnline = () => {
@@ -31,11 +35,20 @@ const DriverOnline = () => {
   const { toast } = useToast();
   const [mapLoaded, setMapLoaded] = useState(false);
   const [map, setMap] = useState<google.maps.Map | null>(null);
+  const [lostRide, setLostRide] = useState<AcceptRideResult | null>(null);
 
   // Hooks
   const currentLocation = useGeolocation(true, 10000);
   const driverLocation = useDriverLocation(true);
   const rideQueue = useRideQueue();
+  const feeBalance = useDriverFeeBalance(user?.id);
+  const isDebtBlocked = feeBalance.isBlocked || driverLocation.debtBlocked;
+  const { stopListening } = rideQueue;
+
+  // setOnlineStatus muda a cada render e isOnline não redispara o efeito:
+  // sair do ar pelo botão não pode colocar o motorista online de novo
+  const driverLocationRef = useRef(driverLocation);
+  driverLocationRef.current = driverLocation;
 
   // Start listening for rides when component mounts
   useEffect(() => {
@@ -47,16 +60,23 @@ const DriverOnline = () => {
     };
   }, []);
 
-  // Set driver online when location is available
+  // Set driver online when location is available and fees are within the limit
   useEffect(() => {
-    if (currentLocation.coords && !driverLocation.isOnline) {
-      driverLocation.setOnlineStatus(true);
+    const { isOnline, setOnlineStatus } = driverLocationRef.current;
+    if (currentLocation.coords && !isOnline && !feeBalance.loading && !isDebtBlocked) {
+      setOnlineStatus(true);
       toast({
         title: "Você está online!",
         description: "Aguardando solicitações de corrida...",
       });
     }
-  }, [currentLocation.coords]);
+  }, [currentLocation.coords, feeBalance.loading, isDebtBlocked, toast]);
+
+  useEffect(() => {
+    if (isDebtBlocked) {
+      stopListening();
+    }
+  }, [isDebtBlocked, stopListening]);
 
   const handleGoOffline = async () => {
     await driverLocation.setOnlineStatus(false);
@@ -71,7 +91,10 @@ const DriverOnline = () => {
   const handleAcceptRide = async (notificationId: string, rideId: string) => {
     const result = await rideQueue.acceptNotification(notificationId, rideId);
     if (result.success) {
+      setLostRide(null);
       navigate(`/active-ride/${rideId}`);
+    } else if (result.reason) {
+      setLostRide(result);
     }
     return result;
   };
@@ -121,6 +144,37 @@ const DriverOnline = () => {
     );
   }
 
+  if (isDebtBlocked) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <Card className="max-w-md">
+          <CardHeader>
+            <CardTitle className="text-center">Taxas Pendentes</CardTitle>
+          </CardHeader>
+          <CardContent className="text-center">
+            <Wallet className="w-12 h-12 text-destructive mx-auto mb-4" />
+            {feeBalance.balance && (
+              <p className="text-2xl font-bold mb-2">R$ {feeBalance.balance.balance.toFixed(2)}</p>
+            )}
+            <p className="text-muted-foreground mb-4">
+              Suas taxas do app em aberto passaram do limite
+              {feeBalance.balance && ` de R$ ${feeBalance.balance.debt_limit.toFixed(2)}`}.
+              Acerte o pagamento com o administrador para voltar a receber corridas.
+            </p>
+            <div className="flex gap-2 justify-center">
+              <Button variant="outline" onClick={() => navigate('/dashboard')}>
+                Voltar ao Dashboard
+              </Button>
+              <Button onClick={() => window.location.reload()}>
+                Verificar Novamente
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen bg-background">
       {/* Header */}
@@ -213,6 +267,20 @@ const DriverOnline = () => {
           )}
         </div>
 
+        {/* Accept race result */}
+        {lostRide?.reason && (
+          <Alert variant="destructive">
+            <XCircle className="h-4 w-4" />
+            <AlertTitle>Corrida não atribuída</AlertTitle>
+            <AlertDescription className="flex items-center justify-between gap-4">
+              <span>{acceptRideLossMessages[lostRide.reason]}</span>
+              <Button variant="ghost" size="sm" onClick={() => setLostRide(null)}>
+                Fechar
+              </Button>
+            </AlertDescription>
+          </Alert>
+        )}
+
         {/* Ride Notifications */}
         <MinimalRidesList
           notifications={rideQueue.activeNotifications}
@@ -3,13 +3,25 @@ import { useNavigate } from 'react-router-dom'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
-import { ArrowLeft, Car, Clock, MapPin, DollarSign } from 'lucide-react'
+import { ArrowLeft, CalendarClock, Car, Clock, MapPin, DollarSign } from 'lucide-react'
 import { AddressSelector } from '@/components/AddressSelector'
 import { useRides } from '@/hooks/useRides'
 import { useAuth } from '@/hooks/useAuth'
 import { WaitingForDriver } from '@/components/WaitingForDriver'
 import { DriverFound } from '@/components/DriverFound'
 import { toast } from 'sonner'
+import { VEHICLE_TYPE_DESCRIPTIONS, VEHICLE_TYPE_LABELS, VEHICLE_TYPES, VehicleType } from '@/lib/vehicleFares'
+import { FareBreakdown } from '@/lib/fare'
+import { formatSurgeMultiplier, quoteRide, RideQuote, SurgeChangedError } from '@/lib/surge'
+import { OutsideServiceAreaError } from '@/lib/serviceZones'
+import { PAYMENT_METHOD_LABELS, PAYMENT_METHODS, PaymentMethod } from '@/lib/payments'
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog'
+import { RideTransitionError } from '@/lib/rideStatus'
+import { CancellationFeePendingError } from '@/lib/rideCancellation'
+import { toDateTimeLocalValue } from '@/lib/scheduledRides'
+import { StopSelection, toStopPayload } from '@/lib/rideStops'
+import { Input } from '@/components/ui/input'
+import { cn } from '@/lib/utils'
 
 interface LocationSelection {
   coords: { lat: number; lng: number }
@@ -17,20 +29,16 @@ interface LocationSelection {
   type: 'current' | 'selected' | 'searched'
 }
 
+// Sugestão inicial ao agendar; a janela aceita é validada pelo servidor
+const DEFAULT_SCHEDULE_OFFSET_MINUTES = 60
+
 interface RouteInfo {
   origin: LocationSelection
   destination: LocationSelection
+  stops: StopSelection[]
   distance: number
   duration: number
-  price: number
-  driverEarnings: number
-  appFee: number
-  priceBreakdown: {
-    basePrice: number
-    distancePrice: number
-    minimumFare: number
-    pricingModel: string
-  }
+  estimates: Record<VehicleType, FareBreakdown>
 }
 
 export default function RideRequest() {
@@ -39,16 +47,21 @@ export default function RideRequest() {
   const { createRide } = useRides()
   const [routeInfo, setRouteInfo] = useState<RouteInfo | null>(null)
   const [isRequesting, setIsRequesting] = useState(false)
+  const [vehicleType, setVehicleType] = useState<VehicleType>('car')
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>('cash')
+  // Cotação com tarifa dinâmica aguardando confirmação do passageiro
+  const [surgeQuote, setSurgeQuote] = useState<RideQuote | null>(null)
+  // Horário no formato do input datetime-local; vazio é corrida para agora
+  const [scheduledFor, setScheduledFor] = useState('')
+
+  const estimate = routeInfo?.estimates[vehicleType]
 
   const handleRouteCalculated = (route: RouteInfo) => {
     setRouteInfo(route)
   }
 
-  const handleRequestRide = async () => {
-    if (!routeInfo) {
-      toast.error('Informações incompletas para solicitar corrida')
-      return
-    }
+  const submitRide = async (acceptedSurgeMultiplier: number) => {
+    if (!routeInfo || !estimate) return
 
     setIsRequesting(true)
     try {
@@ -57,21 +70,98 @@ export default function RideRequest() {
         destination: routeInfo.destination.coords,
         origin_address: routeInfo.origin.address,
         destination_address: routeInfo.destination.address,
-        distance_km: routeInfo.distance,
-        estimated_duration_minutes: Math.round(routeInfo.duration),
-        estimated_price: routeInfo.price,
+        requested_vehicle_type: vehicleType,
+        accepted_surge_multiplier: acceptedSurgeMultiplier,
+        payment_method: paymentMethod,
+        scheduled_for: scheduledFor ? new Date(scheduledFor).toISOString() : undefined,
+        stops: toStopPayload(routeInfo.stops),
       })
 
+      // O preço é recalculado e travado no servidor
+      if (data.estimated_price !== null && data.estimated_price !== estimate.total) {
+        toast.info(`Preço confirmado: R$ ${data.estimated_price.toFixed(2)}`)
+      }
+
+      if (data.status === 'scheduled') {
+        navigate('/dashboard')
+        return
+      }
+
       toast.success('Corrida solicitada com sucesso!')
       navigate(`/ride/${data.id}`)
     } catch (error) {
+      if (error instanceof SurgeChangedError) {
+        setSurgeQuote(error.quote)
+        return
+      }
+      // O Pix da taxa fica na tela da corrida cancelada
+      if (error instanceof CancellationFeePendingError) {
+        toast.error(error.message)
+        navigate(`/ride/${error.rideId}`)
+        return
+      }
       console.error('Erro ao solicitar corrida:', error)
-      toast.error('Erro ao solicitar corrida')
+      toast.error(
+        error instanceof RideTransitionError
+          ? error.details ?? error.message
+          : error instanceof OutsideServiceAreaError ? error.message : 'Erro ao solicitar corrida'
+      )
     } finally {
       setIsRequesting(false)
     }
   }
 
+  const handleRequestRide = async () => {
+    if (!routeInfo || !estimate) {
+      toast.error('Informações incompletas para solicitar corrida')
+      return
+    }
+
+    // Corrida agendada não tem tarifa dinâmica
+    if (scheduledFor) {
+      await submitRide(1)
+      return
+    }
+
+    setIsRequesting(true)
+    let quote: RideQuote
+    try {
+      quote = await quoteRide({
+        origin: routeInfo.origin.coords,
+        destination: routeInfo.destination.coords,
+        origin_address: routeInfo.origin.address,
+        destination_address: routeInfo.destination.address,
+        requested_vehicle_type: vehicleType,
+        stops: toStopPayload(routeInfo.stops),
+      })
+    } catch (error) {
+      console.error('Erro ao cotar corrida:', error)
+      toast.error(
+        error instanceof OutsideServiceAreaError || error instanceof RideTransitionError
+          ? error.message
+          : 'Erro ao calcular o preço da corrida'
+      )
+      setIsRequesting(false)
+      return
+    }
+
+    // Com tarifa dinâmica o passageiro precisa confirmar o novo preço
+    if (quote.surgeMultiplier > 1) {
+      setSurgeQuote(quote)
+      setIsRequesting(false)
+      return
+    }
+
+    await submitRide(quote.surgeMultiplier)
+  }
+
+  const handleConfirmSurge = async () => {
+    if (!surgeQuote) return
+    const accepted = surgeQuote.surgeMultiplier
+    setSurgeQuote(null)
+    await submitRide(accepted)
+  }
+
   return (
     <div className="min-h-screen bg-background">
       <div className="container mx-auto p-4 max-w-4xl">
@@ -99,7 +189,7 @@ export default function RideRequest() {
           </div>
 
           {/* Route Summary */}
-          {routeInfo && (
+          {routeInfo && estimate && (
             <div className="lg:col-span-2">
               <Card>
                 <CardHeader>
@@ -109,6 +199,91 @@ export default function RideRequest() {
                   </CardTitle>
                 </CardHeader>
                 <CardContent className="space-y-4">
+                  {/* Vehicle Type */}
+                  <div className="grid grid-cols-2 gap-3">
+                    {VEHICLE_TYPES.map(type => (
+                      <button
+                        key={type}
+                        type="button"
+                        onClick={() => setVehicleType(type)}
+                        className={cn(
+                          'text-left p-3 rounded-lg border transition-colors',
+                          type === vehicleType ? 'border-primary bg-primary/5' : 'border-border hover:bg-accent'
+                        )}
+                      >
+                        <div className="flex items-center justify-between">
+                          <span className="font-medium">{VEHICLE_TYPE_LABELS[type]}</span>
+                          <span className="font-semibold">R$ {routeInfo.estimates[type].total.toFixed(2)}</span>
+                        </div>
+                        <p className="text-xs text-muted-foreground mt-1">{VEHICLE_TYPE_DESCRIPTIONS[type]}</p>
+                      </button>
+                    ))}
+                  </div>
+
+                  {/* Payment Method */}
+                  <div>
+                    <p className="text-sm font-medium mb-2">Forma de pagamento</p>
+                    <div className="grid grid-cols-3 gap-2">
+                      {PAYMENT_METHODS.map(method => (
+                        <button
+                          key={method}
+                          type="button"
+                          onClick={() => setPaymentMethod(method)}
+                          className={cn(
+                            'p-2 rounded-lg border text-sm font-medium transition-colors',
+                            method === paymentMethod ? 'border-primary bg-primary/5' : 'border-border hover:bg-accent'
+                          )}
+                        >
+                          {PAYMENT_METHOD_LABELS[method]}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+
+                  {/* Schedule */}
+                  <div>
+                    <p className="text-sm font-medium mb-2">Quando</p>
+                    <div className="grid grid-cols-2 gap-2">
+                      <button
+                        type="button"
+                        onClick={() => setScheduledFor('')}
+                        className={cn(
+                          'p-2 rounded-lg border text-sm font-medium transition-colors',
+                          !scheduledFor ? 'border-primary bg-primary/5' : 'border-border hover:bg-accent'
+                        )}
+                      >
+                        Agora
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => !scheduledFor && setScheduledFor(
+                          toDateTimeLocalValue(new Date(Date.now() + DEFAULT_SCHEDULE_OFFSET_MINUTES * 60000))
+                        )}
+                        className={cn(
+                          'p-2 rounded-lg border text-sm font-medium transition-colors flex items-center justify-center gap-1',
+                          scheduledFor ? 'border-primary bg-primary/5' : 'border-border hover:bg-accent'
+                        )}
+                      >
+                        <CalendarClock className="h-4 w-4" />
+                        Agendar
+                      </button>
+                    </div>
+                    {scheduledFor && (
+                      <div className="mt-2 space-y-1">
+                        <Input
+                          type="datetime-local"
+                          value={scheduledFor}
+                          min={toDateTimeLocalValue(new Date())}
+                          onChange={(e) => e.target.value && setScheduledFor(e.target.value)}
+                        />
+                        <p className="text-xs text-muted-foreground">
+                          Os motoristas começam a ser chamados alguns minutos antes do horário.
+                          Corridas agendadas não têm tarifa dinâmica.
+                        </p>
+                      </div>
+                    )}
+                  </div>
+
                   {/* Route Details */}
                     <div className="grid gap-4 md:grid-cols-2">
                       <div className="space-y-3">
@@ -121,6 +296,17 @@ export default function RideRequest() {
                             <p className="text-sm">{routeInfo.origin.address}</p>
                           </div>
                         </div>
+                        {routeInfo.stops.map((stop, index) => (
+                          <div key={index} className="flex items-start gap-3">
+                            <div className="w-3 h-3 bg-yellow-500 rounded-full mt-1.5"></div>
+                            <div>
+                              <Badge variant="secondary" className="mb-1">
+                                Parada {index + 1}
+                              </Badge>
+                              <p className="text-sm">{stop.address}</p>
+                            </div>
+                          </div>
+                        ))}
                         <div className="flex items-start gap-3">
                           <div className="w-3 h-3 bg-red-500 rounded-full mt-1.5"></div>
                           <div>
@@ -146,7 +332,7 @@ export default function RideRequest() {
                         <div className="text-center p-3 bg-accent rounded-lg">
                           <DollarSign className="h-5 w-5 mx-auto mb-1 text-muted-foreground" />
                           <p className="text-xs text-muted-foreground">Preço Total</p>
-                          <p className="font-semibold">R$ {routeInfo.price.toFixed(2)}</p>
+                          <p className="font-semibold">R$ {estimate.total.toFixed(2)}</p>
                         </div>
                       </div>
                     </div>
@@ -155,33 +341,39 @@ export default function RideRequest() {
                     <div className="mt-4 p-3 bg-muted/50 rounded-lg border">
                       <h4 className="text-sm font-medium mb-2">Detalhamento do Preço</h4>
                       <div className="space-y-1 text-xs">
-                        {routeInfo.priceBreakdown.pricingModel === 'per_km' ? (
+                        {estimate.pricingModel === 'per_km' ? (
                           <>
                             <div className="flex justify-between">
                               <span>Taxa base:</span>
-                              <span>R$ {routeInfo.priceBreakdown.basePrice.toFixed(2)}</span>
+                              <span>R$ {estimate.base.toFixed(2)}</span>
                             </div>
                             <div className="flex justify-between">
                               <span>Distância ({routeInfo.distance.toFixed(1)} km):</span>
-                              <span>R$ {routeInfo.priceBreakdown.distancePrice.toFixed(2)}</span>
+                              <span>R$ {estimate.distance.toFixed(2)}</span>
                             </div>
-                            {routeInfo.price === routeInfo.priceBreakdown.minimumFare && (
-                              <div className="flex justify-between text-primary">
-                                <span>Tarifa mínima aplicada:</span>
-                                <span>R$ {routeInfo.priceBreakdown.minimumFare.toFixed(2)}</span>
+                            {estimate.time > 0 && (
+                              <div className="flex justify-between">
+                                <span>Tempo ({Math.round(routeInfo.duration)} min):</span>
+                                <span>R$ {estimate.time.toFixed(2)}</span>
                               </div>
                             )}
                           </>
                         ) : (
                           <div className="flex justify-between">
                             <span>Preço fixo:</span>
-                            <span>R$ {routeInfo.priceBreakdown.basePrice.toFixed(2)}</span>
+                            <span>R$ {estimate.base.toFixed(2)}</span>
+                          </div>
+                        )}
+                        {estimate.minimumFareAdjustment > 0 && (
+                          <div className="flex justify-between text-primary">
+                            <span>Ajuste para tarifa mínima (R$ {estimate.minimumFare.toFixed(2)}):</span>
+                            <span>R$ {estimate.minimumFareAdjustment.toFixed(2)}</span>
                           </div>
                         )}
                         <div className="border-t pt-1 mt-2">
                           <div className="flex justify-between font-medium text-primary">
                             <span>Valor total a pagar:</span>
-                            <span>R$ {routeInfo.price.toFixed(2)}</span>
+                            <span>R$ {estimate.total.toFixed(2)}</span>
                           </div>
                         </div>
                       </div>
@@ -195,9 +387,32 @@ export default function RideRequest() {
                       className="w-full"
                       size="lg"
                     >
-                      {isRequesting ? 'Solicitando...' : 'Confirmar e Solicitar Corrida'}
+                      {isRequesting
+                        ? 'Solicitando...'
+                        : scheduledFor ? 'Confirmar Agendamento' : 'Confirmar e Solicitar Corrida'}
                     </Button>
                   </div>
+
+                  <AlertDialog open={!!surgeQuote} onOpenChange={(open) => !open && setSurgeQuote(null)}>
+                    <AlertDialogContent>
+                      <AlertDialogHeader>
+                        <AlertDialogTitle>
+                          Tarifa dinâmica {surgeQuote && formatSurgeMultiplier(surgeQuote.surgeMultiplier)}
+                        </AlertDialogTitle>
+                        <AlertDialogDescription>
+                          A procura por corridas está alta na sua região. O preço desta corrida
+                          será R$ {surgeQuote?.fare.total.toFixed(2)}, incluindo
+                          R$ {surgeQuote?.fare.surge.toFixed(2)} de tarifa dinâmica.
+                        </AlertDialogDescription>
+                      </AlertDialogHeader>
+                      <AlertDialogFooter>
+                        <AlertDialogCancel>Cancelar</AlertDialogCancel>
+                        <AlertDialogAction onClick={handleConfirmSurge}>
+                          Aceitar e Solicitar
+                        </AlertDialogAction>
+                      </AlertDialogFooter>
+                    </AlertDialogContent>
+                  </AlertDialog>
                 </CardContent>
               </Card>
             </div>
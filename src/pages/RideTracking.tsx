@@ -1,13 +1,30 @@
-import React, { useEffect, useState } from 'react'
+import React, { useEffect, useMemo, useState } from 'react'
 import { useParams, useNavigate } from 'react-router-dom'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
-import { ArrowLeft, MapPin, Clock, User, Car } from 'lucide-react'
+import { ArrowLeft, MapPin, Clock, User, Car, CheckCircle } from 'lucide-react'
 import { GoogleMap } from '@/components/maps/GoogleMap'
 import { supabase } from '@/integrations/supabase/client'
 import { useAuth } from '@/hooks/useAuth'
 import { toast } from 'sonner'
+import { CancelRideDialog } from '@/components/CancelRideDialog'
+import { useSystemSettings } from '@/hooks/useSystemSettings'
+import { getCancellationReasonLabel, isCancellationFeeDue } from '@/lib/rideCancellation'
+import { Json } from '@/integrations/supabase/types'
+import { FareReceipt } from '@/components/FareReceipt'
+import { PixPayment } from '@/components/PixPayment'
+import { RideRating } from '@/components/RideRating'
+import { PAYMENT_METHOD_LABELS, PAYMENT_STATUS_LABELS, PaymentMethod, RidePaymentStatus } from '@/lib/payments'
+import { fetchRideStops, RideStop } from '@/lib/rideStops'
+import { RideStatus } from '@/lib/rideStatus'
+import { RideChat } from '@/components/RideChat'
+import { RideContactButton } from '@/components/RideContactButton'
+import { SafetyCheckPrompt } from '@/components/SafetyCheckPrompt'
+import { useAssignedDriverLocation } from '@/hooks/useDriverLocation'
+import { useLiveEta } from '@/hooks/useLiveEta'
+import { getEtaTarget, isLiveTrackingStatus } from '@/lib/liveLocation'
+import { fetchRideTrack, filterTrackJitter, resolveTrackSettings, RideTrackPoint } from '@/lib/rideTracks'
 
 interface RideData {
   id: string
@@ -22,17 +39,28 @@ interface RideData {
   estimated_duration_minutes: number
   estimated_price: number
   final_price: number | null
+  final_fare_breakdown: Json | null
+  tracked_distance_km: number | null
+  fare_distance_source: string | null
   driver_id: string | null
   requested_at: string
   accepted_at: string | null
   started_at: string | null
   completed_at: string | null
-  payment_method: string
+  payment_method: PaymentMethod
+  payment_status: string
+  passenger_rating: number | null
+  passenger_rating_tags: string[] | null
+  passenger_comment: string | null
+  passenger_rated_at: string | null
+  cancelled_by: string | null
+  cancellation_reason: string | null
+  cancellation_fee: number | null
+  redispatch_count: number
 }
 
 interface DriverProfile {
   full_name: string
-  phone: string
 }
 
 interface DriverData {
@@ -43,6 +71,9 @@ interface DriverData {
   rating: number
 }
 
+// Depois do início da viagem o passageiro não cancela mais
+const CANCELLABLE_STATUSES = ['scheduled', 'requested', 'accepted', 'driver_arriving', 'driver_arrived']
+
 export default function RideTracking() {
   const { id } = useParams<{ id: string }>()
   const navigate = useNavigate()
@@ -51,6 +82,10 @@ export default function RideTracking() {
   const [driverProfile, setDriverProfile] = useState<DriverProfile | null>(null)
   const [driverData, setDriverData] = useState<DriverData | null>(null)
   const [loading, setLoading] = useState(true)
+  const [cancelDialogOpen, setCancelDialogOpen] = useState(false)
+  const [stops, setStops] = useState<RideStop[]>([])
+  const [track, setTrack] = useState<RideTrackPoint[]>([])
+  const { settings } = useSystemSettings()
 
   const loadRideData = async () => {
     if (!id) return
@@ -75,7 +110,7 @@ export default function RideTracking() {
         const [profileResult, driverResult] = await Promise.all([
           supabase
             .from('profiles')
-            .select('full_name, phone')
+            .select('full_name')
             .eq('user_id', rideData.driver_id)
             .single(),
           supabase
@@ -100,6 +135,50 @@ export default function RideTracking() {
     loadRideData()
   }, [id])
 
+  // Paradas intermediárias, marcadas pelo motorista durante a viagem
+  // Trajeto gravado: só desenhado com a corrida concluída
+  const isCompleted = ride?.status === 'completed'
+
+  useEffect(() => {
+    if (!id || !isCompleted) return
+
+    fetchRideTrack(id)
+      .then(setTrack)
+      .catch(error => console.error('❌ Erro ao carregar trajeto:', error))
+  }, [id, isCompleted])
+
+  useEffect(() => {
+    if (!id) return
+
+    fetchRideStops(id)
+      .then(setStops)
+      .catch(error => console.error('❌ Erro ao carregar paradas:', error))
+
+    const channel = supabase
+      .channel('ride-stops')
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'ride_stops',
+          filter: `ride_id=eq.${id}`,
+        },
+        (payload) => {
+          const updated = payload.new as RideStop
+          setStops(prev => prev.map(stop => stop.id === updated.id ? updated : stop))
+          if (updated.reached_at) {
+            toast.info(`Parada ${updated.position} concluída`)
+          }
+        }
+      )
+      .subscribe()
+
+    return () => {
+      supabase.removeChannel(channel)
+    }
+  }, [id])
+
   // Subscribe to real-time ride updates
   useEffect(() => {
     if (!id) return
@@ -115,8 +194,15 @@ export default function RideTracking() {
           filter: `id=eq.${id}`,
         },
         (payload) => {
-          setRide(payload.new as RideData)
-          if (payload.new.driver_id && !driverProfile) {
+          const updated = payload.new as RideData
+          setRide(updated)
+          // Motorista cancelou: a corrida volta para a busca com outro motorista
+          if (updated.status === 'requested' && !updated.driver_id && driverProfile) {
+            setDriverProfile(null)
+            setDriverData(null)
+            toast.info('O motorista cancelou. Estamos procurando outro motorista para você.')
+          }
+          if (updated.driver_id && !driverProfile) {
             loadRideData() // Reload to get driver data
           }
         }
@@ -130,11 +216,15 @@ export default function RideTracking() {
 
   const getStatusBadge = (status: string) => {
     const statusConfig = {
+      scheduled: { label: 'Agendada', variant: 'outline' as const },
       requested: { label: 'Solicitada', variant: 'secondary' as const },
       accepted: { label: 'Aceita', variant: 'default' as const },
-      started: { label: 'Em Andamento', variant: 'default' as const },
+      driver_arriving: { label: 'Motorista a caminho', variant: 'default' as const },
+      driver_arrived: { label: 'Motorista chegou', variant: 'default' as const },
+      in_progress: { label: 'Em Andamento', variant: 'default' as const },
       completed: { label: 'Concluída', variant: 'secondary' as const },
       cancelled: { label: 'Cancelada', variant: 'destructive' as const },
+      expired: { label: 'Expirada', variant: 'destructive' as const },
     }
     
     const config = statusConfig[status as keyof typeof statusConfig] || statusConfig.requested
@@ -143,43 +233,94 @@ export default function RideTracking() {
 
   const getStatusMessage = (status: string) => {
     switch (status) {
+      case 'scheduled':
+        return 'Corrida agendada. Os motoristas serão chamados perto do horário.'
       case 'requested':
         return 'Aguardando um motorista aceitar sua corrida...'
       case 'accepted':
+      case 'driver_arriving':
         return 'Motorista a caminho para te buscar!'
-      case 'started':
+      case 'driver_arrived':
+        return 'Seu motorista chegou ao local de embarque'
+      case 'in_progress':
         return 'Em viagem para o destino'
       case 'completed':
         return 'Corrida concluída com sucesso!'
       case 'cancelled':
         return 'Corrida foi cancelada'
+      case 'expired':
+        return 'Nenhum motorista aceitou a corrida a tempo'
       default:
         return 'Status desconhecido'
     }
   }
 
-  const handleCancelRide = async () => {
-    if (!ride || ride.status !== 'requested') return
-    
-    try {
-      const { error } = await supabase
-        .from('rides')
-        .update({ 
-          status: 'cancelled', 
-          cancelled_at: new Date().toISOString() 
-        })
-        .eq('id', ride.id)
-
-      if (error) throw error
-      
-      toast.success('Corrida cancelada com sucesso')
-      navigate('/dashboard')
-    } catch (error) {
-      console.error('Erro ao cancelar corrida:', error)
-      toast.error('Erro ao cancelar corrida')
-    }
+  const handleRideCancelled = (cancelled: { cancellation_fee: number | null }) => {
+    toast.success(
+      cancelled.cancellation_fee
+        ? `Corrida cancelada. Taxa de cancelamento: R$ ${cancelled.cancellation_fee.toFixed(2)}`
+        : 'Corrida cancelada com sucesso'
+    )
+    navigate('/dashboard')
   }
 
+  // Posição do motorista ao vivo, do aceite até o fim da viagem
+  const liveTracking = !!ride?.driver_id && isLiveTrackingStatus(ride.status as RideStatus)
+  const driverPosition = useAssignedDriverLocation(ride?.driver_id, liveTracking)
+
+  const remainingStops = useMemo(
+    () => stops
+      .filter(stop => !stop.reached_at)
+      .map(stop => ({ coords: { lat: stop.lat, lng: stop.lng }, address: stop.address })),
+    [stops]
+  )
+  const etaTarget = ride ? getEtaTarget(ride.status as RideStatus, ride, remainingStops) : null
+  const etaMinutes = useLiveEta(
+    driverPosition?.coords ?? null,
+    etaTarget?.destination ?? null,
+    etaTarget?.waypoints
+  )
+
+  // Memorizados para que as atualizações de posição não recriem os
+  // marcadores nem recalculem a rota no mapa
+  const hasValidCoordinates = !!(ride?.origin_lat && ride.origin_lng && ride.destination_lat && ride.destination_lng)
+
+  const markers = useMemo(() => ride && hasValidCoordinates ? [
+    {
+      position: { lat: ride.origin_lat, lng: ride.origin_lng },
+      title: 'Origem',
+      icon: '/placeholder.svg', // Green marker
+    },
+    ...stops.map(stop => ({
+      position: { lat: stop.lat, lng: stop.lng },
+      title: `Parada ${stop.position}`,
+      icon: '/placeholder.svg',
+    })),
+    {
+      position: { lat: ride.destination_lat, lng: ride.destination_lng },
+      title: 'Destino',
+      icon: '/placeholder.svg', // Red marker
+    },
+  ] : [], [ride, hasValidCoordinates, stops])
+
+  // Default center (Juiz de Fora)
+  const mapCenter = useMemo(() => ride && hasValidCoordinates ? {
+    lat: (ride.origin_lat + ride.destination_lat) / 2,
+    lng: (ride.origin_lng + ride.destination_lng) / 2,
+  } : { lat: -21.764, lng: -43.350 }, [ride, hasValidCoordinates])
+
+  const route = useMemo(() => ride && hasValidCoordinates ? {
+    origin: { lat: ride.origin_lat, lng: ride.origin_lng },
+    destination: { lat: ride.destination_lat, lng: ride.destination_lng },
+    waypoints: stops.map(stop => ({ lat: stop.lat, lng: stop.lng })),
+  } : undefined, [ride, hasValidCoordinates, stops])
+
+  const trackPath = useMemo(() => {
+    const maxAccuracy = resolveTrackSettings(settings).track_max_accuracy_m
+    const points = filterTrackJitter(track, maxAccuracy)
+    return points.length >= 2 ? { points: points.map(point => ({ lat: point.lat, lng: point.lng })) } : null
+  }, [track, settings])
+
   if (loading) {
     return (
       <div className="min-h-screen bg-background flex items-center justify-center">
@@ -204,27 +345,6 @@ export default function RideTracking() {
     )
   }
 
-  // Validate coordinates before creating markers and center
-  const hasValidCoordinates = ride.origin_lat && ride.origin_lng && ride.destination_lat && ride.destination_lng
-
-  const markers = hasValidCoordinates ? [
-    {
-      position: { lat: ride.origin_lat, lng: ride.origin_lng },
-      title: 'Origem',
-      icon: '/placeholder.svg', // Green marker
-    },
-    {
-      position: { lat: ride.destination_lat, lng: ride.destination_lng },
-      title: 'Destino',
-      icon: '/placeholder.svg', // Red marker
-    },
-  ] : []
-
-  const mapCenter = hasValidCoordinates ? {
-    lat: (ride.origin_lat + ride.destination_lat) / 2,
-    lng: (ride.origin_lng + ride.destination_lng) / 2,
-  } : { lat: -21.764, lng: -43.350 } // Default center (Juiz de Fora)
-
 
   return (
     <div className="min-h-screen bg-background">
@@ -264,10 +384,13 @@ export default function RideTracking() {
                     height="100%"
                     width="100%"
                     markers={markers}
-                    showRoute={{
-                      origin: { lat: ride.origin_lat, lng: ride.origin_lng },
-                      destination: { lat: ride.destination_lat, lng: ride.destination_lng },
-                    }}
+                    showRoute={route}
+                    liveMarker={driverPosition ? {
+                      position: driverPosition.coords,
+                      heading: driverPosition.heading,
+                      title: 'Motorista',
+                    } : null}
+                    path={trackPath}
                     className="rounded-lg"
                   />
                 )}
@@ -286,15 +409,43 @@ export default function RideTracking() {
                 <p className="text-sm text-muted-foreground text-center mb-3">
                   {getStatusMessage(ride.status)}
                 </p>
-                {ride.status === 'requested' && (
-                  <Button 
-                    variant="destructive" 
-                    size="sm"
-                    onClick={handleCancelRide}
-                    className="w-full"
-                  >
-                    Cancelar
-                  </Button>
+                {etaTarget && etaMinutes !== null && (
+                  <p className="text-sm font-medium text-center mb-3">
+                    {etaTarget.label} ~{etaMinutes} min
+                  </p>
+                )}
+                {ride.status === 'requested' && ride.redispatch_count > 0 && (
+                  <p className="text-xs text-muted-foreground text-center mb-3">
+                    O motorista anterior cancelou. Procurando outro motorista...
+                  </p>
+                )}
+                {ride.status === 'cancelled' && ride.cancellation_reason && (
+                  <p className="text-xs text-muted-foreground text-center mb-3">
+                    Motivo: {getCancellationReasonLabel(ride.cancellation_reason)}
+                    {ride.cancellation_fee != null && ` • Taxa: R$ ${ride.cancellation_fee.toFixed(2)}`}
+                  </p>
+                )}
+                {CANCELLABLE_STATUSES.includes(ride.status) && (
+                  <>
+                    <Button 
+                      variant="destructive" 
+                      size="sm"
+                      onClick={() => setCancelDialogOpen(true)}
+                      className="w-full"
+                    >
+                      Cancelar
+                    </Button>
+                    <CancelRideDialog
+                      rideId={ride.id}
+                      actor="passenger"
+                      open={cancelDialogOpen}
+                      onOpenChange={setCancelDialogOpen}
+                      warning={settings && isCancellationFeeDue(ride, settings)
+                        ? `Será cobrada uma taxa de cancelamento de R$ ${settings.cancellation_fee.toFixed(2)}.`
+                        : null}
+                      onCancelled={handleRideCancelled}
+                    />
+                  </>
                 )}
               </CardContent>
             </Card>
@@ -309,6 +460,28 @@ export default function RideTracking() {
                     <p className="text-sm font-medium truncate">{ride.origin_address}</p>
                   </div>
                 </div>
+                {stops.map(stop => (
+                  <div key={stop.id} className="flex items-start gap-2">
+                    <div className={`w-2 h-2 rounded-full mt-2 ${stop.reached_at ? 'bg-gray-400' : 'bg-yellow-500'}`}></div>
+                    <div className="flex-1 min-w-0">
+                      <p className="text-xs text-muted-foreground flex items-center gap-1">
+                        Parada {stop.position}
+                        {stop.reached_at && (
+                          <>
+                            <CheckCircle className="h-3 w-3 text-green-600" />
+                            {new Date(stop.reached_at).toLocaleTimeString('pt-BR', { hour: '2-digit', minute: '2-digit' })}
+                          </>
+                        )}
+                      </p>
+                      <p className="text-sm font-medium truncate">{stop.address}</p>
+                    </div>
+                  </div>
+                ))}
+                {stops.length > 0 && ride.status === 'in_progress' && (
+                  <p className="text-xs text-muted-foreground">
+                    {stops.filter(stop => stop.reached_at).length} de {stops.length} paradas concluídas
+                  </p>
+                )}
                 <div className="flex items-start gap-2">
                   <div className="w-2 h-2 bg-red-500 rounded-full mt-2"></div>
                   <div className="flex-1 min-w-0">
@@ -331,6 +504,17 @@ export default function RideTracking() {
                     <p className="text-xs text-muted-foreground">Tempo</p>
                     <p className="text-sm font-semibold">{ride.estimated_duration_minutes} min</p>
                   </div>
+                  {ride.status === 'completed' && ride.tracked_distance_km != null && (
+                    <div className="col-span-2">
+                      <p className="text-xs text-muted-foreground">Distância percorrida</p>
+                      <p className="text-sm font-semibold">{ride.tracked_distance_km.toFixed(1)} km</p>
+                      {ride.fare_distance_source === 'tracked' && (
+                        <p className="text-xs text-muted-foreground">
+                          O preço final foi calculado pela distância percorrida
+                        </p>
+                      )}
+                    </div>
+                  )}
                 </div>
               </CardContent>
             </Card>
@@ -341,7 +525,6 @@ export default function RideTracking() {
                 <CardContent className="p-4">
                   <div className="text-center mb-2">
                     <h4 className="text-sm font-semibold">{driverProfile.full_name}</h4>
-                    <p className="text-xs text-muted-foreground">{driverProfile.phone}</p>
                     <div className="flex items-center justify-center gap-1 mt-1">
                       <span className="text-xs">⭐</span>
                       <span className="text-xs">{driverData.rating.toFixed(1)}</span>
@@ -351,18 +534,56 @@ export default function RideTracking() {
                     <p className="font-medium">{driverData.vehicle_brand} {driverData.vehicle_model}</p>
                     <p className="text-muted-foreground">{driverData.vehicle_color} • {driverData.vehicle_plate}</p>
                   </div>
+                  <RideContactButton rideId={ride.id} label="Ligar para o motorista" className="w-full mt-2" />
                 </CardContent>
               </Card>
             )}
 
+            {/* Chat com o motorista atual */}
+            {user && ride.driver_id && (
+              <RideChat
+                key={ride.driver_id}
+                rideId={ride.id}
+                rideStatus={ride.status as RideStatus}
+                userId={user.id}
+                role="passenger"
+                otherPartyName={driverProfile?.full_name}
+              />
+            )}
+
+            {/* Confirmação de segurança quando a viagem sai do esperado */}
+            <SafetyCheckPrompt rideId={ride.id} />
+
+            {/* Recibo */}
+            {ride.status === 'completed' && (
+              <FareReceipt breakdown={ride.final_fare_breakdown} finalPrice={ride.final_price} />
+            )}
+
+            {ride.status === 'completed' && ride.driver_id && (
+              <RideRating rideId={ride.id} ride={ride} role="passenger" />
+            )}
+
+            {/* O Pix é gerado quando o motorista encerra a viagem e fixa o preço */}
+            {ride.payment_method === 'pix' && ride.final_price != null && ['in_progress', 'completed'].includes(ride.status) && (
+              <PixPayment rideId={ride.id} />
+            )}
+
+            {/* Taxa de cancelamento: paga por Pix antes de pedir outra corrida */}
+            {ride.status === 'cancelled' && ride.cancellation_fee != null && (
+              <PixPayment rideId={ride.id} />
+            )}
+
             {/* Pagamento */}
             <Card>
               <CardContent className="p-4">
                 <div className="text-center">
                   <p className="text-xs text-muted-foreground mb-1">Pagamento</p>
                   <Badge variant="outline" className="mb-2">
-                    {ride.payment_method === 'cash' ? 'Dinheiro' : 'Cartão'}
+                    {PAYMENT_METHOD_LABELS[ride.payment_method]}
                   </Badge>
+                  <p className="text-xs text-muted-foreground mb-1">
+                    {PAYMENT_STATUS_LABELS[ride.payment_status as RidePaymentStatus] ?? ride.payment_status}
+                  </p>
                   <p className="text-lg font-bold text-primary">
                     R$ {(ride.final_price || ride.estimated_price)?.toFixed(2)}
                   </p>
@@ -0,0 +1,15 @@
+import { timingSafeEqual } from 'https://deno.land/std@0.168.0/crypto/timing_safe_equal.ts'
+
+// Chamadas entre funções do servidor (ride-jobs-worker, webhooks do banco)
+// levam a service role key no header Authorization. Comparação em tempo
+// constante, para o tempo de resposta não revelar a chave.
+export function isServiceRoleRequest(req: Request): boolean {
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+  const token = req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '') ?? ''
+  if (!serviceRoleKey || !token) return false
+
+  const encoder = new TextEncoder()
+  const a = encoder.encode(token)
+  const b = encoder.encode(serviceRoleKey)
+  return a.byteLength === b.byteLength && timingSafeEqual(a, b)
+}
@@ -0,0 +1,63 @@
+// Consulta de rota do Google Directions, compartilhada entre a action
+// directions do google-maps-proxy, o create-ride (distância e duração para o
+// preço estimado) e o ride-jobs-worker (rota planejada da corrida para os
+// alertas de segurança).
+
+export const DIRECTIONS_URL = 'https://maps.googleapis.com/maps/api/directions/json'
+
+export interface DirectionsRequest {
+  // "lat,lng" ou endereço
+  origin: string
+  destination: string
+  // Paradas intermediárias, na ordem do trajeto ("lat,lng")
+  waypoints?: string[]
+}
+
+export function buildDirectionsQuery(apiKey: string, request: DirectionsRequest): URLSearchParams {
+  const queryParams = new URLSearchParams({
+    key: apiKey,
+    origin: request.origin || '',
+    destination: request.destination || '',
+    mode: 'driving',
+    language: 'pt-BR',
+    region: 'br',
+  })
+
+  if (Array.isArray(request.waypoints) && request.waypoints.length > 0) {
+    queryParams.set('waypoints', request.waypoints.join('|'))
+  }
+
+  return queryParams
+}
+
+export interface DirectionsRoute {
+  // Soma de todos os trechos, passando pelas paradas
+  distanceKm: number
+  durationMinutes: number
+  // overview_polyline.points da rota
+  polyline: string | null
+}
+
+// Primeira rota encontrada, ou null quando o Google não encontra rota
+export async function fetchRoute(apiKey: string, request: DirectionsRequest): Promise<DirectionsRoute | null> {
+  const response = await fetch(`${DIRECTIONS_URL}?${buildDirectionsQuery(apiKey, request).toString()}`)
+
+  if (!response.ok) {
+    throw new Error(`Directions HTTP ${response.status}: ${response.statusText}`)
+  }
+
+  const data = await response.json()
+  const route = data.routes?.[0]
+  const legs: { distance: { value: number }, duration: { value: number } }[] = route?.legs ?? []
+
+  if (data.status !== 'OK' || legs.length === 0) {
+    console.warn(`⚠️ Directions returned ${data.status}`, data.error_message ?? '')
+    return null
+  }
+
+  return {
+    distanceKm: legs.reduce((sum, leg) => sum + leg.distance.value, 0) / 1000,
+    durationMinutes: legs.reduce((sum, leg) => sum + leg.duration.value, 0) / 60,
+    polyline: route.overview_polyline?.points ?? null,
+  }
+}
@@ -0,0 +1,147 @@
+// Motor de tarifas compartilhado entre o app (src/lib/fare.ts) e as edge
+// functions. Módulo puro, sem imports, para rodar tanto no Vite quanto no Deno.
+
+export type PricingModel = 'per_km' | 'fixed'
+export type FeeType = 'percentage' | 'fixed_amount'
+
+export interface FareRates {
+  fixed_rate: number
+  price_per_km: number
+  price_per_minute: number
+  minimum_fare: number
+}
+
+export interface FareSettings extends FareRates {
+  pricing_model: string
+  fee_type: string
+  app_fee_percentage: number
+  // Espera no embarque: minutos gratuitos e preço por minuto excedente
+  free_waiting_minutes: number
+  waiting_price_per_minute: number
+}
+
+// Formato de system_settings aceito por resolveFareSettings
+export interface FareSettingsSource {
+  fixed_rate: number
+  price_per_km: number
+  price_per_minute?: number | null
+  minimum_fare: number
+  pricing_model: string
+  fee_type: string
+  app_fee_percentage: number
+  free_waiting_minutes?: number | null
+  waiting_price_per_minute?: number | null
+  vehicle_type_fares?: Record<string, Partial<FareRates>> | null
+}
+
+export interface FareInput {
+  distanceKm: number
+  durationMinutes: number
+  // Tempo entre a chegada do motorista e o início da corrida
+  waitingMinutes?: number
+  // Multiplicador da tarifa dinâmica travado na criação da corrida
+  surgeMultiplier?: number
+}
+
+export interface FareBreakdown {
+  pricingModel: string
+  base: number
+  distance: number
+  time: number
+  // Minutos de espera cobrados, já descontada a franquia
+  waitingMinutes: number
+  waiting: number
+  surgeMultiplier: number
+  // Valor acrescentado pela tarifa dinâmica sobre base, distância e tempo
+  surge: number
+  subtotal: number
+  minimumFare: number
+  // Quanto foi somado para alcançar a tarifa mínima (0 quando não se aplica)
+  minimumFareAdjustment: number
+  total: number
+  appFee: number
+  driverNet: number
+}
+
+export const DEFAULT_FARE_SETTINGS: FareSettings = {
+  fixed_rate: 5.0,
+  price_per_km: 2.5,
+  price_per_minute: 0,
+  minimum_fare: 8.0,
+  pricing_model: 'per_km',
+  fee_type: 'percentage',
+  app_fee_percentage: 20.0,
+  free_waiting_minutes: 5,
+  waiting_price_per_minute: 0,
+}
+
+export const roundCurrency = (value: number) => Math.round(value * 100) / 100
+
+// Combina a configuração global com a tarifa da categoria de veículo e,
+// quando houver, com a tarifa da categoria na zona de atendimento
+export function resolveFareSettings(
+  source: FareSettingsSource | null | undefined,
+  vehicleType?: string | null,
+  zoneFareOverrides?: Record<string, Partial<FareRates>> | null
+): FareSettings {
+  const base = source ?? DEFAULT_FARE_SETTINGS
+  const vehicleFare = vehicleType ? source?.vehicle_type_fares?.[vehicleType] : undefined
+  const zoneFare = vehicleType ? zoneFareOverrides?.[vehicleType] : undefined
+
+  return {
+    fixed_rate: zoneFare?.fixed_rate ?? vehicleFare?.fixed_rate ?? base.fixed_rate,
+    price_per_km: zoneFare?.price_per_km ?? vehicleFare?.price_per_km ?? base.price_per_km,
+    price_per_minute: zoneFare?.price_per_minute ?? vehicleFare?.price_per_minute ?? base.price_per_minute ?? 0,
+    minimum_fare: zoneFare?.minimum_fare ?? vehicleFare?.minimum_fare ?? base.minimum_fare,
+    pricing_model: base.pricing_model,
+    fee_type: base.fee_type,
+    app_fee_percentage: base.app_fee_percentage,
+    free_waiting_minutes: base.free_waiting_minutes ?? DEFAULT_FARE_SETTINGS.free_waiting_minutes,
+    waiting_price_per_minute: base.waiting_price_per_minute ?? DEFAULT_FARE_SETTINGS.waiting_price_per_minute,
+  }
+}
+
+// Divide um valor já cobrado entre a taxa do app e o líquido do motorista
+export function splitFare(total: number, settings: Pick<FareSettings, 'fee_type' | 'app_fee_percentage'>) {
+  const appFee = settings.fee_type === 'percentage'
+    ? roundCurrency(total * (settings.app_fee_percentage / 100))
+    : roundCurrency(Math.min(settings.app_fee_percentage, total))
+
+  return {
+    appFee,
+    driverNet: roundCurrency(total - appFee),
+  }
+}
+
+export function calculateFare(input: FareInput, settings: FareSettings): FareBreakdown {
+  const distanceKm = Math.max(input.distanceKm, 0)
+  const durationMinutes = Math.max(input.durationMinutes, 0)
+  const waitingMinutes = Math.max(Math.ceil((input.waitingMinutes ?? 0) - settings.free_waiting_minutes), 0)
+
+  const base = roundCurrency(settings.fixed_rate)
+  const distance = settings.pricing_model === 'fixed' ? 0 : roundCurrency(distanceKm * settings.price_per_km)
+  const time = settings.pricing_model === 'fixed' ? 0 : roundCurrency(durationMinutes * settings.price_per_minute)
+  // A espera é cobrada em qualquer modelo de preço
+  const waiting = roundCurrency(waitingMinutes * settings.waiting_price_per_minute)
+  const surgeMultiplier = Math.max(input.surgeMultiplier ?? 1, 1)
+  const surge = roundCurrency((base + distance + time) * (surgeMultiplier - 1))
+
+  const subtotal = roundCurrency(base + distance + time + surge + waiting)
+  const total = roundCurrency(Math.max(subtotal, settings.minimum_fare))
+
+  return {
+    pricingModel: settings.pricing_model,
+    base,
+    distance,
+    time,
+    waitingMinutes,
+    waiting,
+    surgeMultiplier,
+    surge,
+    subtotal,
+    minimumFare: settings.minimum_fare,
+    minimumFareAdjustment: roundCurrency(total - subtotal),
+    total,
+    ...splitFare(total, settings),
+  }
+}
@@ -0,0 +1,12 @@
+// Distância em linha reta (haversine) entre dois pontos, em km
+export function calculateDistance(point1: {lat: number, lng: number}, point2: {lat: number, lng: number}): number {
+  const R = 6371 // Earth's radius in kilometers
+  const dLat = (point2.lat - point1.lat) * Math.PI / 180
+  const dLon = (point2.lng - point1.lng) * Math.PI / 180
+  const a = 
+    Math.sin(dLat/2) * Math.sin(dLat/2) +
+    Math.cos(point1.lat * Math.PI / 180) * Math.cos(point2.lat * Math.PI / 180) * 
+    Math.sin(dLon/2) * Math.sin(dLon/2)
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1-a))
+  return R * c
+}
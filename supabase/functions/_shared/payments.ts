@@ -0,0 +1,338 @@
+import { timingSafeEqual } from 'https://deno.land/std@0.168.0/crypto/timing_safe_equal.ts'
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { buildPixBrCode, PixQrType } from './pix.ts'
+
+// Abstração do provedor de pagamento (PSP). As funções payments e
+// payment-webhook só conversam com esta interface; trocar de PSP é
+// implementar um novo provedor e escolhê-lo em PAYMENT_PROVIDER.
+//
+// Variáveis de ambiente:
+//   PAYMENT_PROVIDER          provedor em uso (hoje apenas 'mock'); obrigatório,
+//                             sem ele nenhuma cobrança é feita
+//   ALLOW_MOCK_PAY            'true' libera a ação mock_pay (só com o provedor mock)
+//   PAYMENT_WEBHOOK_SECRET    segredo enviado pelo PSP no header x-webhook-secret
+//   PIX_KEY                   chave Pix do recebedor (QR estático)
+//   PIX_MERCHANT_NAME / PIX_MERCHANT_CITY
+//   PIX_QR_TYPE               'static' ou 'dynamic'
+//   PIX_CHARGE_TTL_MINUTES    validade da cobrança
+
+export type PaymentStatus =
+  | 'pending'
+  | 'authorized'
+  | 'paid'
+  | 'failed'
+  | 'expired'
+  | 'partially_refunded'
+  | 'refunded'
+  | 'cancelled'
+
+export interface PixChargeRequest {
+  txid: string
+  amount: number
+  description: string
+  expiresAt: Date
+}
+
+export interface PixCharge {
+  providerChargeId: string
+  brCode: string
+  qrType: PixQrType
+  // URL da imagem do QR, quando o PSP fornece uma
+  qrImageUrl: string | null
+}
+
+export interface CardChargeRequest {
+  reference: string
+  amount: number
+  description: string
+}
+
+export interface CardAuthorization {
+  providerChargeId: string
+  approved: boolean
+  declineReason?: string
+}
+
+export interface PaymentEvent {
+  providerChargeId: string
+  type: 'authorized' | 'paid' | 'failed' | 'expired' | 'refunded'
+  amount?: number
+  // Só em refunded: identifica o estorno, que pode chegar pela API e pelo webhook
+  refundId?: string
+  occurredAt: string
+  payload: unknown
+}
+
+export interface PaymentProvider {
+  name: string
+  createPixCharge(request: PixChargeRequest): Promise<PixCharge>
+  // Cartão do passageiro cadastrado no PSP: autoriza e depois captura
+  authorizeCard(request: CardChargeRequest): Promise<CardAuthorization>
+  capture(providerChargeId: string, amount: number): Promise<{ captured: boolean }>
+  refund(providerChargeId: string, amount: number): Promise<{ refundId: string }>
+  // Devolve null quando o webhook não é autêntico
+  parseWebhook(req: Request): Promise<PaymentEvent | null>
+}
+
+export const DEFAULT_PIX_CHARGE_TTL_MINUTES = 30
+
+export function getPixChargeTtlMinutes(): number {
+  const ttl = parseInt(Deno.env.get('PIX_CHARGE_TTL_MINUTES') ?? '', 10)
+  return ttl > 0 ? ttl : DEFAULT_PIX_CHARGE_TTL_MINUTES
+}
+
+// Provedor local: gera BR Codes válidos mas não movimenta dinheiro.
+// O pagamento é confirmado por um POST no payment-webhook com o segredo
+// configurado, ou pela ação mock_pay da função payments quando ALLOW_MOCK_PAY=true.
+export function createMockPixProvider(): PaymentProvider {
+  const qrType: PixQrType = Deno.env.get('PIX_QR_TYPE') === 'dynamic' ? 'dynamic' : 'static'
+
+  return {
+    name: 'mock',
+
+    async createPixCharge(request) {
+      const providerChargeId = `mock_${request.txid}`
+      const brCode = buildPixBrCode({
+        merchantName: Deno.env.get('PIX_MERCHANT_NAME') ?? 'Mobilidade',
+        merchantCity: Deno.env.get('PIX_MERCHANT_CITY') ?? 'Sao Paulo',
+        amount: request.amount,
+        description: request.description,
+        ...(qrType === 'dynamic'
+          ? { location: `mock.pix.local/qr/v2/${providerChargeId}` }
+          : { key: Deno.env.get('PIX_KEY') ?? 'pix@mock.local', txid: request.txid }),
+      })
+
+      return { providerChargeId, brCode, qrType, qrImageUrl: null }
+    },
+
+    // Sem cartão de verdade: MOCK_CARD_DECLINE=true simula recusa
+    async authorizeCard(request) {
+      const approved = Deno.env.get('MOCK_CARD_DECLINE') !== 'true'
+      return {
+        providerChargeId: `mock_card_${request.reference}`,
+        approved,
+        declineReason: approved ? undefined : 'Cartão recusado (simulação)',
+      }
+    },
+
+    async capture() {
+      return { captured: true }
+    },
+
+    async refund(providerChargeId) {
+      return { refundId: `${providerChargeId}_refund_${Date.now()}` }
+    },
+
+    async parseWebhook(req) {
+      const secret = Deno.env.get('PAYMENT_WEBHOOK_SECRET')
+      if (!secret || !secretsMatch(req.headers.get('x-webhook-secret') ?? '', secret)) {
+        return null
+      }
+
+      const body = await req.json()
+      if (!body?.chargeId || !['authorized', 'paid', 'failed', 'expired', 'refunded'].includes(body?.event)) {
+        return null
+      }
+
+      return {
+        providerChargeId: body.chargeId,
+        type: body.event,
+        amount: body.amount,
+        refundId: body.refundId,
+        occurredAt: body.occurredAt ?? new Date().toISOString(),
+        payload: body,
+      }
+    },
+  }
+}
+
+// Comparação em tempo constante, para o tempo de resposta não revelar o segredo
+function secretsMatch(received: string, expected: string): boolean {
+  const encoder = new TextEncoder()
+  const a = encoder.encode(received)
+  const b = encoder.encode(expected)
+  return a.byteLength === b.byteLength && timingSafeEqual(a, b)
+}
+
+// Sem PAYMENT_PROVIDER não há fallback: cair no mock em produção confirmaria
+// pagamentos que nunca aconteceram
+export function getPaymentProvider(): PaymentProvider {
+  const provider = Deno.env.get('PAYMENT_PROVIDER')
+
+  switch (provider) {
+    case 'mock':
+      return createMockPixProvider()
+    case undefined:
+    case '':
+      throw new Error('PAYMENT_PROVIDER is not configured')
+    default:
+      throw new Error(`Unknown payment provider: ${provider}`)
+  }
+}
+
+// Espelho de enforce_ride_payment_lifecycle: de onde rides.payment_status pode vir
+const RIDE_PAYMENT_TRANSITIONS_FROM: Record<string, string[]> = {
+  authorized: ['pending', 'failed'],
+  paid: ['pending', 'authorized', 'failed'],
+  failed: ['pending', 'authorized'],
+  partially_refunded: ['paid', 'partially_refunded'],
+  refunded: ['paid', 'partially_refunded'],
+}
+
+// Valores em reais; compara em centavos para não depender de ponto flutuante
+const toCents = (amount: number) => Math.round(Number(amount) * 100)
+
+const amountsMatch = (received: number | undefined, expected: number) =>
+  received != null && toCents(received) === toCents(expected)
+
+// Aplica um evento do PSP ao pagamento e à corrida. Eventos repetidos não
+// mudam nada; um pagamento que chega depois da expiração ainda vale.
+// Só a cobrança mais recente da corrida mexe na corrida: um Pix substituído
+// que seja pago depois fica registrado no pagamento, para o admin estornar.
+export async function applyPaymentEvent(supabaseClient: SupabaseClient, providerName: string, event: PaymentEvent) {
+  const { data: payment, error } = await supabaseClient
+    .from('payments')
+    .select('*')
+    .eq('provider', providerName)
+    .eq('provider_charge_id', event.providerChargeId)
+    .maybeSingle()
+
+  if (error) throw error
+  if (!payment) return null
+
+  let update: Record<string, unknown> | null = null
+  let ridePaymentStatus: string | null = null
+
+  // Pago com valor diferente da cobrança não quita a corrida; fica para o admin
+  if (event.type === 'paid' && !amountsMatch(event.amount, payment.amount)) {
+    console.warn(`⚠️ Payment ${payment.id} paid with R$ ${event.amount ?? '?'}, expected R$ ${payment.amount}`)
+    return payment
+  }
+
+  if (event.type === 'authorized' && payment.status === 'pending') {
+    update = { status: 'authorized' }
+    ridePaymentStatus = 'authorized'
+  } else if (event.type === 'paid' && ['pending', 'authorized', 'expired'].includes(payment.status)) {
+    update = { status: 'paid', paid_at: event.occurredAt }
+    ridePaymentStatus = 'paid'
+  } else if (event.type === 'failed' && ['pending', 'authorized'].includes(payment.status)) {
+    update = { status: 'failed' }
+    ridePaymentStatus = 'failed'
+  } else if (event.type === 'expired' && payment.status === 'pending') {
+    update = { status: 'expired' }
+  } else if (event.type === 'refunded' && ['paid', 'partially_refunded'].includes(payment.status)) {
+    const lastRefundId = (payment.provider_payload as { refundId?: string } | null)?.refundId
+    if (event.refundId && event.refundId === lastRefundId) return payment
+
+    // Estornos parciais se somam até o valor da cobrança
+    const refundedCents = toCents(payment.refund_amount ?? 0)
+    const remainingCents = toCents(payment.amount) - refundedCents
+    const refundCents = event.amount != null ? toCents(event.amount) : remainingCents
+
+    if (refundCents <= 0 || refundCents > remainingCents) {
+      console.warn(`⚠️ Payment ${payment.id} refund of R$ ${event.amount ?? '?'} exceeds the R$ ${remainingCents / 100} left`)
+      return payment
+    }
+
+    const status = refundCents === remainingCents ? 'refunded' : 'partially_refunded'
+    update = {
+      status,
+      refunded_at: event.occurredAt,
+      refund_amount: (refundedCents + refundCents) / 100,
+    }
+    ridePaymentStatus = status
+  }
+
+  if (!update) return payment
+
+  if (ridePaymentStatus) {
+    const { data: current, error: currentError } = await supabaseClient
+      .from('payments')
+      .select('id')
+      .eq('ride_id', payment.ride_id)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
+    if (currentError) throw currentError
+
+    if (current?.id !== payment.id) {
+      console.warn(`⚠️ Payment ${payment.id} ${event.type} but it is no longer the current charge of ride ${payment.ride_id}`)
+      ridePaymentStatus = null
+    }
+  }
+
+  const { data: updated, error: updateError } = await supabaseClient
+    .from('payments')
+    .update({ ...update, provider_payload: event.payload })
+    .eq('id', payment.id)
+    .select()
+    .single()
+
+  if (updateError) throw updateError
+
+  if (ridePaymentStatus) {
+    // Só move a corrida nas transições aceitas pelo banco: um segundo Pix
+    // pago, por exemplo, não mexe em uma corrida já quitada
+    const { error: rideError } = await supabaseClient
+      .from('rides')
+      .update({ payment_status: ridePaymentStatus })
+      .eq('id', payment.ride_id)
+      .in('payment_status', RIDE_PAYMENT_TRANSITIONS_FROM[ridePaymentStatus])
+
+    if (rideError) throw rideError
+  }
+
+  return updated
+}
+
+// Cobra o cartão no fim da viagem: autoriza o valor final e captura em seguida.
+// Devolve o pagamento resultante (paid ou failed).
+export async function chargeCardForRide(
+  supabaseClient: SupabaseClient,
+  provider: PaymentProvider,
+  ride: { id: string, final_price: number }
+) {
+  const reference = `${ride.id.replace(/-/g, '').slice(0, 16)}${Date.now().toString(36)}`
+  const authorization = await provider.authorizeCard({
+    reference,
+    amount: ride.final_price,
+    description: `Corrida ${ride.id.slice(0, 8)}`,
+  })
+
+  const { error: insertError } = await supabaseClient
+    .from('payments')
+    .insert({
+      ride_id: ride.id,
+      provider: provider.name,
+      provider_charge_id: authorization.providerChargeId,
+      method: 'card',
+      amount: ride.final_price,
+      status: 'pending',
+      txid: reference,
+    })
+
+  if (insertError) throw insertError
+
+  const event = (type: PaymentEvent['type'], payload: unknown): PaymentEvent => ({
+    providerChargeId: authorization.providerChargeId,
+    type,
+    amount: ride.final_price,
+    occurredAt: new Date().toISOString(),
+    payload,
+  })
+
+  if (!authorization.approved) {
+    return applyPaymentEvent(supabaseClient, provider.name, event('failed', { reason: authorization.declineReason }))
+  }
+
+  await applyPaymentEvent(supabaseClient, provider.name, event('authorized', authorization))
+
+  const { captured } = await provider.capture(authorization.providerChargeId, ride.final_price)
+
+  return applyPaymentEvent(
+    supabaseClient,
+    provider.name,
+    event(captured ? 'paid' : 'failed', { captured })
+  )
+}
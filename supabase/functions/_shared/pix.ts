@@ -0,0 +1,76 @@
+// Montagem do BR Code do Pix (padrão EMV QRCPS-MPM do Banco Central).
+// Cada campo é ID (2 dígitos) + tamanho (2 dígitos) + valor, e o código
+// termina com o CRC16 de tudo o que vem antes.
+
+export type PixQrType = 'static' | 'dynamic'
+
+export interface PixBrCodeInput {
+  merchantName: string
+  merchantCity: string
+  // QR estático usa a chave Pix; o dinâmico aponta para a URL da cobrança no PSP
+  key?: string
+  location?: string
+  amount?: number
+  txid?: string
+  description?: string
+}
+
+const PIX_GUI = 'br.gov.bcb.pix'
+
+const field = (id: string, value: string) =>
+  `${id}${value.length.toString().padStart(2, '0')}${value}`
+
+// O BR Code só aceita ASCII; nomes e cidades perdem acentos e são truncados
+const toAscii = (value: string, maxLength: number) =>
+  value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^\x20-\x7E]/g, '')
+    .trim()
+    .slice(0, maxLength)
+
+// CRC16-CCITT (polinômio 0x1021, valor inicial 0xFFFF)
+export function crc16(payload: string): string {
+  let crc = 0xFFFF
+  for (let i = 0; i < payload.length; i++) {
+    crc ^= payload.charCodeAt(i) << 8
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x8000 ? ((crc << 1) ^ 0x1021) & 0xFFFF : (crc << 1) & 0xFFFF
+    }
+  }
+  return crc.toString(16).toUpperCase().padStart(4, '0')
+}
+
+export function buildPixBrCode(input: PixBrCodeInput): string {
+  if (!input.key && !input.location) {
+    throw new Error('Pix BR Code requires a key (static) or a location (dynamic)')
+  }
+
+  const isDynamic = !!input.location
+
+  const accountInfo = isDynamic
+    ? field('00', PIX_GUI) + field('25', input.location!.replace(/^https?:\/\//, ''))
+    : field('00', PIX_GUI) +
+      field('01', input.key!) +
+      (input.description ? field('02', toAscii(input.description, 72)) : '')
+
+  // No dinâmico o txid fica no PSP; no estático vai no próprio código
+  const txid = isDynamic
+    ? '***'
+    : (input.txid ?? '***').replace(/[^A-Za-z0-9]/g, '').slice(0, 25) || '***'
+
+  const payload =
+    field('00', '01') +
+    (isDynamic ? field('01', '12') : '') +
+    field('26', accountInfo) +
+    field('52', '0000') +
+    field('53', '986') +
+    (input.amount != null && input.amount > 0 ? field('54', input.amount.toFixed(2)) : '') +
+    field('58', 'BR') +
+    field('59', toAscii(input.merchantName, 25)) +
+    field('60', toAscii(input.merchantCity, 15)) +
+    field('62', field('05', txid)) +
+    '6304'
+
+  return payload + crc16(payload)
+}
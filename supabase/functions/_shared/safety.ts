@@ -0,0 +1,162 @@
+// Detecção de situações suspeitas durante a viagem, usada pelo
+// ride-jobs-worker (safety_check) e pelo app (src/lib/rideSafety.ts).
+// Módulo puro, sem imports.
+
+export type SafetyAlertType = 'route_deviation' | 'long_stop' | 'overtime'
+
+export interface SafetyPoint {
+  lat: number
+  lng: number
+}
+
+export interface SafetySettings {
+  // Distância da rota planejada a partir da qual o motorista saiu da rota
+  safety_route_deviation_m: number
+  // Minutos sem sair do lugar, longe das paradas e do destino
+  safety_stop_minutes: number
+  // Quanto (%) a viagem pode passar de estimated_duration_minutes
+  safety_overtime_percentage: number
+}
+
+export const DEFAULT_SAFETY_SETTINGS: SafetySettings = {
+  safety_route_deviation_m: 500,
+  safety_stop_minutes: 5,
+  safety_overtime_percentage: 50,
+}
+
+// Parar até esta distância de uma parada ou do destino é esperado
+const EXPECTED_STOP_RADIUS_M = 150
+
+export interface TripSnapshot {
+  now: Date
+  startedAt: string
+  estimatedDurationMinutes: number | null
+  // Posição atual do motorista; null quando a transmissão parou
+  position: SafetyPoint | null
+  // Último ponto gravado em ride_tracks (ou o início da viagem)
+  lastMovedAt: string
+  // Rota planejada decodificada; vazia quando não foi possível obter
+  plannedRoute: SafetyPoint[]
+  // Paradas restantes e destino
+  expectedStops: SafetyPoint[]
+}
+
+export interface SafetyFinding {
+  type: SafetyAlertType
+  details: Record<string, number>
+}
+
+export function resolveSafetySettings(source?: Partial<Record<keyof SafetySettings, number | null>> | null): SafetySettings {
+  return {
+    safety_route_deviation_m: source?.safety_route_deviation_m ?? DEFAULT_SAFETY_SETTINGS.safety_route_deviation_m,
+    safety_stop_minutes: source?.safety_stop_minutes ?? DEFAULT_SAFETY_SETTINGS.safety_stop_minutes,
+    safety_overtime_percentage:
+      source?.safety_overtime_percentage ?? DEFAULT_SAFETY_SETTINGS.safety_overtime_percentage,
+  }
+}
+
+function distanceMeters(from: SafetyPoint, to: SafetyPoint): number {
+  const R = 6371000
+  const dLat = (to.lat - from.lat) * Math.PI / 180
+  const dLng = (to.lng - from.lng) * Math.PI / 180
+  const a =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(from.lat * Math.PI / 180) * Math.cos(to.lat * Math.PI / 180) *
+    Math.sin(dLng / 2) * Math.sin(dLng / 2)
+  return R * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a))
+}
+
+// Polyline codificada do Google (overview_polyline.points)
+export function decodePolyline(encoded: string): SafetyPoint[] {
+  const points: SafetyPoint[] = []
+  let index = 0
+  let lat = 0
+  let lng = 0
+
+  while (index < encoded.length) {
+    for (const axis of ['lat', 'lng'] as const) {
+      let result = 0
+      let shift = 0
+      let byte: number
+      do {
+        byte = encoded.charCodeAt(index++) - 63
+        result |= (byte & 0x1f) << shift
+        shift += 5
+      } while (byte >= 0x20 && index < encoded.length)
+
+      const delta = result & 1 ? ~(result >> 1) : result >> 1
+      if (axis === 'lat') lat += delta
+      else lng += delta
+    }
+
+    points.push({ lat: lat / 1e5, lng: lng / 1e5 })
+  }
+
+  return points
+}
+
+// Menor distância do ponto à rota, em metros. Os trechos são projetados num
+// plano local em volta do ponto, o que basta para distâncias urbanas.
+export function distanceToRouteMeters(point: SafetyPoint, route: SafetyPoint[]): number {
+  if (route.length === 0) return Infinity
+  if (route.length === 1) return distanceMeters(point, route[0])
+
+  const R = 6371000
+  const cosLat = Math.cos(point.lat * Math.PI / 180)
+  const project = (p: SafetyPoint) => ({
+    x: (p.lng - point.lng) * Math.PI / 180 * R * cosLat,
+    y: (p.lat - point.lat) * Math.PI / 180 * R,
+  })
+
+  let best = Infinity
+  for (let i = 1; i < route.length; i++) {
+    const a = project(route[i - 1])
+    const b = project(route[i])
+    const dx = b.x - a.x
+    const dy = b.y - a.y
+    const lengthSq = dx * dx + dy * dy
+    const t = lengthSq > 0 ? Math.max(0, Math.min(1, -(a.x * dx + a.y * dy) / lengthSq)) : 0
+    best = Math.min(best, Math.hypot(a.x + t * dx, a.y + t * dy))
+  }
+
+  return best
+}
+
+const minutesSince = (from: string, now: Date) => (now.getTime() - new Date(from).getTime()) / 60000
+
+// Tudo o que chama atenção na viagem agora; quem decide se vira alerta
+// (um aberto por tipo, intervalo depois de confirmado) é o banco
+export function evaluateTripSafety(trip: TripSnapshot, settings: SafetySettings): SafetyFinding[] {
+  const findings: SafetyFinding[] = []
+
+  if (trip.position && trip.plannedRoute.length > 0) {
+    const deviation = distanceToRouteMeters(trip.position, trip.plannedRoute)
+    if (deviation > settings.safety_route_deviation_m) {
+      findings.push({ type: 'route_deviation', details: { distance_m: Math.round(deviation) } })
+    }
+  }
+
+  const stoppedMinutes = minutesSince(trip.lastMovedAt, trip.now)
+  const nearExpectedStop = !!trip.position && trip.expectedStops.some(stop =>
+    distanceMeters(trip.position as SafetyPoint, stop) <= EXPECTED_STOP_RADIUS_M
+  )
+  if (stoppedMinutes >= settings.safety_stop_minutes && !nearExpectedStop) {
+    findings.push({ type: 'long_stop', details: { stopped_minutes: Math.floor(stoppedMinutes) } })
+  }
+
+  if (trip.estimatedDurationMinutes && trip.estimatedDurationMinutes > 0) {
+    const tripMinutes = minutesSince(trip.startedAt, trip.now)
+    const limit = trip.estimatedDurationMinutes * (1 + settings.safety_overtime_percentage / 100)
+    if (tripMinutes > limit) {
+      findings.push({
+        type: 'overtime',
+        details: {
+          trip_minutes: Math.floor(tripMinutes),
+          estimated_minutes: trip.estimatedDurationMinutes,
+        },
+      })
+    }
+  }
+
+  return findings
+}
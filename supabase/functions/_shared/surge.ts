@@ -0,0 +1,84 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { calculateDistance } from './geo.ts'
+
+// Tarifa dinâmica: compara pedidos em aberto com motoristas online na região
+// da origem e transforma a razão entre eles em um multiplicador limitado
+
+export interface SurgeSettings {
+  surge_enabled: boolean
+  surge_radius_km: number
+  // Razão pedidos/motoristas a partir da qual a dinâmica começa
+  surge_demand_threshold: number
+  // Quanto o multiplicador sobe para cada ponto da razão acima do limiar
+  surge_sensitivity: number
+  surge_max_multiplier: number
+}
+
+export interface AreaDemand {
+  openRequests: number
+  onlineDrivers: number
+}
+
+export const DEFAULT_SURGE_SETTINGS: SurgeSettings = {
+  surge_enabled: false,
+  surge_radius_km: 3,
+  surge_demand_threshold: 1.0,
+  surge_sensitivity: 0.5,
+  surge_max_multiplier: 2.0,
+}
+
+// Motoristas sem atualização há mais tempo que isso não contam como oferta
+const DRIVER_LOCATION_MAX_AGE_MS = 2 * 60 * 1000
+
+export function resolveSurgeSettings(source: Partial<SurgeSettings> | null | undefined): SurgeSettings {
+  return {
+    surge_enabled: source?.surge_enabled ?? DEFAULT_SURGE_SETTINGS.surge_enabled,
+    surge_radius_km: source?.surge_radius_km ?? DEFAULT_SURGE_SETTINGS.surge_radius_km,
+    surge_demand_threshold: source?.surge_demand_threshold ?? DEFAULT_SURGE_SETTINGS.surge_demand_threshold,
+    surge_sensitivity: source?.surge_sensitivity ?? DEFAULT_SURGE_SETTINGS.surge_sensitivity,
+    surge_max_multiplier: source?.surge_max_multiplier ?? DEFAULT_SURGE_SETTINGS.surge_max_multiplier,
+  }
+}
+
+export function calculateSurgeMultiplier(demand: AreaDemand, settings: SurgeSettings): number {
+  if (!settings.surge_enabled) return 1
+
+  const ratio = demand.openRequests / Math.max(demand.onlineDrivers, 1)
+  if (ratio <= settings.surge_demand_threshold) return 1
+
+  const multiplier = 1 + (ratio - settings.surge_demand_threshold) * settings.surge_sensitivity
+  // Arredonda em passos de 0.1 para o passageiro ver um número simples
+  return Math.round(Math.min(multiplier, settings.surge_max_multiplier) * 10) / 10
+}
+
+export async function loadAreaDemand(
+  supabaseClient: SupabaseClient,
+  point: { lat: number, lng: number },
+  radiusKm: number
+): Promise<AreaDemand> {
+  const [{ data: openRides, error: ridesError }, { data: drivers, error: driversError }] = await Promise.all([
+    supabaseClient
+      .from('rides')
+      .select('origin_lat, origin_lng')
+      .eq('status', 'requested'),
+    supabaseClient
+      .from('driver_locations')
+      .select('lat, lng')
+      .eq('is_online', true)
+      .gte('last_update', new Date(Date.now() - DRIVER_LOCATION_MAX_AGE_MS).toISOString())
+  ])
+
+  if (ridesError) throw ridesError
+  if (driversError) throw driversError
+
+  const withinRadius = (lat: number, lng: number) => calculateDistance(point, { lat, lng }) <= radiusKm
+
+  return {
+    openRequests: (openRides ?? []).filter((ride: { origin_lat: number, origin_lng: number }) =>
+      withinRadius(ride.origin_lat, ride.origin_lng)
+    ).length,
+    onlineDrivers: (drivers ?? []).filter((driver: { lat: number, lng: number }) =>
+      withinRadius(driver.lat, driver.lng)
+    ).length,
+  }
+}
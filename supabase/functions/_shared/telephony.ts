@@ -0,0 +1,60 @@
+// Abstração do provedor de telefonia para o contato mascarado. A função
+// ride-contact e o ride-jobs-worker só conversam com esta interface; trocar
+// de provedor é implementar um novo e escolhê-lo em TELEPHONY_PROVIDER.
+//
+// Variáveis de ambiente:
+//   TELEPHONY_PROVIDER   provedor em uso (hoje apenas 'fake')
+//   FAKE_PROXY_NUMBER    número intermediário devolvido pelo provedor fake
+
+export interface ProxySessionRequest {
+  // Token da sessão em ride_contact_sessions
+  reference: string
+  callerPhone: string
+  targetPhone: string
+  // null enquanto a corrida está em andamento
+  expiresAt: Date | null
+}
+
+export interface ProxySession {
+  providerSessionId: string
+  // Número que o usuário liga; o provedor encaminha para targetPhone
+  proxyNumber: string
+}
+
+export interface TelephonyProvider {
+  name: string
+  createProxySession(request: ProxySessionRequest): Promise<ProxySession>
+  // Depois de fechada, ligações para o número intermediário não completam
+  closeProxySession(providerSessionId: string): Promise<void>
+}
+
+// Provedor local: não liga para ninguém, só registra as sessões no log.
+// Todas as sessões usam o mesmo número intermediário.
+export function createFakeTelephonyProvider(): TelephonyProvider {
+  const proxyNumber = Deno.env.get('FAKE_PROXY_NUMBER') ?? '+5511900000000'
+
+  return {
+    name: 'fake',
+
+    async createProxySession(request) {
+      const providerSessionId = `fake_${request.reference}`
+      console.log(`☎️ [fake] Proxy session ${providerSessionId} opened until ${request.expiresAt?.toISOString() ?? 'ride end'}`)
+      return { providerSessionId, proxyNumber }
+    },
+
+    async closeProxySession(providerSessionId) {
+      console.log(`☎️ [fake] Proxy session ${providerSessionId} closed`)
+    },
+  }
+}
+
+export function getTelephonyProvider(): TelephonyProvider {
+  const provider = Deno.env.get('TELEPHONY_PROVIDER') ?? 'fake'
+
+  switch (provider) {
+    case 'fake':
+      return createFakeTelephonyProvider()
+    default:
+      throw new Error(`Unknown telephony provider: ${provider}`)
+  }
+}
@@ -0,0 +1,105 @@
+// Trajeto gravado durante a viagem (ride_tracks), compartilhado entre o app
+// (src/lib/rideTracks.ts) e a complete-ride. Módulo puro, sem imports.
+
+export interface TrackPoint {
+  lat: number
+  lng: number
+  // Raio de incerteza do GPS em metros, quando informado
+  accuracy?: number | null
+  recorded_at: string
+}
+
+export interface TrackSettings {
+  // Pontos com incerteza maior que isto são descartados
+  track_max_accuracy_m: number
+  // Diferença (%) entre o trajeto gravado e a estimativa a partir da qual
+  // o preço final usa a distância gravada
+  track_distance_threshold_percentage: number
+}
+
+export const DEFAULT_TRACK_SETTINGS: TrackSettings = {
+  track_max_accuracy_m: 50,
+  track_distance_threshold_percentage: 15,
+}
+
+// Deslocamentos menores que isto entre pontos aceitos são tratados como ruído
+const MIN_TRACK_STEP_M = 5
+
+// Mais rápido que isto (~180 km/h) entre dois pontos é salto do GPS
+const MAX_TRACK_SPEED_MS = 50
+
+function distanceMeters(from: { lat: number, lng: number }, to: { lat: number, lng: number }): number {
+  const R = 6371000
+  const dLat = (to.lat - from.lat) * Math.PI / 180
+  const dLng = (to.lng - from.lng) * Math.PI / 180
+  const a =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(from.lat * Math.PI / 180) * Math.cos(to.lat * Math.PI / 180) *
+    Math.sin(dLng / 2) * Math.sin(dLng / 2)
+  return R * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a))
+}
+
+export function resolveTrackSettings(source?: Partial<Record<keyof TrackSettings, number | null>> | null): TrackSettings {
+  return {
+    track_max_accuracy_m: source?.track_max_accuracy_m ?? DEFAULT_TRACK_SETTINGS.track_max_accuracy_m,
+    track_distance_threshold_percentage:
+      source?.track_distance_threshold_percentage ?? DEFAULT_TRACK_SETTINGS.track_distance_threshold_percentage,
+  }
+}
+
+// Remove o ruído do GPS: pontos imprecisos, passos menores que a incerteza
+// dos dois pontos (o carro parado "andando") e saltos impossíveis.
+// Espera os pontos em ordem de recorded_at.
+export function filterTrackJitter<T extends TrackPoint>(points: T[], maxAccuracyM: number): T[] {
+  const kept: T[] = []
+
+  for (const point of points) {
+    if (point.accuracy != null && point.accuracy > maxAccuracyM) continue
+
+    const last = kept[kept.length - 1]
+    if (!last) {
+      kept.push(point)
+      continue
+    }
+
+    const step = distanceMeters(last, point)
+    const noise = Math.max(MIN_TRACK_STEP_M, (last.accuracy ?? 0) + (point.accuracy ?? 0))
+    if (step < noise) continue
+
+    const seconds = (new Date(point.recorded_at).getTime() - new Date(last.recorded_at).getTime()) / 1000
+    if (seconds > 0 && step / seconds > MAX_TRACK_SPEED_MS) continue
+
+    kept.push(point)
+  }
+
+  return kept
+}
+
+// Distância percorrida em km, somando os trechos entre pontos já filtrados
+export function trackDistanceKm(points: TrackPoint[]): number {
+  let meters = 0
+  for (let i = 1; i < points.length; i++) {
+    meters += distanceMeters(points[i - 1], points[i])
+  }
+  return Math.round(meters) / 1000
+}
+
+// Distância usada no preço final: a gravada quando difere da estimativa além
+// do limite configurado, senão a estimada. Sem trajeto utilizável fica a estimativa.
+export function resolveFareDistance(
+  estimatedKm: number,
+  trackedKm: number | null,
+  settings: TrackSettings
+): { distanceKm: number, source: 'estimate' | 'tracked' } {
+  if (trackedKm == null || trackedKm <= 0) {
+    return { distanceKm: estimatedKm, source: 'estimate' }
+  }
+
+  const difference = estimatedKm > 0
+    ? Math.abs(trackedKm - estimatedKm) / estimatedKm * 100
+    : 100
+
+  return difference > settings.track_distance_threshold_percentage
+    ? { distanceKm: trackedKm, source: 'tracked' }
+    : { distanceKm: estimatedKm, source: 'estimate' }
+}
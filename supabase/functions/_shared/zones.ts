@@ -0,0 +1,47 @@
+// Zonas de atendimento (polígonos definidos pelo admin). Módulo puro, usado
+// pelas edge functions e pelo app através de src/lib/serviceZones.ts.
+
+export interface ZonePoint {
+  lat: number
+  lng: number
+}
+
+export interface ServiceZoneShape {
+  id: string
+  name: string
+  polygon: ZonePoint[]
+  is_active: boolean
+}
+
+// Ray casting: conta quantas arestas um raio a partir do ponto atravessa
+export function isPointInPolygon(point: ZonePoint, polygon: ZonePoint[]): boolean {
+  let inside = false
+
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i]
+    const b = polygon[j]
+    const crosses = (a.lat > point.lat) !== (b.lat > point.lat)
+      && point.lng < ((b.lng - a.lng) * (point.lat - a.lat)) / (b.lat - a.lat) + a.lng
+    if (crosses) inside = !inside
+  }
+
+  return inside
+}
+
+export function findZoneForPoint<T extends ServiceZoneShape>(zones: T[], point: ZonePoint): T | null {
+  return zones.find(zone => zone.is_active && zone.polygon.length >= 3 && isPointInPolygon(point, zone.polygon)) ?? null
+}
+
+// Centro e raio aproximado (km) do polígono, para centralizar o mapa e enviesar a busca
+export function getZoneBounds(zone: ServiceZoneShape): { center: ZonePoint, radiusKm: number } {
+  const lats = zone.polygon.map(p => p.lat)
+  const lngs = zone.polygon.map(p => p.lng)
+  const center = {
+    lat: (Math.min(...lats) + Math.max(...lats)) / 2,
+    lng: (Math.min(...lngs) + Math.max(...lngs)) / 2,
+  }
+  const latSpanKm = (Math.max(...lats) - Math.min(...lats)) * 111
+  const lngSpanKm = (Math.max(...lngs) - Math.min(...lngs)) * 111 * Math.cos(center.lat * Math.PI / 180)
+
+  return { center, radiusKm: Math.max(latSpanKm, lngSpanKm) / 2 }
+}
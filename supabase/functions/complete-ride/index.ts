@@ -0,0 +1,209 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { calculateFare, resolveFareSettings } from '../_shared/fare.ts'
+import { chargeCardForRide, getPaymentProvider } from '../_shared/payments.ts'
+import { filterTrackJitter, resolveFareDistance, resolveTrackSettings, trackDistanceKm } from '../_shared/tracks.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(
+    JSON.stringify(body),
+    { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+  )
+
+const minutesBetween = (from: string | null, to: string | null) => {
+  if (!from || !to) return 0
+  return Math.max((new Date(to).getTime() - new Date(from).getTime()) / 60000, 0)
+}
+
+// Encerra a viagem e conclui a corrida em três passos:
+// 1. na primeira chamada fecha o preço final com os tempos reais (viagem entre
+//    started_at e trip_ended_at, espera entre pickup_arrived_at e started_at)
+//    e com a distância gravada em ride_tracks quando ela foge da estimativa;
+// 2. liquida o pagamento conforme a forma escolhida: dinheiro exige a confirmação
+//    do motorista (cashReceived), cartão é cobrado no PSP e Pix precisa estar pago;
+// 3. conclui a corrida; o repasse em financial_transfers é gravado pelo trigger
+//    record_ride_financial_transfer na mesma transação.
+// Enquanto o pagamento não fecha, a corrida continua em andamento com o preço fixado.
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  const authHeader = req.headers.get('Authorization')
+  if (!authHeader) {
+    return jsonResponse({ success: false, error: 'Unauthorized - Authentication required' }, 401)
+  }
+
+  try {
+    const { rideId, cashReceived = false } = await req.json()
+
+    if (!rideId) {
+      return jsonResponse({ success: false, error: 'rideId is required' }, 400)
+    }
+
+    // A transição roda com o token do motorista para valer a mesma regra de atores
+    const userClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      { global: { headers: { Authorization: authHeader } } }
+    )
+
+    const { data: { user }, error: authError } = await userClient.auth.getUser()
+
+    if (authError || !user) {
+      console.error('❌ Invalid authentication token:', authError)
+      return jsonResponse({ success: false, code: 'NOT_AUTHENTICATED' }, 401)
+    }
+
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    )
+
+    const { data: loadedRide, error: rideError } = await supabaseClient
+      .from('rides')
+      .select('*')
+      .eq('id', rideId)
+      .maybeSingle()
+
+    if (rideError) throw rideError
+
+    let ride = loadedRide
+
+    if (!ride) {
+      return jsonResponse({ success: false, code: 'RIDE_NOT_FOUND' }, 404)
+    }
+
+    if (ride.driver_id !== user.id) {
+      return jsonResponse({ success: false, code: 'FORBIDDEN_TRANSITION' }, 403)
+    }
+
+    if (ride.status !== 'in_progress') {
+      return jsonResponse({ success: false, code: 'INVALID_TRANSITION', details: `Ride is ${ride.status}` }, 409)
+    }
+
+    const [{ data: settings }, { data: zone }] = await Promise.all([
+      supabaseClient
+        .from('system_settings')
+        .select('*')
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .maybeSingle(),
+      ride.service_zone_id
+        ? supabaseClient
+          .from('service_zones')
+          .select('fare_overrides')
+          .eq('id', ride.service_zone_id)
+          .maybeSingle()
+        : Promise.resolve({ data: null })
+    ])
+
+    const fareSettings = resolveFareSettings(settings, ride.requested_vehicle_type, zone?.fare_overrides)
+    let fare = ride.final_fare_breakdown
+
+    // Fim da viagem: o preço fica fixado mesmo que o pagamento demore
+    if (!ride.trip_ended_at || ride.final_price == null) {
+      const tripEndedAt = new Date().toISOString()
+
+      const { data: trackPoints, error: trackError } = await supabaseClient
+        .from('ride_tracks')
+        .select('lat, lng, accuracy, recorded_at')
+        .eq('ride_id', rideId)
+        .order('recorded_at', { ascending: true })
+
+      if (trackError) throw trackError
+
+      const trackSettings = resolveTrackSettings(settings)
+      const track = filterTrackJitter(trackPoints ?? [], trackSettings.track_max_accuracy_m)
+      const trackedDistanceKm = track.length >= 2 ? trackDistanceKm(track) : null
+      const fareDistance = resolveFareDistance(ride.distance_km ?? 0, trackedDistanceKm, trackSettings)
+
+      fare = calculateFare(
+        {
+          distanceKm: fareDistance.distanceKm,
+          durationMinutes: minutesBetween(ride.started_at, tripEndedAt),
+          waitingMinutes: minutesBetween(ride.pickup_arrived_at, ride.started_at),
+          surgeMultiplier: ride.surge_multiplier ?? 1,
+        },
+        fareSettings
+      )
+
+      const { data: endedRide, error: updateError } = await supabaseClient
+        .from('rides')
+        .update({
+          final_price: fare.total,
+          final_fare_breakdown: fare,
+          trip_ended_at: tripEndedAt,
+          tracked_distance_km: trackedDistanceKm,
+          fare_distance_source: fareDistance.source
+        })
+        .eq('id', rideId)
+        .select()
+        .single()
+
+      if (updateError) {
+        console.error('❌ Error saving final price:', updateError)
+        throw updateError
+      }
+
+      ride = endedRide
+      console.log(`🏁 Trip ${rideId} ended with final price R$ ${fare.total} (${fareDistance.distanceKm} km, ${fareDistance.source})`)
+    }
+
+    if (ride.payment_status !== 'paid') {
+      if (ride.payment_method === 'cash') {
+        if (!cashReceived) {
+          return jsonResponse({ success: false, code: 'CASH_CONFIRMATION_REQUIRED', ride, fare }, 409)
+        }
+
+        const { data: paidRide, error: cashError } = await supabaseClient
+          .from('rides')
+          .update({ payment_status: 'paid' })
+          .eq('id', rideId)
+          .select()
+          .single()
+
+        if (cashError) throw cashError
+        ride = paidRide
+        console.log(`💵 Cash payment confirmed by driver for ride ${rideId}`)
+      } else if (ride.payment_method === 'card') {
+        const payment = await chargeCardForRide(supabaseClient, getPaymentProvider(), ride)
+
+        if (payment?.status !== 'paid') {
+          console.log(`💳 Card payment failed for ride ${rideId}`)
+          return jsonResponse({ success: false, code: 'PAYMENT_FAILED', ride: { ...ride, payment_status: 'failed' }, fare }, 402)
+        }
+
+        ride = { ...ride, payment_status: 'paid' }
+        console.log(`💳 Card payment captured for ride ${rideId}`)
+      } else {
+        // Pix: o passageiro paga pelo app e o webhook do PSP confirma
+        return jsonResponse({ success: false, code: 'PAYMENT_PENDING', ride, fare }, 409)
+      }
+    }
+
+    const { data: completedRide, error: transitionError } = await userClient.rpc('transition_ride_status', {
+      p_ride_id: rideId,
+      p_status: 'completed'
+    })
+
+    if (transitionError) {
+      console.error('❌ Error completing ride:', transitionError)
+      return jsonResponse({ success: false, code: transitionError.message, details: transitionError.details }, 409)
+    }
+
+    console.log(`✅ Ride ${rideId} completed with final price R$ ${fare.total}`)
+
+    return jsonResponse({ success: true, ride: completedRide, fare })
+
+  } catch (error) {
+    console.error('❌ Error in complete-ride:', error)
+    return jsonResponse({ success: false, error: error.message }, 500)
+  }
+})
@@ -0,0 +1,335 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { fetchRoute } from '../_shared/directions.ts'
+import { calculateFare, resolveFareSettings } from '../_shared/fare.ts'
+import { calculateDistance } from '../_shared/geo.ts'
+import { calculateSurgeMultiplier, loadAreaDemand, resolveSurgeSettings } from '../_shared/surge.ts'
+import { findZoneForPoint, ServiceZoneShape } from '../_shared/zones.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+interface Coords {
+  lat: number
+  lng: number
+}
+
+interface Stop extends Coords {
+  address: string
+}
+
+// Usado quando system_settings ainda não tem max_ride_stops
+const DEFAULT_MAX_RIDE_STOPS = 3
+
+const PAYMENT_METHODS = ['cash', 'card', 'pix']
+
+// Espelho do enum public.vehicle_type
+const VEHICLE_TYPES = ['motorcycle', 'car']
+
+interface ServiceZone extends ServiceZoneShape {
+  fare_overrides: Record<string, Record<string, number>> | null
+}
+
+// Cria a corrida com distância, duração e preço calculados no servidor,
+// para que o cliente não consiga enviar o próprio valor.
+// Com action 'quote' apenas devolve o preço e a tarifa dinâmica atual; na criação,
+// o passageiro informa o multiplicador que aceitou e a corrida só é criada se
+// a dinâmica não tiver subido desde então.
+// Com scheduled_for a corrida é agendada: nasce em scheduled, sem tarifa
+// dinâmica, e o ride-jobs-worker a despacha perto do horário.
+// Paradas intermediárias entram na rota e no preço e são gravadas em ride_stops.
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  const authHeader = req.headers.get('Authorization')
+  if (!authHeader) {
+    return new Response(
+      JSON.stringify({ success: false, error: 'Unauthorized - Authentication required' }),
+      { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  }
+
+  try {
+    const userClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      { global: { headers: { Authorization: authHeader } } }
+    )
+
+    const { data: { user }, error: authError } = await userClient.auth.getUser()
+
+    if (authError || !user) {
+      console.error('❌ Invalid authentication token:', authError)
+      return new Response(
+        JSON.stringify({ success: false, error: 'Unauthorized - Invalid token' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    )
+
+    const {
+      action = 'create',
+      origin,
+      destination,
+      origin_address,
+      destination_address,
+      requested_vehicle_type = null,
+      accepted_surge_multiplier = 1,
+      payment_method = 'cash',
+      scheduled_for = null,
+      stops = []
+    } = await req.json()
+
+    if (!isCoords(origin) || !isCoords(destination) || !origin_address || !destination_address) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Origin and destination are required' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    if (!Array.isArray(stops) || !stops.every(isStop)) {
+      return new Response(
+        JSON.stringify({ success: false, code: 'INVALID_STOPS', error: 'Each stop needs lat, lng and address' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    if (requested_vehicle_type !== null && !VEHICLE_TYPES.includes(requested_vehicle_type)) {
+      return new Response(
+        JSON.stringify({ success: false, code: 'INVALID_VEHICLE_TYPE', error: `Unknown vehicle type: ${requested_vehicle_type}` }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    if (!PAYMENT_METHODS.includes(payment_method)) {
+      return new Response(
+        JSON.stringify({ success: false, code: 'INVALID_PAYMENT_METHOD', error: `Unknown payment method: ${payment_method}` }),
+        { status: 422, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    if (scheduled_for && action !== 'quote') {
+      const { error: scheduleError } = await userClient.rpc('check_schedule_window', {
+        p_scheduled_for: scheduled_for
+      })
+
+      if (scheduleError) {
+        return new Response(
+          JSON.stringify({ success: false, code: scheduleError.message, error: scheduleError.details }),
+          { status: 422, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+      }
+    }
+
+    // Taxa de cancelamento em aberto: o passageiro paga antes de pedir outra corrida
+    if (action !== 'quote') {
+      const { data: unpaidFee, error: unpaidFeeError } = await supabaseClient
+        .from('rides')
+        .select('id, cancellation_fee')
+        .eq('passenger_id', user.id)
+        .eq('status', 'cancelled')
+        .gt('cancellation_fee', 0)
+        .in('payment_status', ['pending', 'authorized', 'failed'])
+        .order('cancelled_at', { ascending: false })
+        .limit(1)
+        .maybeSingle()
+
+      if (unpaidFeeError) throw unpaidFeeError
+
+      if (unpaidFee) {
+        console.log(`🚫 Passenger ${user.id} owes the cancellation fee of ride ${unpaidFee.id}`)
+        return new Response(
+          JSON.stringify({ success: false, code: 'CANCELLATION_FEE_PENDING', rideId: unpaidFee.id, fee: unpaidFee.cancellation_fee }),
+          { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+      }
+    }
+
+    // Sem zonas ativas atende em qualquer lugar; com zonas, a origem precisa estar em uma
+    const { data: zones, error: zonesError } = await supabaseClient
+      .from('service_zones')
+      .select('id, name, polygon, is_active, fare_overrides')
+      .eq('is_active', true)
+
+    if (zonesError) throw zonesError
+
+    const activeZones: ServiceZone[] = zones ?? []
+    const zone = findZoneForPoint(activeZones, origin)
+
+    if (activeZones.length > 0 && !zone) {
+      console.log(`🚫 Pickup outside every service zone: ${origin.lat},${origin.lng}`)
+      return new Response(
+        JSON.stringify({ success: false, code: 'OUTSIDE_SERVICE_AREA', error: 'Pickup is outside the service area' }),
+        { status: 422, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const { data: settings } = await supabaseClient
+      .from('system_settings')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
+    const maxStops = settings?.max_ride_stops ?? DEFAULT_MAX_RIDE_STOPS
+    if (stops.length > maxStops) {
+      return new Response(
+        JSON.stringify({ success: false, code: 'TOO_MANY_STOPS', error: `At most ${maxStops} stops per ride`, maxStops }),
+        { status: 422, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const route = await getRoute(origin, destination, stops)
+
+    const surgeSettings = resolveSurgeSettings(settings)
+    // A demanda de agora não diz nada sobre o horário agendado
+    const demand = surgeSettings.surge_enabled && !scheduled_for
+      ? await loadAreaDemand(supabaseClient, origin, surgeSettings.surge_radius_km)
+      : { openRequests: 0, onlineDrivers: 0 }
+    const surgeMultiplier = calculateSurgeMultiplier(demand, surgeSettings)
+
+    const fare = calculateFare(
+      { distanceKm: route.distanceKm, durationMinutes: route.durationMinutes, surgeMultiplier },
+      resolveFareSettings(settings, requested_vehicle_type, zone?.fare_overrides)
+    )
+
+    if (action === 'quote') {
+      return new Response(
+        JSON.stringify({ success: true, fare, surgeMultiplier, demand, zone: zone && { id: zone.id, name: zone.name }, routeSource: route.source }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    if (!scheduled_for && surgeMultiplier > Number(accepted_surge_multiplier)) {
+      console.log(`⚠️ Surge rose to ${surgeMultiplier}x, passenger accepted ${accepted_surge_multiplier}x`)
+      return new Response(
+        JSON.stringify({ success: false, code: 'SURGE_CHANGED', fare, surgeMultiplier }),
+        { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const { data: ride, error: insertError } = await supabaseClient
+      .from('rides')
+      .insert({
+        passenger_id: user.id,
+        origin_lat: origin.lat,
+        origin_lng: origin.lng,
+        destination_lat: destination.lat,
+        destination_lng: destination.lng,
+        origin_address,
+        destination_address,
+        requested_vehicle_type,
+        distance_km: Math.round(route.distanceKm * 100) / 100,
+        estimated_duration_minutes: Math.round(route.durationMinutes),
+        estimated_price: fare.total,
+        estimated_fare_breakdown: fare,
+        surge_multiplier: surgeMultiplier,
+        service_zone_id: zone?.id ?? null,
+        payment_method,
+        payment_status: 'pending',
+        status: scheduled_for ? 'scheduled' : 'requested',
+        scheduled_for
+      })
+      .select()
+      .single()
+
+    if (insertError) {
+      console.error('❌ Error inserting ride:', insertError)
+      throw insertError
+    }
+
+    let rideStops: unknown[] = []
+    if (stops.length > 0) {
+      const { data: insertedStops, error: stopsError } = await supabaseClient
+        .from('ride_stops')
+        .insert(stops.map((stop: Stop, index: number) => ({
+          ride_id: ride.id,
+          position: index + 1,
+          lat: stop.lat,
+          lng: stop.lng,
+          address: stop.address
+        })))
+        .select()
+
+      if (stopsError) {
+        // Sem as paradas o preço travado não corresponde ao trajeto
+        console.error('❌ Error inserting ride stops:', stopsError)
+        await supabaseClient.from('rides').delete().eq('id', ride.id)
+        throw stopsError
+      }
+
+      rideStops = insertedStops ?? []
+    }
+
+    console.log(`✅ Ride ${ride.id} ${scheduled_for ? `scheduled for ${scheduled_for}` : 'created'} with locked price R$ ${fare.total} (${route.source})`)
+
+    return new Response(
+      JSON.stringify({ success: true, ride, stops: rideStops, fare, routeSource: route.source }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+
+  } catch (error) {
+    console.error('❌ Error in create-ride:', error)
+    return new Response(
+      JSON.stringify({ success: false, error: error.message }),
+      { 
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+      }
+    )
+  }
+})
+
+function isCoords(value: unknown): value is Coords {
+  const coords = value as Coords
+  return typeof coords?.lat === 'number' && typeof coords?.lng === 'number'
+}
+
+function isStop(value: unknown): value is Stop {
+  return isCoords(value) && typeof (value as Stop).address === 'string' && (value as Stop).address.trim() !== ''
+}
+
+// Rota pelo Google Directions passando pelas paradas; sem a API, estima pela
+// distância em linha reta de cada trecho
+async function getRoute(origin: Coords, destination: Coords, stops: Coords[] = []) {
+  const apiKey = Deno.env.get('GOOGLE_MAPS_BACKEND_API_KEY')
+
+  if (apiKey) {
+    try {
+      const route = await fetchRoute(apiKey, {
+        origin: `${origin.lat},${origin.lng}`,
+        destination: `${destination.lat},${destination.lng}`,
+        waypoints: stops.map(stop => `${stop.lat},${stop.lng}`),
+      })
+
+      if (route) {
+        return {
+          distanceKm: route.distanceKm,
+          durationMinutes: route.durationMinutes,
+          source: 'directions' as const,
+        }
+      }
+    } catch (error) {
+      console.error('⚠️ Directions API failed, falling back to straight line:', error)
+    }
+  }
+
+  // Fator 1.3 aproxima o traçado das ruas; 30 km/h é a média urbana
+  const points = [origin, ...stops, destination]
+  const distanceKm = points.slice(1)
+    .reduce((sum, point, i) => sum + calculateDistance(points[i], point), 0) * 1.3
+  return {
+    distanceKm,
+    durationMinutes: (distanceKm / 30) * 60,
+    source: 'straight_line' as const,
+  }
+}
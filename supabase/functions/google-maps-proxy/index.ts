@@ -1,5 +1,6 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { buildDirectionsQuery, DIRECTIONS_URL } from '../_shared/directions.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -103,6 +104,11 @@ serve(async (req) => {
           components: 'country:br', // Restrict to Brazil
           language: 'pt-BR',
         });
+        // Enviesa os resultados para a zona de atendimento do passageiro
+        if (params.location?.lat != null && params.location?.lng != null) {
+          queryParams.set('location', `${params.location.lat},${params.location.lng}`);
+          queryParams.set('radius', String(Math.round((params.radiusKm || 20) * 1000)));
+        }
         break;
 
       case 'place-details':
@@ -116,14 +122,11 @@ serve(async (req) => {
         break;
 
       case 'directions':
-        googleMapsUrl = 'https://maps.googleapis.com/maps/api/directions/json';
-        queryParams = new URLSearchParams({
-          key: backendApiKey,
-          origin: params.origin || '',
-          destination: params.destination || '',
-          mode: 'driving',
-          language: 'pt-BR',
-          region: 'br',
+        googleMapsUrl = DIRECTIONS_URL;
+        queryParams = buildDirectionsQuery(backendApiKey, {
+          origin: params.origin,
+          destination: params.destination,
+          waypoints: params.waypoints,
         });
         break;
 
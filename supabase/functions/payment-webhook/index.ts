@@ -0,0 +1,62 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { applyPaymentEvent, getPaymentProvider } from '../_shared/payments.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-webhook-secret',
+}
+
+// Recebe as notificações do PSP (pago, expirado, estornado).
+// Chamado pelo provedor, sem JWT; a autenticidade é validada pelo provedor.
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    const provider = getPaymentProvider()
+    const event = await provider.parseWebhook(req)
+
+    if (!event) {
+      console.error('❌ Rejected payment webhook')
+      return new Response(
+        JSON.stringify({ success: false, error: 'Invalid webhook' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    )
+
+    const payment = await applyPaymentEvent(supabaseClient, provider.name, event)
+
+    if (!payment) {
+      console.warn(`⚠️ Webhook for unknown charge ${event.providerChargeId}`)
+      return new Response(
+        JSON.stringify({ success: false, error: 'Charge not found' }),
+        { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    console.log(`💠 Payment ${payment.id} is now ${payment.status} (${event.type})`)
+
+    return new Response(
+      JSON.stringify({ success: true, status: payment.status }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+
+  } catch (error) {
+    console.error('❌ Error in payment-webhook:', error)
+    return new Response(
+      JSON.stringify({ success: false, error: error.message }),
+      { 
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+      }
+    )
+  }
+})
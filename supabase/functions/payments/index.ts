@@ -0,0 +1,230 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { applyPaymentEvent, getPaymentProvider, getPixChargeTtlMinutes, PaymentProvider } from '../_shared/payments.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(
+    JSON.stringify(body),
+    { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+  )
+
+// Pagamentos de corrida via PSP:
+//   create_pix  passageiro gera (ou reaproveita) a cobrança Pix ao fim da viagem,
+//               ou a da taxa de uma corrida que cancelou
+//   refund      admin estorna um pagamento confirmado, no todo ou em parte
+//   mock_pay    só com o provedor mock e ALLOW_MOCK_PAY=true: confirma a cobrança
+//               como se o PSP avisasse
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  const authHeader = req.headers.get('Authorization')
+  if (!authHeader) {
+    return jsonResponse({ success: false, error: 'Unauthorized - Authentication required' }, 401)
+  }
+
+  try {
+    const userClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      { global: { headers: { Authorization: authHeader } } }
+    )
+
+    const { data: { user }, error: authError } = await userClient.auth.getUser()
+
+    if (authError || !user) {
+      console.error('❌ Invalid authentication token:', authError)
+      return jsonResponse({ success: false, error: 'Unauthorized - Invalid token' }, 401)
+    }
+
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    )
+
+    const provider = getPaymentProvider()
+    const { action, rideId, paymentId, amount } = await req.json()
+
+    if (action === 'create_pix') {
+      return await createPixCharge(supabaseClient, provider, user.id, rideId)
+    }
+
+    if (action === 'refund') {
+      return await refundPayment(supabaseClient, provider, user.id, paymentId, amount)
+    }
+
+    if (action === 'mock_pay') {
+      if (provider.name !== 'mock' || Deno.env.get('ALLOW_MOCK_PAY') !== 'true') {
+        return jsonResponse({ success: false, code: 'MOCK_ONLY', error: 'mock_pay requires the mock provider and ALLOW_MOCK_PAY=true' }, 403)
+      }
+      return await mockPay(supabaseClient, provider, user.id, paymentId)
+    }
+
+    return jsonResponse({ success: false, error: `Unknown action: ${action}` }, 400)
+
+  } catch (error) {
+    console.error('❌ Error in payments:', error)
+    return jsonResponse({ success: false, error: error.message }, 500)
+  }
+})
+
+async function createPixCharge(supabaseClient: SupabaseClient, provider: PaymentProvider, userId: string, rideId: string) {
+  const { data: ride, error: rideError } = await supabaseClient
+    .from('rides')
+    .select('id, passenger_id, status, final_price, cancellation_fee, payment_method, payment_status')
+    .eq('id', rideId)
+    .maybeSingle()
+
+  if (rideError) throw rideError
+
+  if (!ride || ride.passenger_id !== userId) {
+    return jsonResponse({ success: false, code: 'RIDE_NOT_FOUND' }, 404)
+  }
+
+  if (ride.payment_status === 'paid') {
+    return jsonResponse({ success: false, code: 'ALREADY_PAID' }, 409)
+  }
+
+  // A taxa de cancelamento é paga por Pix qualquer que fosse a forma escolhida
+  const isCancellationFee = ride.status === 'cancelled' && ride.cancellation_fee > 0
+  const amount: number = isCancellationFee ? ride.cancellation_fee : ride.final_price
+
+  if (!isCancellationFee && ride.payment_method !== 'pix') {
+    return jsonResponse({ success: false, code: 'WRONG_PAYMENT_METHOD' }, 409)
+  }
+
+  // O valor só é conhecido quando o motorista encerra a viagem
+  if (!isCancellationFee && (!['in_progress', 'completed'].includes(ride.status) || ride.final_price == null)) {
+    return jsonResponse({ success: false, code: 'RIDE_NOT_PAYABLE' }, 409)
+  }
+
+  const { data: existing } = await supabaseClient
+    .from('payments')
+    .select('*')
+    .eq('ride_id', rideId)
+    .eq('status', 'pending')
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  if (existing) {
+    if (new Date(existing.expires_at) > new Date() && existing.amount === amount) {
+      return jsonResponse({ success: true, payment: existing })
+    }
+
+    await applyPaymentEvent(supabaseClient, existing.provider, {
+      providerChargeId: existing.provider_charge_id,
+      type: 'expired',
+      occurredAt: new Date().toISOString(),
+      payload: { reason: 'superseded' },
+    })
+  }
+
+  const expiresAt = new Date(Date.now() + getPixChargeTtlMinutes() * 60 * 1000)
+  // txid do Pix: até 25 caracteres alfanuméricos
+  const txid = `${rideId.replace(/-/g, '').slice(0, 16)}${Date.now().toString(36)}`.slice(0, 25)
+
+  const charge = await provider.createPixCharge({
+    txid,
+    amount,
+    description: isCancellationFee ? `Taxa de cancelamento ${rideId.slice(0, 8)}` : `Corrida ${rideId.slice(0, 8)}`,
+    expiresAt,
+  })
+
+  const { data: payment, error: insertError } = await supabaseClient
+    .from('payments')
+    .insert({
+      ride_id: rideId,
+      provider: provider.name,
+      provider_charge_id: charge.providerChargeId,
+      method: 'pix',
+      amount,
+      status: 'pending',
+      txid,
+      br_code: charge.brCode,
+      qr_type: charge.qrType,
+      qr_image_url: charge.qrImageUrl,
+      expires_at: expiresAt.toISOString(),
+    })
+    .select()
+    .single()
+
+  if (insertError) throw insertError
+
+  console.log(`💠 Pix charge ${charge.providerChargeId} created for ride ${rideId}: R$ ${amount}`)
+
+  return jsonResponse({ success: true, payment })
+}
+
+async function refundPayment(supabaseClient: SupabaseClient, provider: PaymentProvider, userId: string, paymentId: string, amount?: number) {
+  const { data: profile } = await supabaseClient
+    .from('profiles')
+    .select('user_type')
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  if (profile?.user_type !== 'admin') {
+    return jsonResponse({ success: false, code: 'FORBIDDEN' }, 403)
+  }
+
+  const { data: payment } = await supabaseClient
+    .from('payments')
+    .select('*')
+    .eq('id', paymentId)
+    .maybeSingle()
+
+  if (!payment || !['paid', 'partially_refunded'].includes(payment.status)) {
+    return jsonResponse({ success: false, code: 'PAYMENT_NOT_REFUNDABLE' }, 409)
+  }
+
+  // Sem valor, estorna o que ainda não foi estornado
+  const remaining = Math.round((payment.amount - (payment.refund_amount ?? 0)) * 100) / 100
+  const refundAmount = amount ?? remaining
+  if (refundAmount <= 0 || refundAmount > remaining) {
+    return jsonResponse({ success: false, code: 'INVALID_REFUND_AMOUNT' }, 422)
+  }
+
+  const refund = await provider.refund(payment.provider_charge_id, refundAmount)
+
+  const updated = await applyPaymentEvent(supabaseClient, payment.provider, {
+    providerChargeId: payment.provider_charge_id,
+    type: 'refunded',
+    amount: refundAmount,
+    refundId: refund.refundId,
+    occurredAt: new Date().toISOString(),
+    payload: { refundId: refund.refundId, requestedBy: userId },
+  })
+
+  console.log(`↩️ Payment ${paymentId} refunded: R$ ${refundAmount}`)
+
+  return jsonResponse({ success: true, payment: updated })
+}
+
+async function mockPay(supabaseClient: SupabaseClient, provider: PaymentProvider, userId: string, paymentId: string) {
+  const { data: payment } = await supabaseClient
+    .from('payments')
+    .select('*, rides!inner(passenger_id)')
+    .eq('id', paymentId)
+    .maybeSingle()
+
+  if (!payment || payment.rides.passenger_id !== userId) {
+    return jsonResponse({ success: false, code: 'PAYMENT_NOT_FOUND' }, 404)
+  }
+
+  const updated = await applyPaymentEvent(supabaseClient, provider.name, {
+    providerChargeId: payment.provider_charge_id,
+    type: 'paid',
+    amount: payment.amount,
+    occurredAt: new Date().toISOString(),
+    payload: { simulated: true },
+  })
+
+  return jsonResponse({ success: true, payment: updated })
+}
@@ -0,0 +1,165 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { getTelephonyProvider, TelephonyProvider } from '../_shared/telephony.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(
+    JSON.stringify(body),
+    { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+  )
+
+const CONTACT_ERROR_STATUS: Record<string, number> = {
+  RIDE_NOT_FOUND: 404,
+  NOT_PARTICIPANT: 403,
+  CONTACT_CLOSED: 409,
+}
+
+// Contato mascarado entre passageiro e motorista:
+//   open  abre (ou reaproveita) a sessão do usuário na corrida e devolve o
+//         número intermediário; o número real da outra parte nunca sai daqui
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  const authHeader = req.headers.get('Authorization')
+  if (!authHeader) {
+    return jsonResponse({ success: false, error: 'Unauthorized - Authentication required' }, 401)
+  }
+
+  try {
+    const userClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      { global: { headers: { Authorization: authHeader } } }
+    )
+
+    const { data: { user }, error: authError } = await userClient.auth.getUser()
+
+    if (authError || !user) {
+      console.error('❌ Invalid authentication token:', authError)
+      return jsonResponse({ success: false, error: 'Unauthorized - Invalid token' }, 401)
+    }
+
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    )
+
+    const { action, rideId } = await req.json()
+
+    if (action === 'open') {
+      return await openContact(supabaseClient, getTelephonyProvider(), user.id, rideId)
+    }
+
+    return jsonResponse({ success: false, error: `Unknown action: ${action}` }, 400)
+
+  } catch (error) {
+    console.error('❌ Error in ride-contact:', error)
+    return jsonResponse({ success: false, error: error.message }, 500)
+  }
+})
+
+const toContact = (session: { token: string, proxy_number: string, expires_at: string | null }) => ({
+  token: session.token,
+  proxy_number: session.proxy_number,
+  expires_at: session.expires_at,
+})
+
+async function openContact(supabaseClient: SupabaseClient, provider: TelephonyProvider, userId: string, rideId: string) {
+  const { data: allowed, error: checkError } = await supabaseClient.rpc('check_ride_contact', {
+    p_ride_id: rideId,
+    p_user_id: userId
+  })
+
+  if (checkError) {
+    const status = CONTACT_ERROR_STATUS[checkError.message]
+    if (!status) throw checkError
+    return jsonResponse({ success: false, code: checkError.message, error: checkError.details }, status)
+  }
+
+  // Sem linha, a corrida não tem com quem falar
+  if (!allowed?.length) {
+    return jsonResponse({ success: false, code: 'NOT_PARTICIPANT' }, 403)
+  }
+
+  const { target_id: targetId, expires_at: expiresAt } = allowed[0]
+
+  const { data: existing, error: existingError } = await supabaseClient
+    .from('ride_contact_sessions')
+    .select('*')
+    .eq('ride_id', rideId)
+    .eq('requester_id', userId)
+    .is('closed_at', null)
+    .maybeSingle()
+
+  if (existingError) throw existingError
+
+  if (existing) {
+    if (existing.target_id === targetId && (!existing.expires_at || new Date(existing.expires_at) > new Date())) {
+      return jsonResponse({ success: true, contact: toContact(existing) })
+    }
+
+    // Sessão com o motorista anterior ou já vencida: fecha antes de abrir outra
+    await provider.closeProxySession(existing.provider_session_id)
+    const { error: closeError } = await supabaseClient
+      .from('ride_contact_sessions')
+      .update({ closed_at: new Date().toISOString() })
+      .eq('id', existing.id)
+
+    if (closeError) throw closeError
+  }
+
+  const { data: profiles, error: profilesError } = await supabaseClient
+    .from('profiles')
+    .select('user_id, phone')
+    .in('user_id', [userId, targetId])
+
+  if (profilesError) throw profilesError
+
+  const phones = (profiles ?? []) as { user_id: string, phone: string | null }[]
+  const callerPhone = phones.find(p => p.user_id === userId)?.phone
+  const targetPhone = phones.find(p => p.user_id === targetId)?.phone
+
+  if (!callerPhone || !targetPhone) {
+    return jsonResponse({ success: false, code: 'PHONE_UNAVAILABLE' }, 409)
+  }
+
+  const token = crypto.randomUUID()
+  const session = await provider.createProxySession({
+    reference: token,
+    callerPhone,
+    targetPhone,
+    expiresAt: expiresAt ? new Date(expiresAt) : null,
+  })
+
+  const { data: created, error: insertError } = await supabaseClient
+    .from('ride_contact_sessions')
+    .insert({
+      ride_id: rideId,
+      requester_id: userId,
+      target_id: targetId,
+      token,
+      provider: provider.name,
+      provider_session_id: session.providerSessionId,
+      proxy_number: session.proxyNumber,
+      expires_at: expiresAt,
+    })
+    .select()
+    .single()
+
+  if (insertError) {
+    await provider.closeProxySession(session.providerSessionId)
+    throw insertError
+  }
+
+  console.log(`☎️ Contact session ${created.id} opened on ride ${rideId} (${provider.name})`)
+
+  return jsonResponse({ success: true, contact: toContact(created) })
+}
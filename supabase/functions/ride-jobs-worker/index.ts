@@ -0,0 +1,525 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { getTelephonyProvider } from '../_shared/telephony.ts'
+import { fetchRoute } from '../_shared/directions.ts'
+import { decodePolyline, evaluateTripSafety, resolveSafetySettings, SafetyPoint } from '../_shared/safety.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+// Intervalo entre as verificações de segurança de uma viagem em andamento
+const SAFETY_CHECK_INTERVAL_MS = 60 * 1000
+
+// Posição mais antiga que isto não serve para medir o desvio de rota
+const SAFETY_POSITION_MAX_AGE_MS = 2 * 60 * 1000
+
+interface RideJob {
+  id: string
+  ride_id: string
+  job_type:
+    | 'ride_timeout'
+    | 'notification_expiry'
+    | 'dispatch_advance'
+    | 'redispatch'
+    | 'dispatch_retry'
+    | 'scheduled_dispatch'
+    | 'scheduled_reminder'
+    | 'contact_expiry'
+    | 'safety_check'
+    | 'safety_escalation'
+  attempts: number
+  max_attempts: number
+}
+
+// Executa as tarefas vencidas da fila ride_jobs.
+// Chamado pelo pg_cron em produção ou por um loop local em desenvolvimento.
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    )
+
+    const body = await req.json().catch(() => ({}))
+    const limit = Number(body.limit) || 20
+    const worker = `ride-jobs-worker-${crypto.randomUUID().slice(0, 8)}`
+
+    const { data: jobs, error: claimError } = await supabaseClient.rpc('claim_ride_jobs', {
+      p_worker: worker,
+      p_limit: limit
+    })
+
+    if (claimError) {
+      console.error('❌ Error claiming ride jobs:', claimError)
+      throw claimError
+    }
+
+    console.log(`🛠️ ${worker} claimed ${jobs?.length ?? 0} jobs`)
+
+    const outcomes = []
+
+    for (const job of (jobs ?? []) as RideJob[]) {
+      try {
+        const result = await runJob(supabaseClient, job)
+        await finishJob(supabaseClient, job, true, result)
+        outcomes.push({ id: job.id, type: job.job_type, success: true, result })
+      } catch (error) {
+        console.error(`❌ Job ${job.id} (${job.job_type}) failed on attempt ${job.attempts}:`, error)
+        await finishJob(supabaseClient, job, false, null, error.message)
+        outcomes.push({ id: job.id, type: job.job_type, success: false, error: error.message })
+      }
+    }
+
+    return new Response(
+      JSON.stringify({ 
+        success: true, 
+        worker,
+        processed: outcomes.length,
+        jobs: outcomes,
+        timestamp: new Date().toISOString()
+      }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+
+  } catch (error) {
+    console.error('❌ Error in ride jobs worker:', error)
+    return new Response(
+      JSON.stringify({ success: false, error: error.message }),
+      { 
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+      }
+    )
+  }
+})
+
+async function finishJob(
+  supabaseClient: SupabaseClient,
+  job: RideJob,
+  success: boolean,
+  result: Record<string, unknown> | null,
+  errorMessage?: string
+) {
+  const { error } = await supabaseClient.rpc('finish_ride_job', {
+    p_job_id: job.id,
+    p_success: success,
+    p_result: result,
+    p_error: errorMessage ?? null
+  })
+
+  if (error) {
+    // A tarefa fica em running e será recuperada como stuck na próxima execução
+    console.error(`❌ Error recording outcome of job ${job.id}:`, error)
+  }
+}
+
+async function runJob(supabaseClient: SupabaseClient, job: RideJob): Promise<Record<string, unknown>> {
+  console.log(`▶️ Running ${job.job_type} for ride ${job.ride_id} (attempt ${job.attempts})`)
+
+  switch (job.job_type) {
+    case 'ride_timeout':
+      return await handleRideTimeout(supabaseClient, job.ride_id)
+    case 'notification_expiry':
+      return await expireNotifications(supabaseClient, job.ride_id)
+    case 'dispatch_advance':
+      return await requestDispatch(job.ride_id, { advance: true })
+    case 'redispatch':
+      return await requestDispatch(job.ride_id, {})
+    case 'dispatch_retry':
+      return await requestDispatch(job.ride_id, { retry: true })
+    case 'scheduled_dispatch':
+      return await dispatchScheduledRide(supabaseClient, job.ride_id)
+    case 'scheduled_reminder':
+      return await remindScheduledDriver(supabaseClient, job.ride_id)
+    case 'contact_expiry':
+      return await closeContactSessions(supabaseClient, job.ride_id)
+    case 'safety_check':
+      return await checkRideSafety(supabaseClient, job.ride_id)
+    case 'safety_escalation':
+      return await escalateSafetyAlerts(supabaseClient, job.ride_id)
+    default:
+      throw new Error(`Unknown job type: ${job.job_type}`)
+  }
+}
+
+async function handleRideTimeout(supabaseClient: SupabaseClient, rideId: string) {
+  const { data: ride, error } = await supabaseClient
+    .from('rides')
+    .select('status, broadcast_expires_at, search_prompt_expires_at')
+    .eq('id', rideId)
+    .single()
+
+  if (error) {
+    throw error
+  }
+
+  if (ride.status !== 'requested') {
+    console.log(`⏰ Ride ${rideId} no longer needs timeout processing - status: ${ride.status}`)
+    return { skipped: true, status: ride.status }
+  }
+
+  // O despacho sequencial pode ter estendido o prazo da corrida
+  if (ride.broadcast_expires_at && new Date(ride.broadcast_expires_at) > new Date()) {
+    const { error: scheduleError } = await supabaseClient.rpc('schedule_ride_job', {
+      p_ride_id: rideId,
+      p_job_type: 'ride_timeout',
+      p_run_at: ride.broadcast_expires_at
+    })
+
+    if (scheduleError) {
+      throw scheduleError
+    }
+
+    return { rescheduled: true, runAt: ride.broadcast_expires_at }
+  }
+
+  // A busca venceu sem motorista: nova rodada ou pergunta ao passageiro.
+  // Só expira quando o passageiro não responde à pergunta a tempo.
+  if (!ride.search_prompt_expires_at) {
+    const { data: retried, error: retryError } = await supabaseClient.rpc('schedule_dispatch_retry', {
+      p_ride_id: rideId
+    })
+
+    if (retryError) {
+      throw retryError
+    }
+
+    console.log(`🔁 Ride ${rideId} search timed out - retry round ${retried.dispatch_retry_round}${retried.search_prompt_expires_at ? ', asking passenger' : ''}`)
+    return {
+      retryRound: retried.dispatch_retry_round,
+      searchPromptExpiresAt: retried.search_prompt_expires_at
+    }
+  }
+
+  const expired = await expireNotifications(supabaseClient, rideId, true)
+
+  const { error: transitionError } = await supabaseClient.rpc('transition_ride_status', {
+    p_ride_id: rideId,
+    p_status: 'expired'
+  })
+
+  if (transitionError) {
+    throw transitionError
+  }
+
+  console.log(`❌ Ride ${rideId} expired without a driver`)
+  return { expired: true, notificationsExpired: expired.notificationsExpired }
+}
+
+// Perto do horário a corrida agendada vai para o motorista que pré-aceitou,
+// se ele continua aprovado, online e livre; senão entra no despacho normal
+async function dispatchScheduledRide(supabaseClient: SupabaseClient, rideId: string) {
+  const { data: ride, error } = await supabaseClient.rpc('dispatch_scheduled_ride', {
+    p_ride_id: rideId
+  })
+
+  if (error) {
+    throw error
+  }
+
+  if (ride.status === 'accepted') {
+    console.log(`📅 Scheduled ride ${rideId} handed to pre-accepted driver ${ride.driver_id}`)
+    return { status: ride.status, driverId: ride.driver_id }
+  }
+
+  if (ride.status !== 'requested') {
+    console.log(`📅 Scheduled ride ${rideId} no longer needs dispatch - status: ${ride.status}`)
+    return { skipped: true, status: ride.status }
+  }
+
+  console.log(`📅 Scheduled ride ${rideId} entering dispatch`)
+  return { status: ride.status, dispatch: await requestDispatch(rideId, {}) }
+}
+
+// O motorista vê o lembrete pelo realtime quando driver_reminded_at é preenchido
+async function remindScheduledDriver(supabaseClient: SupabaseClient, rideId: string) {
+  const { data, error } = await supabaseClient
+    .from('rides')
+    .update({ driver_reminded_at: new Date().toISOString() })
+    .eq('id', rideId)
+    .eq('status', 'scheduled')
+    .not('driver_id', 'is', null)
+    .select('id, driver_id')
+
+  if (error) {
+    throw error
+  }
+
+  if (!data?.length) {
+    return { skipped: true }
+  }
+
+  console.log(`🔔 Reminded driver ${data[0].driver_id} about scheduled ride ${rideId}`)
+  return { reminded: true, driverId: data[0].driver_id }
+}
+
+// Encerra no provedor as sessões de contato vencidas. Sessões com prazo
+// posterior (de outro motorista, por exemplo) ganham uma nova tarefa.
+async function closeContactSessions(supabaseClient: SupabaseClient, rideId: string) {
+  const now = new Date()
+  const { data: sessions, error } = await supabaseClient
+    .from('ride_contact_sessions')
+    .select('id, provider_session_id, expires_at')
+    .eq('ride_id', rideId)
+    .is('closed_at', null)
+    .not('expires_at', 'is', null)
+
+  if (error) {
+    throw error
+  }
+
+  const provider = getTelephonyProvider()
+  const open = (sessions ?? []) as { id: string, provider_session_id: string, expires_at: string }[]
+  const due = open.filter(s => new Date(s.expires_at) <= now)
+  const pending = open.filter(s => new Date(s.expires_at) > now)
+
+  for (const session of due) {
+    await provider.closeProxySession(session.provider_session_id)
+
+    const { error: updateError } = await supabaseClient
+      .from('ride_contact_sessions')
+      .update({ closed_at: new Date().toISOString() })
+      .eq('id', session.id)
+
+    if (updateError) {
+      throw updateError
+    }
+  }
+
+  if (pending.length > 0) {
+    const nextRunAt = new Date(Math.min(...pending.map(s => new Date(s.expires_at).getTime())))
+    const { error: jobError } = await supabaseClient
+      .from('ride_jobs')
+      .insert({ ride_id: rideId, job_type: 'contact_expiry', run_at: nextRunAt.toISOString() })
+
+    // Já existe uma tarefa pendente para a corrida
+    if (jobError && jobError.code !== '23505') {
+      throw jobError
+    }
+  }
+
+  console.log(`☎️ Closed ${due.length} contact sessions for ride ${rideId}`)
+  return { closed: due.length, pending: pending.length }
+}
+
+// Viagem em andamento: procura desvio de rota, parada longa e atraso, abre
+// os alertas e agenda a próxima verificação. Para sozinha quando a viagem acaba.
+async function checkRideSafety(supabaseClient: SupabaseClient, rideId: string) {
+  const { data: ride, error } = await supabaseClient
+    .from('rides')
+    .select('id, status, driver_id, started_at, trip_ended_at, estimated_duration_minutes, origin_lat, origin_lng, destination_lat, destination_lng, planned_route_polyline')
+    .eq('id', rideId)
+    .single()
+
+  if (error) {
+    throw error
+  }
+
+  if (ride.status !== 'in_progress' || ride.trip_ended_at || !ride.started_at) {
+    console.log(`🛡️ Ride ${rideId} no longer needs safety checks - status: ${ride.status}`)
+    return { skipped: true, status: ride.status }
+  }
+
+  const [settingsRes, stopsRes, locationRes, trackRes] = await Promise.all([
+    supabaseClient
+      .from('system_settings')
+      .select('safety_route_deviation_m, safety_stop_minutes, safety_overtime_percentage')
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle(),
+    supabaseClient
+      .from('ride_stops')
+      .select('lat, lng, reached_at')
+      .eq('ride_id', rideId)
+      .order('position', { ascending: true }),
+    supabaseClient
+      .from('driver_locations')
+      .select('lat, lng, last_update')
+      .eq('driver_id', ride.driver_id)
+      .order('last_update', { ascending: false })
+      .limit(1)
+      .maybeSingle(),
+    supabaseClient
+      .from('ride_tracks')
+      .select('recorded_at')
+      .eq('ride_id', rideId)
+      .order('recorded_at', { ascending: false })
+      .limit(1)
+      .maybeSingle(),
+  ])
+
+  for (const res of [settingsRes, stopsRes, locationRes, trackRes]) {
+    if (res.error) throw res.error
+  }
+
+  const stops = (stopsRes.data ?? []) as { lat: number, lng: number, reached_at: string | null }[]
+  const plannedRoute = await loadPlannedRoute(supabaseClient, ride, stops)
+
+  const now = new Date()
+  const location = locationRes.data as { lat: number, lng: number, last_update: string } | null
+  const position = location && now.getTime() - new Date(location.last_update).getTime() <= SAFETY_POSITION_MAX_AGE_MS
+    ? { lat: Number(location.lat), lng: Number(location.lng) }
+    : null
+
+  const findings = evaluateTripSafety({
+    now,
+    startedAt: ride.started_at,
+    estimatedDurationMinutes: ride.estimated_duration_minutes,
+    position,
+    lastMovedAt: trackRes.data?.recorded_at ?? ride.started_at,
+    plannedRoute,
+    expectedStops: [
+      ...stops.filter(stop => !stop.reached_at).map(stop => ({ lat: Number(stop.lat), lng: Number(stop.lng) })),
+      { lat: Number(ride.destination_lat), lng: Number(ride.destination_lng) },
+    ],
+  }, resolveSafetySettings(settingsRes.data))
+
+  const raised: string[] = []
+  for (const finding of findings) {
+    const { data: alert, error: alertError } = await supabaseClient.rpc('raise_ride_safety_alert', {
+      p_ride_id: rideId,
+      p_alert_type: finding.type,
+      p_details: finding.details,
+      p_lat: position?.lat ?? null,
+      p_lng: position?.lng ?? null
+    })
+
+    if (alertError) {
+      throw alertError
+    }
+
+    if (alert?.id) {
+      raised.push(finding.type)
+      console.log(`🚨 Safety alert ${alert.id} (${finding.type}) raised on ride ${rideId}`)
+    }
+  }
+
+  const { error: scheduleError } = await supabaseClient.rpc('schedule_ride_job', {
+    p_ride_id: rideId,
+    p_job_type: 'safety_check',
+    p_run_at: new Date(now.getTime() + SAFETY_CHECK_INTERVAL_MS).toISOString()
+  })
+
+  if (scheduleError) {
+    throw scheduleError
+  }
+
+  return { findings: findings.map(f => f.type), raised }
+}
+
+// Rota planejada da viagem (embarque, paradas e destino), consultada uma vez
+// e guardada na corrida. Sem chave ou sem rota, o desvio não é verificado.
+async function loadPlannedRoute(
+  supabaseClient: SupabaseClient,
+  ride: {
+    id: string
+    origin_lat: number
+    origin_lng: number
+    destination_lat: number
+    destination_lng: number
+    planned_route_polyline: string | null
+  },
+  stops: { lat: number, lng: number }[]
+): Promise<SafetyPoint[]> {
+  if (ride.planned_route_polyline) {
+    return decodePolyline(ride.planned_route_polyline)
+  }
+
+  const apiKey = Deno.env.get('GOOGLE_MAPS_BACKEND_API_KEY')
+  if (!apiKey) {
+    console.warn('⚠️ GOOGLE_MAPS_BACKEND_API_KEY not set - skipping route deviation check')
+    return []
+  }
+
+  try {
+    const route = await fetchRoute(apiKey, {
+      origin: `${ride.origin_lat},${ride.origin_lng}`,
+      destination: `${ride.destination_lat},${ride.destination_lng}`,
+      waypoints: stops.map(stop => `${stop.lat},${stop.lng}`),
+    })
+    const polyline = route?.polyline
+
+    if (!polyline) return []
+
+    const { error } = await supabaseClient
+      .from('rides')
+      .update({ planned_route_polyline: polyline })
+      .eq('id', ride.id)
+
+    if (error) {
+      console.error(`❌ Error saving planned route of ride ${ride.id}:`, error)
+    }
+
+    return decodePolyline(polyline)
+  } catch (error) {
+    console.error(`❌ Error fetching planned route of ride ${ride.id}:`, error)
+    return []
+  }
+}
+
+// Alertas sem resposta do passageiro no prazo vão para a fila dos admins
+async function escalateSafetyAlerts(supabaseClient: SupabaseClient, rideId: string) {
+  const { data: escalated, error } = await supabaseClient.rpc('escalate_ride_safety_alerts', {
+    p_ride_id: rideId
+  })
+
+  if (error) {
+    throw error
+  }
+
+  if (escalated > 0) {
+    console.log(`🚨 Escalated ${escalated} unanswered safety alerts on ride ${rideId}`)
+  }
+
+  return { escalated }
+}
+
+async function expireNotifications(supabaseClient: SupabaseClient, rideId: string, all = false) {
+  let query = supabaseClient
+    .from('ride_notifications')
+    .update({ status: 'expired' })
+    .eq('ride_id', rideId)
+    .eq('status', 'pending')
+
+  if (!all) {
+    query = query.lte('expires_at', new Date().toISOString())
+  }
+
+  const { data, error } = await query.select('id')
+
+  if (error) {
+    throw error
+  }
+
+  return { notificationsExpired: data?.length ?? 0 }
+}
+
+// advance passa para o próximo motorista do despacho atual; sem opções começa
+// um despacho novo (motorista cancelou ou passageiro quis continuar a busca);
+// retry é uma rodada extra com raio ampliado. Só a service role key libera
+// todos os modos no ride-queue-manager.
+async function requestDispatch(rideId: string, options: { advance?: boolean, retry?: boolean }) {
+  const response = await fetch(`${Deno.env.get('SUPABASE_URL')}/functions/v1/ride-queue-manager`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')}`
+    },
+    body: JSON.stringify({ rideId, ...options })
+  })
+
+  const result = await response.json()
+
+  if (!response.ok) {
+    throw new Error(`Ride queue manager failed: ${result.error || 'Unknown error'}`)
+  }
+
+  return result
+}
@@ -0,0 +1,111 @@
+// Regras que decidem se um motorista online pode receber uma oferta.
+// As regras são avaliadas em ordem e a primeira que excluir o motorista
+// define o motivo devolvido na resposta do ride-queue-manager.
+
+import { DriverCandidate } from './scoring.ts'
+
+export type ExclusionReason =
+  | 'out_of_radius'
+  | 'already_offered'
+  | 'not_registered'
+  | 'not_approved'
+  | 'on_active_ride'
+  | 'over_debt_limit'
+  | 'vehicle_type_mismatch'
+
+export interface DriverExclusion {
+  driverId: string
+  reason: ExclusionReason
+  detail?: string
+}
+
+export interface EligibilityContext {
+  radiusKm: number
+  offeredDriverIds: string[]
+  requiredVehicleType: string | null
+}
+
+type LocatedDriver = Pick<DriverCandidate, 'driver_id' | 'distance'>
+
+interface EligibilityRule<T extends LocatedDriver> {
+  reason: ExclusionReason
+  // Devolve o detalhe da exclusão ou null quando o motorista passa na regra
+  check: (candidate: T, context: EligibilityContext) => string | null
+}
+
+// Regras que só dependem da localização, avaliadas antes de carregar o perfil
+export const LOCATION_RULES: EligibilityRule<LocatedDriver>[] = [
+  {
+    reason: 'out_of_radius',
+    check: (candidate, context) => candidate.distance > context.radiusKm
+      ? `${candidate.distance.toFixed(2)}km > ${context.radiusKm}km`
+      : null,
+  },
+  {
+    reason: 'already_offered',
+    check: (candidate, context) => context.offeredDriverIds.includes(candidate.driver_id) ? 'already received this ride' : null,
+  },
+]
+
+export const PROFILE_RULES: EligibilityRule<DriverCandidate>[] = [
+  {
+    reason: 'not_registered',
+    check: (candidate) => candidate.driver_status === null ? 'no drivers record' : null,
+  },
+  {
+    reason: 'not_approved',
+    check: (candidate) => candidate.driver_status !== null && candidate.driver_status !== 'approved'
+      ? `status ${candidate.driver_status}`
+      : null,
+  },
+  {
+    reason: 'on_active_ride',
+    check: (candidate) => candidate.activeRideId ? `ride ${candidate.activeRideId}` : null,
+  },
+  {
+    // Continua online desde antes de passar do limite, mas não recebe ofertas
+    reason: 'over_debt_limit',
+    check: (candidate) => candidate.debtBalance !== null ? `fees R$ ${candidate.debtBalance.toFixed(2)}` : null,
+  },
+  {
+    reason: 'vehicle_type_mismatch',
+    check: (candidate, context) => context.requiredVehicleType && candidate.vehicle_type !== context.requiredVehicleType
+      ? `${candidate.vehicle_type ?? 'unknown'} != ${context.requiredVehicleType}`
+      : null,
+  },
+]
+
+export function partitionEligible<T extends LocatedDriver>(
+  candidates: T[],
+  context: EligibilityContext,
+  rules: EligibilityRule<T>[]
+): { eligible: T[]; exclusions: DriverExclusion[] } {
+  const eligible: T[] = []
+  const exclusions: DriverExclusion[] = []
+
+  for (const candidate of candidates) {
+    let excluded = false
+
+    for (const rule of rules) {
+      const detail = rule.check(candidate, context)
+      if (detail !== null) {
+        exclusions.push({ driverId: candidate.driver_id, reason: rule.reason, detail })
+        excluded = true
+        break
+      }
+    }
+
+    if (!excluded) {
+      eligible.push(candidate)
+    }
+  }
+
+  return { eligible, exclusions }
+}
+
+export function summarizeExclusions(exclusions: DriverExclusion[]) {
+  return exclusions.reduce<Partial<Record<ExclusionReason, number>>>((summary, exclusion) => {
+    summary[exclusion.reason] = (summary[exclusion.reason] ?? 0) + 1
+    return summary
+  }, {})
+}
@@ -1,21 +1,32 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import {
+  DEFAULT_SCORE_WEIGHTS,
+  DriverCandidate,
+  ScoreWeights,
+  ScoredCandidate,
+  scoreCandidates,
+} from './scoring.ts'
+import {
+  DriverExclusion,
+  EligibilityContext,
+  LOCATION_RULES,
+  PROFILE_RULES,
+  partitionEligible,
+  summarizeExclusions,
+} from './eligibility.ts'
+import { isServiceRoleRequest } from '../_shared/auth.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 }
 
-interface Database {
-  public: {
-    Tables: {
-      rides: any
-      ride_notifications: any
-      driver_locations: any
-      profiles: any
-    }
-  }
-}
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(
+    JSON.stringify(body),
+    { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+  )
 
 serve(async (req) => {
   // Handle CORS preflight requests
@@ -24,55 +35,48 @@ serve(async (req) => {
   }
 
   try {
-    const supabaseClient = createClient<Database>(
+    const supabaseClient = createClient(
       Deno.env.get('SUPABASE_URL') ?? '',
       Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
     )
 
-    const { rideId } = await req.json()
-    console.log(`🚗 Processing ride queue for ride: ${rideId}`)
+    // advance: próxima oferta do despacho atual; retry: rodada extra de busca
+    const { rideId, advance = false, retry = false } = await req.json()
+    const mode: DispatchMode = advance ? 'advance' : retry ? 'retry' : 'dispatch'
+    console.log(`🚗 Processing ride queue for ride: ${rideId}${advance ? ' (advance)' : retry ? ' (retry)' : ''}`)
 
-    // Buscar a corrida
-    const { data: ride, error: rideError } = await supabaseClient
-      .from('rides')
-      .select('*')
-      .eq('id', rideId)
-      .eq('status', 'requested')
-      .single()
-
-    if (rideError || !ride) {
-      console.log(`❌ Ride not found or already processed: ${rideId}`)
-      return new Response(
-        JSON.stringify({ success: false, message: 'Ride not found or already processed' }),
-        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      )
+    if (!isServiceRoleRequest(req)) {
+      const denied = await authorizeUserDispatch(req, supabaseClient, rideId, mode)
+      if (denied) return denied
     }
 
-    // Calcular motoristas próximos ordenados por distância
-    const nearbyDrivers = await findNearbyDrivers(supabaseClient, ride.origin_lat, ride.origin_lng)
-    
-    if (nearbyDrivers.length === 0) {
-      console.log(`❌ No drivers available for ride: ${rideId}`)
-      return new Response(
-        JSON.stringify({ success: false, message: 'No drivers available' }),
-        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      )
-    }
+    // Reserva a corrida; fora do avanço da fila começa uma tentativa nova,
+    // com ofertas próprias
+    const { data: ride, error: rideError } = await supabaseClient.rpc('begin_ride_dispatch', {
+      p_ride_id: rideId,
+      p_mode: mode
+    })
 
-    // Criar notificações broadcast para todos os motoristas simultaneamente
-    await createBroadcastNotifications(supabaseClient, rideId, nearbyDrivers)
+    if (rideError?.message === 'DISPATCH_IN_PROGRESS') {
+      console.log(`⏳ Ride ${rideId} is already being dispatched`)
+      return jsonResponse({ success: false, code: 'DISPATCH_IN_PROGRESS' }, 409)
+    }
 
-    console.log(`✅ Created broadcast notifications for ${nearbyDrivers.length} drivers for ride: ${rideId}`)
+    if (rideError) {
+      throw rideError
+    }
 
-    return new Response(
-      JSON.stringify({ 
-        success: true, 
-        driversNotified: nearbyDrivers.length,
-        rideId 
-      }),
-      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-    )
+    // Corrida fora de requested volta como linha vazia
+    if (!ride?.id) {
+      console.log(`❌ Ride not found or already processed: ${rideId}`)
+      return jsonResponse({ success: false, message: 'Ride not found or already processed' })
+    }
 
+    try {
+      return await dispatchRide(supabaseClient, ride, advance)
+    } finally {
+      await supabaseClient.rpc('end_ride_dispatch', { p_ride_id: rideId })
+    }
   } catch (error) {
     console.error('❌ Error in ride queue manager:', error)
     return new Response(
@@ -85,36 +89,571 @@ serve(async (req) => {
   }
 })
 
-async function findNearbyDrivers(supabaseClient: any, originLat: number, originLng: number) {
+type DispatchMode = 'dispatch' | 'advance' | 'retry'
+
+// Sem a service role key, só o passageiro dispara o primeiro despacho da
+// própria corrida e só o motorista que recusou a oferta passa a vez.
+// Devolve a resposta de erro, ou null quando a chamada pode seguir.
+async function authorizeUserDispatch(
+  req: Request,
+  supabaseClient: SupabaseClient,
+  rideId: string,
+  mode: DispatchMode
+): Promise<Response | null> {
+  const authHeader = req.headers.get('Authorization')
+  if (!authHeader) {
+    return jsonResponse({ success: false, error: 'Unauthorized - Authentication required' }, 401)
+  }
+
+  const userClient = createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+    { global: { headers: { Authorization: authHeader } } }
+  )
+
+  const { data: { user }, error: authError } = await userClient.auth.getUser()
+
+  if (authError || !user) {
+    return jsonResponse({ success: false, error: 'Unauthorized - Invalid token' }, 401)
+  }
+
+  const { data: ride } = await supabaseClient
+    .from('rides')
+    .select('passenger_id, dispatch_attempt')
+    .eq('id', rideId)
+    .maybeSingle()
+
+  if (ride && mode === 'dispatch' && ride.passenger_id === user.id && (ride.dispatch_attempt ?? 0) === 0) {
+    return null
+  }
+
+  if (ride && mode === 'advance') {
+    const { data: declined } = await supabaseClient
+      .from('ride_notifications')
+      .select('id')
+      .eq('ride_id', rideId)
+      .eq('driver_id', user.id)
+      .eq('dispatch_attempt', ride.dispatch_attempt ?? 0)
+      .neq('status', 'pending')
+      .limit(1)
+      .maybeSingle()
+
+    if (declined) return null
+  }
+
+  console.log(`🚫 User ${user.id} cannot ${mode} ride ${rideId}`)
+  return jsonResponse({ success: false, code: 'FORBIDDEN' }, 403)
+}
+
+// Uma execução do despacho, com a corrida já reservada por begin_ride_dispatch
+async function dispatchRide(supabaseClient: SupabaseClient, ride: DispatchRide, advance: boolean): Promise<Response> {
+  const rideId = ride.id
+  const settings = widenForRetry(
+    await applyZoneDispatchSettings(
+      supabaseClient,
+      ride,
+      await loadDispatchSettings(supabaseClient)
+    ),
+    ride.dispatch_retry_round ?? 0
+  )
+
+  // Motoristas que já cancelaram esta corrida não a recebem de novo
+  const cancelledDriverIds = await loadCancelledDriverIds(supabaseClient, rideId)
+
+  if (settings.strategy === 'sequential') {
+    const result = await offerToNextDriver(supabaseClient, ride, settings, cancelledDriverIds)
+
+    return new Response(
+      JSON.stringify({ success: result.status !== 'exhausted', strategy: 'sequential', rideId, ...result }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  }
+
+  // No broadcast todos já foram notificados de uma vez, não há próximo motorista
+  if (advance) {
+    return new Response(
+      JSON.stringify({ success: true, strategy: 'broadcast', rideId, status: 'waiting' }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  }
+
+  // Calcular motoristas próximos ordenados pela pontuação de despacho
+  const radiusKm = settings.radiusStepsKm[settings.radiusStepsKm.length - 1]
+  const { drivers: nearbyDrivers, exclusions } = await findNearbyDrivers(
+    supabaseClient,
+    ride,
+    radiusKm,
+    settings.maxDrivers,
+    settings,
+    cancelledDriverIds
+  )
+  
+  if (nearbyDrivers.length === 0) {
+    console.log(`❌ No drivers available for ride: ${rideId}`)
+    const search = await scheduleDispatchRetry(supabaseClient, rideId)
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        message: 'No drivers available',
+        search,
+        excludedByReason: summarizeExclusions(exclusions),
+        exclusions
+      }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  }
+
+  // Criar notificações broadcast para todos os motoristas simultaneamente
+  await createBroadcastNotifications(supabaseClient, ride, nearbyDrivers)
+
+  await supabaseClient
+    .from('rides')
+    .update({
+      dispatch_round: 1,
+      dispatch_radius_km: radiusKm,
+      broadcast_expires_at: new Date(Date.now() + BROADCAST_TIMEOUT_MS).toISOString(),
+    })
+    .eq('id', rideId)
+
+  console.log(`✅ Created broadcast notifications for ${nearbyDrivers.length} drivers for ride: ${rideId}`)
+
+  return new Response(
+    JSON.stringify({ 
+      success: true, 
+      strategy: 'broadcast',
+      driversNotified: nearbyDrivers.length,
+      rideId,
+      excludedByReason: summarizeExclusions(exclusions),
+      exclusions
+    }),
+    { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+  )
+}
+
+interface DispatchSettings {
+  strategy: 'broadcast' | 'sequential'
+  offerSeconds: number
+  maxDrivers: number
+  radiusStepsKm: number[]
+  expandRadius: boolean
+  scoreWeights: ScoreWeights
+  retryRadiusStepKm: number
+}
+
+interface DispatchRide {
+  id: string
+  origin_lat: number
+  origin_lng: number
+  dispatch_round: number | null
+  dispatch_attempt: number | null
+  dispatch_retry_round: number | null
+  broadcast_expires_at: string | null
+  requested_vehicle_type: string | null
+  service_zone_id: string | null
+}
+
+interface OnlineDriver {
+  driver_id: string
+  lat: number
+  lng: number
+  last_update: string
+}
+
+interface DriverProfile {
+  user_id: string
+  status: string
+  rating: number | null
+  vehicle_type: string | null
+}
+
+// Mesmo conjunto de ACTIVE_RIDE_STATUSES em src/lib/rideStatus.ts
+const ACTIVE_RIDE_STATUSES = ['accepted', 'driver_arriving', 'driver_arrived', 'in_progress']
+
+interface DispatchOffer {
+  driver_id: string
+  status: string
+  dispatch_round: number
+}
+
+const DEFAULT_DISPATCH_SETTINGS: DispatchSettings = {
+  strategy: 'broadcast',
+  offerSeconds: 20,
+  maxDrivers: 5,
+  radiusStepsKm: [3, 6, 10],
+  expandRadius: true,
+  scoreWeights: DEFAULT_SCORE_WEIGHTS,
+  retryRadiusStepKm: 3,
+}
+
+// Prazo de uma tentativa de broadcast, cumprido pelo ride_timeout
+const BROADCAST_TIMEOUT_MS = 180000
+
+// Mesmo limite de raio aceito nas configurações
+const MAX_RADIUS_KM = 50
+
+async function loadDispatchSettings(supabaseClient: SupabaseClient): Promise<DispatchSettings> {
+  const { data, error } = await supabaseClient
+    .from('system_settings')
+    .select('dispatch_strategy, dispatch_offer_seconds, dispatch_max_drivers, dispatch_radius_steps_km, dispatch_expand_radius, dispatch_score_weights, dispatch_retry_radius_step_km')
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  if (error || !data) {
+    console.log('⚙️ Using default dispatch settings')
+    return DEFAULT_DISPATCH_SETTINGS
+  }
+
+  const steps = (data.dispatch_radius_steps_km ?? []).map(Number).filter((step: number) => step > 0)
+
+  return {
+    strategy: data.dispatch_strategy === 'sequential' ? 'sequential' : 'broadcast',
+    offerSeconds: data.dispatch_offer_seconds ?? DEFAULT_DISPATCH_SETTINGS.offerSeconds,
+    maxDrivers: data.dispatch_max_drivers ?? DEFAULT_DISPATCH_SETTINGS.maxDrivers,
+    radiusStepsKm: steps.length > 0 ? steps : DEFAULT_DISPATCH_SETTINGS.radiusStepsKm,
+    expandRadius: data.dispatch_expand_radius ?? DEFAULT_DISPATCH_SETTINGS.expandRadius,
+    scoreWeights: { ...DEFAULT_SCORE_WEIGHTS, ...(data.dispatch_score_weights ?? {}) },
+    retryRadiusStepKm: Number(data.dispatch_retry_radius_step_km ?? DEFAULT_DISPATCH_SETTINGS.retryRadiusStepKm),
+  }
+}
+
+// Zonas de atendimento podem ter raios de busca próprios
+async function applyZoneDispatchSettings(
+  supabaseClient: SupabaseClient,
+  ride: DispatchRide,
+  settings: DispatchSettings
+): Promise<DispatchSettings> {
+  if (!ride.service_zone_id) return settings
+
+  const { data: zone } = await supabaseClient
+    .from('service_zones')
+    .select('name, dispatch_radius_steps_km')
+    .eq('id', ride.service_zone_id)
+    .maybeSingle()
+
+  const steps = (zone?.dispatch_radius_steps_km ?? []).map(Number).filter((step: number) => step > 0)
+  if (steps.length === 0) return settings
+
+  console.log(`📍 Using radius steps of zone ${zone.name}: ${steps.join(', ')} km`)
+  return { ...settings, radiusStepsKm: steps }
+}
+
+// Cada rodada extra de busca amplia todos os raios
+function widenForRetry(settings: DispatchSettings, retryRound: number): DispatchSettings {
+  if (retryRound <= 0 || settings.retryRadiusStepKm <= 0) return settings
+
+  const extraKm = retryRound * settings.retryRadiusStepKm
+  const steps = settings.radiusStepsKm.map((step) => Math.min(step + extraKm, MAX_RADIUS_KM))
+  console.log(`🔁 Retry round ${retryRound}: radius steps widened to ${steps.join(', ')} km`)
+  return { ...settings, radiusStepsKm: steps }
+}
+
+// Ninguém disponível: o banco agenda a próxima rodada ou abre a pergunta ao passageiro
+async function scheduleDispatchRetry(supabaseClient: SupabaseClient, rideId: string) {
+  const { data: ride, error } = await supabaseClient.rpc('schedule_dispatch_retry', {
+    p_ride_id: rideId
+  })
+
+  if (error) {
+    console.error('Error scheduling dispatch retry:', error)
+    throw error
+  }
+
+  const outcome = ride.search_prompt_expires_at ? 'prompt' : 'retry'
+  console.log(`🔁 Ride ${rideId} without drivers - ${outcome} (retry round ${ride.dispatch_retry_round})`)
+  return {
+    outcome,
+    retryRound: ride.dispatch_retry_round,
+    searchPromptExpiresAt: ride.search_prompt_expires_at,
+  }
+}
+
+// Despacho sequencial: uma oferta exclusiva por vez, do motorista mais próximo
+// para o mais distante, ampliando o raio a cada rodada sem candidatos
+async function offerToNextDriver(
+  supabaseClient: SupabaseClient,
+  ride: DispatchRide,
+  settings: DispatchSettings,
+  excludedDriverIds: string[] = []
+) {
+  const now = new Date()
+
+  // Ofertas vencidas deixam de bloquear a fila
+  await supabaseClient
+    .from('ride_notifications')
+    .update({ status: 'expired' })
+    .eq('ride_id', ride.id)
+    .eq('status', 'pending')
+    .lte('expires_at', now.toISOString())
+
+  const { data: offersData, error: offersError } = await supabaseClient
+    .from('ride_notifications')
+    .select('driver_id, status, dispatch_round')
+    .eq('ride_id', ride.id)
+    .eq('dispatch_attempt', ride.dispatch_attempt ?? 0)
+
+  if (offersError) {
+    throw offersError
+  }
+
+  const offers: DispatchOffer[] = offersData ?? []
+
+  if (offers.some((offer) => offer.status === 'pending')) {
+    console.log(`⏳ Ride ${ride.id} still has a live offer - waiting`)
+    return { status: 'waiting' as const }
+  }
+
+  const offeredDriverIds = [...offers.map((offer) => offer.driver_id), ...excludedDriverIds]
+  const steps = settings.expandRadius ? settings.radiusStepsKm : settings.radiusStepsKm.slice(0, 1)
+  const firstRound = Math.max(ride.dispatch_round ?? 0, 1)
+
+  let lastExclusions: DriverExclusion[] = []
+
+  for (let round = firstRound; round <= steps.length; round++) {
+    const offersInRound = offers.filter((offer) => offer.dispatch_round === round).length
+    if (offersInRound >= settings.maxDrivers) {
+      continue
+    }
+
+    const radiusKm = steps[round - 1]
+    const search = await findNearbyDrivers(
+      supabaseClient,
+      ride,
+      radiusKm,
+      1,
+      settings,
+      offeredDriverIds
+    )
+    const [driver] = search.drivers
+    lastExclusions = search.exclusions
+
+    if (!driver) {
+      console.log(`🔍 No new drivers within ${radiusKm}km (round ${round}) for ride ${ride.id}`)
+      continue
+    }
+
+    const expiresAt = new Date(now.getTime() + settings.offerSeconds * 1000)
+
+    const { error: insertError } = await supabaseClient
+      .from('ride_notifications')
+      .insert({
+        ride_id: ride.id,
+        driver_id: driver.driver_id,
+        distance_km: driver.distance,
+        score: driver.score,
+        score_breakdown: driver.scoreBreakdown,
+        status: 'pending',
+        expires_at: expiresAt.toISOString(),
+        dispatch_round: round,
+        dispatch_attempt: ride.dispatch_attempt ?? 0,
+      })
+
+    if (insertError) {
+      console.error('Error creating sequential offer:', insertError)
+      throw insertError
+    }
+
+    // A corrida precisa continuar visível pelo menos enquanto a oferta estiver aberta
+    const rideExpiresAt = ride.broadcast_expires_at ? new Date(ride.broadcast_expires_at) : now
+    const newRideExpiresAt = Math.max(rideExpiresAt.getTime(), expiresAt.getTime())
+    await supabaseClient
+      .from('rides')
+      .update({
+        dispatch_round: round,
+        dispatch_radius_km: radiusKm,
+        broadcast_expires_at: new Date(newRideExpiresAt).toISOString(),
+      })
+      .eq('id', ride.id)
+
+    console.log(`📨 Offered ride ${ride.id} to driver ${driver.driver_id} (round ${round}, ${radiusKm}km)`)
+
+    await scheduleRideJob(supabaseClient, ride.id, 'ride_timeout', new Date(newRideExpiresAt))
+
+    // Quando a oferta vencer sem resposta, o worker passa para o próximo motorista
+    await scheduleRideJob(supabaseClient, ride.id, 'dispatch_advance', new Date(expiresAt.getTime() + 1000))
+
+    return {
+      status: 'offered' as const,
+      driverId: driver.driver_id,
+      round,
+      radiusKm,
+      expiresAt: expiresAt.toISOString(),
+      excludedByReason: summarizeExclusions(lastExclusions),
+    }
+  }
+
+  console.log(`❌ Sequential dispatch exhausted for ride ${ride.id}`)
+  const search = await scheduleDispatchRetry(supabaseClient, ride.id)
+
+  return {
+    status: 'exhausted' as const,
+    message: 'No drivers available',
+    search,
+    excludedByReason: summarizeExclusions(lastExclusions),
+    exclusions: lastExclusions,
+  }
+}
+
+async function loadCancelledDriverIds(supabaseClient: SupabaseClient, rideId: string): Promise<string[]> {
+  const { data, error } = await supabaseClient
+    .from('ride_cancellations')
+    .select('actor_id')
+    .eq('ride_id', rideId)
+    .eq('cancelled_by', 'driver')
+
+  if (error) {
+    console.error('Error loading ride cancellations:', error)
+    return []
+  }
+
+  return (data ?? []).map((cancellation: { actor_id: string }) => cancellation.actor_id)
+}
+
+async function findNearbyDrivers(
+  supabaseClient: SupabaseClient,
+  ride: DispatchRide,
+  radiusKm: number,
+  limit: number,
+  settings: DispatchSettings,
+  excludeDriverIds: string[] = []
+): Promise<{ drivers: ScoredCandidate[]; exclusions: DriverExclusion[] }> {
   // Buscar motoristas online dos últimos 2 minutos
   const { data: drivers, error } = await supabaseClient
     .from('driver_locations')
-    .select('driver_id, lat, lng')
+    .select('driver_id, lat, lng, last_update')
     .eq('is_online', true)
     .gte('last_update', new Date(Date.now() - 2 * 60 * 1000).toISOString())
 
   if (error || !drivers) {
     console.error('Error fetching nearby drivers:', error)
-    return []
+    return { drivers: [], exclusions: [] }
   }
 
-  // Calcular distâncias e ordenar
-  const driversWithDistance = drivers.map((driver: any) => ({
-    ...driver,
-    distance: calculateDistance(
-      { lat: originLat, lng: originLng },
-      { lat: driver.lat, lng: driver.lng }
-    )
-  }))
-  .filter((driver: any) => driver.distance <= 10) // Máximo 10km
-  .sort((a: any, b: any) => a.distance - b.distance)
-  .slice(0, 5) // Máximo 5 motoristas
+  const context: EligibilityContext = {
+    radiusKm,
+    offeredDriverIds: excludeDriverIds,
+    // Corridas antigas não têm categoria e aceitam qualquer veículo
+    requiredVehicleType: ride.requested_vehicle_type,
+  }
+
+  // Calcular distâncias e descartar quem está fora do raio ou já recebeu a oferta
+  const located = partitionEligible(
+    drivers.map((driver: OnlineDriver) => ({
+      ...driver,
+      distance: calculateDistance(
+        { lat: ride.origin_lat, lng: ride.origin_lng },
+        { lat: driver.lat, lng: driver.lng }
+      )
+    })),
+    context,
+    LOCATION_RULES
+  )
+
+  if (located.eligible.length === 0) {
+    console.log('📍 Found 0 nearby drivers')
+    return { drivers: [], exclusions: located.exclusions }
+  }
+
+  // Cadastro aprovado, sem corrida em andamento e com o veículo exigido
+  const candidates = await loadCandidateStats(supabaseClient, located.eligible)
+  const profiled = partitionEligible(candidates, context, PROFILE_RULES)
+  const exclusions = [...located.exclusions, ...profiled.exclusions]
+
+  const scored = scoreCandidates(profiled.eligible, {
+    radiusKm,
+    requestedVehicleType: ride.requested_vehicle_type,
+    now: new Date(),
+  }, settings.scoreWeights).slice(0, limit)
+
+  console.log(
+    `📍 Found ${profiled.eligible.length} eligible drivers (${exclusions.length} excluded), best score ${scored[0]?.score}`,
+    summarizeExclusions(exclusions)
+  )
+  return { drivers: scored, exclusions }
+}
+
+// Junta cadastro, avaliação, veículo, corrida ativa, dívida de taxas, taxa de
+// aceite recente e último fim de corrida de cada motorista para as regras e a pontuação
+async function loadCandidateStats(
+  supabaseClient: SupabaseClient,
+  drivers: (OnlineDriver & { distance: number })[]
+): Promise<DriverCandidate[]> {
+  const driverIds = drivers.map((driver) => driver.driver_id)
+  const since = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString()
+
+  const [profilesResult, offersResult, ridesResult, activeRidesResult, blockedResult] = await Promise.all([
+    supabaseClient
+      .from('drivers')
+      .select('user_id, status, rating, vehicle_type')
+      .in('user_id', driverIds),
+    supabaseClient
+      .from('ride_notifications')
+      .select('driver_id, status')
+      .in('driver_id', driverIds)
+      // cancelled significa que outro motorista aceitou antes, não conta contra ninguém
+      .in('status', ['accepted', 'expired'])
+      .gte('notified_at', since),
+    supabaseClient
+      .from('rides')
+      .select('driver_id, completed_at')
+      .in('driver_id', driverIds)
+      .eq('status', 'completed')
+      .gte('completed_at', since)
+      .order('completed_at', { ascending: false }),
+    supabaseClient
+      .from('rides')
+      .select('id, driver_id')
+      .in('driver_id', driverIds)
+      .in('status', ACTIVE_RIDE_STATUSES),
+    supabaseClient
+      .rpc('get_driver_fee_balances')
+      .in('driver_id', driverIds)
+      .eq('is_blocked', true),
+  ])
+
+  // Sem o saldo não dá para saber quem está bloqueado: melhor não despachar
+  if (blockedResult.error) throw blockedResult.error
+
+  const profiles = new Map<string, DriverProfile>(
+    (profilesResult.data ?? []).map((driver: DriverProfile) => [driver.user_id, driver])
+  )
+
+  const activeRides = new Map<string, string>(
+    (activeRidesResult.data ?? []).map((activeRide: { id: string; driver_id: string }) => [activeRide.driver_id, activeRide.id])
+  )
+
+  const blockedBalances = new Map<string, number>(
+    (blockedResult.data ?? []).map((balance: { driver_id: string; balance: number }) => [balance.driver_id, Number(balance.balance)])
+  )
 
-  console.log(`📍 Found ${driversWithDistance.length} nearby drivers`)
-  return driversWithDistance
+  const lastCompleted = new Map<string, string>()
+  for (const completedRide of ridesResult.data ?? []) {
+    if (!lastCompleted.has(completedRide.driver_id)) {
+      lastCompleted.set(completedRide.driver_id, completedRide.completed_at)
+    }
+  }
+
+  return drivers.map((driver) => {
+    const offers = (offersResult.data ?? []).filter((offer: DispatchOffer) => offer.driver_id === driver.driver_id)
+    const profile = profiles.get(driver.driver_id)
+
+    return {
+      ...driver,
+      driver_status: profile?.status ?? null,
+      activeRideId: activeRides.get(driver.driver_id) ?? null,
+      debtBalance: blockedBalances.get(driver.driver_id) ?? null,
+      rating: profile?.rating ?? null,
+      vehicle_type: profile?.vehicle_type ?? null,
+      recentOffers: offers.length,
+      recentAccepted: offers.filter((offer: DispatchOffer) => offer.status === 'accepted').length,
+      lastRideCompletedAt: lastCompleted.get(driver.driver_id) ?? null,
+    }
+  })
 }
 
-async function createBroadcastNotifications(supabaseClient: any, rideId: string, drivers: any[]) {
+async function createBroadcastNotifications(supabaseClient: SupabaseClient, ride: DispatchRide, drivers: ScoredCandidate[]) {
+  const rideId = ride.id
   console.log(`📢 Creating broadcast notifications for ${drivers.length} drivers`)
   
   // Criar notificações simultâneas para todos os motoristas (sem conceito de fila)
@@ -122,12 +661,16 @@ async function createBroadcastNotifications(supabaseClient: any, rideId: string,
     ride_id: rideId,
     driver_id: driver.driver_id,
     distance_km: driver.distance,
-    status: 'pending'
+    score: driver.score,
+    score_breakdown: driver.scoreBreakdown,
+    status: 'pending',
+    dispatch_attempt: ride.dispatch_attempt ?? 0
   }))
 
-  const { error } = await supabaseClient
+  const { data: created, error } = await supabaseClient
     .from('ride_notifications')
     .insert(notifications)
+    .select('expires_at')
 
   if (error) {
     console.error('Error creating broadcast notifications:', error)
@@ -136,36 +679,33 @@ async function createBroadcastNotifications(supabaseClient: any, rideId: string,
 
   console.log(`✅ Created ${notifications.length} broadcast notifications`)
   
-  // Configurar timeout global de 3 minutos para toda a corrida
-  setTimeout(async () => {
-    await handleRideTimeout(supabaseClient, rideId)
-  }, 180000) // 3 minutos = 180000ms
+  // Timeout global de 3 minutos para a tentativa, executado pelo ride-jobs-worker
+  await scheduleRideJob(supabaseClient, rideId, 'ride_timeout', new Date(Date.now() + BROADCAST_TIMEOUT_MS))
+
+  const lastExpiry = Math.max(...(created ?? []).map((n: { expires_at: string }) => new Date(n.expires_at).getTime()))
+  if (Number.isFinite(lastExpiry)) {
+    await scheduleRideJob(supabaseClient, rideId, 'notification_expiry', new Date(lastExpiry))
+  }
 }
 
-async function handleRideTimeout(supabaseClient: any, rideId: string) {
-  console.log(`⏰ Checking ride timeout for: ${rideId}`)
-  
-  // Verificar se a corrida ainda está disponível
-  const { data: ride } = await supabaseClient
-    .from('rides')
-    .select('status')
-    .eq('id', rideId)
-    .single()
+async function scheduleRideJob(
+  supabaseClient: SupabaseClient,
+  rideId: string,
+  jobType: 'ride_timeout' | 'notification_expiry' | 'dispatch_advance',
+  runAt: Date
+) {
+  const { error } = await supabaseClient.rpc('schedule_ride_job', {
+    p_ride_id: rideId,
+    p_job_type: jobType,
+    p_run_at: runAt.toISOString()
+  })
 
-  if (ride?.status === 'requested') {
-    console.log(`⏰ Ride ${rideId} expired after 3 minutes - marking as expired`)
-    
-    // Marcar todas as notificações como expiradas
-    await supabaseClient
-      .from('ride_notifications')
-      .update({ status: 'expired' })
-      .eq('ride_id', rideId)
-      .eq('status', 'pending')
-    
-    console.log(`❌ Ride ${rideId} broadcast expired - all notifications marked as expired`)
-  } else {
-    console.log(`⏰ Ride ${rideId} no longer needs timeout processing - status: ${ride?.status}`)
+  if (error) {
+    console.error(`Error scheduling ${jobType} job:`, error)
+    throw error
   }
+
+  console.log(`🗓️ Scheduled ${jobType} for ride ${rideId} at ${runAt.toISOString()}`)
 }
 
 function calculateDistance(point1: {lat: number, lng: number}, point2: {lat: number, lng: number}): number {
@@ -0,0 +1,125 @@
+// Modelo de pontuação usado para ordenar os motoristas candidatos a uma corrida.
+// Cada fator devolve um valor entre 0 (pior) e 1 (melhor); a nota final é a
+// média ponderada pelos pesos configurados em system_settings.
+
+export interface DriverCandidate {
+  driver_id: string
+  lat: number
+  lng: number
+  last_update: string
+  distance: number
+  rating: number | null
+  vehicle_type: string | null
+  recentOffers: number
+  recentAccepted: number
+  lastRideCompletedAt: string | null
+  // Usados pelas regras de elegibilidade (eligibility.ts), não pela pontuação
+  driver_status: string | null
+  activeRideId: string | null
+  // Taxas pendentes de quem passou do limite de dívida; null dentro do limite
+  debtBalance: number | null
+}
+
+export interface ScoringContext {
+  radiusKm: number
+  requestedVehicleType: string | null
+  now: Date
+}
+
+export interface DriverScoringFactor {
+  key: string
+  compute: (candidate: DriverCandidate, context: ScoringContext) => number
+}
+
+export type ScoreWeights = Record<string, number>
+
+export interface ScoredCandidate extends DriverCandidate {
+  score: number
+  scoreBreakdown: Record<string, number>
+}
+
+export const DEFAULT_SCORE_WEIGHTS: ScoreWeights = {
+  distance: 0.4,
+  freshness: 0.15,
+  rating: 0.15,
+  acceptance: 0.15,
+  vehicle_match: 0.1,
+  idle_time: 0.05,
+}
+
+// Janela de localização considerada válida pelo despacho
+const MAX_LOCATION_AGE_SECONDS = 120
+// A partir deste tempo ocioso o motorista recebe a nota máxima no fator
+const MAX_IDLE_MINUTES = 60
+
+const clamp = (value: number) => Math.min(Math.max(value, 0), 1)
+
+export const DRIVER_SCORING_FACTORS: DriverScoringFactor[] = [
+  {
+    key: 'distance',
+    compute: (candidate, context) => clamp(1 - candidate.distance / context.radiusKm),
+  },
+  {
+    key: 'freshness',
+    compute: (candidate, context) => {
+      const ageSeconds = (context.now.getTime() - new Date(candidate.last_update).getTime()) / 1000
+      return clamp(1 - ageSeconds / MAX_LOCATION_AGE_SECONDS)
+    },
+  },
+  {
+    key: 'rating',
+    compute: (candidate) => clamp((candidate.rating ?? 4) / 5),
+  },
+  {
+    key: 'acceptance',
+    // Sem histórico o motorista fica neutro em vez de ser punido
+    compute: (candidate) => candidate.recentOffers === 0
+      ? 0.5
+      : clamp(candidate.recentAccepted / candidate.recentOffers),
+  },
+  {
+    key: 'vehicle_match',
+    compute: (candidate, context) => !context.requestedVehicleType || candidate.vehicle_type === context.requestedVehicleType
+      ? 1
+      : 0,
+  },
+  {
+    key: 'idle_time',
+    compute: (candidate, context) => {
+      if (!candidate.lastRideCompletedAt) return 1
+      const idleMinutes = (context.now.getTime() - new Date(candidate.lastRideCompletedAt).getTime()) / 60000
+      return clamp(idleMinutes / MAX_IDLE_MINUTES)
+    },
+  },
+]
+
+export function scoreCandidates(
+  candidates: DriverCandidate[],
+  context: ScoringContext,
+  weights: ScoreWeights = DEFAULT_SCORE_WEIGHTS,
+  factors: DriverScoringFactor[] = DRIVER_SCORING_FACTORS
+): ScoredCandidate[] {
+  const totalWeight = factors.reduce((sum, factor) => sum + (weights[factor.key] ?? 0), 0)
+
+  return candidates
+    .map((candidate) => {
+      const scoreBreakdown: Record<string, number> = {}
+      let weighted = 0
+
+      for (const factor of factors) {
+        const value = factor.compute(candidate, context)
+        scoreBreakdown[factor.key] = Math.round(value * 10000) / 10000
+        weighted += value * (weights[factor.key] ?? 0)
+      }
+
+      // Sem pesos válidos a ordenação volta a ser apenas por distância
+      const score = totalWeight > 0 ? weighted / totalWeight : scoreBreakdown.distance ?? 0
+
+      return {
+        ...candidate,
+        score: Math.round(score * 10000) / 10000,
+        scoreBreakdown,
+      }
+    })
+    .sort((a, b) => b.score - a.score || a.distance - b.distance)
+}
@@ -37,7 +37,8 @@ serve(async (req) => {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
-        'Authorization': `Bearer ${Deno.env.get('SUPABASE_ANON_KEY')}`
+        // Repassa quem chamou: o ride-queue-manager decide o que essa credencial pode fazer
+        'Authorization': req.headers.get('Authorization') ?? ''
       },
       body: JSON.stringify({ rideId: record.id })
     })
@@ -0,0 +1,6 @@
+-- Alinhar o enum ride_status com os status realmente usados pela aplicação
+-- (novos valores ficam em migration separada porque não podem ser usados
+-- na mesma transação em que são criados)
+ALTER TYPE public.ride_status ADD VALUE IF NOT EXISTS 'driver_arriving' AFTER 'accepted';
+ALTER TYPE public.ride_status ADD VALUE IF NOT EXISTS 'driver_arrived' AFTER 'driver_arriving';
+ALTER TYPE public.ride_status ADD VALUE IF NOT EXISTS 'expired';
@@ -0,0 +1,219 @@
+-- Máquina de estados das corridas controlada pelo servidor
+
+-- 1. Timestamps das transições que ainda não tinham coluna própria
+ALTER TABLE public.rides
+  ADD COLUMN IF NOT EXISTS driver_arriving_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS pickup_arrived_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS expired_at TIMESTAMP WITH TIME ZONE;
+
+-- 2. Tabela com as transições permitidas e quem pode executá-las
+CREATE TABLE public.ride_status_transitions (
+  from_status public.ride_status NOT NULL,
+  to_status public.ride_status NOT NULL,
+  actor TEXT NOT NULL CHECK (actor IN ('passenger', 'driver', 'admin', 'system')),
+  PRIMARY KEY (from_status, to_status, actor)
+);
+
+ALTER TABLE public.ride_status_transitions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can read ride transitions"
+ON public.ride_status_transitions
+FOR SELECT
+USING (auth.uid() IS NOT NULL);
+
+-- requested -> accepted não está aqui: só accept_ride atribui motorista,
+-- a partir de uma oferta válida
+INSERT INTO public.ride_status_transitions (from_status, to_status, actor) VALUES
+  ('requested', 'cancelled', 'passenger'),
+  ('requested', 'cancelled', 'admin'),
+  ('requested', 'expired', 'system'),
+  ('accepted', 'driver_arriving', 'driver'),
+  ('accepted', 'driver_arrived', 'driver'),
+  ('accepted', 'cancelled', 'driver'),
+  ('accepted', 'cancelled', 'passenger'),
+  ('accepted', 'cancelled', 'admin'),
+  ('driver_arriving', 'driver_arrived', 'driver'),
+  ('driver_arriving', 'cancelled', 'driver'),
+  ('driver_arriving', 'cancelled', 'passenger'),
+  ('driver_arriving', 'cancelled', 'admin'),
+  ('driver_arrived', 'in_progress', 'driver'),
+  ('driver_arrived', 'cancelled', 'driver'),
+  ('driver_arrived', 'cancelled', 'passenger'),
+  ('driver_arrived', 'cancelled', 'admin'),
+  ('in_progress', 'completed', 'driver'),
+  ('in_progress', 'cancelled', 'admin');
+
+-- 3. RPC única para mudar o status de uma corrida
+-- Erros são lançados com códigos fixos na mensagem para o cliente tratar:
+-- NOT_AUTHENTICATED, RIDE_NOT_FOUND, NOT_PARTICIPANT, INVALID_TRANSITION, FORBIDDEN_TRANSITION
+CREATE OR REPLACE FUNCTION public.transition_ride_status(
+  p_ride_id uuid,
+  p_status public.ride_status
+)
+RETURNS public.rides
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  v_uid uuid := auth.uid();
+  v_is_system boolean := COALESCE(auth.role(), '') = 'service_role';
+  v_ride public.rides;
+  v_actors text[] := ARRAY[]::text[];
+BEGIN
+  IF v_uid IS NULL AND NOT v_is_system THEN
+    RAISE EXCEPTION 'NOT_AUTHENTICATED'
+      USING DETAIL = 'Usuário não autenticado';
+  END IF;
+
+  SELECT * INTO v_ride
+  FROM public.rides
+  WHERE id = p_ride_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'RIDE_NOT_FOUND'
+      USING DETAIL = format('Corrida %s não encontrada', p_ride_id);
+  END IF;
+
+  -- Papéis do chamador nesta corrida
+  IF v_is_system THEN
+    v_actors := v_actors || 'system';
+  END IF;
+
+  IF v_uid IS NOT NULL AND v_uid = v_ride.passenger_id THEN
+    v_actors := v_actors || 'passenger';
+  END IF;
+
+  IF v_uid IS NOT NULL AND v_uid = v_ride.driver_id THEN
+    v_actors := v_actors || 'driver';
+  END IF;
+
+  IF v_uid IS NOT NULL AND public.get_current_user_role() = 'admin' THEN
+    v_actors := v_actors || 'admin';
+  END IF;
+
+  IF array_length(v_actors, 1) IS NULL THEN
+    RAISE EXCEPTION 'NOT_PARTICIPANT'
+      USING DETAIL = 'Usuário não participa desta corrida';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.ride_status_transitions
+    WHERE from_status = v_ride.status AND to_status = p_status
+  ) THEN
+    RAISE EXCEPTION 'INVALID_TRANSITION'
+      USING DETAIL = format('Transição %s -> %s não é permitida', v_ride.status, p_status);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.ride_status_transitions
+    WHERE from_status = v_ride.status
+      AND to_status = p_status
+      AND actor = ANY (v_actors)
+  ) THEN
+    RAISE EXCEPTION 'FORBIDDEN_TRANSITION'
+      USING DETAIL = format('Usuário não pode executar %s -> %s', v_ride.status, p_status);
+  END IF;
+
+  -- Libera a trigger de proteção apenas nesta transação
+  PERFORM set_config('app.ride_transition', 'on', true);
+
+  UPDATE public.rides
+  SET
+    status = p_status,
+    accepted_at = CASE WHEN p_status = 'accepted' THEN now() ELSE accepted_at END,
+    driver_arriving_at = CASE WHEN p_status = 'driver_arriving' THEN now() ELSE driver_arriving_at END,
+    pickup_arrived_at = CASE WHEN p_status = 'driver_arrived' THEN now() ELSE pickup_arrived_at END,
+    started_at = CASE WHEN p_status = 'in_progress' THEN now() ELSE started_at END,
+    completed_at = CASE WHEN p_status = 'completed' THEN now() ELSE completed_at END,
+    cancelled_at = CASE WHEN p_status = 'cancelled' THEN now() ELSE cancelled_at END,
+    expired_at = CASE WHEN p_status = 'expired' THEN now() ELSE expired_at END
+  WHERE id = p_ride_id
+  RETURNING * INTO v_ride;
+
+  PERFORM set_config('app.ride_transition', 'off', true);
+
+  RETURN v_ride;
+END;
+$function$;
+
+-- 4. Impedir que status, motorista e timestamps sejam alterados fora da RPC
+CREATE OR REPLACE FUNCTION public.guard_ride_status_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $function$
+BEGIN
+  IF COALESCE(auth.role(), '') = 'service_role'
+    OR current_setting('app.ride_transition', true) = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status <> 'requested' OR NEW.driver_id IS NOT NULL THEN
+      RAISE EXCEPTION 'INVALID_TRANSITION'
+        USING DETAIL = 'Corridas devem ser criadas com status requested e sem motorista';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status
+    OR NEW.driver_id IS DISTINCT FROM OLD.driver_id
+    OR NEW.accepted_at IS DISTINCT FROM OLD.accepted_at
+    OR NEW.driver_arriving_at IS DISTINCT FROM OLD.driver_arriving_at
+    OR NEW.pickup_arrived_at IS DISTINCT FROM OLD.pickup_arrived_at
+    OR NEW.started_at IS DISTINCT FROM OLD.started_at
+    OR NEW.completed_at IS DISTINCT FROM OLD.completed_at
+    OR NEW.cancelled_at IS DISTINCT FROM OLD.cancelled_at
+    OR NEW.expired_at IS DISTINCT FROM OLD.expired_at THEN
+    RAISE EXCEPTION 'INVALID_TRANSITION'
+      USING DETAIL = 'Use transition_ride_status() para alterar o status da corrida';
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+DROP TRIGGER IF EXISTS guard_ride_status_change_trigger ON public.rides;
+CREATE TRIGGER guard_ride_status_change_trigger
+  BEFORE INSERT OR UPDATE ON public.rides
+  FOR EACH ROW
+  EXECUTE FUNCTION public.guard_ride_status_change();
+
+-- 5. A limpeza automática também passa pela regra de expiração
+CREATE OR REPLACE FUNCTION public.cleanup_expired_rides_and_notifications()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  notifications_count int;
+  rides_count int;
+BEGIN
+  RAISE LOG 'Starting cleanup of expired rides and notifications';
+
+  UPDATE ride_notifications
+  SET status = 'expired'
+  WHERE status = 'pending'
+    AND expires_at < now();
+
+  GET DIAGNOSTICS notifications_count = ROW_COUNT;
+  RAISE LOG 'Cleaned up % expired ride notifications', notifications_count;
+
+  PERFORM set_config('app.ride_transition', 'on', true);
+
+  -- requested -> expired é a única transição do ator system nesta rotina
+  UPDATE rides
+  SET status = 'expired',
+      expired_at = now()
+  WHERE status = 'requested'
+    AND broadcast_expires_at < now();
+
+  GET DIAGNOSTICS rides_count = ROW_COUNT;
+  RAISE LOG 'Cleaned up % expired rides', rides_count;
+
+  PERFORM set_config('app.ride_transition', 'off', true);
+END;
+$$;
@@ -0,0 +1,102 @@
+-- Aceite atômico de corrida a partir de uma notificação
+-- Trava a corrida, valida a notificação, atribui o motorista e resolve
+-- todas as notificações irmãs na mesma transação, evitando aceite duplo.
+CREATE OR REPLACE FUNCTION public.accept_ride(p_notification_id uuid)
+RETURNS TABLE (
+  accepted boolean,
+  reason text,
+  ride_id uuid
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  v_uid uuid := auth.uid();
+  v_notification public.ride_notifications;
+  v_ride public.rides;
+BEGIN
+  IF v_uid IS NULL THEN
+    RAISE EXCEPTION 'NOT_AUTHENTICATED'
+      USING DETAIL = 'Usuário não autenticado';
+  END IF;
+
+  SELECT * INTO v_notification
+  FROM public.ride_notifications
+  WHERE id = p_notification_id;
+
+  IF NOT FOUND OR v_notification.driver_id <> v_uid THEN
+    RAISE EXCEPTION 'NOTIFICATION_NOT_FOUND'
+      USING DETAIL = format('Notificação %s não encontrada para este motorista', p_notification_id);
+  END IF;
+
+  -- A trava na corrida serializa motoristas concorrentes
+  SELECT * INTO v_ride
+  FROM public.rides
+  WHERE id = v_notification.ride_id
+  FOR UPDATE;
+
+  -- Relê a notificação depois da trava: outro aceite pode tê-la resolvido
+  SELECT * INTO v_notification
+  FROM public.ride_notifications
+  WHERE id = p_notification_id
+  FOR UPDATE;
+
+  IF v_ride.status <> 'requested' OR v_ride.driver_id IS NOT NULL THEN
+    UPDATE public.ride_notifications
+    SET status = 'cancelled'
+    WHERE id = p_notification_id AND status = 'pending';
+
+    RETURN QUERY SELECT false,
+      CASE WHEN v_ride.driver_id IS NOT NULL THEN 'ALREADY_TAKEN' ELSE 'RIDE_UNAVAILABLE' END,
+      v_ride.id;
+    RETURN;
+  END IF;
+
+  IF v_notification.status <> 'pending' THEN
+    RETURN QUERY SELECT false, 'NOTIFICATION_CLOSED', v_ride.id;
+    RETURN;
+  END IF;
+
+  IF v_notification.expires_at <= now() THEN
+    UPDATE public.ride_notifications
+    SET status = 'expired'
+    WHERE id = p_notification_id;
+
+    RETURN QUERY SELECT false, 'NOTIFICATION_EXPIRED', v_ride.id;
+    RETURN;
+  END IF;
+
+  -- Único caminho para atribuir motorista: transition_ride_status não aceita
+  -- corridas, então a oferta validada acima é obrigatória
+  IF NOT EXISTS (
+    SELECT 1 FROM public.drivers
+    WHERE user_id = v_uid AND status = 'approved'
+  ) THEN
+    RAISE EXCEPTION 'FORBIDDEN_TRANSITION'
+      USING DETAIL = 'Apenas motoristas aprovados podem aceitar corridas';
+  END IF;
+
+  PERFORM set_config('app.ride_transition', 'on', true);
+
+  UPDATE public.rides
+  SET status = 'accepted',
+      driver_id = v_uid,
+      accepted_at = now()
+  WHERE id = v_ride.id;
+
+  PERFORM set_config('app.ride_transition', 'off', true);
+
+  UPDATE public.ride_notifications
+  SET status = 'accepted'
+  WHERE id = p_notification_id;
+
+  UPDATE public.ride_notifications
+  SET status = 'cancelled'
+  WHERE ride_notifications.ride_id = v_ride.id
+    AND id <> p_notification_id
+    AND status = 'pending';
+
+  RETURN QUERY SELECT true, NULL::text, v_ride.id;
+END;
+$function$;
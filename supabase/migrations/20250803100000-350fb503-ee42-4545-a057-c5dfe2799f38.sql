@@ -0,0 +1,56 @@
+-- Estratégia de despacho configurável (broadcast ou sequencial)
+
+-- 1. Configurações de despacho
+ALTER TABLE public.system_settings
+  ADD COLUMN IF NOT EXISTS dispatch_strategy TEXT NOT NULL DEFAULT 'broadcast'
+    CHECK (dispatch_strategy IN ('broadcast', 'sequential')),
+  ADD COLUMN IF NOT EXISTS dispatch_offer_seconds INTEGER NOT NULL DEFAULT 20
+    CHECK (dispatch_offer_seconds BETWEEN 5 AND 300),
+  ADD COLUMN IF NOT EXISTS dispatch_max_drivers INTEGER NOT NULL DEFAULT 5
+    CHECK (dispatch_max_drivers BETWEEN 1 AND 50),
+  ADD COLUMN IF NOT EXISTS dispatch_radius_steps_km NUMERIC[] NOT NULL DEFAULT '{3,6,10}',
+  ADD COLUMN IF NOT EXISTS dispatch_expand_radius BOOLEAN NOT NULL DEFAULT true;
+
+-- Raios precisam ser positivos, crescentes e razoáveis
+CREATE OR REPLACE FUNCTION public.validate_dispatch_settings()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  v_previous numeric := 0;
+  v_step numeric;
+BEGIN
+  IF array_length(NEW.dispatch_radius_steps_km, 1) IS NULL THEN
+    RAISE EXCEPTION 'Invalid dispatch settings - at least one radius step is required';
+  END IF;
+
+  FOREACH v_step IN ARRAY NEW.dispatch_radius_steps_km LOOP
+    IF v_step <= v_previous OR v_step > 50 THEN
+      RAISE EXCEPTION 'Invalid dispatch settings - radius steps must be increasing and up to 50 km';
+    END IF;
+    v_previous := v_step;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$function$;
+
+DROP TRIGGER IF EXISTS validate_dispatch_settings_trigger ON public.system_settings;
+CREATE TRIGGER validate_dispatch_settings_trigger
+  BEFORE INSERT OR UPDATE ON public.system_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.validate_dispatch_settings();
+
+-- 2. Progresso do despacho em cada corrida
+ALTER TABLE public.rides
+  ADD COLUMN IF NOT EXISTS dispatch_round INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS dispatch_radius_km NUMERIC;
+
+-- 3. Rodada em que cada oferta foi feita
+ALTER TABLE public.ride_notifications
+  ADD COLUMN IF NOT EXISTS dispatch_round INTEGER NOT NULL DEFAULT 1;
+
+CREATE INDEX IF NOT EXISTS idx_ride_notifications_ride_round
+  ON public.ride_notifications(ride_id, dispatch_round);
@@ -0,0 +1,292 @@
+-- Fila persistente de tarefas das corridas
+-- Substitui os setTimeout das edge functions, que se perdiam quando a
+-- instância era reciclada. A função ride-jobs-worker consome esta fila.
+
+-- 1. Tarefas agendadas
+CREATE TABLE public.ride_jobs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  ride_id UUID NOT NULL REFERENCES public.rides(id) ON DELETE CASCADE,
+  job_type TEXT NOT NULL CHECK (job_type IN ('ride_timeout', 'notification_expiry', 'dispatch_advance')),
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'running', 'completed', 'failed', 'cancelled')),
+  run_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 5,
+  last_error TEXT,
+  result JSONB,
+  locked_by TEXT,
+  locked_at TIMESTAMP WITH TIME ZONE,
+  completed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_ride_jobs_due ON public.ride_jobs(run_at) WHERE status = 'pending';
+CREATE INDEX idx_ride_jobs_ride ON public.ride_jobs(ride_id, job_type);
+
+-- Uma tarefa pendente por tipo e corrida; reagendar apenas move o run_at
+CREATE UNIQUE INDEX idx_ride_jobs_pending_unique
+  ON public.ride_jobs(ride_id, job_type)
+  WHERE status = 'pending';
+
+-- 2. Histórico de cada execução
+CREATE TABLE public.ride_job_attempts (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  job_id UUID NOT NULL REFERENCES public.ride_jobs(id) ON DELETE CASCADE,
+  attempt INTEGER NOT NULL,
+  worker TEXT,
+  outcome TEXT NOT NULL CHECK (outcome IN ('completed', 'retry', 'failed', 'stuck')),
+  error TEXT,
+  result JSONB,
+  started_at TIMESTAMP WITH TIME ZONE,
+  finished_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_ride_job_attempts_job ON public.ride_job_attempts(job_id);
+
+ALTER TABLE public.ride_jobs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.ride_job_attempts ENABLE ROW LEVEL SECURITY;
+
+-- Apenas administradores acompanham a fila; o worker usa a service role
+CREATE POLICY "Admins can view ride jobs"
+ON public.ride_jobs
+FOR SELECT
+USING (public.get_current_user_role() = 'admin');
+
+CREATE POLICY "Admins can view ride job attempts"
+ON public.ride_job_attempts
+FOR SELECT
+USING (public.get_current_user_role() = 'admin');
+
+CREATE TRIGGER update_ride_jobs_updated_at
+  BEFORE UPDATE ON public.ride_jobs
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- 3. Agendar (ou reagendar) uma tarefa
+CREATE OR REPLACE FUNCTION public.schedule_ride_job(
+  p_ride_id uuid,
+  p_job_type text,
+  p_run_at timestamp with time zone
+)
+RETURNS public.ride_jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  v_job public.ride_jobs;
+BEGIN
+  IF COALESCE(auth.role(), '') <> 'service_role' THEN
+    RAISE EXCEPTION 'FORBIDDEN'
+      USING DETAIL = 'Apenas o servidor pode agendar tarefas';
+  END IF;
+
+  INSERT INTO public.ride_jobs (ride_id, job_type, run_at)
+  VALUES (p_ride_id, p_job_type, p_run_at)
+  ON CONFLICT (ride_id, job_type) WHERE status = 'pending'
+  DO UPDATE SET run_at = EXCLUDED.run_at
+  RETURNING * INTO v_job;
+
+  RETURN v_job;
+END;
+$function$;
+
+-- 4. Reservar tarefas vencidas para um worker
+-- Tarefas presas em running por mais de 5 minutos voltam para a fila
+-- e a tentativa perdida fica registrada como stuck. Se a própria execução já
+-- agendou outra tarefa do mesmo tipo, a presa é cancelada: só pode haver uma
+-- pendente por corrida e tipo.
+CREATE OR REPLACE FUNCTION public.claim_ride_jobs(
+  p_worker text,
+  p_limit integer DEFAULT 20
+)
+RETURNS SETOF public.ride_jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  v_stuck public.ride_jobs;
+BEGIN
+  IF COALESCE(auth.role(), '') <> 'service_role' THEN
+    RAISE EXCEPTION 'FORBIDDEN'
+      USING DETAIL = 'Apenas o servidor pode executar tarefas';
+  END IF;
+
+  INSERT INTO public.ride_job_attempts (job_id, attempt, worker, outcome, error, started_at)
+  SELECT id, attempts, locked_by, 'stuck', 'Worker não concluiu a tarefa em 5 minutos', locked_at
+  FROM public.ride_jobs
+  WHERE status = 'running'
+    AND locked_at < now() - INTERVAL '5 minutes';
+
+  -- Uma por vez: cada volta para a fila enxerga as anteriores
+  FOR v_stuck IN
+    SELECT * FROM public.ride_jobs
+    WHERE status = 'running'
+      AND locked_at < now() - INTERVAL '5 minutes'
+    ORDER BY locked_at
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    UPDATE public.ride_jobs j
+    SET status = CASE
+          WHEN j.attempts >= j.max_attempts THEN 'failed'
+          WHEN EXISTS (
+            SELECT 1 FROM public.ride_jobs p
+            WHERE p.ride_id = j.ride_id
+              AND p.job_type = j.job_type
+              AND p.status = 'pending'
+          ) THEN 'cancelled'
+          ELSE 'pending'
+        END,
+        last_error = 'Worker não concluiu a tarefa em 5 minutos',
+        locked_by = NULL,
+        locked_at = NULL
+    WHERE j.id = v_stuck.id;
+  END LOOP;
+
+  RETURN QUERY
+  UPDATE public.ride_jobs
+  SET status = 'running',
+      attempts = attempts + 1,
+      locked_by = p_worker,
+      locked_at = now()
+  WHERE id IN (
+    SELECT id FROM public.ride_jobs
+    WHERE status = 'pending'
+      AND run_at <= now()
+    ORDER BY run_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+END;
+$function$;
+
+-- 5. Registrar o resultado de uma execução
+-- Falhas voltam para a fila com espera exponencial até max_attempts, a não
+-- ser que já exista outra tarefa pendente do mesmo tipo para a corrida.
+CREATE OR REPLACE FUNCTION public.finish_ride_job(
+  p_job_id uuid,
+  p_success boolean,
+  p_result jsonb DEFAULT NULL,
+  p_error text DEFAULT NULL
+)
+RETURNS public.ride_jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  v_job public.ride_jobs;
+  v_outcome text;
+BEGIN
+  IF COALESCE(auth.role(), '') <> 'service_role' THEN
+    RAISE EXCEPTION 'FORBIDDEN'
+      USING DETAIL = 'Apenas o servidor pode executar tarefas';
+  END IF;
+
+  SELECT * INTO v_job
+  FROM public.ride_jobs
+  WHERE id = p_job_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_job.status <> 'running' THEN
+    RAISE EXCEPTION 'JOB_NOT_RUNNING'
+      USING DETAIL = format('Tarefa %s não está em execução', p_job_id);
+  END IF;
+
+  v_outcome := CASE
+    WHEN p_success THEN 'completed'
+    WHEN v_job.attempts >= v_job.max_attempts THEN 'failed'
+    ELSE 'retry'
+  END;
+
+  INSERT INTO public.ride_job_attempts (job_id, attempt, worker, outcome, error, result, started_at)
+  VALUES (v_job.id, v_job.attempts, v_job.locked_by, v_outcome, p_error, p_result, v_job.locked_at);
+
+  IF v_outcome = 'retry' AND EXISTS (
+    SELECT 1 FROM public.ride_jobs
+    WHERE ride_id = v_job.ride_id
+      AND job_type = v_job.job_type
+      AND status = 'pending'
+  ) THEN
+    UPDATE public.ride_jobs
+    SET status = 'cancelled',
+        result = jsonb_build_object('reason', 'superseded'),
+        last_error = p_error,
+        locked_by = NULL,
+        locked_at = NULL
+    WHERE id = p_job_id
+    RETURNING * INTO v_job;
+
+    RETURN v_job;
+  END IF;
+
+  UPDATE public.ride_jobs
+  SET status = CASE v_outcome WHEN 'retry' THEN 'pending' ELSE v_outcome END,
+      result = COALESCE(p_result, result),
+      last_error = p_error,
+      run_at = CASE
+        WHEN v_outcome = 'retry' THEN now() + (power(2, v_job.attempts) * INTERVAL '10 seconds')
+        ELSE run_at
+      END,
+      completed_at = CASE WHEN v_outcome = 'completed' THEN now() ELSE completed_at END,
+      locked_by = NULL,
+      locked_at = NULL
+  WHERE id = p_job_id
+  RETURNING * INTO v_job;
+
+  RETURN v_job;
+END;
+$function$;
+
+-- 6. Tarefas pendentes perdem o sentido quando a corrida sai de requested
+CREATE OR REPLACE FUNCTION public.cancel_ride_jobs_on_status_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status AND NEW.status <> 'requested' THEN
+    UPDATE public.ride_jobs
+    SET status = 'cancelled',
+        result = jsonb_build_object('reason', 'ride_' || NEW.status)
+    WHERE ride_id = NEW.id
+      AND status = 'pending';
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+DROP TRIGGER IF EXISTS cancel_ride_jobs_on_status_change_trigger ON public.rides;
+CREATE TRIGGER cancel_ride_jobs_on_status_change_trigger
+  AFTER UPDATE OF status ON public.rides
+  FOR EACH ROW
+  EXECUTE FUNCTION public.cancel_ride_jobs_on_status_change();
+
+-- 7. Visão para acompanhar tarefas atrasadas, presas ou que falharam
+CREATE OR REPLACE VIEW public.ride_jobs_needing_attention
+WITH (security_invoker = true)
+AS
+SELECT
+  j.*,
+  CASE
+    WHEN j.status = 'failed' THEN 'failed'
+    WHEN j.status = 'running' THEN 'stuck'
+    ELSE 'overdue'
+  END AS problem
+FROM public.ride_jobs j
+WHERE j.status = 'failed'
+  OR (j.status = 'running' AND j.locked_at < now() - INTERVAL '5 minutes')
+  OR (j.status = 'pending' AND j.run_at < now() - INTERVAL '2 minutes');
+
+-- Em produção o worker é chamado periodicamente pelo pg_cron, por exemplo:
+--   SELECT cron.schedule('ride-jobs-worker', '10 seconds', $$
+--     SELECT net.http_post(
+--       url := '<SUPABASE_URL>/functions/v1/ride-jobs-worker',
+--       headers := '{"Content-Type": "application/json"}'::jsonb
+--     );
+--   $$);
@@ -0,0 +1,61 @@
+-- Pontuação de motoristas no despacho
+
+-- 1. Pesos de cada fator, configuráveis pelo administrador
+ALTER TABLE public.system_settings
+  ADD COLUMN IF NOT EXISTS dispatch_score_weights JSONB NOT NULL DEFAULT
+    '{"distance": 0.4, "freshness": 0.15, "rating": 0.15, "acceptance": 0.15, "vehicle_match": 0.1, "idle_time": 0.05}';
+
+-- 2. Nota calculada em cada oferta, guardada para análise posterior
+ALTER TABLE public.ride_notifications
+  ADD COLUMN IF NOT EXISTS score NUMERIC(5,4),
+  ADD COLUMN IF NOT EXISTS score_breakdown JSONB;
+
+-- 3. Validação dos pesos junto com as demais configurações de despacho
+CREATE OR REPLACE FUNCTION public.validate_dispatch_settings()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  v_previous numeric := 0;
+  v_step numeric;
+  v_weight record;
+  v_total numeric := 0;
+BEGIN
+  IF array_length(NEW.dispatch_radius_steps_km, 1) IS NULL THEN
+    RAISE EXCEPTION 'Invalid dispatch settings - at least one radius step is required';
+  END IF;
+
+  FOREACH v_step IN ARRAY NEW.dispatch_radius_steps_km LOOP
+    IF v_step <= v_previous OR v_step > 50 THEN
+      RAISE EXCEPTION 'Invalid dispatch settings - radius steps must be increasing and up to 50 km';
+    END IF;
+    v_previous := v_step;
+  END LOOP;
+
+  IF jsonb_typeof(NEW.dispatch_score_weights) <> 'object' THEN
+    RAISE EXCEPTION 'Invalid dispatch settings - score weights must be an object';
+  END IF;
+
+  FOR v_weight IN SELECT key, value FROM jsonb_each(NEW.dispatch_score_weights) LOOP
+    IF v_weight.key NOT IN ('distance', 'freshness', 'rating', 'acceptance', 'vehicle_match', 'idle_time') THEN
+      RAISE EXCEPTION 'Invalid dispatch settings - unknown score factor %', v_weight.key;
+    END IF;
+
+    IF jsonb_typeof(v_weight.value) <> 'number'
+      OR (v_weight.value)::numeric < 0
+      OR (v_weight.value)::numeric > 1 THEN
+      RAISE EXCEPTION 'Invalid dispatch settings - score weight % must be between 0 and 1', v_weight.key;
+    END IF;
+
+    v_total := v_total + (v_weight.value)::numeric;
+  END LOOP;
+
+  IF v_total <= 0 THEN
+    RAISE EXCEPTION 'Invalid dispatch settings - at least one score weight must be positive';
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
@@ -0,0 +1,11 @@
+-- Elegibilidade de motoristas no despacho
+
+-- Quando ativo, só motoristas com o tipo de veículo pedido na corrida
+-- recebem a oferta; caso contrário o tipo apenas influencia a pontuação.
+ALTER TABLE public.system_settings
+  ADD COLUMN IF NOT EXISTS dispatch_require_vehicle_match BOOLEAN NOT NULL DEFAULT false;
+
+-- Consultas de corrida ativa por motorista feitas a cada despacho
+CREATE INDEX IF NOT EXISTS idx_rides_driver_status
+  ON public.rides(driver_id, status)
+  WHERE driver_id IS NOT NULL;
@@ -0,0 +1,57 @@
+-- Categoria de veículo escolhida pelo passageiro (moto ou carro)
+
+-- 1. Tarifas por categoria; modelo de preço e taxa do app continuam globais
+ALTER TABLE public.system_settings
+  ADD COLUMN IF NOT EXISTS vehicle_type_fares JSONB NOT NULL DEFAULT
+    '{"motorcycle": {"fixed_rate": 3.0, "price_per_km": 1.5, "minimum_fare": 6.0}, "car": {"fixed_rate": 5.0, "price_per_km": 2.5, "minimum_fare": 8.0}}';
+
+CREATE OR REPLACE FUNCTION public.validate_vehicle_type_fares()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  v_fare record;
+BEGIN
+  IF jsonb_typeof(NEW.vehicle_type_fares) <> 'object' THEN
+    RAISE EXCEPTION 'Invalid pricing settings - vehicle type fares must be an object';
+  END IF;
+
+  FOR v_fare IN SELECT key, value FROM jsonb_each(NEW.vehicle_type_fares) LOOP
+    IF v_fare.key NOT IN (SELECT unnest(enum_range(NULL::public.vehicle_type))::text) THEN
+      RAISE EXCEPTION 'Invalid pricing settings - unknown vehicle type %', v_fare.key;
+    END IF;
+
+    IF NOT public.validate_pricing_settings(
+      (v_fare.value->>'fixed_rate')::numeric,
+      (v_fare.value->>'price_per_km')::numeric,
+      (v_fare.value->>'minimum_fare')::numeric,
+      NEW.app_fee_percentage
+    ) THEN
+      RAISE EXCEPTION 'Invalid pricing settings - check bounds and values for %', v_fare.key;
+    END IF;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$function$;
+
+DROP TRIGGER IF EXISTS validate_vehicle_type_fares_trigger ON public.system_settings;
+CREATE TRIGGER validate_vehicle_type_fares_trigger
+  BEFORE INSERT OR UPDATE ON public.system_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.validate_vehicle_type_fares();
+
+-- 2. Categoria pedida em cada corrida (nula nas corridas antigas)
+ALTER TABLE public.rides
+  ADD COLUMN IF NOT EXISTS requested_vehicle_type public.vehicle_type;
+
+-- 3. A categoria pedida passa a ser sempre exigida no despacho,
+-- então a opção de exigir ou não o tipo de veículo deixa de existir
+ALTER TABLE public.system_settings
+  DROP COLUMN IF EXISTS dispatch_require_vehicle_match;
+
+CREATE INDEX IF NOT EXISTS idx_drivers_vehicle_type
+  ON public.drivers(vehicle_type)
+  WHERE status = 'approved';
@@ -0,0 +1,49 @@
+-- Preço da corrida calculado e travado no servidor (edge function create-ride)
+
+-- 1. Detalhamento da estimativa gerado pelo motor de tarifas
+ALTER TABLE public.rides
+  ADD COLUMN IF NOT EXISTS estimated_fare_breakdown JSONB;
+
+-- 2. Corridas só podem ser criadas pela service role, e o preço,
+-- a distância e a categoria não podem ser alterados pelo cliente
+CREATE OR REPLACE FUNCTION public.guard_ride_status_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $function$
+BEGIN
+  IF COALESCE(auth.role(), '') = 'service_role'
+    OR current_setting('app.ride_transition', true) = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    RAISE EXCEPTION 'RIDE_CREATION_FORBIDDEN'
+      USING DETAIL = 'Corridas devem ser criadas pela função create-ride';
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status
+    OR NEW.driver_id IS DISTINCT FROM OLD.driver_id
+    OR NEW.accepted_at IS DISTINCT FROM OLD.accepted_at
+    OR NEW.driver_arriving_at IS DISTINCT FROM OLD.driver_arriving_at
+    OR NEW.pickup_arrived_at IS DISTINCT FROM OLD.pickup_arrived_at
+    OR NEW.started_at IS DISTINCT FROM OLD.started_at
+    OR NEW.completed_at IS DISTINCT FROM OLD.completed_at
+    OR NEW.cancelled_at IS DISTINCT FROM OLD.cancelled_at
+    OR NEW.expired_at IS DISTINCT FROM OLD.expired_at THEN
+    RAISE EXCEPTION 'INVALID_TRANSITION'
+      USING DETAIL = 'Use transition_ride_status() para alterar o status da corrida';
+  END IF;
+
+  IF NEW.estimated_price IS DISTINCT FROM OLD.estimated_price
+    OR NEW.estimated_fare_breakdown IS DISTINCT FROM OLD.estimated_fare_breakdown
+    OR NEW.distance_km IS DISTINCT FROM OLD.distance_km
+    OR NEW.estimated_duration_minutes IS DISTINCT FROM OLD.estimated_duration_minutes
+    OR NEW.requested_vehicle_type IS DISTINCT FROM OLD.requested_vehicle_type THEN
+    RAISE EXCEPTION 'PRICE_LOCKED'
+      USING DETAIL = 'O preço da corrida é definido pelo servidor';
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
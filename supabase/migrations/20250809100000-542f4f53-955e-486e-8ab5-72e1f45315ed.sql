@@ -0,0 +1,110 @@
+-- Cobrança por tempo de viagem e por espera no embarque
+
+-- 1. Preço por minuto e espera
+ALTER TABLE public.system_settings
+  ADD COLUMN IF NOT EXISTS price_per_minute NUMERIC NOT NULL DEFAULT 0.3
+    CHECK (price_per_minute BETWEEN 0 AND 20),
+  ADD COLUMN IF NOT EXISTS free_waiting_minutes INTEGER NOT NULL DEFAULT 5
+    CHECK (free_waiting_minutes BETWEEN 0 AND 60),
+  ADD COLUMN IF NOT EXISTS waiting_price_per_minute NUMERIC NOT NULL DEFAULT 0.5
+    CHECK (waiting_price_per_minute BETWEEN 0 AND 20);
+
+-- Cada categoria também ganha o seu preço por minuto
+ALTER TABLE public.system_settings
+  ALTER COLUMN vehicle_type_fares SET DEFAULT
+    '{"motorcycle": {"fixed_rate": 3.0, "price_per_km": 1.5, "price_per_minute": 0.2, "minimum_fare": 6.0}, "car": {"fixed_rate": 5.0, "price_per_km": 2.5, "price_per_minute": 0.3, "minimum_fare": 8.0}}';
+
+UPDATE public.system_settings
+SET vehicle_type_fares = (
+  SELECT jsonb_object_agg(
+    key,
+    jsonb_build_object('price_per_minute', CASE key WHEN 'motorcycle' THEN 0.2 ELSE 0.3 END) || value
+  )
+  FROM jsonb_each(vehicle_type_fares)
+)
+WHERE vehicle_type_fares <> '{}'::jsonb;
+
+CREATE OR REPLACE FUNCTION public.validate_vehicle_type_fares()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  v_fare record;
+BEGIN
+  IF jsonb_typeof(NEW.vehicle_type_fares) <> 'object' THEN
+    RAISE EXCEPTION 'Invalid pricing settings - vehicle type fares must be an object';
+  END IF;
+
+  FOR v_fare IN SELECT key, value FROM jsonb_each(NEW.vehicle_type_fares) LOOP
+    IF v_fare.key NOT IN (SELECT unnest(enum_range(NULL::public.vehicle_type))::text) THEN
+      RAISE EXCEPTION 'Invalid pricing settings - unknown vehicle type %', v_fare.key;
+    END IF;
+
+    IF NOT public.validate_pricing_settings(
+      (v_fare.value->>'fixed_rate')::numeric,
+      (v_fare.value->>'price_per_km')::numeric,
+      (v_fare.value->>'minimum_fare')::numeric,
+      NEW.app_fee_percentage
+    ) THEN
+      RAISE EXCEPTION 'Invalid pricing settings - check bounds and values for %', v_fare.key;
+    END IF;
+
+    IF COALESCE((v_fare.value->>'price_per_minute')::numeric, 0) NOT BETWEEN 0 AND 20 THEN
+      RAISE EXCEPTION 'Invalid pricing settings - price per minute must be between 0 and 20 for %', v_fare.key;
+    END IF;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$function$;
+
+-- 2. Detalhamento do preço final calculado na conclusão (função complete-ride)
+ALTER TABLE public.rides
+  ADD COLUMN IF NOT EXISTS final_fare_breakdown JSONB;
+
+-- 3. O preço final também só pode ser gravado pelo servidor
+CREATE OR REPLACE FUNCTION public.guard_ride_status_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $function$
+BEGIN
+  IF COALESCE(auth.role(), '') = 'service_role'
+    OR current_setting('app.ride_transition', true) = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    RAISE EXCEPTION 'RIDE_CREATION_FORBIDDEN'
+      USING DETAIL = 'Corridas devem ser criadas pela função create-ride';
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status
+    OR NEW.driver_id IS DISTINCT FROM OLD.driver_id
+    OR NEW.accepted_at IS DISTINCT FROM OLD.accepted_at
+    OR NEW.driver_arriving_at IS DISTINCT FROM OLD.driver_arriving_at
+    OR NEW.pickup_arrived_at IS DISTINCT FROM OLD.pickup_arrived_at
+    OR NEW.started_at IS DISTINCT FROM OLD.started_at
+    OR NEW.completed_at IS DISTINCT FROM OLD.completed_at
+    OR NEW.cancelled_at IS DISTINCT FROM OLD.cancelled_at
+    OR NEW.expired_at IS DISTINCT FROM OLD.expired_at THEN
+    RAISE EXCEPTION 'INVALID_TRANSITION'
+      USING DETAIL = 'Use transition_ride_status() para alterar o status da corrida';
+  END IF;
+
+  IF NEW.estimated_price IS DISTINCT FROM OLD.estimated_price
+    OR NEW.estimated_fare_breakdown IS DISTINCT FROM OLD.estimated_fare_breakdown
+    OR NEW.final_price IS DISTINCT FROM OLD.final_price
+    OR NEW.final_fare_breakdown IS DISTINCT FROM OLD.final_fare_breakdown
+    OR NEW.distance_km IS DISTINCT FROM OLD.distance_km
+    OR NEW.estimated_duration_minutes IS DISTINCT FROM OLD.estimated_duration_minutes
+    OR NEW.requested_vehicle_type IS DISTINCT FROM OLD.requested_vehicle_type THEN
+    RAISE EXCEPTION 'PRICE_LOCKED'
+      USING DETAIL = 'O preço da corrida é definido pelo servidor';
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
@@ -0,0 +1,64 @@
+-- Tarifa dinâmica conforme oferta e demanda na região da origem
+
+-- 1. Limiar, sensibilidade e teto configurados pelo admin
+ALTER TABLE public.system_settings
+  ADD COLUMN IF NOT EXISTS surge_enabled BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS surge_radius_km NUMERIC NOT NULL DEFAULT 3
+    CHECK (surge_radius_km > 0 AND surge_radius_km <= 50),
+  ADD COLUMN IF NOT EXISTS surge_demand_threshold NUMERIC NOT NULL DEFAULT 1.0
+    CHECK (surge_demand_threshold >= 0 AND surge_demand_threshold <= 20),
+  ADD COLUMN IF NOT EXISTS surge_sensitivity NUMERIC NOT NULL DEFAULT 0.5
+    CHECK (surge_sensitivity >= 0 AND surge_sensitivity <= 5),
+  ADD COLUMN IF NOT EXISTS surge_max_multiplier NUMERIC NOT NULL DEFAULT 2.0
+    CHECK (surge_max_multiplier >= 1 AND surge_max_multiplier <= 5);
+
+-- 2. Multiplicador aceito pelo passageiro, usado também no preço final
+ALTER TABLE public.rides
+  ADD COLUMN IF NOT EXISTS surge_multiplier NUMERIC NOT NULL DEFAULT 1
+    CHECK (surge_multiplier >= 1);
+
+-- 3. O multiplicador fica travado junto com o preço
+CREATE OR REPLACE FUNCTION public.guard_ride_status_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $function$
+BEGIN
+  IF COALESCE(auth.role(), '') = 'service_role'
+    OR current_setting('app.ride_transition', true) = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    RAISE EXCEPTION 'RIDE_CREATION_FORBIDDEN'
+      USING DETAIL = 'Corridas devem ser criadas pela função create-ride';
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status
+    OR NEW.driver_id IS DISTINCT FROM OLD.driver_id
+    OR NEW.accepted_at IS DISTINCT FROM OLD.accepted_at
+    OR NEW.driver_arriving_at IS DISTINCT FROM OLD.driver_arriving_at
+    OR NEW.pickup_arrived_at IS DISTINCT FROM OLD.pickup_arrived_at
+    OR NEW.started_at IS DISTINCT FROM OLD.started_at
+    OR NEW.completed_at IS DISTINCT FROM OLD.completed_at
+    OR NEW.cancelled_at IS DISTINCT FROM OLD.cancelled_at
+    OR NEW.expired_at IS DISTINCT FROM OLD.expired_at THEN
+    RAISE EXCEPTION 'INVALID_TRANSITION'
+      USING DETAIL = 'Use transition_ride_status() para alterar o status da corrida';
+  END IF;
+
+  IF NEW.estimated_price IS DISTINCT FROM OLD.estimated_price
+    OR NEW.estimated_fare_breakdown IS DISTINCT FROM OLD.estimated_fare_breakdown
+    OR NEW.final_price IS DISTINCT FROM OLD.final_price
+    OR NEW.final_fare_breakdown IS DISTINCT FROM OLD.final_fare_breakdown
+    OR NEW.surge_multiplier IS DISTINCT FROM OLD.surge_multiplier
+    OR NEW.distance_km IS DISTINCT FROM OLD.distance_km
+    OR NEW.estimated_duration_minutes IS DISTINCT FROM OLD.estimated_duration_minutes
+    OR NEW.requested_vehicle_type IS DISTINCT FROM OLD.requested_vehicle_type THEN
+    RAISE EXCEPTION 'PRICE_LOCKED'
+      USING DETAIL = 'O preço da corrida é definido pelo servidor';
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
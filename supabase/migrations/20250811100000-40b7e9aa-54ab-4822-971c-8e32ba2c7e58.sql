@@ -0,0 +1,139 @@
+-- Zonas de atendimento definidas pelo admin
+-- Sem nenhuma zona ativa o app continua atendendo em qualquer lugar; com
+-- zonas cadastradas, a origem da corrida precisa estar dentro de uma delas.
+
+-- 1. Zonas (polígono como lista de pontos {lat, lng})
+CREATE TABLE public.service_zones (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  polygon JSONB NOT NULL,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  -- Tarifas por categoria que substituem as globais dentro da zona
+  fare_overrides JSONB NOT NULL DEFAULT '{}',
+  -- Raios de busca próprios da zona; nulo usa os de system_settings
+  dispatch_radius_steps_km NUMERIC[],
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.service_zones ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view active service zones"
+ON public.service_zones
+FOR SELECT
+USING (auth.uid() IS NOT NULL AND (is_active OR public.get_current_user_role() = 'admin'));
+
+CREATE POLICY "Admins can manage service zones"
+ON public.service_zones
+FOR ALL
+USING (public.get_current_user_role() = 'admin')
+WITH CHECK (public.get_current_user_role() = 'admin');
+
+CREATE TRIGGER update_service_zones_updated_at
+  BEFORE UPDATE ON public.service_zones
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE OR REPLACE FUNCTION public.validate_service_zone()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $function$
+DECLARE
+  v_point jsonb;
+  v_previous numeric := 0;
+  v_step numeric;
+BEGIN
+  IF jsonb_typeof(NEW.polygon) <> 'array' OR jsonb_array_length(NEW.polygon) < 3 THEN
+    RAISE EXCEPTION 'Invalid service zone - polygon needs at least 3 points';
+  END IF;
+
+  FOR v_point IN SELECT value FROM jsonb_array_elements(NEW.polygon) LOOP
+    IF jsonb_typeof(v_point->'lat') <> 'number' OR jsonb_typeof(v_point->'lng') <> 'number'
+      OR (v_point->>'lat')::numeric NOT BETWEEN -90 AND 90
+      OR (v_point->>'lng')::numeric NOT BETWEEN -180 AND 180 THEN
+      RAISE EXCEPTION 'Invalid service zone - polygon points must have valid lat and lng';
+    END IF;
+  END LOOP;
+
+  IF jsonb_typeof(NEW.fare_overrides) <> 'object' THEN
+    RAISE EXCEPTION 'Invalid service zone - fare overrides must be an object';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_object_keys(NEW.fare_overrides) AS k(key)
+    WHERE k.key NOT IN (SELECT unnest(enum_range(NULL::public.vehicle_type))::text)
+  ) THEN
+    RAISE EXCEPTION 'Invalid service zone - unknown vehicle type in fare overrides';
+  END IF;
+
+  IF NEW.dispatch_radius_steps_km IS NOT NULL THEN
+    FOREACH v_step IN ARRAY NEW.dispatch_radius_steps_km LOOP
+      IF v_step <= v_previous OR v_step > 50 THEN
+        RAISE EXCEPTION 'Invalid service zone - radius steps must be increasing and up to 50 km';
+      END IF;
+      v_previous := v_step;
+    END LOOP;
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER validate_service_zone_trigger
+  BEFORE INSERT OR UPDATE ON public.service_zones
+  FOR EACH ROW
+  EXECUTE FUNCTION public.validate_service_zone();
+
+-- 2. Zona em que a corrida foi criada (nula nas corridas antigas)
+ALTER TABLE public.rides
+  ADD COLUMN IF NOT EXISTS service_zone_id UUID REFERENCES public.service_zones(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_rides_service_zone ON public.rides(service_zone_id);
+
+-- 3. A zona define a tarifa, então também fica travada
+CREATE OR REPLACE FUNCTION public.guard_ride_status_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $function$
+BEGIN
+  IF COALESCE(auth.role(), '') = 'service_role'
+    OR current_setting('app.ride_transition', true) = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    RAISE EXCEPTION 'RIDE_CREATION_FORBIDDEN'
+      USING DETAIL = 'Corridas devem ser criadas pela função create-ride';
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status
+    OR NEW.driver_id IS DISTINCT FROM OLD.driver_id
+    OR NEW.accepted_at IS DISTINCT FROM OLD.accepted_at
+    OR NEW.driver_arriving_at IS DISTINCT FROM OLD.driver_arriving_at
+    OR NEW.pickup_arrived_at IS DISTINCT FROM OLD.pickup_arrived_at
+    OR NEW.started_at IS DISTINCT FROM OLD.started_at
+    OR NEW.completed_at IS DISTINCT FROM OLD.completed_at
+    OR NEW.cancelled_at IS DISTINCT FROM OLD.cancelled_at
+    OR NEW.expired_at IS DISTINCT FROM OLD.expired_at THEN
+    RAISE EXCEPTION 'INVALID_TRANSITION'
+      USING DETAIL = 'Use transition_ride_status() para alterar o status da corrida';
+  END IF;
+
+  IF NEW.estimated_price IS DISTINCT FROM OLD.estimated_price
+    OR NEW.estimated_fare_breakdown IS DISTINCT FROM OLD.estimated_fare_breakdown
+    OR NEW.final_price IS DISTINCT FROM OLD.final_price
+    OR NEW.final_fare_breakdown IS DISTINCT FROM OLD.final_fare_breakdown
+    OR NEW.surge_multiplier IS DISTINCT FROM OLD.surge_multiplier
+    OR NEW.service_zone_id IS DISTINCT FROM OLD.service_zone_id
+    OR NEW.distance_km IS DISTINCT FROM OLD.distance_km
+    OR NEW.estimated_duration_minutes IS DISTINCT FROM OLD.estimated_duration_minutes
+    OR NEW.requested_vehicle_type IS DISTINCT FROM OLD.requested_vehicle_type THEN
+    RAISE EXCEPTION 'PRICE_LOCKED'
+      USING DETAIL = 'O preço da corrida é definido pelo servidor';
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
@@ -0,0 +1,103 @@
+-- Repasses financeiros gravados na conclusão da corrida
+-- Um trigger em rides registra um lançamento por corrida concluída, seja qual
+-- for o caminho até completed, com a divisão gravada no recibo (ou a taxa em
+-- vigor naquele momento); painéis leem daqui em vez de recalcular.
+
+-- 1. Um lançamento por corrida, com a configuração de taxa usada no cálculo
+CREATE UNIQUE INDEX IF NOT EXISTS idx_financial_transfers_ride_id
+  ON public.financial_transfers(ride_id);
+
+CREATE INDEX IF NOT EXISTS idx_financial_transfers_driver_id
+  ON public.financial_transfers(driver_id);
+
+ALTER TABLE public.financial_transfers
+  ADD COLUMN IF NOT EXISTS fee_type TEXT,
+  ADD COLUMN IF NOT EXISTS app_fee_percentage DECIMAL(10,2);
+
+UPDATE public.financial_transfers SET transfer_status = 'pending' WHERE transfer_status IS NULL;
+
+ALTER TABLE public.financial_transfers
+  ALTER COLUMN transfer_status SET NOT NULL,
+  ADD CONSTRAINT financial_transfers_transfer_status_check
+    CHECK (transfer_status IN ('pending', 'processing', 'completed', 'failed'));
+
+-- 2. Corridas concluídas antes do livro-razão: usa o recibo gravado quando
+-- existe e, na falta dele, a taxa atual aplicada sobre o preço final
+INSERT INTO public.financial_transfers (
+  driver_id, ride_id, ride_value, app_fee, driver_amount, fee_type, app_fee_percentage
+)
+SELECT
+  r.driver_id,
+  r.id,
+  r.final_price,
+  fee.app_fee,
+  r.final_price - fee.app_fee,
+  s.fee_type,
+  s.app_fee_percentage
+FROM public.rides r
+CROSS JOIN LATERAL (
+  SELECT fee_type, app_fee_percentage FROM public.system_settings ORDER BY created_at DESC LIMIT 1
+) s
+CROSS JOIN LATERAL (
+  SELECT COALESCE(
+    (r.final_fare_breakdown->>'appFee')::numeric,
+    CASE
+      WHEN s.fee_type = 'percentage' THEN round(r.final_price * s.app_fee_percentage / 100, 2)
+      ELSE LEAST(s.app_fee_percentage, r.final_price)
+    END
+  ) AS app_fee
+) fee
+WHERE r.status = 'completed'
+  AND r.driver_id IS NOT NULL
+  AND r.final_price IS NOT NULL
+ON CONFLICT (ride_id) DO NOTHING;
+
+-- 3. Lançamento de toda corrida que chega a completed, na mesma transação
+CREATE OR REPLACE FUNCTION public.record_ride_financial_transfer()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  v_settings record;
+  v_value numeric;
+  v_app_fee numeric;
+BEGIN
+  IF NEW.status <> 'completed' OR OLD.status = 'completed' OR NEW.driver_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT s.fee_type, s.app_fee_percentage INTO v_settings
+  FROM public.system_settings s
+  ORDER BY s.created_at DESC
+  LIMIT 1;
+
+  v_value := COALESCE(NEW.final_price, NEW.estimated_price, 0);
+  v_app_fee := COALESCE(
+    (NEW.final_fare_breakdown->>'appFee')::numeric,
+    CASE
+      WHEN v_settings.fee_type = 'percentage' THEN round(v_value * v_settings.app_fee_percentage / 100, 2)
+      ELSE LEAST(COALESCE(v_settings.app_fee_percentage, 0), v_value)
+    END,
+    0
+  );
+
+  INSERT INTO public.financial_transfers (
+    driver_id, ride_id, ride_value, app_fee, driver_amount, fee_type, app_fee_percentage
+  )
+  VALUES (
+    NEW.driver_id, NEW.id, v_value, v_app_fee, v_value - v_app_fee,
+    v_settings.fee_type, v_settings.app_fee_percentage
+  )
+  ON CONFLICT (ride_id) DO NOTHING;
+
+  RETURN NEW;
+END;
+$function$;
+
+DROP TRIGGER IF EXISTS record_ride_financial_transfer_trigger ON public.rides;
+CREATE TRIGGER record_ride_financial_transfer_trigger
+  AFTER UPDATE OF status ON public.rides
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_ride_financial_transfer();
@@ -0,0 +1,150 @@
+-- Acerto das taxas do app devidas pelos motoristas
+-- Em corridas pagas em dinheiro o motorista recebe o valor cheio e fica devendo
+-- a taxa do app. O saldo é a soma das taxas das corridas em dinheiro em
+-- financial_transfers menos os acertos registrados pelo admin; acima do limite
+-- o motorista não fica online. Nas demais formas a taxa já fica com o app.
+
+-- 1. Limite de dívida (0 desativa o bloqueio)
+ALTER TABLE public.system_settings
+  ADD COLUMN IF NOT EXISTS driver_debt_limit DECIMAL(10,2) NOT NULL DEFAULT 100.00
+    CHECK (driver_debt_limit >= 0 AND driver_debt_limit <= 10000);
+
+-- 2. Pagamentos de taxa recebidos pelo admin
+CREATE TABLE public.driver_fee_settlements (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  driver_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  amount DECIMAL(10,2) NOT NULL CHECK (amount > 0),
+  method TEXT NOT NULL CHECK (method IN ('pix', 'cash', 'bank_transfer', 'other')),
+  reference TEXT,
+  received_by UUID REFERENCES auth.users(id) DEFAULT auth.uid(),
+  received_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.driver_fee_settlements ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Drivers can view their own fee settlements"
+ON public.driver_fee_settlements
+FOR SELECT
+USING (auth.uid() = driver_id);
+
+CREATE POLICY "Admins can manage fee settlements"
+ON public.driver_fee_settlements
+FOR ALL
+USING (public.get_current_user_role() = 'admin')
+WITH CHECK (public.get_current_user_role() = 'admin');
+
+CREATE INDEX idx_driver_fee_settlements_driver_id
+  ON public.driver_fee_settlements(driver_id, received_at DESC);
+
+-- 3. Saldo por motorista; quem não é admin só enxerga o próprio. O servidor
+-- (service_role) consulta qualquer motorista para filtrar o despacho.
+CREATE OR REPLACE FUNCTION public.get_driver_fee_balances(p_driver_id uuid DEFAULT NULL)
+RETURNS TABLE (
+  driver_id uuid,
+  total_fees numeric,
+  total_settled numeric,
+  balance numeric,
+  debt_limit numeric,
+  is_blocked boolean
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  v_uid uuid := auth.uid();
+  v_limit numeric;
+BEGIN
+  IF COALESCE(auth.role(), '') <> 'service_role' THEN
+    IF v_uid IS NULL THEN
+      RAISE EXCEPTION 'NOT_AUTHENTICATED'
+        USING DETAIL = 'Usuário não autenticado';
+    END IF;
+
+    IF public.get_current_user_role() <> 'admin' THEN
+      p_driver_id := v_uid;
+    END IF;
+  END IF;
+
+  SELECT COALESCE(s.driver_debt_limit, 0) INTO v_limit
+  FROM public.system_settings s
+  ORDER BY s.created_at DESC
+  LIMIT 1;
+
+  RETURN QUERY
+  SELECT
+    d.user_id,
+    COALESCE(f.total_fees, 0),
+    COALESCE(st.total_settled, 0),
+    COALESCE(f.total_fees, 0) - COALESCE(st.total_settled, 0),
+    COALESCE(v_limit, 0),
+    COALESCE(v_limit, 0) > 0
+      AND COALESCE(f.total_fees, 0) - COALESCE(st.total_settled, 0) > v_limit
+  FROM public.drivers d
+  LEFT JOIN (
+    SELECT ft.driver_id, SUM(ft.app_fee) AS total_fees
+    FROM public.financial_transfers ft
+    JOIN public.rides r ON r.id = ft.ride_id
+    WHERE r.payment_method = 'cash'
+    GROUP BY ft.driver_id
+  ) f ON f.driver_id = d.user_id
+  LEFT JOIN (
+    SELECT dfs.driver_id, SUM(dfs.amount) AS total_settled
+    FROM public.driver_fee_settlements dfs
+    GROUP BY dfs.driver_id
+  ) st ON st.driver_id = d.user_id
+  WHERE p_driver_id IS NULL OR d.user_id = p_driver_id;
+END;
+$function$;
+
+-- 4. Bloqueia a passagem para online de quem está acima do limite.
+-- A localização é gravada em novas linhas a cada atualização, então só conta
+-- como "ficar online" quando não há linha online recente do motorista.
+CREATE OR REPLACE FUNCTION public.enforce_driver_debt_limit()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  v_balance record;
+BEGIN
+  -- Funções com service_role não passam por aqui
+  IF NOT NEW.is_online OR auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND OLD.is_online THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' AND EXISTS (
+    SELECT 1 FROM public.driver_locations dl
+    WHERE dl.driver_id = NEW.driver_id
+      AND dl.is_online
+      AND dl.last_update > now() - interval '2 minutes'
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_balance
+  FROM public.get_driver_fee_balances(NEW.driver_id);
+
+  IF FOUND AND v_balance.is_blocked THEN
+    RAISE EXCEPTION 'DRIVER_DEBT_LIMIT'
+      USING DETAIL = format('Taxas pendentes de R$ %s acima do limite de R$ %s',
+        to_char(v_balance.balance, 'FM999990.00'),
+        to_char(v_balance.debt_limit, 'FM999990.00'));
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+DROP TRIGGER IF EXISTS enforce_driver_debt_limit_trigger ON public.driver_locations;
+CREATE TRIGGER enforce_driver_debt_limit_trigger
+  BEFORE INSERT OR UPDATE ON public.driver_locations
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_driver_debt_limit();
@@ -0,0 +1,118 @@
+-- Pagamentos de corrida via PSP (Pix)
+-- Cobranças são criadas pela função payments e confirmadas pelo payment-webhook;
+-- ambos escrevem com service_role, os participantes da corrida apenas leem.
+
+-- 1. Cobranças
+CREATE TABLE public.payments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  ride_id UUID NOT NULL REFERENCES public.rides(id) ON DELETE CASCADE,
+  provider TEXT NOT NULL,
+  provider_charge_id TEXT NOT NULL,
+  method payment_method NOT NULL DEFAULT 'pix',
+  amount DECIMAL(10,2) NOT NULL CHECK (amount > 0),
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'paid', 'expired', 'refunded', 'cancelled')),
+  txid TEXT,
+  -- Pix copia e cola; qr_image_url só quando o PSP devolve a imagem
+  br_code TEXT,
+  qr_type TEXT CHECK (qr_type IN ('static', 'dynamic')),
+  qr_image_url TEXT,
+  expires_at TIMESTAMP WITH TIME ZONE,
+  paid_at TIMESTAMP WITH TIME ZONE,
+  refunded_at TIMESTAMP WITH TIME ZONE,
+  refund_amount DECIMAL(10,2),
+  -- Último evento recebido do PSP
+  provider_payload JSONB,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (provider, provider_charge_id)
+);
+
+ALTER TABLE public.payments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Ride participants can view payments"
+ON public.payments
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.rides r
+    WHERE r.id = payments.ride_id
+      AND (r.passenger_id = auth.uid() OR r.driver_id = auth.uid())
+  )
+);
+
+CREATE POLICY "Admins can view all payments"
+ON public.payments
+FOR SELECT
+USING (public.get_current_user_role() = 'admin');
+
+CREATE INDEX idx_payments_ride_id ON public.payments(ride_id, created_at DESC);
+CREATE INDEX idx_payments_pending_expiry ON public.payments(expires_at) WHERE status = 'pending';
+
+CREATE TRIGGER update_payments_updated_at
+  BEFORE UPDATE ON public.payments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.payments;
+
+-- 2. Cobranças vencidas saem de pending; o passageiro pode gerar outra
+CREATE OR REPLACE FUNCTION public.expire_pending_payments()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  v_count integer;
+BEGIN
+  UPDATE public.payments
+  SET status = 'expired'
+  WHERE status = 'pending'
+    AND expires_at < now();
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$function$;
+
+-- 3. A limpeza periódica também expira as cobranças
+CREATE OR REPLACE FUNCTION public.cleanup_expired_rides_and_notifications()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  notifications_count int;
+  rides_count int;
+  payments_count int;
+BEGIN
+  RAISE LOG 'Starting cleanup of expired rides and notifications';
+
+  UPDATE ride_notifications
+  SET status = 'expired'
+  WHERE status = 'pending'
+    AND expires_at < now();
+
+  GET DIAGNOSTICS notifications_count = ROW_COUNT;
+  RAISE LOG 'Cleaned up % expired ride notifications', notifications_count;
+
+  PERFORM set_config('app.ride_transition', 'on', true);
+
+  -- requested -> expired é a única transição do ator system nesta rotina
+  UPDATE rides
+  SET status = 'expired',
+      expired_at = now()
+  WHERE status = 'requested'
+    AND broadcast_expires_at < now();
+
+  GET DIAGNOSTICS rides_count = ROW_COUNT;
+  RAISE LOG 'Cleaned up % expired rides', rides_count;
+
+  PERFORM set_config('app.ride_transition', 'off', true);
+
+  payments_count := public.expire_pending_payments();
+  RAISE LOG 'Expired % pending payments', payments_count;
+END;
+$$;
@@ -0,0 +1,150 @@
+-- Forma de pagamento escolhida pelo passageiro e ciclo de vida do pagamento
+-- payment_status: pending -> authorized -> paid -> refunded, com failed em caso
+-- de recusa e partially_refunded enquanto o estorno não cobre o valor todo. Só o servidor altera o pagamento, e a corrida só chega a
+-- completed com o pagamento quitado (ou o dinheiro confirmado pelo motorista).
+
+-- 1. Corridas antigas: concluídas sob a regra anterior contam como pagas
+UPDATE public.rides SET payment_method = 'cash' WHERE payment_method IS NULL;
+
+UPDATE public.rides
+SET payment_status = CASE WHEN status = 'completed' THEN 'paid' ELSE 'pending' END
+WHERE payment_status IS NULL
+  OR payment_status NOT IN ('pending', 'authorized', 'paid', 'failed', 'partially_refunded', 'refunded')
+  OR (status = 'completed' AND payment_status = 'pending');
+
+ALTER TABLE public.rides
+  ALTER COLUMN payment_method SET NOT NULL,
+  ALTER COLUMN payment_status SET NOT NULL,
+  ALTER COLUMN payment_status SET DEFAULT 'pending',
+  ADD CONSTRAINT rides_payment_status_check
+    CHECK (payment_status IN ('pending', 'authorized', 'paid', 'failed', 'partially_refunded', 'refunded'));
+
+-- Fim da viagem: o preço final é fechado aqui, antes do pagamento e da conclusão
+ALTER TABLE public.rides
+  ADD COLUMN IF NOT EXISTS trip_ended_at TIMESTAMP WITH TIME ZONE;
+
+-- 2. Cobranças de cartão passam por autorização e podem ser recusadas;
+-- refund_amount soma os estornos já feitos
+ALTER TABLE public.payments DROP CONSTRAINT IF EXISTS payments_status_check;
+ALTER TABLE public.payments
+  ADD CONSTRAINT payments_status_check
+    CHECK (status IN ('pending', 'authorized', 'paid', 'failed', 'expired', 'partially_refunded', 'refunded', 'cancelled'));
+
+-- 3. Transições válidas do pagamento e exigência de pagamento para concluir.
+-- Vale também para service_role: as funções de pagamento seguem a mesma regra.
+CREATE OR REPLACE FUNCTION public.enforce_ride_payment_lifecycle()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $function$
+BEGIN
+  IF NEW.payment_status IS DISTINCT FROM OLD.payment_status
+    AND NOT (
+      (OLD.payment_status = 'pending' AND NEW.payment_status IN ('authorized', 'paid', 'failed'))
+      OR (OLD.payment_status = 'authorized' AND NEW.payment_status IN ('paid', 'failed'))
+      OR (OLD.payment_status IN ('paid', 'partially_refunded') AND NEW.payment_status IN ('partially_refunded', 'refunded'))
+      OR (OLD.payment_status = 'failed' AND NEW.payment_status IN ('pending', 'authorized', 'paid'))
+    ) THEN
+    RAISE EXCEPTION 'INVALID_PAYMENT_TRANSITION'
+      USING DETAIL = format('Pagamento não pode ir de %s para %s', OLD.payment_status, NEW.payment_status);
+  END IF;
+
+  IF NEW.status = 'completed' AND OLD.status <> 'completed' AND NEW.payment_status <> 'paid' THEN
+    RAISE EXCEPTION 'PAYMENT_NOT_SETTLED'
+      USING DETAIL = format('Pagamento da corrida %s está %s', NEW.id, NEW.payment_status);
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+DROP TRIGGER IF EXISTS enforce_ride_payment_lifecycle_trigger ON public.rides;
+CREATE TRIGGER enforce_ride_payment_lifecycle_trigger
+  BEFORE UPDATE ON public.rides
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_ride_payment_lifecycle();
+
+-- 4. Clientes não alteram forma nem status de pagamento, nem o fim da viagem
+CREATE OR REPLACE FUNCTION public.guard_ride_status_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $function$
+BEGIN
+  IF COALESCE(auth.role(), '') = 'service_role'
+    OR current_setting('app.ride_transition', true) = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    RAISE EXCEPTION 'RIDE_CREATION_FORBIDDEN'
+      USING DETAIL = 'Corridas devem ser criadas pela função create-ride';
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status
+    OR NEW.driver_id IS DISTINCT FROM OLD.driver_id
+    OR NEW.accepted_at IS DISTINCT FROM OLD.accepted_at
+    OR NEW.driver_arriving_at IS DISTINCT FROM OLD.driver_arriving_at
+    OR NEW.pickup_arrived_at IS DISTINCT FROM OLD.pickup_arrived_at
+    OR NEW.started_at IS DISTINCT FROM OLD.started_at
+    OR NEW.completed_at IS DISTINCT FROM OLD.completed_at
+    OR NEW.cancelled_at IS DISTINCT FROM OLD.cancelled_at
+    OR NEW.expired_at IS DISTINCT FROM OLD.expired_at THEN
+    RAISE EXCEPTION 'INVALID_TRANSITION'
+      USING DETAIL = 'Use transition_ride_status() para alterar o status da corrida';
+  END IF;
+
+  IF NEW.estimated_price IS DISTINCT FROM OLD.estimated_price
+    OR NEW.estimated_fare_breakdown IS DISTINCT FROM OLD.estimated_fare_breakdown
+    OR NEW.final_price IS DISTINCT FROM OLD.final_price
+    OR NEW.final_fare_breakdown IS DISTINCT FROM OLD.final_fare_breakdown
+    OR NEW.surge_multiplier IS DISTINCT FROM OLD.surge_multiplier
+    OR NEW.service_zone_id IS DISTINCT FROM OLD.service_zone_id
+    OR NEW.distance_km IS DISTINCT FROM OLD.distance_km
+    OR NEW.estimated_duration_minutes IS DISTINCT FROM OLD.estimated_duration_minutes
+    OR NEW.requested_vehicle_type IS DISTINCT FROM OLD.requested_vehicle_type
+    OR NEW.trip_ended_at IS DISTINCT FROM OLD.trip_ended_at THEN
+    RAISE EXCEPTION 'PRICE_LOCKED'
+      USING DETAIL = 'O preço da corrida é definido pelo servidor';
+  END IF;
+
+  IF NEW.payment_method IS DISTINCT FROM OLD.payment_method
+    OR NEW.payment_status IS DISTINCT FROM OLD.payment_status THEN
+    RAISE EXCEPTION 'PAYMENT_LOCKED'
+      USING DETAIL = 'O pagamento da corrida é atualizado pelo servidor';
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+-- 5. A oferta ao motorista já informa como o passageiro vai pagar
+ALTER TABLE public.ride_notifications
+  ADD COLUMN IF NOT EXISTS payment_method payment_method;
+
+CREATE OR REPLACE FUNCTION public.fill_ride_notification_offer()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+BEGIN
+  SELECT r.payment_method INTO NEW.payment_method
+  FROM public.rides r
+  WHERE r.id = NEW.ride_id;
+
+  RETURN NEW;
+END;
+$function$;
+
+DROP TRIGGER IF EXISTS fill_ride_notification_offer_trigger ON public.ride_notifications;
+CREATE TRIGGER fill_ride_notification_offer_trigger
+  BEFORE INSERT ON public.ride_notifications
+  FOR EACH ROW
+  EXECUTE FUNCTION public.fill_ride_notification_offer();
+
+UPDATE public.ride_notifications n
+SET payment_method = r.payment_method
+FROM public.rides r
+WHERE r.id = n.ride_id
+  AND n.payment_method IS NULL;
@@ -0,0 +1,348 @@
+-- Avaliação nos dois sentidos depois da corrida concluída.
+-- passenger_* é o que o passageiro deu ao motorista; driver_* é o que o
+-- motorista deu ao passageiro. Cada lado avalia uma vez e não pode alterar.
+
+-- 1. Estrelas, tags e comentário de cada lado
+ALTER TABLE public.rides
+  ADD COLUMN IF NOT EXISTS passenger_rating_tags TEXT[],
+  ADD COLUMN IF NOT EXISTS passenger_rated_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS driver_rating_tags TEXT[],
+  ADD COLUMN IF NOT EXISTS driver_rated_at TIMESTAMP WITH TIME ZONE;
+
+UPDATE public.rides SET passenger_rated_at = COALESCE(completed_at, updated_at)
+WHERE passenger_rating IS NOT NULL AND passenger_rated_at IS NULL;
+
+UPDATE public.rides SET driver_rated_at = COALESCE(completed_at, updated_at)
+WHERE driver_rating IS NOT NULL AND driver_rated_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_rides_driver_rated
+  ON public.rides(driver_id, passenger_rated_at DESC)
+  WHERE passenger_rating IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_rides_passenger_rated
+  ON public.rides(passenger_id, driver_rated_at DESC)
+  WHERE driver_rating IS NOT NULL;
+
+-- 2. Nota do passageiro, no mesmo formato da nota do motorista
+ALTER TABLE public.profiles
+  ADD COLUMN IF NOT EXISTS rating DECIMAL(3,2) DEFAULT 5.00,
+  ADD COLUMN IF NOT EXISTS rating_count INTEGER NOT NULL DEFAULT 0;
+
+ALTER TABLE public.drivers
+  ADD COLUMN IF NOT EXISTS rating_count INTEGER NOT NULL DEFAULT 0;
+
+-- 3. Média móvel das últimas avaliações recebidas. Sem avaliações, volta a 5.00.
+CREATE OR REPLACE FUNCTION public.refresh_user_ratings(p_user_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  v_window constant int := 100;
+  v_avg numeric;
+  v_count int;
+BEGIN
+  -- Libera guard_user_rating_change só nesta transação
+  PERFORM set_config('app.rating_refresh', 'on', true);
+
+  SELECT AVG(r.passenger_rating), COUNT(*) INTO v_avg, v_count
+  FROM (
+    SELECT passenger_rating
+    FROM public.rides
+    WHERE driver_id = p_user_id AND passenger_rating IS NOT NULL
+    ORDER BY passenger_rated_at DESC
+    LIMIT v_window
+  ) r;
+
+  UPDATE public.drivers
+  SET rating = ROUND(COALESCE(v_avg, 5), 2),
+      rating_count = (
+        SELECT COUNT(*) FROM public.rides
+        WHERE driver_id = p_user_id AND passenger_rating IS NOT NULL
+      )
+  WHERE user_id = p_user_id;
+
+  SELECT AVG(r.driver_rating) INTO v_avg
+  FROM (
+    SELECT driver_rating
+    FROM public.rides
+    WHERE passenger_id = p_user_id AND driver_rating IS NOT NULL
+    ORDER BY driver_rated_at DESC
+    LIMIT v_window
+  ) r;
+
+  UPDATE public.profiles
+  SET rating = ROUND(COALESCE(v_avg, 5), 2),
+      rating_count = (
+        SELECT COUNT(*) FROM public.rides
+        WHERE passenger_id = p_user_id AND driver_rating IS NOT NULL
+      )
+  WHERE user_id = p_user_id;
+END;
+$function$;
+
+-- 4. Única forma de avaliar: participante, corrida concluída, uma vez por lado
+CREATE OR REPLACE FUNCTION public.submit_ride_rating(
+  p_ride_id uuid,
+  p_rating integer,
+  p_tags text[] DEFAULT '{}',
+  p_comment text DEFAULT NULL
+)
+RETURNS public.rides
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  v_uid uuid := auth.uid();
+  v_ride public.rides;
+  v_tags text[] := COALESCE(p_tags, '{}');
+  v_comment text := NULLIF(btrim(p_comment), '');
+BEGIN
+  IF v_uid IS NULL THEN
+    RAISE EXCEPTION 'NOT_AUTHENTICATED'
+      USING DETAIL = 'Usuário não autenticado';
+  END IF;
+
+  SELECT * INTO v_ride FROM public.rides WHERE id = p_ride_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'RIDE_NOT_FOUND'
+      USING DETAIL = format('Corrida %s não encontrada', p_ride_id);
+  END IF;
+
+  IF v_uid <> v_ride.passenger_id AND v_uid IS DISTINCT FROM v_ride.driver_id THEN
+    RAISE EXCEPTION 'NOT_PARTICIPANT'
+      USING DETAIL = 'Usuário não participa desta corrida';
+  END IF;
+
+  IF v_ride.status <> 'completed' THEN
+    RAISE EXCEPTION 'RIDE_NOT_COMPLETED'
+      USING DETAIL = 'Só é possível avaliar corridas concluídas';
+  END IF;
+
+  IF p_rating IS NULL OR p_rating < 1 OR p_rating > 5
+    OR array_length(v_tags, 1) > 5
+    OR EXISTS (SELECT 1 FROM unnest(v_tags) t WHERE length(t) = 0 OR length(t) > 40)
+    OR length(v_comment) > 500 THEN
+    RAISE EXCEPTION 'INVALID_RATING'
+      USING DETAIL = 'Nota de 1 a 5, até 5 tags e comentário de até 500 caracteres';
+  END IF;
+
+  PERFORM set_config('app.ride_transition', 'on', true);
+
+  IF v_uid = v_ride.passenger_id THEN
+    IF v_ride.passenger_rated_at IS NOT NULL THEN
+      RAISE EXCEPTION 'RATING_ALREADY_SUBMITTED'
+        USING DETAIL = 'Esta corrida já foi avaliada pelo passageiro';
+    END IF;
+
+    UPDATE public.rides
+    SET passenger_rating = p_rating,
+        passenger_rating_tags = v_tags,
+        passenger_comment = v_comment,
+        passenger_rated_at = now()
+    WHERE id = p_ride_id
+    RETURNING * INTO v_ride;
+
+    PERFORM public.refresh_user_ratings(v_ride.driver_id);
+  ELSE
+    IF v_ride.driver_rated_at IS NOT NULL THEN
+      RAISE EXCEPTION 'RATING_ALREADY_SUBMITTED'
+        USING DETAIL = 'Esta corrida já foi avaliada pelo motorista';
+    END IF;
+
+    UPDATE public.rides
+    SET driver_rating = p_rating,
+        driver_rating_tags = v_tags,
+        driver_comment = v_comment,
+        driver_rated_at = now()
+    WHERE id = p_ride_id
+    RETURNING * INTO v_ride;
+
+    PERFORM public.refresh_user_ratings(v_ride.passenger_id);
+  END IF;
+
+  PERFORM set_config('app.ride_transition', 'off', true);
+
+  RETURN v_ride;
+END;
+$function$;
+
+-- 5. Avaliação enviada não muda mais, nem pelo servidor
+CREATE OR REPLACE FUNCTION public.enforce_ride_rating_immutable()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $function$
+BEGIN
+  IF (OLD.passenger_rated_at IS NOT NULL AND (
+      NEW.passenger_rating IS DISTINCT FROM OLD.passenger_rating
+      OR NEW.passenger_rating_tags IS DISTINCT FROM OLD.passenger_rating_tags
+      OR NEW.passenger_comment IS DISTINCT FROM OLD.passenger_comment
+      OR NEW.passenger_rated_at IS DISTINCT FROM OLD.passenger_rated_at))
+    OR (OLD.driver_rated_at IS NOT NULL AND (
+      NEW.driver_rating IS DISTINCT FROM OLD.driver_rating
+      OR NEW.driver_rating_tags IS DISTINCT FROM OLD.driver_rating_tags
+      OR NEW.driver_comment IS DISTINCT FROM OLD.driver_comment
+      OR NEW.driver_rated_at IS DISTINCT FROM OLD.driver_rated_at)) THEN
+    RAISE EXCEPTION 'RATING_ALREADY_SUBMITTED'
+      USING DETAIL = 'Avaliações não podem ser alteradas';
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+DROP TRIGGER IF EXISTS enforce_ride_rating_immutable_trigger ON public.rides;
+CREATE TRIGGER enforce_ride_rating_immutable_trigger
+  BEFORE UPDATE ON public.rides
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_ride_rating_immutable();
+
+-- 6. Clientes não gravam avaliação direto na corrida
+CREATE OR REPLACE FUNCTION public.guard_ride_status_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $function$
+BEGIN
+  IF COALESCE(auth.role(), '') = 'service_role'
+    OR current_setting('app.ride_transition', true) = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    RAISE EXCEPTION 'RIDE_CREATION_FORBIDDEN'
+      USING DETAIL = 'Corridas devem ser criadas pela função create-ride';
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status
+    OR NEW.driver_id IS DISTINCT FROM OLD.driver_id
+    OR NEW.accepted_at IS DISTINCT FROM OLD.accepted_at
+    OR NEW.driver_arriving_at IS DISTINCT FROM OLD.driver_arriving_at
+    OR NEW.pickup_arrived_at IS DISTINCT FROM OLD.pickup_arrived_at
+    OR NEW.started_at IS DISTINCT FROM OLD.started_at
+    OR NEW.completed_at IS DISTINCT FROM OLD.completed_at
+    OR NEW.cancelled_at IS DISTINCT FROM OLD.cancelled_at
+    OR NEW.expired_at IS DISTINCT FROM OLD.expired_at THEN
+    RAISE EXCEPTION 'INVALID_TRANSITION'
+      USING DETAIL = 'Use transition_ride_status() para alterar o status da corrida';
+  END IF;
+
+  IF NEW.estimated_price IS DISTINCT FROM OLD.estimated_price
+    OR NEW.estimated_fare_breakdown IS DISTINCT FROM OLD.estimated_fare_breakdown
+    OR NEW.final_price IS DISTINCT FROM OLD.final_price
+    OR NEW.final_fare_breakdown IS DISTINCT FROM OLD.final_fare_breakdown
+    OR NEW.surge_multiplier IS DISTINCT FROM OLD.surge_multiplier
+    OR NEW.service_zone_id IS DISTINCT FROM OLD.service_zone_id
+    OR NEW.distance_km IS DISTINCT FROM OLD.distance_km
+    OR NEW.estimated_duration_minutes IS DISTINCT FROM OLD.estimated_duration_minutes
+    OR NEW.requested_vehicle_type IS DISTINCT FROM OLD.requested_vehicle_type
+    OR NEW.trip_ended_at IS DISTINCT FROM OLD.trip_ended_at THEN
+    RAISE EXCEPTION 'PRICE_LOCKED'
+      USING DETAIL = 'O preço da corrida é definido pelo servidor';
+  END IF;
+
+  IF NEW.payment_method IS DISTINCT FROM OLD.payment_method
+    OR NEW.payment_status IS DISTINCT FROM OLD.payment_status THEN
+    RAISE EXCEPTION 'PAYMENT_LOCKED'
+      USING DETAIL = 'O pagamento da corrida é atualizado pelo servidor';
+  END IF;
+
+  IF NEW.passenger_rating IS DISTINCT FROM OLD.passenger_rating
+    OR NEW.passenger_comment IS DISTINCT FROM OLD.passenger_comment
+    OR NEW.passenger_rating_tags IS DISTINCT FROM OLD.passenger_rating_tags
+    OR NEW.passenger_rated_at IS DISTINCT FROM OLD.passenger_rated_at
+    OR NEW.driver_rating IS DISTINCT FROM OLD.driver_rating
+    OR NEW.driver_comment IS DISTINCT FROM OLD.driver_comment
+    OR NEW.driver_rating_tags IS DISTINCT FROM OLD.driver_rating_tags
+    OR NEW.driver_rated_at IS DISTINCT FROM OLD.driver_rated_at THEN
+    RAISE EXCEPTION 'RATING_LOCKED'
+      USING DETAIL = 'Use submit_ride_rating() para avaliar a corrida';
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+-- 7. Contas com nota baixa, para acompanhamento do admin
+CREATE OR REPLACE FUNCTION public.get_low_rated_accounts(
+  p_threshold numeric DEFAULT 4.0,
+  p_min_ratings integer DEFAULT 5
+)
+RETURNS TABLE (
+  user_id uuid,
+  full_name text,
+  account_type text,
+  rating numeric,
+  rating_count integer
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+BEGIN
+  IF public.get_current_user_role() <> 'admin' THEN
+    RAISE EXCEPTION 'FORBIDDEN'
+      USING DETAIL = 'Apenas administradores';
+  END IF;
+
+  RETURN QUERY
+  SELECT d.user_id, p.full_name, 'driver'::text, d.rating, d.rating_count
+  FROM public.drivers d
+  JOIN public.profiles p ON p.user_id = d.user_id
+  WHERE d.rating_count >= p_min_ratings AND d.rating < p_threshold
+  UNION ALL
+  SELECT p.user_id, p.full_name, 'passenger'::text, p.rating, p.rating_count
+  FROM public.profiles p
+  WHERE p.user_type = 'passenger'
+    AND p.rating_count >= p_min_ratings AND p.rating < p_threshold
+  ORDER BY 4 ASC, 5 DESC;
+END;
+$function$;
+
+-- 8. Notas atuais a partir das avaliações já gravadas
+SELECT public.refresh_user_ratings(u.id)
+FROM (
+  SELECT driver_id AS id FROM public.rides WHERE passenger_rating IS NOT NULL AND driver_id IS NOT NULL
+  UNION
+  SELECT passenger_id FROM public.rides WHERE driver_rating IS NOT NULL
+) u;
+
+-- 9. Nota e contagem só mudam por refresh_user_ratings: as políticas de
+-- atualização do próprio cadastro em drivers e profiles não cobrem colunas
+CREATE OR REPLACE FUNCTION public.guard_user_rating_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $function$
+BEGIN
+  IF COALESCE(auth.role(), '') = 'service_role'
+    OR current_setting('app.rating_refresh', true) = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.rating IS DISTINCT FROM OLD.rating
+    OR NEW.rating_count IS DISTINCT FROM OLD.rating_count THEN
+    RAISE EXCEPTION 'RATING_LOCKED'
+      USING DETAIL = 'A nota é calculada a partir das avaliações recebidas';
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+DROP TRIGGER IF EXISTS guard_driver_rating_change ON public.drivers;
+CREATE TRIGGER guard_driver_rating_change
+  BEFORE UPDATE ON public.drivers
+  FOR EACH ROW
+  EXECUTE FUNCTION public.guard_user_rating_change();
+
+DROP TRIGGER IF EXISTS guard_profile_rating_change ON public.profiles;
+CREATE TRIGGER guard_profile_rating_change
+  BEFORE UPDATE ON public.profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.guard_user_rating_change();
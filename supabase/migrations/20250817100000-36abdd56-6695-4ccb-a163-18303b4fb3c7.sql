@@ -0,0 +1,339 @@
+-- Cancelamento estruturado: quem cancelou, motivo, observação e taxa.
+-- O passageiro paga a taxa quando cancela depois da carência contada do aceite;
+-- o motorista que cancela devolve a corrida para o despacho, exceto quando o
+-- passageiro não apareceu no embarque.
+-- A taxa fica como dívida do passageiro na própria corrida cancelada, quitada
+-- por Pix (função payments): até payment_status chegar a paid, a create-ride
+-- recusa novas corridas.
+
+-- 1. Configuração da taxa (0 desativa)
+ALTER TABLE public.system_settings
+  ADD COLUMN IF NOT EXISTS cancellation_fee DECIMAL(10,2) NOT NULL DEFAULT 5.00
+    CHECK (cancellation_fee >= 0 AND cancellation_fee <= 1000),
+  ADD COLUMN IF NOT EXISTS cancellation_grace_minutes INTEGER NOT NULL DEFAULT 2
+    CHECK (cancellation_grace_minutes >= 0 AND cancellation_grace_minutes <= 60);
+
+-- 2. Dados do cancelamento final na própria corrida
+ALTER TABLE public.rides
+  ADD COLUMN IF NOT EXISTS cancelled_by TEXT
+    CHECK (cancelled_by IN ('passenger', 'driver', 'admin', 'system')),
+  ADD COLUMN IF NOT EXISTS cancellation_reason TEXT,
+  ADD COLUMN IF NOT EXISTS cancellation_note TEXT,
+  ADD COLUMN IF NOT EXISTS cancellation_fee DECIMAL(10,2),
+  ADD COLUMN IF NOT EXISTS redispatch_count INTEGER NOT NULL DEFAULT 0;
+
+-- 3. Motivos aceitos por ator
+CREATE TABLE public.ride_cancellation_reasons (
+  actor TEXT NOT NULL CHECK (actor IN ('passenger', 'driver', 'admin')),
+  code TEXT NOT NULL,
+  PRIMARY KEY (actor, code)
+);
+
+ALTER TABLE public.ride_cancellation_reasons ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can read cancellation reasons"
+ON public.ride_cancellation_reasons
+FOR SELECT
+USING (auth.uid() IS NOT NULL);
+
+INSERT INTO public.ride_cancellation_reasons (actor, code) VALUES
+  ('passenger', 'changed_plans'),
+  ('passenger', 'driver_too_far'),
+  ('passenger', 'driver_asked_to_cancel'),
+  ('passenger', 'wrong_address'),
+  ('passenger', 'other_transport'),
+  ('passenger', 'other'),
+  ('driver', 'passenger_no_show'),
+  ('driver', 'passenger_asked_to_cancel'),
+  ('driver', 'unsafe_pickup'),
+  ('driver', 'vehicle_problem'),
+  ('driver', 'pickup_too_far'),
+  ('driver', 'other'),
+  ('admin', 'support_request'),
+  ('admin', 'fraud_suspected'),
+  ('admin', 'other');
+
+-- 4. Histórico de todos os cancelamentos, inclusive os de motorista que
+-- devolveram a corrida para o despacho
+CREATE TABLE public.ride_cancellations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  ride_id UUID NOT NULL REFERENCES public.rides(id) ON DELETE CASCADE,
+  cancelled_by TEXT NOT NULL CHECK (cancelled_by IN ('passenger', 'driver', 'admin', 'system')),
+  actor_id UUID,
+  reason TEXT NOT NULL,
+  note TEXT,
+  fee DECIMAL(10,2) NOT NULL DEFAULT 0,
+  ride_status public.ride_status NOT NULL,
+  redispatched BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_ride_cancellations_ride ON public.ride_cancellations(ride_id);
+CREATE INDEX idx_ride_cancellations_actor ON public.ride_cancellations(actor_id, created_at DESC);
+
+ALTER TABLE public.ride_cancellations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Participants can view ride cancellations"
+ON public.ride_cancellations
+FOR SELECT
+USING (
+  actor_id = auth.uid()
+  OR EXISTS (
+    SELECT 1 FROM public.rides r
+    WHERE r.id = ride_cancellations.ride_id
+      AND (r.passenger_id = auth.uid() OR r.driver_id = auth.uid())
+  )
+  OR public.get_current_user_role() = 'admin'
+);
+
+-- 5. Nova tarefa da fila: redespachar a corrida devolvida pelo motorista
+ALTER TABLE public.ride_jobs DROP CONSTRAINT IF EXISTS ride_jobs_job_type_check;
+ALTER TABLE public.ride_jobs
+  ADD CONSTRAINT ride_jobs_job_type_check
+    CHECK (job_type IN ('ride_timeout', 'notification_expiry', 'dispatch_advance', 'redispatch'));
+
+-- 6. Única forma de cancelar uma corrida
+-- Erros: NOT_AUTHENTICATED, RIDE_NOT_FOUND, NOT_PARTICIPANT, INVALID_TRANSITION,
+-- FORBIDDEN_TRANSITION, INVALID_CANCELLATION_REASON, NO_SHOW_TOO_EARLY
+CREATE OR REPLACE FUNCTION public.cancel_ride(
+  p_ride_id uuid,
+  p_reason text,
+  p_note text DEFAULT NULL
+)
+RETURNS public.rides
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  v_uid uuid := auth.uid();
+  v_ride public.rides;
+  v_actor text;
+  v_note text := NULLIF(btrim(p_note), '');
+  v_fee numeric := 0;
+  v_settings record;
+  v_grace interval;
+  v_redispatch boolean := false;
+BEGIN
+  IF v_uid IS NULL THEN
+    RAISE EXCEPTION 'NOT_AUTHENTICATED'
+      USING DETAIL = 'Usuário não autenticado';
+  END IF;
+
+  SELECT * INTO v_ride
+  FROM public.rides
+  WHERE id = p_ride_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'RIDE_NOT_FOUND'
+      USING DETAIL = format('Corrida %s não encontrada', p_ride_id);
+  END IF;
+
+  -- Um único papel por cancelamento; quem participa da corrida tem prioridade
+  v_actor := CASE
+    WHEN v_uid = v_ride.passenger_id THEN 'passenger'
+    WHEN v_uid = v_ride.driver_id THEN 'driver'
+    WHEN public.get_current_user_role() = 'admin' THEN 'admin'
+  END;
+
+  IF v_actor IS NULL THEN
+    RAISE EXCEPTION 'NOT_PARTICIPANT'
+      USING DETAIL = 'Usuário não participa desta corrida';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.ride_status_transitions
+    WHERE from_status = v_ride.status AND to_status = 'cancelled'
+  ) THEN
+    RAISE EXCEPTION 'INVALID_TRANSITION'
+      USING DETAIL = format('Corrida %s não pode ser cancelada', v_ride.status);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.ride_status_transitions
+    WHERE from_status = v_ride.status AND to_status = 'cancelled' AND actor = v_actor
+  ) THEN
+    RAISE EXCEPTION 'FORBIDDEN_TRANSITION'
+      USING DETAIL = format('Usuário não pode cancelar uma corrida %s', v_ride.status);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.ride_cancellation_reasons
+    WHERE actor = v_actor AND code = p_reason
+  ) OR length(v_note) > 500 THEN
+    RAISE EXCEPTION 'INVALID_CANCELLATION_REASON'
+      USING DETAIL = format('Motivo %s não é válido para %s', p_reason, v_actor);
+  END IF;
+
+  SELECT
+    COALESCE(s.cancellation_fee, 0) AS fee,
+    COALESCE(s.cancellation_grace_minutes, 0) AS grace_minutes
+  INTO v_settings
+  FROM public.system_settings s
+  ORDER BY s.created_at DESC
+  LIMIT 1;
+
+  v_grace := make_interval(mins => COALESCE(v_settings.grace_minutes, 0));
+
+  IF v_actor = 'passenger' THEN
+    -- Carência conta a partir do aceite do motorista
+    IF v_ride.accepted_at IS NOT NULL AND now() > v_ride.accepted_at + v_grace THEN
+      v_fee := COALESCE(v_settings.fee, 0);
+    END IF;
+  ELSIF v_actor = 'driver' THEN
+    IF p_reason = 'passenger_no_show' THEN
+      -- O motorista precisa ter chegado e esperado a carência
+      IF v_ride.status <> 'driver_arrived' OR now() < v_ride.pickup_arrived_at + v_grace THEN
+        RAISE EXCEPTION 'NO_SHOW_TOO_EARLY'
+          USING DETAIL = format('Aguarde %s minutos no local de embarque', v_settings.grace_minutes);
+      END IF;
+      v_fee := COALESCE(v_settings.fee, 0);
+    ELSE
+      v_redispatch := true;
+    END IF;
+  END IF;
+
+  INSERT INTO public.ride_cancellations (
+    ride_id, cancelled_by, actor_id, reason, note, fee, ride_status, redispatched
+  ) VALUES (
+    v_ride.id, v_actor, v_uid, p_reason, v_note, v_fee, v_ride.status, v_redispatch
+  );
+
+  PERFORM set_config('app.ride_transition', 'on', true);
+
+  IF v_redispatch THEN
+    -- A corrida volta a requested sem motorista e com um novo prazo de busca
+    UPDATE public.rides
+    SET status = 'requested',
+        driver_id = NULL,
+        accepted_at = NULL,
+        driver_arriving_at = NULL,
+        pickup_arrived_at = NULL,
+        dispatch_round = 0,
+        broadcast_expires_at = now() + INTERVAL '3 minutes',
+        redispatch_count = redispatch_count + 1
+    WHERE id = p_ride_id
+    RETURNING * INTO v_ride;
+
+    INSERT INTO public.ride_jobs (ride_id, job_type, run_at)
+    VALUES (p_ride_id, 'redispatch', now())
+    ON CONFLICT (ride_id, job_type) WHERE status = 'pending'
+    DO UPDATE SET run_at = EXCLUDED.run_at;
+  ELSE
+    UPDATE public.rides
+    SET status = 'cancelled',
+        cancelled_at = now(),
+        cancelled_by = v_actor,
+        cancellation_reason = p_reason,
+        cancellation_note = v_note,
+        cancellation_fee = NULLIF(v_fee, 0)
+    WHERE id = p_ride_id
+    RETURNING * INTO v_ride;
+
+    -- A taxa é do motorista que se deslocou; o app não fica com parte dela
+    IF v_fee > 0 AND v_ride.driver_id IS NOT NULL THEN
+      INSERT INTO public.financial_transfers (driver_id, ride_id, ride_value, app_fee, driver_amount)
+      VALUES (v_ride.driver_id, v_ride.id, v_fee, 0, v_fee)
+      ON CONFLICT (ride_id) DO NOTHING;
+    END IF;
+  END IF;
+
+  PERFORM set_config('app.ride_transition', 'off', true);
+
+  RETURN v_ride;
+END;
+$function$;
+
+-- 7. transition_ride_status não cancela mais sem motivo
+CREATE OR REPLACE FUNCTION public.require_cancellation_details()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $function$
+BEGIN
+  IF NEW.status = 'cancelled' AND OLD.status <> 'cancelled' AND NEW.cancelled_by IS NULL THEN
+    RAISE EXCEPTION 'USE_CANCEL_RIDE'
+      USING DETAIL = 'Use cancel_ride() informando o motivo do cancelamento';
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+DROP TRIGGER IF EXISTS require_cancellation_details_trigger ON public.rides;
+CREATE TRIGGER require_cancellation_details_trigger
+  BEFORE UPDATE ON public.rides
+  FOR EACH ROW
+  EXECUTE FUNCTION public.require_cancellation_details();
+
+-- 8. Dados de cancelamento só mudam pela RPC
+CREATE OR REPLACE FUNCTION public.guard_ride_status_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $function$
+BEGIN
+  IF COALESCE(auth.role(), '') = 'service_role'
+    OR current_setting('app.ride_transition', true) = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    RAISE EXCEPTION 'RIDE_CREATION_FORBIDDEN'
+      USING DETAIL = 'Corridas devem ser criadas pela função create-ride';
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status
+    OR NEW.driver_id IS DISTINCT FROM OLD.driver_id
+    OR NEW.accepted_at IS DISTINCT FROM OLD.accepted_at
+    OR NEW.driver_arriving_at IS DISTINCT FROM OLD.driver_arriving_at
+    OR NEW.pickup_arrived_at IS DISTINCT FROM OLD.pickup_arrived_at
+    OR NEW.started_at IS DISTINCT FROM OLD.started_at
+    OR NEW.completed_at IS DISTINCT FROM OLD.completed_at
+    OR NEW.cancelled_at IS DISTINCT FROM OLD.cancelled_at
+    OR NEW.expired_at IS DISTINCT FROM OLD.expired_at
+    OR NEW.cancelled_by IS DISTINCT FROM OLD.cancelled_by
+    OR NEW.cancellation_reason IS DISTINCT FROM OLD.cancellation_reason
+    OR NEW.cancellation_note IS DISTINCT FROM OLD.cancellation_note
+    OR NEW.cancellation_fee IS DISTINCT FROM OLD.cancellation_fee
+    OR NEW.redispatch_count IS DISTINCT FROM OLD.redispatch_count THEN
+    RAISE EXCEPTION 'INVALID_TRANSITION'
+      USING DETAIL = 'Use transition_ride_status() para alterar o status da corrida';
+  END IF;
+
+  IF NEW.estimated_price IS DISTINCT FROM OLD.estimated_price
+    OR NEW.estimated_fare_breakdown IS DISTINCT FROM OLD.estimated_fare_breakdown
+    OR NEW.final_price IS DISTINCT FROM OLD.final_price
+    OR NEW.final_fare_breakdown IS DISTINCT FROM OLD.final_fare_breakdown
+    OR NEW.surge_multiplier IS DISTINCT FROM OLD.surge_multiplier
+    OR NEW.service_zone_id IS DISTINCT FROM OLD.service_zone_id
+    OR NEW.distance_km IS DISTINCT FROM OLD.distance_km
+    OR NEW.estimated_duration_minutes IS DISTINCT FROM OLD.estimated_duration_minutes
+    OR NEW.requested_vehicle_type IS DISTINCT FROM OLD.requested_vehicle_type
+    OR NEW.trip_ended_at IS DISTINCT FROM OLD.trip_ended_at THEN
+    RAISE EXCEPTION 'PRICE_LOCKED'
+      USING DETAIL = 'O preço da corrida é definido pelo servidor';
+  END IF;
+
+  IF NEW.payment_method IS DISTINCT FROM OLD.payment_method
+    OR NEW.payment_status IS DISTINCT FROM OLD.payment_status THEN
+    RAISE EXCEPTION 'PAYMENT_LOCKED'
+      USING DETAIL = 'O pagamento da corrida é atualizado pelo servidor';
+  END IF;
+
+  IF NEW.passenger_rating IS DISTINCT FROM OLD.passenger_rating
+    OR NEW.passenger_comment IS DISTINCT FROM OLD.passenger_comment
+    OR NEW.passenger_rating_tags IS DISTINCT FROM OLD.passenger_rating_tags
+    OR NEW.passenger_rated_at IS DISTINCT FROM OLD.passenger_rated_at
+    OR NEW.driver_rating IS DISTINCT FROM OLD.driver_rating
+    OR NEW.driver_comment IS DISTINCT FROM OLD.driver_comment
+    OR NEW.driver_rating_tags IS DISTINCT FROM OLD.driver_rating_tags
+    OR NEW.driver_rated_at IS DISTINCT FROM OLD.driver_rated_at THEN
+    RAISE EXCEPTION 'RATING_LOCKED'
+      USING DETAIL = 'Use submit_ride_rating() para avaliar a corrida';
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
@@ -0,0 +1,266 @@
+-- Novas rodadas de busca quando a corrida fica sem motorista: o broadcast
+-- expirou sem aceite, ninguém estava no raio ou a fila sequencial acabou.
+-- Cada rodada amplia o raio e reenvia as ofertas; esgotadas as rodadas, o
+-- passageiro escolhe entre continuar procurando e desistir.
+
+-- 1. Configuração das rodadas (0 rodadas pergunta ao passageiro direto)
+ALTER TABLE public.system_settings
+  ADD COLUMN IF NOT EXISTS dispatch_retry_rounds INTEGER NOT NULL DEFAULT 2
+    CHECK (dispatch_retry_rounds >= 0 AND dispatch_retry_rounds <= 10),
+  ADD COLUMN IF NOT EXISTS dispatch_retry_delay_seconds INTEGER NOT NULL DEFAULT 30
+    CHECK (dispatch_retry_delay_seconds >= 5 AND dispatch_retry_delay_seconds <= 600),
+  ADD COLUMN IF NOT EXISTS dispatch_retry_radius_step_km DECIMAL(5,2) NOT NULL DEFAULT 3.00
+    CHECK (dispatch_retry_radius_step_km >= 0 AND dispatch_retry_radius_step_km <= 50),
+  ADD COLUMN IF NOT EXISTS dispatch_search_prompt_seconds INTEGER NOT NULL DEFAULT 60
+    CHECK (dispatch_search_prompt_seconds >= 15 AND dispatch_search_prompt_seconds <= 600);
+
+-- 2. Progresso da busca na corrida
+-- dispatch_attempt conta cada despacho do zero (criação, nova rodada,
+-- redespacho) e separa as ofertas de cada um em ride_notifications;
+-- dispatch_retry_round conta as rodadas extras agendadas na busca atual e
+-- dispatch_retry_started as que já rodaram: cada rodada agendada roda uma vez.
+ALTER TABLE public.rides
+  ADD COLUMN IF NOT EXISTS dispatch_attempt INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS dispatch_retry_round INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS dispatch_retry_started INTEGER NOT NULL DEFAULT 0,
+  -- Preenchido enquanto o passageiro decide se continua procurando
+  ADD COLUMN IF NOT EXISTS search_prompt_expires_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE public.ride_notifications
+  ADD COLUMN IF NOT EXISTS dispatch_attempt INTEGER NOT NULL DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS idx_ride_notifications_ride_attempt
+  ON public.ride_notifications(ride_id, dispatch_attempt);
+
+-- 3. Nova tarefa da fila: rodada extra de busca
+ALTER TABLE public.ride_jobs DROP CONSTRAINT IF EXISTS ride_jobs_job_type_check;
+ALTER TABLE public.ride_jobs
+  ADD CONSTRAINT ride_jobs_job_type_check
+    CHECK (job_type IN ('ride_timeout', 'notification_expiry', 'dispatch_advance', 'redispatch', 'dispatch_retry'));
+
+-- 4. Motivo usado quando o passageiro desiste da busca
+INSERT INTO public.ride_cancellation_reasons (actor, code) VALUES
+  ('passenger', 'no_driver_found')
+ON CONFLICT DO NOTHING;
+
+-- 5. Corrida sem motorista: agenda a próxima rodada ou, sem rodadas
+-- restantes, abre a pergunta ao passageiro. Chamado pelo ride-queue-manager
+-- (ninguém no raio) e pelo ride-jobs-worker (prazo da busca vencido).
+CREATE OR REPLACE FUNCTION public.schedule_dispatch_retry(p_ride_id uuid)
+RETURNS public.rides
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  v_ride public.rides;
+  v_settings record;
+  v_run_at timestamp with time zone;
+BEGIN
+  IF COALESCE(auth.role(), '') <> 'service_role' THEN
+    RAISE EXCEPTION 'FORBIDDEN'
+      USING DETAIL = 'Apenas o servidor pode agendar novas buscas';
+  END IF;
+
+  SELECT * INTO v_ride
+  FROM public.rides
+  WHERE id = p_ride_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'RIDE_NOT_FOUND'
+      USING DETAIL = format('Corrida %s não encontrada', p_ride_id);
+  END IF;
+
+  -- Aceita, já perguntando ao passageiro ou com a próxima rodada já agendada
+  IF v_ride.status <> 'requested'
+    OR v_ride.search_prompt_expires_at IS NOT NULL
+    OR EXISTS (
+      SELECT 1 FROM public.ride_jobs
+      WHERE ride_id = p_ride_id AND job_type = 'dispatch_retry' AND status = 'pending'
+    ) THEN
+    RETURN v_ride;
+  END IF;
+
+  SELECT
+    COALESCE(s.dispatch_retry_rounds, 0) AS retry_rounds,
+    COALESCE(s.dispatch_retry_delay_seconds, 30) AS delay_seconds,
+    COALESCE(s.dispatch_search_prompt_seconds, 60) AS prompt_seconds
+  INTO v_settings
+  FROM public.system_settings s
+  ORDER BY s.created_at DESC
+  LIMIT 1;
+
+  IF v_ride.dispatch_retry_round < COALESCE(v_settings.retry_rounds, 0) THEN
+    v_run_at := now() + make_interval(secs => COALESCE(v_settings.delay_seconds, 30));
+
+    -- O prazo da corrida cobre a espera; a nova rodada define o seu próprio
+    UPDATE public.rides
+    SET dispatch_retry_round = dispatch_retry_round + 1,
+        broadcast_expires_at = v_run_at + INTERVAL '1 minute'
+    WHERE id = p_ride_id
+    RETURNING * INTO v_ride;
+
+    INSERT INTO public.ride_jobs (ride_id, job_type, run_at)
+    VALUES (p_ride_id, 'dispatch_retry', v_run_at)
+    ON CONFLICT (ride_id, job_type) WHERE status = 'pending'
+    DO UPDATE SET run_at = EXCLUDED.run_at;
+  ELSE
+    -- Sem resposta até o prazo, o ride_timeout expira a corrida
+    v_run_at := now() + make_interval(secs => COALESCE(v_settings.prompt_seconds, 60));
+
+    UPDATE public.rides
+    SET search_prompt_expires_at = v_run_at,
+        broadcast_expires_at = v_run_at
+    WHERE id = p_ride_id
+    RETURNING * INTO v_ride;
+
+    INSERT INTO public.ride_jobs (ride_id, job_type, run_at)
+    VALUES (p_ride_id, 'ride_timeout', v_run_at)
+    ON CONFLICT (ride_id, job_type) WHERE status = 'pending'
+    DO UPDATE SET run_at = EXCLUDED.run_at;
+  END IF;
+
+  RETURN v_ride;
+END;
+$function$;
+
+-- 6. Passageiro decide continuar procurando: a busca recomeça do primeiro raio
+-- Erros: NOT_AUTHENTICATED, RIDE_NOT_FOUND, NOT_PARTICIPANT, INVALID_TRANSITION,
+-- SEARCH_NOT_PAUSED
+CREATE OR REPLACE FUNCTION public.continue_ride_search(p_ride_id uuid)
+RETURNS public.rides
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  v_uid uuid := auth.uid();
+  v_ride public.rides;
+BEGIN
+  IF v_uid IS NULL THEN
+    RAISE EXCEPTION 'NOT_AUTHENTICATED'
+      USING DETAIL = 'Usuário não autenticado';
+  END IF;
+
+  SELECT * INTO v_ride
+  FROM public.rides
+  WHERE id = p_ride_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'RIDE_NOT_FOUND'
+      USING DETAIL = format('Corrida %s não encontrada', p_ride_id);
+  END IF;
+
+  IF v_ride.passenger_id <> v_uid THEN
+    RAISE EXCEPTION 'NOT_PARTICIPANT'
+      USING DETAIL = 'Apenas o passageiro decide se a busca continua';
+  END IF;
+
+  IF v_ride.status <> 'requested' THEN
+    RAISE EXCEPTION 'INVALID_TRANSITION'
+      USING DETAIL = format('A busca não pode continuar para uma corrida %s', v_ride.status);
+  END IF;
+
+  IF v_ride.search_prompt_expires_at IS NULL THEN
+    RAISE EXCEPTION 'SEARCH_NOT_PAUSED'
+      USING DETAIL = 'A busca por motorista ainda está em andamento';
+  END IF;
+
+  PERFORM set_config('app.ride_transition', 'on', true);
+
+  UPDATE public.rides
+  SET search_prompt_expires_at = NULL,
+      dispatch_retry_round = 0,
+      dispatch_retry_started = 0,
+      dispatch_round = 0,
+      broadcast_expires_at = now() + INTERVAL '3 minutes'
+  WHERE id = p_ride_id
+  RETURNING * INTO v_ride;
+
+  PERFORM set_config('app.ride_transition', 'off', true);
+
+  INSERT INTO public.ride_jobs (ride_id, job_type, run_at)
+  VALUES (p_ride_id, 'redispatch', now())
+  ON CONFLICT (ride_id, job_type) WHERE status = 'pending'
+  DO UPDATE SET run_at = EXCLUDED.run_at;
+
+  RETURN v_ride;
+END;
+$function$;
+
+-- 7. Progresso da busca só muda pelo servidor
+CREATE OR REPLACE FUNCTION public.guard_ride_status_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $function$
+BEGIN
+  IF COALESCE(auth.role(), '') = 'service_role'
+    OR current_setting('app.ride_transition', true) = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    RAISE EXCEPTION 'RIDE_CREATION_FORBIDDEN'
+      USING DETAIL = 'Corridas devem ser criadas pela função create-ride';
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status
+    OR NEW.driver_id IS DISTINCT FROM OLD.driver_id
+    OR NEW.accepted_at IS DISTINCT FROM OLD.accepted_at
+    OR NEW.driver_arriving_at IS DISTINCT FROM OLD.driver_arriving_at
+    OR NEW.pickup_arrived_at IS DISTINCT FROM OLD.pickup_arrived_at
+    OR NEW.started_at IS DISTINCT FROM OLD.started_at
+    OR NEW.completed_at IS DISTINCT FROM OLD.completed_at
+    OR NEW.cancelled_at IS DISTINCT FROM OLD.cancelled_at
+    OR NEW.expired_at IS DISTINCT FROM OLD.expired_at
+    OR NEW.cancelled_by IS DISTINCT FROM OLD.cancelled_by
+    OR NEW.cancellation_reason IS DISTINCT FROM OLD.cancellation_reason
+    OR NEW.cancellation_note IS DISTINCT FROM OLD.cancellation_note
+    OR NEW.cancellation_fee IS DISTINCT FROM OLD.cancellation_fee
+    OR NEW.redispatch_count IS DISTINCT FROM OLD.redispatch_count
+    OR NEW.dispatch_attempt IS DISTINCT FROM OLD.dispatch_attempt
+    OR NEW.dispatch_retry_round IS DISTINCT FROM OLD.dispatch_retry_round
+    OR NEW.dispatch_retry_started IS DISTINCT FROM OLD.dispatch_retry_started
+    OR NEW.search_prompt_expires_at IS DISTINCT FROM OLD.search_prompt_expires_at THEN
+    RAISE EXCEPTION 'INVALID_TRANSITION'
+      USING DETAIL = 'Use transition_ride_status() para alterar o status da corrida';
+  END IF;
+
+  IF NEW.estimated_price IS DISTINCT FROM OLD.estimated_price
+    OR NEW.estimated_fare_breakdown IS DISTINCT FROM OLD.estimated_fare_breakdown
+    OR NEW.final_price IS DISTINCT FROM OLD.final_price
+    OR NEW.final_fare_breakdown IS DISTINCT FROM OLD.final_fare_breakdown
+    OR NEW.surge_multiplier IS DISTINCT FROM OLD.surge_multiplier
+    OR NEW.service_zone_id IS DISTINCT FROM OLD.service_zone_id
+    OR NEW.distance_km IS DISTINCT FROM OLD.distance_km
+    OR NEW.estimated_duration_minutes IS DISTINCT FROM OLD.estimated_duration_minutes
+    OR NEW.requested_vehicle_type IS DISTINCT FROM OLD.requested_vehicle_type
+    OR NEW.trip_ended_at IS DISTINCT FROM OLD.trip_ended_at THEN
+    RAISE EXCEPTION 'PRICE_LOCKED'
+      USING DETAIL = 'O preço da corrida é definido pelo servidor';
+  END IF;
+
+  IF NEW.payment_method IS DISTINCT FROM OLD.payment_method
+    OR NEW.payment_status IS DISTINCT FROM OLD.payment_status THEN
+    RAISE EXCEPTION 'PAYMENT_LOCKED'
+      USING DETAIL = 'O pagamento da corrida é atualizado pelo servidor';
+  END IF;
+
+  IF NEW.passenger_rating IS DISTINCT FROM OLD.passenger_rating
+    OR NEW.passenger_comment IS DISTINCT FROM OLD.passenger_comment
+    OR NEW.passenger_rating_tags IS DISTINCT FROM OLD.passenger_rating_tags
+    OR NEW.passenger_rated_at IS DISTINCT FROM OLD.passenger_rated_at
+    OR NEW.driver_rating IS DISTINCT FROM OLD.driver_rating
+    OR NEW.driver_comment IS DISTINCT FROM OLD.driver_comment
+    OR NEW.driver_rating_tags IS DISTINCT FROM OLD.driver_rating_tags
+    OR NEW.driver_rated_at IS DISTINCT FROM OLD.driver_rated_at THEN
+    RAISE EXCEPTION 'RATING_LOCKED'
+      USING DETAIL = 'Use submit_ride_rating() para avaliar a corrida';
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
@@ -0,0 +1,4 @@
+-- Corridas agendadas ficam em um status próprio até o despacho
+-- (o novo valor fica em migration separada porque não pode ser usado
+-- na mesma transação em que é criado)
+ALTER TYPE public.ride_status ADD VALUE IF NOT EXISTS 'scheduled' BEFORE 'requested';
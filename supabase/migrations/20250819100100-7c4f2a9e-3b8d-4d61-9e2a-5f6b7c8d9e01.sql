@@ -0,0 +1,532 @@
+-- Corridas agendadas para um horário futuro.
+-- A corrida nasce em scheduled e o ride-jobs-worker a despacha alguns minutos
+-- antes do horário: se um motorista pré-aceitou e continua disponível, ela vai
+-- direto para accepted; senão volta para requested e segue o despacho normal.
+
+-- 1. Configuração do agendamento
+ALTER TABLE public.system_settings
+  ADD COLUMN IF NOT EXISTS scheduled_dispatch_lead_minutes INTEGER NOT NULL DEFAULT 15
+    CHECK (scheduled_dispatch_lead_minutes >= 5 AND scheduled_dispatch_lead_minutes <= 120),
+  ADD COLUMN IF NOT EXISTS scheduled_min_advance_minutes INTEGER NOT NULL DEFAULT 30
+    CHECK (scheduled_min_advance_minutes >= 15 AND scheduled_min_advance_minutes <= 1440),
+  ADD COLUMN IF NOT EXISTS scheduled_max_advance_days INTEGER NOT NULL DEFAULT 7
+    CHECK (scheduled_max_advance_days >= 1 AND scheduled_max_advance_days <= 30),
+  ADD COLUMN IF NOT EXISTS scheduled_reminder_minutes INTEGER NOT NULL DEFAULT 30
+    CHECK (scheduled_reminder_minutes >= 5 AND scheduled_reminder_minutes <= 240);
+
+-- 2. Horário marcado, pré-aceite do motorista e lembrete enviado
+ALTER TABLE public.rides
+  ADD COLUMN IF NOT EXISTS scheduled_for TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS preaccepted_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS driver_reminded_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE public.rides
+  ADD CONSTRAINT rides_scheduled_for_required
+    CHECK (status <> 'scheduled' OR scheduled_for IS NOT NULL);
+
+CREATE INDEX IF NOT EXISTS idx_rides_scheduled_for
+  ON public.rides(scheduled_for)
+  WHERE status = 'scheduled';
+
+-- 3. Transições a partir de scheduled
+INSERT INTO public.ride_status_transitions (from_status, to_status, actor) VALUES
+  ('scheduled', 'requested', 'system'),
+  ('scheduled', 'accepted', 'system'),
+  ('scheduled', 'cancelled', 'passenger'),
+  ('scheduled', 'cancelled', 'admin')
+ON CONFLICT DO NOTHING;
+
+-- 4. Novas tarefas da fila: despachar a corrida agendada e lembrar o motorista
+ALTER TABLE public.ride_jobs DROP CONSTRAINT IF EXISTS ride_jobs_job_type_check;
+ALTER TABLE public.ride_jobs
+  ADD CONSTRAINT ride_jobs_job_type_check
+    CHECK (job_type IN (
+      'ride_timeout', 'notification_expiry', 'dispatch_advance', 'redispatch', 'dispatch_retry',
+      'scheduled_dispatch', 'scheduled_reminder'
+    ));
+
+-- 5. Janela aceita para agendar
+-- Erros: INVALID_SCHEDULE, SCHEDULE_TOO_SOON, SCHEDULE_TOO_FAR
+CREATE OR REPLACE FUNCTION public.check_schedule_window(p_scheduled_for timestamp with time zone)
+RETURNS void
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  v_settings record;
+BEGIN
+  IF p_scheduled_for IS NULL THEN
+    RAISE EXCEPTION 'INVALID_SCHEDULE'
+      USING DETAIL = 'Informe o horário da corrida';
+  END IF;
+
+  SELECT
+    COALESCE(s.scheduled_min_advance_minutes, 30) AS min_minutes,
+    COALESCE(s.scheduled_max_advance_days, 7) AS max_days
+  INTO v_settings
+  FROM public.system_settings s
+  ORDER BY s.created_at DESC
+  LIMIT 1;
+
+  IF p_scheduled_for < now() + make_interval(mins => COALESCE(v_settings.min_minutes, 30)) THEN
+    RAISE EXCEPTION 'SCHEDULE_TOO_SOON'
+      USING DETAIL = format('Agende com pelo menos %s minutos de antecedência', COALESCE(v_settings.min_minutes, 30));
+  END IF;
+
+  IF p_scheduled_for > now() + make_interval(days => COALESCE(v_settings.max_days, 7)) THEN
+    RAISE EXCEPTION 'SCHEDULE_TOO_FAR'
+      USING DETAIL = format('Agende com no máximo %s dias de antecedência', COALESCE(v_settings.max_days, 7));
+  END IF;
+END;
+$function$;
+
+-- 6. Tarefas da corrida agendada acompanham o horário e o pré-aceite
+CREATE OR REPLACE FUNCTION public.sync_scheduled_ride_jobs()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  v_settings record;
+BEGIN
+  IF NEW.status <> 'scheduled' THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT
+    COALESCE(s.scheduled_dispatch_lead_minutes, 15) AS lead_minutes,
+    COALESCE(s.scheduled_reminder_minutes, 30) AS reminder_minutes
+  INTO v_settings
+  FROM public.system_settings s
+  ORDER BY s.created_at DESC
+  LIMIT 1;
+
+  INSERT INTO public.ride_jobs (ride_id, job_type, run_at)
+  VALUES (
+    NEW.id,
+    'scheduled_dispatch',
+    GREATEST(now(), NEW.scheduled_for - make_interval(mins => COALESCE(v_settings.lead_minutes, 15)))
+  )
+  ON CONFLICT (ride_id, job_type) WHERE status = 'pending'
+  DO UPDATE SET run_at = EXCLUDED.run_at;
+
+  IF NEW.driver_id IS NOT NULL THEN
+    INSERT INTO public.ride_jobs (ride_id, job_type, run_at)
+    VALUES (
+      NEW.id,
+      'scheduled_reminder',
+      GREATEST(now(), NEW.scheduled_for - make_interval(mins => COALESCE(v_settings.reminder_minutes, 30)))
+    )
+    ON CONFLICT (ride_id, job_type) WHERE status = 'pending'
+    DO UPDATE SET run_at = EXCLUDED.run_at;
+  ELSE
+    UPDATE public.ride_jobs
+    SET status = 'cancelled',
+        result = jsonb_build_object('reason', 'driver_released')
+    WHERE ride_id = NEW.id
+      AND job_type = 'scheduled_reminder'
+      AND status = 'pending';
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+DROP TRIGGER IF EXISTS sync_scheduled_ride_jobs_trigger ON public.rides;
+CREATE TRIGGER sync_scheduled_ride_jobs_trigger
+  AFTER INSERT OR UPDATE OF scheduled_for, driver_id ON public.rides
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_scheduled_ride_jobs();
+
+-- 7. Passageiro muda o horário; o motorista que pré-aceitou é liberado
+-- Erros: NOT_AUTHENTICATED, RIDE_NOT_FOUND, NOT_PARTICIPANT, INVALID_TRANSITION,
+-- INVALID_SCHEDULE, SCHEDULE_TOO_SOON, SCHEDULE_TOO_FAR
+CREATE OR REPLACE FUNCTION public.reschedule_ride(
+  p_ride_id uuid,
+  p_scheduled_for timestamp with time zone
+)
+RETURNS public.rides
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  v_uid uuid := auth.uid();
+  v_ride public.rides;
+BEGIN
+  IF v_uid IS NULL THEN
+    RAISE EXCEPTION 'NOT_AUTHENTICATED'
+      USING DETAIL = 'Usuário não autenticado';
+  END IF;
+
+  SELECT * INTO v_ride
+  FROM public.rides
+  WHERE id = p_ride_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'RIDE_NOT_FOUND'
+      USING DETAIL = format('Corrida %s não encontrada', p_ride_id);
+  END IF;
+
+  IF v_ride.passenger_id <> v_uid THEN
+    RAISE EXCEPTION 'NOT_PARTICIPANT'
+      USING DETAIL = 'Apenas o passageiro pode alterar o agendamento';
+  END IF;
+
+  IF v_ride.status <> 'scheduled' THEN
+    RAISE EXCEPTION 'INVALID_TRANSITION'
+      USING DETAIL = format('Uma corrida %s não pode ser reagendada', v_ride.status);
+  END IF;
+
+  PERFORM public.check_schedule_window(p_scheduled_for);
+
+  PERFORM set_config('app.ride_transition', 'on', true);
+
+  UPDATE public.rides
+  SET scheduled_for = p_scheduled_for,
+      driver_id = NULL,
+      preaccepted_at = NULL,
+      driver_reminded_at = NULL
+  WHERE id = p_ride_id
+  RETURNING * INTO v_ride;
+
+  PERFORM set_config('app.ride_transition', 'off', true);
+
+  RETURN v_ride;
+END;
+$function$;
+
+-- 8. Motorista pré-aceita uma corrida agendada e recebe um lembrete antes do horário
+-- Erros: NOT_AUTHENTICATED, RIDE_NOT_FOUND, FORBIDDEN_TRANSITION, INVALID_TRANSITION,
+-- ALREADY_PREACCEPTED, SCHEDULE_CONFLICT
+CREATE OR REPLACE FUNCTION public.preaccept_scheduled_ride(p_ride_id uuid)
+RETURNS public.rides
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  v_uid uuid := auth.uid();
+  v_ride public.rides;
+  v_vehicle_type public.vehicle_type;
+BEGIN
+  IF v_uid IS NULL THEN
+    RAISE EXCEPTION 'NOT_AUTHENTICATED'
+      USING DETAIL = 'Usuário não autenticado';
+  END IF;
+
+  SELECT vehicle_type INTO v_vehicle_type
+  FROM public.drivers
+  WHERE user_id = v_uid AND status = 'approved';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'FORBIDDEN_TRANSITION'
+      USING DETAIL = 'Apenas motoristas aprovados podem pré-aceitar corridas';
+  END IF;
+
+  SELECT * INTO v_ride
+  FROM public.rides
+  WHERE id = p_ride_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'RIDE_NOT_FOUND'
+      USING DETAIL = format('Corrida %s não encontrada', p_ride_id);
+  END IF;
+
+  IF v_ride.status <> 'scheduled' THEN
+    RAISE EXCEPTION 'INVALID_TRANSITION'
+      USING DETAIL = format('Uma corrida %s não pode ser pré-aceita', v_ride.status);
+  END IF;
+
+  IF v_ride.passenger_id = v_uid
+    OR (v_ride.requested_vehicle_type IS NOT NULL AND v_ride.requested_vehicle_type IS DISTINCT FROM v_vehicle_type) THEN
+    RAISE EXCEPTION 'FORBIDDEN_TRANSITION'
+      USING DETAIL = 'Esta corrida não pode ser atendida pelo seu veículo';
+  END IF;
+
+  IF v_ride.driver_id IS NOT NULL THEN
+    RAISE EXCEPTION 'ALREADY_PREACCEPTED'
+      USING DETAIL = 'Outro motorista já pré-aceitou esta corrida';
+  END IF;
+
+  -- Uma hora de folga entre corridas agendadas do mesmo motorista
+  IF EXISTS (
+    SELECT 1 FROM public.rides
+    WHERE driver_id = v_uid
+      AND status = 'scheduled'
+      AND scheduled_for BETWEEN v_ride.scheduled_for - INTERVAL '1 hour'
+                            AND v_ride.scheduled_for + INTERVAL '1 hour'
+  ) THEN
+    RAISE EXCEPTION 'SCHEDULE_CONFLICT'
+      USING DETAIL = 'Você já tem uma corrida agendada próxima deste horário';
+  END IF;
+
+  PERFORM set_config('app.ride_transition', 'on', true);
+
+  UPDATE public.rides
+  SET driver_id = v_uid,
+      preaccepted_at = now(),
+      driver_reminded_at = NULL
+  WHERE id = p_ride_id
+  RETURNING * INTO v_ride;
+
+  PERFORM set_config('app.ride_transition', 'off', true);
+
+  RETURN v_ride;
+END;
+$function$;
+
+-- 9. Motorista desiste do pré-aceite; a corrida volta a ficar disponível
+-- Erros: NOT_AUTHENTICATED, RIDE_NOT_FOUND, NOT_PARTICIPANT, INVALID_TRANSITION
+CREATE OR REPLACE FUNCTION public.release_scheduled_ride(p_ride_id uuid)
+RETURNS public.rides
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  v_uid uuid := auth.uid();
+  v_ride public.rides;
+BEGIN
+  IF v_uid IS NULL THEN
+    RAISE EXCEPTION 'NOT_AUTHENTICATED'
+      USING DETAIL = 'Usuário não autenticado';
+  END IF;
+
+  SELECT * INTO v_ride
+  FROM public.rides
+  WHERE id = p_ride_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'RIDE_NOT_FOUND'
+      USING DETAIL = format('Corrida %s não encontrada', p_ride_id);
+  END IF;
+
+  IF v_ride.driver_id IS DISTINCT FROM v_uid THEN
+    RAISE EXCEPTION 'NOT_PARTICIPANT'
+      USING DETAIL = 'Você não pré-aceitou esta corrida';
+  END IF;
+
+  IF v_ride.status <> 'scheduled' THEN
+    RAISE EXCEPTION 'INVALID_TRANSITION'
+      USING DETAIL = 'A corrida já foi despachada; use o cancelamento';
+  END IF;
+
+  PERFORM set_config('app.ride_transition', 'on', true);
+
+  UPDATE public.rides
+  SET driver_id = NULL,
+      preaccepted_at = NULL,
+      driver_reminded_at = NULL
+  WHERE id = p_ride_id
+  RETURNING * INTO v_ride;
+
+  PERFORM set_config('app.ride_transition', 'off', true);
+
+  RETURN v_ride;
+END;
+$function$;
+
+-- 10. Corridas agendadas ainda sem motorista, sem dados do passageiro
+CREATE OR REPLACE FUNCTION public.get_open_scheduled_rides()
+RETURNS TABLE (
+  id uuid,
+  origin_address text,
+  destination_address text,
+  origin_lat numeric,
+  origin_lng numeric,
+  scheduled_for timestamp with time zone,
+  estimated_price numeric,
+  distance_km numeric,
+  estimated_duration_minutes integer,
+  requested_vehicle_type public.vehicle_type,
+  payment_method public.payment_method
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+  SELECT
+    r.id,
+    r.origin_address,
+    r.destination_address,
+    r.origin_lat,
+    r.origin_lng,
+    r.scheduled_for,
+    r.estimated_price,
+    r.distance_km,
+    r.estimated_duration_minutes,
+    r.requested_vehicle_type,
+    r.payment_method
+  FROM public.rides r
+  JOIN public.drivers d ON d.user_id = auth.uid() AND d.status = 'approved'
+  WHERE r.status = 'scheduled'
+    AND r.driver_id IS NULL
+    AND r.passenger_id <> auth.uid()
+    AND r.scheduled_for > now()
+    AND (r.requested_vehicle_type IS NULL OR r.requested_vehicle_type = d.vehicle_type)
+  ORDER BY r.scheduled_for;
+$function$;
+
+-- 11. Despacho da corrida agendada, chamado pelo ride-jobs-worker
+CREATE OR REPLACE FUNCTION public.dispatch_scheduled_ride(p_ride_id uuid)
+RETURNS public.rides
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  v_ride public.rides;
+BEGIN
+  IF COALESCE(auth.role(), '') <> 'service_role' THEN
+    RAISE EXCEPTION 'FORBIDDEN'
+      USING DETAIL = 'Apenas o servidor pode despachar corridas agendadas';
+  END IF;
+
+  SELECT * INTO v_ride
+  FROM public.rides
+  WHERE id = p_ride_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'RIDE_NOT_FOUND'
+      USING DETAIL = format('Corrida %s não encontrada', p_ride_id);
+  END IF;
+
+  IF v_ride.status <> 'scheduled' THEN
+    RETURN v_ride;
+  END IF;
+
+  -- O pré-aceite pode ter sido feito horas antes: o motorista precisa continuar
+  -- aprovado, estar online e livre, como no aceite normal. Senão é liberado e a
+  -- corrida segue para o despacho.
+  IF v_ride.driver_id IS NOT NULL AND NOT (
+    EXISTS (
+      SELECT 1 FROM public.drivers
+      WHERE user_id = v_ride.driver_id AND status = 'approved'
+    )
+    AND EXISTS (
+      SELECT 1 FROM public.driver_locations dl
+      WHERE dl.driver_id = v_ride.driver_id
+        AND dl.is_online
+        AND dl.last_update > now() - interval '2 minutes'
+    )
+    AND NOT EXISTS (
+      SELECT 1 FROM public.rides r
+      WHERE r.driver_id = v_ride.driver_id
+        AND r.id <> p_ride_id
+        AND r.status IN ('accepted', 'driver_arriving', 'driver_arrived', 'in_progress')
+    )
+  ) THEN
+    UPDATE public.rides
+    SET driver_id = NULL,
+        preaccepted_at = NULL,
+        driver_reminded_at = NULL
+    WHERE id = p_ride_id
+    RETURNING * INTO v_ride;
+  END IF;
+
+  IF v_ride.driver_id IS NOT NULL THEN
+    -- Pré-aceita: o motorista já está comprometido com a corrida
+    UPDATE public.rides
+    SET status = 'accepted',
+        accepted_at = now()
+    WHERE id = p_ride_id
+    RETURNING * INTO v_ride;
+  ELSE
+    UPDATE public.rides
+    SET status = 'requested',
+        dispatch_round = 0,
+        broadcast_expires_at = now() + INTERVAL '3 minutes'
+    WHERE id = p_ride_id
+    RETURNING * INTO v_ride;
+  END IF;
+
+  RETURN v_ride;
+END;
+$function$;
+
+-- 12. Agendamento, pré-aceite e lembrete só mudam pelas RPCs
+CREATE OR REPLACE FUNCTION public.guard_ride_status_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $function$
+BEGIN
+  IF COALESCE(auth.role(), '') = 'service_role'
+    OR current_setting('app.ride_transition', true) = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    RAISE EXCEPTION 'RIDE_CREATION_FORBIDDEN'
+      USING DETAIL = 'Corridas devem ser criadas pela função create-ride';
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status
+    OR NEW.driver_id IS DISTINCT FROM OLD.driver_id
+    OR NEW.accepted_at IS DISTINCT FROM OLD.accepted_at
+    OR NEW.driver_arriving_at IS DISTINCT FROM OLD.driver_arriving_at
+    OR NEW.pickup_arrived_at IS DISTINCT FROM OLD.pickup_arrived_at
+    OR NEW.started_at IS DISTINCT FROM OLD.started_at
+    OR NEW.completed_at IS DISTINCT FROM OLD.completed_at
+    OR NEW.cancelled_at IS DISTINCT FROM OLD.cancelled_at
+    OR NEW.expired_at IS DISTINCT FROM OLD.expired_at
+    OR NEW.cancelled_by IS DISTINCT FROM OLD.cancelled_by
+    OR NEW.cancellation_reason IS DISTINCT FROM OLD.cancellation_reason
+    OR NEW.cancellation_note IS DISTINCT FROM OLD.cancellation_note
+    OR NEW.cancellation_fee IS DISTINCT FROM OLD.cancellation_fee
+    OR NEW.redispatch_count IS DISTINCT FROM OLD.redispatch_count
+    OR NEW.dispatch_attempt IS DISTINCT FROM OLD.dispatch_attempt
+    OR NEW.dispatch_retry_round IS DISTINCT FROM OLD.dispatch_retry_round
+    OR NEW.dispatch_retry_started IS DISTINCT FROM OLD.dispatch_retry_started
+    OR NEW.search_prompt_expires_at IS DISTINCT FROM OLD.search_prompt_expires_at
+    OR NEW.scheduled_for IS DISTINCT FROM OLD.scheduled_for
+    OR NEW.preaccepted_at IS DISTINCT FROM OLD.preaccepted_at
+    OR NEW.driver_reminded_at IS DISTINCT FROM OLD.driver_reminded_at THEN
+    RAISE EXCEPTION 'INVALID_TRANSITION'
+      USING DETAIL = 'Use transition_ride_status() para alterar o status da corrida';
+  END IF;
+
+  IF NEW.estimated_price IS DISTINCT FROM OLD.estimated_price
+    OR NEW.estimated_fare_breakdown IS DISTINCT FROM OLD.estimated_fare_breakdown
+    OR NEW.final_price IS DISTINCT FROM OLD.final_price
+    OR NEW.final_fare_breakdown IS DISTINCT FROM OLD.final_fare_breakdown
+    OR NEW.surge_multiplier IS DISTINCT FROM OLD.surge_multiplier
+    OR NEW.service_zone_id IS DISTINCT FROM OLD.service_zone_id
+    OR NEW.distance_km IS DISTINCT FROM OLD.distance_km
+    OR NEW.estimated_duration_minutes IS DISTINCT FROM OLD.estimated_duration_minutes
+    OR NEW.requested_vehicle_type IS DISTINCT FROM OLD.requested_vehicle_type
+    OR NEW.trip_ended_at IS DISTINCT FROM OLD.trip_ended_at THEN
+    RAISE EXCEPTION 'PRICE_LOCKED'
+      USING DETAIL = 'O preço da corrida é definido pelo servidor';
+  END IF;
+
+  IF NEW.payment_method IS DISTINCT FROM OLD.payment_method
+    OR NEW.payment_status IS DISTINCT FROM OLD.payment_status THEN
+    RAISE EXCEPTION 'PAYMENT_LOCKED'
+      USING DETAIL = 'O pagamento da corrida é atualizado pelo servidor';
+  END IF;
+
+  IF NEW.passenger_rating IS DISTINCT FROM OLD.passenger_rating
+    OR NEW.passenger_comment IS DISTINCT FROM OLD.passenger_comment
+    OR NEW.passenger_rating_tags IS DISTINCT FROM OLD.passenger_rating_tags
+    OR NEW.passenger_rated_at IS DISTINCT FROM OLD.passenger_rated_at
+    OR NEW.driver_rating IS DISTINCT FROM OLD.driver_rating
+    OR NEW.driver_comment IS DISTINCT FROM OLD.driver_comment
+    OR NEW.driver_rating_tags IS DISTINCT FROM OLD.driver_rating_tags
+    OR NEW.driver_rated_at IS DISTINCT FROM OLD.driver_rated_at THEN
+    RAISE EXCEPTION 'RATING_LOCKED'
+      USING DETAIL = 'Use submit_ride_rating() para avaliar a corrida';
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
@@ -0,0 +1,115 @@
+-- Paradas intermediárias entre a origem e o destino.
+-- As paradas são gravadas pela create-ride junto com a corrida; o preço já
+-- considera a distância de todos os trechos. Durante a viagem o motorista
+-- marca cada parada como alcançada, na ordem.
+
+-- 1. Limite de paradas por corrida
+ALTER TABLE public.system_settings
+  ADD COLUMN IF NOT EXISTS max_ride_stops INTEGER NOT NULL DEFAULT 3
+    CHECK (max_ride_stops >= 0 AND max_ride_stops <= 5);
+
+-- 2. Paradas da corrida, na ordem do trajeto (position começa em 1)
+CREATE TABLE public.ride_stops (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  ride_id UUID NOT NULL REFERENCES public.rides(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL CHECK (position >= 1),
+  lat DECIMAL(10,8) NOT NULL,
+  lng DECIMAL(11,8) NOT NULL,
+  address TEXT NOT NULL,
+  reached_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (ride_id, position)
+);
+
+ALTER TABLE public.ride_stops ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Ride participants can view ride stops"
+ON public.ride_stops
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.rides r
+    WHERE r.id = ride_stops.ride_id
+      AND (r.passenger_id = auth.uid() OR r.driver_id = auth.uid())
+  )
+);
+
+CREATE POLICY "Admins can view all ride stops"
+ON public.ride_stops
+FOR SELECT
+USING (public.get_current_user_role() = 'admin');
+
+ALTER TABLE public.ride_stops REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.ride_stops;
+
+-- 3. Motorista marca a próxima parada como alcançada
+-- Erros: NOT_AUTHENTICATED, RIDE_NOT_FOUND, NOT_PARTICIPANT, INVALID_TRANSITION,
+-- STOP_NOT_FOUND, STOP_ALREADY_REACHED, STOP_OUT_OF_ORDER
+CREATE OR REPLACE FUNCTION public.mark_ride_stop_reached(p_ride_id uuid, p_position integer)
+RETURNS public.ride_stops
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  v_uid uuid := auth.uid();
+  v_ride public.rides;
+  v_stop public.ride_stops;
+BEGIN
+  IF v_uid IS NULL THEN
+    RAISE EXCEPTION 'NOT_AUTHENTICATED'
+      USING DETAIL = 'Usuário não autenticado';
+  END IF;
+
+  SELECT * INTO v_ride
+  FROM public.rides
+  WHERE id = p_ride_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'RIDE_NOT_FOUND'
+      USING DETAIL = format('Corrida %s não encontrada', p_ride_id);
+  END IF;
+
+  IF v_ride.driver_id IS DISTINCT FROM v_uid THEN
+    RAISE EXCEPTION 'NOT_PARTICIPANT'
+      USING DETAIL = 'Apenas o motorista da corrida pode marcar as paradas';
+  END IF;
+
+  IF v_ride.status <> 'in_progress' THEN
+    RAISE EXCEPTION 'INVALID_TRANSITION'
+      USING DETAIL = 'As paradas só podem ser marcadas durante a viagem';
+  END IF;
+
+  SELECT * INTO v_stop
+  FROM public.ride_stops
+  WHERE ride_id = p_ride_id AND position = p_position
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'STOP_NOT_FOUND'
+      USING DETAIL = format('Parada %s não encontrada', p_position);
+  END IF;
+
+  IF v_stop.reached_at IS NOT NULL THEN
+    RAISE EXCEPTION 'STOP_ALREADY_REACHED'
+      USING DETAIL = format('Parada %s já foi marcada', p_position);
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.ride_stops
+    WHERE ride_id = p_ride_id
+      AND position < p_position
+      AND reached_at IS NULL
+  ) THEN
+    RAISE EXCEPTION 'STOP_OUT_OF_ORDER'
+      USING DETAIL = 'Marque as paradas anteriores primeiro';
+  END IF;
+
+  UPDATE public.ride_stops
+  SET reached_at = now()
+  WHERE id = v_stop.id
+  RETURNING * INTO v_stop;
+
+  RETURN v_stop;
+END;
+$function$;
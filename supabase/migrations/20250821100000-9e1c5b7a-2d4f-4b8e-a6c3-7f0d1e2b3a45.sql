@@ -0,0 +1,125 @@
+-- Chat da corrida entre passageiro e motorista.
+-- Mensagens são enviadas e marcadas como lidas pelas RPCs; cada mensagem tem
+-- remetente e destinatário, então um motorista que assume a corrida depois de
+-- um cancelamento não vê a conversa do anterior. O chat fica bloqueado quando
+-- a corrida termina e as mensagens são mantidas para análise de disputas.
+
+-- 1. Mensagens
+CREATE TABLE public.ride_messages (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  ride_id UUID NOT NULL REFERENCES public.rides(id) ON DELETE CASCADE,
+  sender_id UUID NOT NULL REFERENCES auth.users(id),
+  recipient_id UUID NOT NULL REFERENCES auth.users(id),
+  body TEXT NOT NULL CHECK (char_length(btrim(body)) BETWEEN 1 AND 1000),
+  -- Resposta rápida usada, quando houver
+  template_key TEXT CHECK (template_key IS NULL OR char_length(template_key) <= 50),
+  read_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.ride_messages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Chat participants can view their messages"
+ON public.ride_messages
+FOR SELECT
+USING (sender_id = auth.uid() OR recipient_id = auth.uid());
+
+CREATE POLICY "Admins can view all ride messages"
+ON public.ride_messages
+FOR SELECT
+USING (public.get_current_user_role() = 'admin');
+
+CREATE INDEX idx_ride_messages_ride_id ON public.ride_messages(ride_id, created_at);
+CREATE INDEX idx_ride_messages_unread ON public.ride_messages(recipient_id, ride_id) WHERE read_at IS NULL;
+
+ALTER TABLE public.ride_messages REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.ride_messages;
+
+-- 2. Envio: só entre o passageiro e o motorista atual, com a corrida em andamento
+-- Erros: NOT_AUTHENTICATED, RIDE_NOT_FOUND, NOT_PARTICIPANT, CHAT_LOCKED, INVALID_MESSAGE
+CREATE OR REPLACE FUNCTION public.send_ride_message(
+  p_ride_id uuid,
+  p_body text,
+  p_template_key text DEFAULT NULL
+)
+RETURNS public.ride_messages
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  v_uid uuid := auth.uid();
+  v_ride public.rides;
+  v_recipient uuid;
+  v_body text := btrim(COALESCE(p_body, ''));
+  v_message public.ride_messages;
+BEGIN
+  IF v_uid IS NULL THEN
+    RAISE EXCEPTION 'NOT_AUTHENTICATED'
+      USING DETAIL = 'Usuário não autenticado';
+  END IF;
+
+  SELECT * INTO v_ride
+  FROM public.rides
+  WHERE id = p_ride_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'RIDE_NOT_FOUND'
+      USING DETAIL = format('Corrida %s não encontrada', p_ride_id);
+  END IF;
+
+  v_recipient := CASE
+    WHEN v_uid = v_ride.passenger_id THEN v_ride.driver_id
+    WHEN v_uid = v_ride.driver_id THEN v_ride.passenger_id
+  END;
+
+  IF v_uid <> v_ride.passenger_id AND v_uid IS DISTINCT FROM v_ride.driver_id THEN
+    RAISE EXCEPTION 'NOT_PARTICIPANT'
+      USING DETAIL = 'Usuário não participa desta corrida';
+  END IF;
+
+  IF v_recipient IS NULL
+    OR v_ride.status NOT IN ('accepted', 'driver_arriving', 'driver_arrived', 'in_progress') THEN
+    RAISE EXCEPTION 'CHAT_LOCKED'
+      USING DETAIL = format('O chat não está disponível para uma corrida %s', v_ride.status);
+  END IF;
+
+  IF char_length(v_body) NOT BETWEEN 1 AND 1000 THEN
+    RAISE EXCEPTION 'INVALID_MESSAGE'
+      USING DETAIL = 'A mensagem deve ter de 1 a 1000 caracteres';
+  END IF;
+
+  INSERT INTO public.ride_messages (ride_id, sender_id, recipient_id, body, template_key)
+  VALUES (p_ride_id, v_uid, v_recipient, v_body, NULLIF(btrim(COALESCE(p_template_key, '')), ''))
+  RETURNING * INTO v_message;
+
+  RETURN v_message;
+END;
+$function$;
+
+-- 3. Confirmação de leitura das mensagens recebidas na corrida
+CREATE OR REPLACE FUNCTION public.mark_ride_messages_read(p_ride_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  v_uid uuid := auth.uid();
+  v_count integer;
+BEGIN
+  IF v_uid IS NULL THEN
+    RAISE EXCEPTION 'NOT_AUTHENTICATED'
+      USING DETAIL = 'Usuário não autenticado';
+  END IF;
+
+  UPDATE public.ride_messages
+  SET read_at = now()
+  WHERE ride_id = p_ride_id
+    AND recipient_id = v_uid
+    AND read_at IS NULL;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$function$;
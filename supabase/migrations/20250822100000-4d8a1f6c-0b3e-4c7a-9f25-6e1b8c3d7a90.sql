@@ -0,0 +1,172 @@
+-- Contato por telefone mascarado entre passageiro e motorista.
+-- Ninguém recebe o número real da outra parte: a função ride-contact abre
+-- uma sessão no provedor de telefonia e devolve um número intermediário,
+-- amarrado à corrida por um token. Números reais continuam visíveis só para
+-- o próprio usuário e para admins (RLS de profiles). O contato termina
+-- contact_window_minutes depois que a corrida é concluída ou cancelada.
+
+-- 1. Janela de contato após o fim da corrida
+ALTER TABLE public.system_settings
+  ADD COLUMN IF NOT EXISTS contact_window_minutes INTEGER NOT NULL DEFAULT 30
+    CHECK (contact_window_minutes >= 0 AND contact_window_minutes <= 1440);
+
+-- 2. Sessões de contato. Só o servidor grava; cada usuário vê as suas
+CREATE TABLE public.ride_contact_sessions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  ride_id UUID NOT NULL REFERENCES public.rides(id) ON DELETE CASCADE,
+  requester_id UUID NOT NULL REFERENCES auth.users(id),
+  target_id UUID NOT NULL REFERENCES auth.users(id),
+  -- Identifica a sessão junto ao provedor, no lugar dos números reais
+  token UUID NOT NULL DEFAULT gen_random_uuid() UNIQUE,
+  provider TEXT NOT NULL,
+  provider_session_id TEXT,
+  proxy_number TEXT NOT NULL,
+  -- NULL enquanto a corrida está em andamento
+  expires_at TIMESTAMP WITH TIME ZONE,
+  closed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.ride_contact_sessions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own contact sessions"
+ON public.ride_contact_sessions
+FOR SELECT
+USING (requester_id = auth.uid());
+
+CREATE POLICY "Admins can view all contact sessions"
+ON public.ride_contact_sessions
+FOR SELECT
+USING (public.get_current_user_role() = 'admin');
+
+CREATE INDEX idx_ride_contact_sessions_ride_id ON public.ride_contact_sessions(ride_id);
+
+-- Uma sessão aberta por pessoa e corrida
+CREATE UNIQUE INDEX idx_ride_contact_sessions_open
+  ON public.ride_contact_sessions(ride_id, requester_id)
+  WHERE closed_at IS NULL;
+
+-- 3. Nova tarefa da fila: encerrar as sessões no provedor
+ALTER TABLE public.ride_jobs DROP CONSTRAINT IF EXISTS ride_jobs_job_type_check;
+ALTER TABLE public.ride_jobs
+  ADD CONSTRAINT ride_jobs_job_type_check
+    CHECK (job_type IN (
+      'ride_timeout', 'notification_expiry', 'dispatch_advance', 'redispatch', 'dispatch_retry',
+      'scheduled_dispatch', 'scheduled_reminder', 'contact_expiry'
+    ));
+
+-- 4. Quem pode falar com quem nesta corrida, e até quando.
+-- Devolve a outra parte e o fim do contato (NULL com a corrida em andamento).
+-- Erros: FORBIDDEN, RIDE_NOT_FOUND, NOT_PARTICIPANT, CONTACT_CLOSED
+CREATE OR REPLACE FUNCTION public.check_ride_contact(
+  p_ride_id uuid,
+  p_user_id uuid
+)
+RETURNS TABLE (target_id uuid, expires_at timestamp with time zone)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  v_ride public.rides;
+  v_target uuid;
+  v_window integer;
+  v_expires_at timestamp with time zone;
+BEGIN
+  IF COALESCE(auth.role(), '') <> 'service_role' THEN
+    RAISE EXCEPTION 'FORBIDDEN'
+      USING DETAIL = 'Apenas o servidor pode abrir contatos';
+  END IF;
+
+  SELECT * INTO v_ride
+  FROM public.rides
+  WHERE id = p_ride_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'RIDE_NOT_FOUND'
+      USING DETAIL = format('Corrida %s não encontrada', p_ride_id);
+  END IF;
+
+  IF v_ride.driver_id IS NULL
+    OR p_user_id NOT IN (v_ride.passenger_id, v_ride.driver_id) THEN
+    RAISE EXCEPTION 'NOT_PARTICIPANT'
+      USING DETAIL = 'Apenas o passageiro e o motorista da corrida podem se contatar';
+  END IF;
+
+  v_target := CASE WHEN p_user_id = v_ride.passenger_id THEN v_ride.driver_id ELSE v_ride.passenger_id END;
+
+  IF v_ride.status IN ('accepted', 'driver_arriving', 'driver_arrived', 'in_progress') THEN
+    RETURN QUERY SELECT v_target, NULL::timestamp with time zone;
+    RETURN;
+  END IF;
+
+  IF v_ride.status IN ('completed', 'cancelled') THEN
+    SELECT COALESCE(s.contact_window_minutes, 30) INTO v_window
+    FROM public.system_settings s
+    ORDER BY s.created_at DESC
+    LIMIT 1;
+
+    v_expires_at := COALESCE(v_ride.completed_at, v_ride.cancelled_at, v_ride.updated_at)
+      + make_interval(mins => COALESCE(v_window, 30));
+
+    IF v_expires_at > now() THEN
+      RETURN QUERY SELECT v_target, v_expires_at;
+      RETURN;
+    END IF;
+  END IF;
+
+  RAISE EXCEPTION 'CONTACT_CLOSED'
+    USING DETAIL = format('O contato não está disponível para a corrida %s (status %s)', p_ride_id, v_ride.status);
+END;
+$function$;
+
+-- 5. Fim da corrida ou troca de motorista: define o fim das sessões abertas
+-- e agenda o encerramento no provedor (tarefa contact_expiry)
+CREATE OR REPLACE FUNCTION public.sync_ride_contact_expiry()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  v_window integer;
+  v_expires_at timestamp with time zone;
+BEGIN
+  IF OLD.driver_id IS NOT NULL AND NEW.driver_id IS DISTINCT FROM OLD.driver_id THEN
+    -- O motorista anterior e o passageiro deixam de se falar na hora
+    v_expires_at := now();
+  ELSIF NEW.status IN ('completed', 'cancelled') AND NEW.status IS DISTINCT FROM OLD.status THEN
+    SELECT COALESCE(s.contact_window_minutes, 30) INTO v_window
+    FROM public.system_settings s
+    ORDER BY s.created_at DESC
+    LIMIT 1;
+
+    v_expires_at := now() + make_interval(mins => COALESCE(v_window, 30));
+  ELSE
+    RETURN NEW;
+  END IF;
+
+  UPDATE public.ride_contact_sessions
+  SET expires_at = v_expires_at
+  WHERE ride_id = NEW.id
+    AND closed_at IS NULL
+    AND (expires_at IS NULL OR expires_at > v_expires_at);
+
+  -- Sessões abertas depois do fim da corrida já nascem com este prazo,
+  -- então a tarefa é agendada mesmo sem nenhuma sessão aberta agora
+  IF FOUND OR NEW.status IN ('completed', 'cancelled') THEN
+    INSERT INTO public.ride_jobs (ride_id, job_type, run_at)
+    VALUES (NEW.id, 'contact_expiry', v_expires_at)
+    ON CONFLICT (ride_id, job_type) WHERE status = 'pending'
+    DO UPDATE SET run_at = LEAST(public.ride_jobs.run_at, EXCLUDED.run_at);
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+DROP TRIGGER IF EXISTS sync_ride_contact_expiry_trigger ON public.rides;
+CREATE TRIGGER sync_ride_contact_expiry_trigger
+  AFTER UPDATE OF status, driver_id ON public.rides
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_ride_contact_expiry();
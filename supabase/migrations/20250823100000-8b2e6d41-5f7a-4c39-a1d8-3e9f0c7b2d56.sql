@@ -0,0 +1,21 @@
+-- Posição do motorista ao vivo para o passageiro da corrida.
+-- Durante a corrida o motorista continua transmitindo a posição mesmo que
+-- não esteja marcado como online, então a política de motoristas online não
+-- basta: o passageiro passa a ver o motorista atribuído, e só enquanto a
+-- corrida está em andamento.
+
+CREATE POLICY "Passengers can follow their assigned driver"
+ON public.driver_locations
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.rides r
+    WHERE r.passenger_id = auth.uid()
+      AND r.driver_id = driver_locations.driver_id
+      AND r.status IN ('accepted', 'driver_arriving', 'driver_arrived', 'in_progress')
+  )
+);
+
+-- O passageiro busca a linha mais recente do motorista
+CREATE INDEX IF NOT EXISTS idx_driver_locations_driver_last_update
+  ON public.driver_locations(driver_id, last_update DESC);
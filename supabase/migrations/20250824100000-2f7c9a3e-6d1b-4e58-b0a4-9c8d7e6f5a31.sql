@@ -0,0 +1,166 @@
+-- Trajeto real da viagem e preço final pela distância percorrida.
+-- O app do motorista grava pontos de GPS em ride_tracks entre o início da
+-- viagem e o seu encerramento. Ao encerrar, a complete-ride filtra o ruído
+-- pela precisão de cada ponto, soma a distância e, se ela diferir da
+-- estimativa além do limite configurado, usa a distância gravada no preço.
+
+-- 1. Configuração do filtro e do limite
+ALTER TABLE public.system_settings
+  ADD COLUMN IF NOT EXISTS track_max_accuracy_m INTEGER NOT NULL DEFAULT 50
+    CHECK (track_max_accuracy_m >= 5 AND track_max_accuracy_m <= 500),
+  ADD COLUMN IF NOT EXISTS track_distance_threshold_percentage DECIMAL(5,2) NOT NULL DEFAULT 15
+    CHECK (track_distance_threshold_percentage >= 0 AND track_distance_threshold_percentage <= 100);
+
+-- 2. Distância gravada e qual distância entrou no preço final
+ALTER TABLE public.rides
+  ADD COLUMN IF NOT EXISTS tracked_distance_km DECIMAL(10,3),
+  ADD COLUMN IF NOT EXISTS fare_distance_source TEXT
+    CHECK (fare_distance_source IN ('estimate', 'tracked'));
+
+-- 3. Pontos do trajeto
+CREATE TABLE public.ride_tracks (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  ride_id UUID NOT NULL REFERENCES public.rides(id) ON DELETE CASCADE,
+  lat DECIMAL(10,8) NOT NULL,
+  lng DECIMAL(11,8) NOT NULL,
+  accuracy DECIMAL(8,2) CHECK (accuracy IS NULL OR accuracy >= 0),
+  speed DECIMAL(6,2),
+  heading DECIMAL(5,2),
+  recorded_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.ride_tracks ENABLE ROW LEVEL SECURITY;
+
+-- Só o motorista da corrida grava, e só com a viagem em andamento
+CREATE POLICY "Drivers can record the track of their trip"
+ON public.ride_tracks
+FOR INSERT
+WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM public.rides r
+    WHERE r.id = ride_tracks.ride_id
+      AND r.driver_id = auth.uid()
+      AND r.status = 'in_progress'
+      AND r.trip_ended_at IS NULL
+  )
+);
+
+CREATE POLICY "Ride participants can view the track"
+ON public.ride_tracks
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.rides r
+    WHERE r.id = ride_tracks.ride_id
+      AND (r.passenger_id = auth.uid() OR r.driver_id = auth.uid())
+  )
+);
+
+CREATE POLICY "Admins can view all ride tracks"
+ON public.ride_tracks
+FOR SELECT
+USING (public.get_current_user_role() = 'admin');
+
+CREATE INDEX idx_ride_tracks_ride_id ON public.ride_tracks(ride_id, recorded_at);
+
+-- Coordenadas fora do intervalo não entram no trajeto
+CREATE OR REPLACE FUNCTION public.validate_ride_track()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $function$
+BEGIN
+  IF NOT public.validate_coordinates(NEW.lat, NEW.lng) THEN
+    RAISE EXCEPTION 'Invalid ride track coordinates';
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+DROP TRIGGER IF EXISTS validate_ride_track_trigger ON public.ride_tracks;
+CREATE TRIGGER validate_ride_track_trigger
+  BEFORE INSERT ON public.ride_tracks
+  FOR EACH ROW
+  EXECUTE FUNCTION public.validate_ride_track();
+
+-- 4. Distância gravada e origem da distância do preço só mudam pelo servidor
+CREATE OR REPLACE FUNCTION public.guard_ride_status_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $function$
+BEGIN
+  IF COALESCE(auth.role(), '') = 'service_role'
+    OR current_setting('app.ride_transition', true) = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    RAISE EXCEPTION 'RIDE_CREATION_FORBIDDEN'
+      USING DETAIL = 'Corridas devem ser criadas pela função create-ride';
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status
+    OR NEW.driver_id IS DISTINCT FROM OLD.driver_id
+    OR NEW.accepted_at IS DISTINCT FROM OLD.accepted_at
+    OR NEW.driver_arriving_at IS DISTINCT FROM OLD.driver_arriving_at
+    OR NEW.pickup_arrived_at IS DISTINCT FROM OLD.pickup_arrived_at
+    OR NEW.started_at IS DISTINCT FROM OLD.started_at
+    OR NEW.completed_at IS DISTINCT FROM OLD.completed_at
+    OR NEW.cancelled_at IS DISTINCT FROM OLD.cancelled_at
+    OR NEW.expired_at IS DISTINCT FROM OLD.expired_at
+    OR NEW.cancelled_by IS DISTINCT FROM OLD.cancelled_by
+    OR NEW.cancellation_reason IS DISTINCT FROM OLD.cancellation_reason
+    OR NEW.cancellation_note IS DISTINCT FROM OLD.cancellation_note
+    OR NEW.cancellation_fee IS DISTINCT FROM OLD.cancellation_fee
+    OR NEW.redispatch_count IS DISTINCT FROM OLD.redispatch_count
+    OR NEW.dispatch_attempt IS DISTINCT FROM OLD.dispatch_attempt
+    OR NEW.dispatch_retry_round IS DISTINCT FROM OLD.dispatch_retry_round
+    OR NEW.dispatch_retry_started IS DISTINCT FROM OLD.dispatch_retry_started
+    OR NEW.search_prompt_expires_at IS DISTINCT FROM OLD.search_prompt_expires_at
+    OR NEW.scheduled_for IS DISTINCT FROM OLD.scheduled_for
+    OR NEW.preaccepted_at IS DISTINCT FROM OLD.preaccepted_at
+    OR NEW.driver_reminded_at IS DISTINCT FROM OLD.driver_reminded_at THEN
+    RAISE EXCEPTION 'INVALID_TRANSITION'
+      USING DETAIL = 'Use transition_ride_status() para alterar o status da corrida';
+  END IF;
+
+  IF NEW.estimated_price IS DISTINCT FROM OLD.estimated_price
+    OR NEW.estimated_fare_breakdown IS DISTINCT FROM OLD.estimated_fare_breakdown
+    OR NEW.final_price IS DISTINCT FROM OLD.final_price
+    OR NEW.final_fare_breakdown IS DISTINCT FROM OLD.final_fare_breakdown
+    OR NEW.surge_multiplier IS DISTINCT FROM OLD.surge_multiplier
+    OR NEW.service_zone_id IS DISTINCT FROM OLD.service_zone_id
+    OR NEW.distance_km IS DISTINCT FROM OLD.distance_km
+    OR NEW.estimated_duration_minutes IS DISTINCT FROM OLD.estimated_duration_minutes
+    OR NEW.requested_vehicle_type IS DISTINCT FROM OLD.requested_vehicle_type
+    OR NEW.trip_ended_at IS DISTINCT FROM OLD.trip_ended_at
+    OR NEW.tracked_distance_km IS DISTINCT FROM OLD.tracked_distance_km
+    OR NEW.fare_distance_source IS DISTINCT FROM OLD.fare_distance_source THEN
+    RAISE EXCEPTION 'PRICE_LOCKED'
+      USING DETAIL = 'O preço da corrida é definido pelo servidor';
+  END IF;
+
+  IF NEW.payment_method IS DISTINCT FROM OLD.payment_method
+    OR NEW.payment_status IS DISTINCT FROM OLD.payment_status THEN
+    RAISE EXCEPTION 'PAYMENT_LOCKED'
+      USING DETAIL = 'O pagamento da corrida é atualizado pelo servidor';
+  END IF;
+
+  IF NEW.passenger_rating IS DISTINCT FROM OLD.passenger_rating
+    OR NEW.passenger_comment IS DISTINCT FROM OLD.passenger_comment
+    OR NEW.passenger_rating_tags IS DISTINCT FROM OLD.passenger_rating_tags
+    OR NEW.passenger_rated_at IS DISTINCT FROM OLD.passenger_rated_at
+    OR NEW.driver_rating IS DISTINCT FROM OLD.driver_rating
+    OR NEW.driver_comment IS DISTINCT FROM OLD.driver_comment
+    OR NEW.driver_rating_tags IS DISTINCT FROM OLD.driver_rating_tags
+    OR NEW.driver_rated_at IS DISTINCT FROM OLD.driver_rated_at THEN
+    RAISE EXCEPTION 'RATING_LOCKED'
+      USING DETAIL = 'Use submit_ride_rating() para avaliar a corrida';
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
@@ -0,0 +1,429 @@
+-- Alertas de segurança durante a viagem.
+-- Enquanto a corrida está em andamento o ride-jobs-worker roda a tarefa
+-- safety_check a cada minuto: compara a posição do motorista com a rota
+-- planejada (Google Directions, via _shared/directions.ts), procura paradas longas
+-- fora das paradas previstas e viagens muito mais longas que a estimativa.
+-- Cada alerta pede ao passageiro que confirme que está bem; sem resposta no
+-- prazo, ou se ele pedir ajuda, o alerta vai para a fila de incidentes dos admins.
+
+-- 1. Configuração da detecção e do prazo de resposta
+ALTER TABLE public.system_settings
+  ADD COLUMN IF NOT EXISTS safety_route_deviation_m INTEGER NOT NULL DEFAULT 500
+    CHECK (safety_route_deviation_m >= 100 AND safety_route_deviation_m <= 5000),
+  ADD COLUMN IF NOT EXISTS safety_stop_minutes INTEGER NOT NULL DEFAULT 5
+    CHECK (safety_stop_minutes >= 1 AND safety_stop_minutes <= 60),
+  ADD COLUMN IF NOT EXISTS safety_overtime_percentage DECIMAL(6,2) NOT NULL DEFAULT 50
+    CHECK (safety_overtime_percentage >= 10 AND safety_overtime_percentage <= 500),
+  ADD COLUMN IF NOT EXISTS safety_response_seconds INTEGER NOT NULL DEFAULT 120
+    CHECK (safety_response_seconds >= 30 AND safety_response_seconds <= 900),
+  ADD COLUMN IF NOT EXISTS safety_alert_cooldown_minutes INTEGER NOT NULL DEFAULT 10
+    CHECK (safety_alert_cooldown_minutes >= 1 AND safety_alert_cooldown_minutes <= 120);
+
+-- 2. Rota planejada, gravada pelo worker na primeira verificação da viagem
+ALTER TABLE public.rides
+  ADD COLUMN IF NOT EXISTS planned_route_polyline TEXT;
+
+-- 3. Alertas
+CREATE TABLE public.ride_safety_alerts (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  ride_id UUID NOT NULL REFERENCES public.rides(id) ON DELETE CASCADE,
+  alert_type TEXT NOT NULL CHECK (alert_type IN ('route_deviation', 'long_stop', 'overtime')),
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'confirmed_safe', 'escalated', 'resolved')),
+  -- Medidas que dispararam o alerta (distância da rota, minutos parado...)
+  details JSONB NOT NULL DEFAULT '{}'::jsonb,
+  lat DECIMAL(10,8),
+  lng DECIMAL(11,8),
+  response_due_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  responded_at TIMESTAMP WITH TIME ZONE,
+  escalated_at TIMESTAMP WITH TIME ZONE,
+  escalation_reason TEXT CHECK (escalation_reason IN ('no_response', 'passenger_request')),
+  resolved_at TIMESTAMP WITH TIME ZONE,
+  resolved_by UUID REFERENCES auth.users(id),
+  resolution_note TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.ride_safety_alerts ENABLE ROW LEVEL SECURITY;
+
+-- O motorista não vê os alertas; o passageiro responde pela RPC
+CREATE POLICY "Passengers can view safety alerts of their rides"
+ON public.ride_safety_alerts
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.rides r
+    WHERE r.id = ride_safety_alerts.ride_id
+      AND r.passenger_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Admins can view all safety alerts"
+ON public.ride_safety_alerts
+FOR SELECT
+USING (public.get_current_user_role() = 'admin');
+
+CREATE INDEX idx_ride_safety_alerts_ride_id ON public.ride_safety_alerts(ride_id, created_at);
+CREATE INDEX idx_ride_safety_alerts_open ON public.ride_safety_alerts(status, created_at)
+  WHERE status IN ('pending', 'escalated');
+
+-- Um alerta aberto por tipo em cada corrida
+CREATE UNIQUE INDEX idx_ride_safety_alerts_open_type
+  ON public.ride_safety_alerts(ride_id, alert_type)
+  WHERE status IN ('pending', 'escalated');
+
+ALTER TABLE public.ride_safety_alerts REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.ride_safety_alerts;
+
+-- 4. Novas tarefas da fila: verificação periódica e escalonamento
+ALTER TABLE public.ride_jobs DROP CONSTRAINT IF EXISTS ride_jobs_job_type_check;
+ALTER TABLE public.ride_jobs
+  ADD CONSTRAINT ride_jobs_job_type_check
+    CHECK (job_type IN (
+      'ride_timeout', 'notification_expiry', 'dispatch_advance', 'redispatch', 'dispatch_retry',
+      'scheduled_dispatch', 'scheduled_reminder', 'contact_expiry', 'safety_check', 'safety_escalation'
+    ));
+
+-- Início da viagem: primeira verificação em um minuto
+CREATE OR REPLACE FUNCTION public.schedule_ride_safety_check()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+BEGIN
+  IF NEW.status = 'in_progress' AND NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO public.ride_jobs (ride_id, job_type, run_at)
+    VALUES (NEW.id, 'safety_check', now() + INTERVAL '1 minute')
+    ON CONFLICT (ride_id, job_type) WHERE status = 'pending'
+    DO NOTHING;
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+DROP TRIGGER IF EXISTS schedule_ride_safety_check_trigger ON public.rides;
+CREATE TRIGGER schedule_ride_safety_check_trigger
+  AFTER UPDATE OF status ON public.rides
+  FOR EACH ROW
+  EXECUTE FUNCTION public.schedule_ride_safety_check();
+
+-- 5. Abre um alerta e agenda o escalonamento. Chamado pelo ride-jobs-worker.
+-- Devolve NULL quando já há alerta aberto do tipo ou o passageiro confirmou
+-- que estava bem há menos de safety_alert_cooldown_minutes.
+CREATE OR REPLACE FUNCTION public.raise_ride_safety_alert(
+  p_ride_id uuid,
+  p_alert_type text,
+  p_details jsonb DEFAULT '{}'::jsonb,
+  p_lat numeric DEFAULT NULL,
+  p_lng numeric DEFAULT NULL
+)
+RETURNS public.ride_safety_alerts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  v_settings record;
+  v_alert public.ride_safety_alerts;
+BEGIN
+  IF COALESCE(auth.role(), '') <> 'service_role' THEN
+    RAISE EXCEPTION 'FORBIDDEN'
+      USING DETAIL = 'Apenas o servidor pode abrir alertas de segurança';
+  END IF;
+
+  SELECT
+    COALESCE(s.safety_response_seconds, 120) AS response_seconds,
+    COALESCE(s.safety_alert_cooldown_minutes, 10) AS cooldown_minutes
+  INTO v_settings
+  FROM public.system_settings s
+  ORDER BY s.created_at DESC
+  LIMIT 1;
+
+  IF EXISTS (
+    SELECT 1 FROM public.ride_safety_alerts
+    WHERE ride_id = p_ride_id
+      AND alert_type = p_alert_type
+      AND (
+        status IN ('pending', 'escalated')
+        OR (status = 'confirmed_safe'
+          AND responded_at > now() - make_interval(mins => COALESCE(v_settings.cooldown_minutes, 10)))
+      )
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.ride_safety_alerts (ride_id, alert_type, details, lat, lng, response_due_at)
+  VALUES (
+    p_ride_id,
+    p_alert_type,
+    COALESCE(p_details, '{}'::jsonb),
+    p_lat,
+    p_lng,
+    now() + make_interval(secs => COALESCE(v_settings.response_seconds, 120))
+  )
+  RETURNING * INTO v_alert;
+
+  INSERT INTO public.ride_jobs (ride_id, job_type, run_at)
+  VALUES (p_ride_id, 'safety_escalation', v_alert.response_due_at)
+  ON CONFLICT (ride_id, job_type) WHERE status = 'pending'
+  DO UPDATE SET run_at = LEAST(public.ride_jobs.run_at, EXCLUDED.run_at);
+
+  RETURN v_alert;
+END;
+$function$;
+
+-- 6. Alertas sem resposta no prazo vão para a fila dos admins.
+-- Se ainda houver alertas aguardando resposta, agenda a próxima passada.
+CREATE OR REPLACE FUNCTION public.escalate_ride_safety_alerts(p_ride_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  v_count integer;
+  v_next_due timestamp with time zone;
+BEGIN
+  IF COALESCE(auth.role(), '') <> 'service_role' THEN
+    RAISE EXCEPTION 'FORBIDDEN'
+      USING DETAIL = 'Apenas o servidor pode escalar alertas de segurança';
+  END IF;
+
+  UPDATE public.ride_safety_alerts
+  SET status = 'escalated',
+      escalated_at = now(),
+      escalation_reason = 'no_response'
+  WHERE ride_id = p_ride_id
+    AND status = 'pending'
+    AND response_due_at <= now();
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+
+  SELECT MIN(response_due_at) INTO v_next_due
+  FROM public.ride_safety_alerts
+  WHERE ride_id = p_ride_id
+    AND status = 'pending';
+
+  IF v_next_due IS NOT NULL THEN
+    INSERT INTO public.ride_jobs (ride_id, job_type, run_at)
+    VALUES (p_ride_id, 'safety_escalation', v_next_due)
+    ON CONFLICT (ride_id, job_type) WHERE status = 'pending'
+    DO UPDATE SET run_at = LEAST(public.ride_jobs.run_at, EXCLUDED.run_at);
+  END IF;
+
+  RETURN v_count;
+END;
+$function$;
+
+-- 7. Resposta do passageiro: está bem ou precisa de ajuda (escala na hora)
+-- Erros: NOT_AUTHENTICATED, ALERT_NOT_FOUND, NOT_PARTICIPANT, ALERT_CLOSED
+CREATE OR REPLACE FUNCTION public.respond_ride_safety_alert(p_alert_id uuid, p_safe boolean)
+RETURNS public.ride_safety_alerts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  v_uid uuid := auth.uid();
+  v_alert public.ride_safety_alerts;
+  v_passenger_id uuid;
+BEGIN
+  IF v_uid IS NULL THEN
+    RAISE EXCEPTION 'NOT_AUTHENTICATED'
+      USING DETAIL = 'Usuário não autenticado';
+  END IF;
+
+  SELECT * INTO v_alert
+  FROM public.ride_safety_alerts
+  WHERE id = p_alert_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'ALERT_NOT_FOUND'
+      USING DETAIL = format('Alerta %s não encontrado', p_alert_id);
+  END IF;
+
+  SELECT passenger_id INTO v_passenger_id
+  FROM public.rides
+  WHERE id = v_alert.ride_id;
+
+  IF v_passenger_id IS DISTINCT FROM v_uid THEN
+    RAISE EXCEPTION 'NOT_PARTICIPANT'
+      USING DETAIL = 'Apenas o passageiro responde aos alertas de segurança';
+  END IF;
+
+  -- Pedir ajuda continua valendo depois do prazo; confirmar que está bem, não
+  IF v_alert.status NOT IN ('pending', 'escalated')
+    OR (p_safe AND v_alert.status <> 'pending') THEN
+    RAISE EXCEPTION 'ALERT_CLOSED'
+      USING DETAIL = 'Este alerta já foi respondido ou encaminhado à central';
+  END IF;
+
+  IF p_safe THEN
+    UPDATE public.ride_safety_alerts
+    SET status = 'confirmed_safe',
+        responded_at = now()
+    WHERE id = p_alert_id
+    RETURNING * INTO v_alert;
+  ELSE
+    UPDATE public.ride_safety_alerts
+    SET status = 'escalated',
+        responded_at = now(),
+        escalated_at = COALESCE(escalated_at, now()),
+        escalation_reason = 'passenger_request'
+    WHERE id = p_alert_id
+    RETURNING * INTO v_alert;
+  END IF;
+
+  RETURN v_alert;
+END;
+$function$;
+
+-- 8. Admin encerra o incidente com uma anotação
+-- Erros: FORBIDDEN, ALERT_NOT_FOUND, ALERT_CLOSED
+CREATE OR REPLACE FUNCTION public.resolve_ride_safety_alert(p_alert_id uuid, p_note text DEFAULT NULL)
+RETURNS public.ride_safety_alerts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  v_alert public.ride_safety_alerts;
+BEGIN
+  IF COALESCE(public.get_current_user_role(), '') <> 'admin' THEN
+    RAISE EXCEPTION 'FORBIDDEN'
+      USING DETAIL = 'Apenas admins encerram incidentes de segurança';
+  END IF;
+
+  SELECT * INTO v_alert
+  FROM public.ride_safety_alerts
+  WHERE id = p_alert_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'ALERT_NOT_FOUND'
+      USING DETAIL = format('Alerta %s não encontrado', p_alert_id);
+  END IF;
+
+  IF v_alert.status NOT IN ('pending', 'escalated') THEN
+    RAISE EXCEPTION 'ALERT_CLOSED'
+      USING DETAIL = 'Este alerta já foi encerrado';
+  END IF;
+
+  UPDATE public.ride_safety_alerts
+  SET status = 'resolved',
+      resolved_at = now(),
+      resolved_by = auth.uid(),
+      resolution_note = NULLIF(btrim(COALESCE(p_note, '')), '')
+  WHERE id = p_alert_id
+  RETURNING * INTO v_alert;
+
+  RETURN v_alert;
+END;
+$function$;
+
+-- 9. Rota planejada só muda pelo servidor
+CREATE OR REPLACE FUNCTION public.guard_ride_status_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $function$
+BEGIN
+  IF COALESCE(auth.role(), '') = 'service_role'
+    OR current_setting('app.ride_transition', true) = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    RAISE EXCEPTION 'RIDE_CREATION_FORBIDDEN'
+      USING DETAIL = 'Corridas devem ser criadas pela função create-ride';
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status
+    OR NEW.driver_id IS DISTINCT FROM OLD.driver_id
+    OR NEW.accepted_at IS DISTINCT FROM OLD.accepted_at
+    OR NEW.driver_arriving_at IS DISTINCT FROM OLD.driver_arriving_at
+    OR NEW.pickup_arrived_at IS DISTINCT FROM OLD.pickup_arrived_at
+    OR NEW.started_at IS DISTINCT FROM OLD.started_at
+    OR NEW.completed_at IS DISTINCT FROM OLD.completed_at
+    OR NEW.cancelled_at IS DISTINCT FROM OLD.cancelled_at
+    OR NEW.expired_at IS DISTINCT FROM OLD.expired_at
+    OR NEW.cancelled_by IS DISTINCT FROM OLD.cancelled_by
+    OR NEW.cancellation_reason IS DISTINCT FROM OLD.cancellation_reason
+    OR NEW.cancellation_note IS DISTINCT FROM OLD.cancellation_note
+    OR NEW.cancellation_fee IS DISTINCT FROM OLD.cancellation_fee
+    OR NEW.redispatch_count IS DISTINCT FROM OLD.redispatch_count
+    OR NEW.dispatch_attempt IS DISTINCT FROM OLD.dispatch_attempt
+    OR NEW.dispatch_retry_round IS DISTINCT FROM OLD.dispatch_retry_round
+    OR NEW.dispatch_retry_started IS DISTINCT FROM OLD.dispatch_retry_started
+    OR NEW.search_prompt_expires_at IS DISTINCT FROM OLD.search_prompt_expires_at
+    OR NEW.scheduled_for IS DISTINCT FROM OLD.scheduled_for
+    OR NEW.preaccepted_at IS DISTINCT FROM OLD.preaccepted_at
+    OR NEW.driver_reminded_at IS DISTINCT FROM OLD.driver_reminded_at
+    OR NEW.planned_route_polyline IS DISTINCT FROM OLD.planned_route_polyline THEN
+    RAISE EXCEPTION 'INVALID_TRANSITION'
+      USING DETAIL = 'Use transition_ride_status() para alterar o status da corrida';
+  END IF;
+
+  IF NEW.estimated_price IS DISTINCT FROM OLD.estimated_price
+    OR NEW.estimated_fare_breakdown IS DISTINCT FROM OLD.estimated_fare_breakdown
+    OR NEW.final_price IS DISTINCT FROM OLD.final_price
+    OR NEW.final_fare_breakdown IS DISTINCT FROM OLD.final_fare_breakdown
+    OR NEW.surge_multiplier IS DISTINCT FROM OLD.surge_multiplier
+    OR NEW.service_zone_id IS DISTINCT FROM OLD.service_zone_id
+    OR NEW.distance_km IS DISTINCT FROM OLD.distance_km
+    OR NEW.estimated_duration_minutes IS DISTINCT FROM OLD.estimated_duration_minutes
+    OR NEW.requested_vehicle_type IS DISTINCT FROM OLD.requested_vehicle_type
+    OR NEW.trip_ended_at IS DISTINCT FROM OLD.trip_ended_at
+    OR NEW.tracked_distance_km IS DISTINCT FROM OLD.tracked_distance_km
+    OR NEW.fare_distance_source IS DISTINCT FROM OLD.fare_distance_source THEN
+    RAISE EXCEPTION 'PRICE_LOCKED'
+      USING DETAIL = 'O preço da corrida é definido pelo servidor';
+  END IF;
+
+  IF NEW.payment_method IS DISTINCT FROM OLD.payment_method
+    OR NEW.payment_status IS DISTINCT FROM OLD.payment_status THEN
+    RAISE EXCEPTION 'PAYMENT_LOCKED'
+      USING DETAIL = 'O pagamento da corrida é atualizado pelo servidor';
+  END IF;
+
+  IF NEW.passenger_rating IS DISTINCT FROM OLD.passenger_rating
+    OR NEW.passenger_comment IS DISTINCT FROM OLD.passenger_comment
+    OR NEW.passenger_rating_tags IS DISTINCT FROM OLD.passenger_rating_tags
+    OR NEW.passenger_rated_at IS DISTINCT FROM OLD.passenger_rated_at
+    OR NEW.driver_rating IS DISTINCT FROM OLD.driver_rating
+    OR NEW.driver_comment IS DISTINCT FROM OLD.driver_comment
+    OR NEW.driver_rating_tags IS DISTINCT FROM OLD.driver_rating_tags
+    OR NEW.driver_rated_at IS DISTINCT FROM OLD.driver_rated_at THEN
+    RAISE EXCEPTION 'RATING_LOCKED'
+      USING DETAIL = 'Use submit_ride_rating() para avaliar a corrida';
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+-- 10. Fim da corrida não cancela o escalonamento: um alerta aberto perto da
+-- conclusão ou do cancelamento ainda precisa chegar aos admins se o passageiro
+-- não responder
+CREATE OR REPLACE FUNCTION public.cancel_ride_jobs_on_status_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status AND NEW.status <> 'requested' THEN
+    UPDATE public.ride_jobs
+    SET status = 'cancelled',
+        result = jsonb_build_object('reason', 'ride_' || NEW.status)
+    WHERE ride_id = NEW.id
+      AND status = 'pending'
+      AND job_type <> 'safety_escalation';
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
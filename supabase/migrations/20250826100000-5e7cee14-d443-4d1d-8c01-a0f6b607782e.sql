@@ -0,0 +1,171 @@
+-- Uma execução do despacho por corrida de cada vez.
+-- O ride-queue-manager reserva a corrida antes de oferecer: duas chamadas
+-- simultâneas não podem ver a fila vazia e mandar a mesma corrida para dois
+-- motoristas. A reserva vence sozinha se a função cair no meio.
+
+-- 1. Reserva do despacho
+ALTER TABLE public.rides
+  ADD COLUMN IF NOT EXISTS dispatch_locked_until TIMESTAMP WITH TIME ZONE;
+
+-- 2. Reserva a corrida e, fora do avanço da fila, começa uma tentativa nova.
+-- p_mode: dispatch (despacho do zero), advance (próxima oferta da tentativa
+-- atual) ou retry (rodada extra agendada por schedule_dispatch_retry).
+-- Devolve NULL quando a corrida não está mais em requested ou quando não há
+-- rodada extra agendada que ainda não tenha rodado.
+-- Erros: FORBIDDEN, INVALID_DISPATCH_MODE, DISPATCH_IN_PROGRESS
+CREATE OR REPLACE FUNCTION public.begin_ride_dispatch(p_ride_id uuid, p_mode text)
+RETURNS public.rides
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  v_ride public.rides;
+BEGIN
+  IF COALESCE(auth.role(), '') <> 'service_role' THEN
+    RAISE EXCEPTION 'FORBIDDEN'
+      USING DETAIL = 'Apenas o servidor pode despachar corridas';
+  END IF;
+
+  IF p_mode IS NULL OR p_mode NOT IN ('dispatch', 'advance', 'retry') THEN
+    RAISE EXCEPTION 'INVALID_DISPATCH_MODE'
+      USING DETAIL = format('Modo de despacho %s desconhecido', p_mode);
+  END IF;
+
+  SELECT * INTO v_ride
+  FROM public.rides
+  WHERE id = p_ride_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_ride.status <> 'requested' THEN
+    RETURN NULL;
+  END IF;
+
+  IF v_ride.dispatch_locked_until > now() THEN
+    RAISE EXCEPTION 'DISPATCH_IN_PROGRESS'
+      USING DETAIL = format('A corrida %s já está sendo despachada', p_ride_id);
+  END IF;
+
+  -- Limite e espera das rodadas ficam com schedule_dispatch_retry
+  IF p_mode = 'retry' AND v_ride.dispatch_retry_started >= v_ride.dispatch_retry_round THEN
+    RETURN NULL;
+  END IF;
+
+  UPDATE public.rides
+  SET dispatch_locked_until = now() + INTERVAL '30 seconds',
+      dispatch_attempt = CASE WHEN p_mode = 'advance' THEN dispatch_attempt ELSE dispatch_attempt + 1 END,
+      dispatch_round = CASE WHEN p_mode = 'advance' THEN dispatch_round ELSE 0 END,
+      dispatch_retry_round = CASE WHEN p_mode = 'dispatch' THEN 0 ELSE dispatch_retry_round END,
+      dispatch_retry_started = CASE p_mode
+        WHEN 'dispatch' THEN 0
+        WHEN 'retry' THEN dispatch_retry_round
+        ELSE dispatch_retry_started
+      END,
+      search_prompt_expires_at = CASE WHEN p_mode = 'dispatch' THEN NULL ELSE search_prompt_expires_at END
+  WHERE id = p_ride_id
+  RETURNING * INTO v_ride;
+
+  RETURN v_ride;
+END;
+$function$;
+
+-- 3. Libera a reserva ao fim da execução
+CREATE OR REPLACE FUNCTION public.end_ride_dispatch(p_ride_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+BEGIN
+  IF COALESCE(auth.role(), '') <> 'service_role' THEN
+    RAISE EXCEPTION 'FORBIDDEN'
+      USING DETAIL = 'Apenas o servidor pode despachar corridas';
+  END IF;
+
+  UPDATE public.rides
+  SET dispatch_locked_until = NULL
+  WHERE id = p_ride_id;
+END;
+$function$;
+
+-- 4. A reserva só muda pelo servidor
+CREATE OR REPLACE FUNCTION public.guard_ride_status_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $function$
+BEGIN
+  IF COALESCE(auth.role(), '') = 'service_role'
+    OR current_setting('app.ride_transition', true) = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    RAISE EXCEPTION 'RIDE_CREATION_FORBIDDEN'
+      USING DETAIL = 'Corridas devem ser criadas pela função create-ride';
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status
+    OR NEW.driver_id IS DISTINCT FROM OLD.driver_id
+    OR NEW.accepted_at IS DISTINCT FROM OLD.accepted_at
+    OR NEW.driver_arriving_at IS DISTINCT FROM OLD.driver_arriving_at
+    OR NEW.pickup_arrived_at IS DISTINCT FROM OLD.pickup_arrived_at
+    OR NEW.started_at IS DISTINCT FROM OLD.started_at
+    OR NEW.completed_at IS DISTINCT FROM OLD.completed_at
+    OR NEW.cancelled_at IS DISTINCT FROM OLD.cancelled_at
+    OR NEW.expired_at IS DISTINCT FROM OLD.expired_at
+    OR NEW.cancelled_by IS DISTINCT FROM OLD.cancelled_by
+    OR NEW.cancellation_reason IS DISTINCT FROM OLD.cancellation_reason
+    OR NEW.cancellation_note IS DISTINCT FROM OLD.cancellation_note
+    OR NEW.cancellation_fee IS DISTINCT FROM OLD.cancellation_fee
+    OR NEW.redispatch_count IS DISTINCT FROM OLD.redispatch_count
+    OR NEW.dispatch_attempt IS DISTINCT FROM OLD.dispatch_attempt
+    OR NEW.dispatch_retry_round IS DISTINCT FROM OLD.dispatch_retry_round
+    OR NEW.dispatch_retry_started IS DISTINCT FROM OLD.dispatch_retry_started
+    OR NEW.dispatch_locked_until IS DISTINCT FROM OLD.dispatch_locked_until
+    OR NEW.search_prompt_expires_at IS DISTINCT FROM OLD.search_prompt_expires_at
+    OR NEW.scheduled_for IS DISTINCT FROM OLD.scheduled_for
+    OR NEW.preaccepted_at IS DISTINCT FROM OLD.preaccepted_at
+    OR NEW.driver_reminded_at IS DISTINCT FROM OLD.driver_reminded_at
+    OR NEW.planned_route_polyline IS DISTINCT FROM OLD.planned_route_polyline THEN
+    RAISE EXCEPTION 'INVALID_TRANSITION'
+      USING DETAIL = 'Use transition_ride_status() para alterar o status da corrida';
+  END IF;
+
+  IF NEW.estimated_price IS DISTINCT FROM OLD.estimated_price
+    OR NEW.estimated_fare_breakdown IS DISTINCT FROM OLD.estimated_fare_breakdown
+    OR NEW.final_price IS DISTINCT FROM OLD.final_price
+    OR NEW.final_fare_breakdown IS DISTINCT FROM OLD.final_fare_breakdown
+    OR NEW.surge_multiplier IS DISTINCT FROM OLD.surge_multiplier
+    OR NEW.service_zone_id IS DISTINCT FROM OLD.service_zone_id
+    OR NEW.distance_km IS DISTINCT FROM OLD.distance_km
+    OR NEW.estimated_duration_minutes IS DISTINCT FROM OLD.estimated_duration_minutes
+    OR NEW.requested_vehicle_type IS DISTINCT FROM OLD.requested_vehicle_type
+    OR NEW.trip_ended_at IS DISTINCT FROM OLD.trip_ended_at
+    OR NEW.tracked_distance_km IS DISTINCT FROM OLD.tracked_distance_km
+    OR NEW.fare_distance_source IS DISTINCT FROM OLD.fare_distance_source THEN
+    RAISE EXCEPTION 'PRICE_LOCKED'
+      USING DETAIL = 'O preço da corrida é definido pelo servidor';
+  END IF;
+
+  IF NEW.payment_method IS DISTINCT FROM OLD.payment_method
+    OR NEW.payment_status IS DISTINCT FROM OLD.payment_status THEN
+    RAISE EXCEPTION 'PAYMENT_LOCKED'
+      USING DETAIL = 'O pagamento da corrida é atualizado pelo servidor';
+  END IF;
+
+  IF NEW.passenger_rating IS DISTINCT FROM OLD.passenger_rating
+    OR NEW.passenger_comment IS DISTINCT FROM OLD.passenger_comment
+    OR NEW.passenger_rating_tags IS DISTINCT FROM OLD.passenger_rating_tags
+    OR NEW.passenger_rated_at IS DISTINCT FROM OLD.passenger_rated_at
+    OR NEW.driver_rating IS DISTINCT FROM OLD.driver_rating
+    OR NEW.driver_comment IS DISTINCT FROM OLD.driver_comment
+    OR NEW.driver_rating_tags IS DISTINCT FROM OLD.driver_rating_tags
+    OR NEW.driver_rated_at IS DISTINCT FROM OLD.driver_rated_at THEN
+    RAISE EXCEPTION 'RATING_LOCKED'
+      USING DETAIL = 'Use submit_ride_rating() para avaliar a corrida';
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;